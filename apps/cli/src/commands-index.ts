@@ -17,6 +17,7 @@ import deviceAppVersion from "./commands/deviceAppVersion";
 import deviceInfo from "./commands/deviceInfo";
 import deviceVersion from "./commands/deviceVersion";
 import discoverDevices from "./commands/discoverDevices";
+import discoveryReport from "./commands/discoveryReport";
 import envs from "./commands/envs";
 import estimateMaxSpendable from "./commands/estimateMaxSpendable";
 import exportAccounts from "./commands/exportAccounts";
@@ -30,11 +31,13 @@ import getBatteryStatus from "./commands/getBatteryStatus";
 import getDeviceRunningMode from "./commands/getDeviceRunningMode";
 import getTransactionStatus from "./commands/getTransactionStatus";
 import i18n from "./commands/i18n";
+import listUtxos from "./commands/listUtxos";
 import liveData from "./commands/liveData";
 import makeCompoundSummary from "./commands/makeCompoundSummary";
 import managerListApps from "./commands/managerListApps";
 import portfolio from "./commands/portfolio";
 import proxy from "./commands/proxy";
+import psbt from "./commands/psbt";
 import receive from "./commands/receive";
 import repl from "./commands/repl";
 import satstack from "./commands/satstack";
@@ -53,6 +56,7 @@ import synchronousOnboarding from "./commands/synchronousOnboarding";
 import testDetectOpCollision from "./commands/testDetectOpCollision";
 import testGetTrustedInputFromTxHash from "./commands/testGetTrustedInputFromTxHash";
 import user from "./commands/user";
+import verifyMessage from "./commands/verifyMessage";
 import version from "./commands/version";
 import walletconnect from "./commands/walletconnect";
 
@@ -76,6 +80,7 @@ export default {
   deviceInfo,
   deviceVersion,
   discoverDevices,
+  discoveryReport,
   envs,
   estimateMaxSpendable,
   exportAccounts,
@@ -89,11 +94,13 @@ export default {
   getDeviceRunningMode,
   getTransactionStatus,
   i18n,
+  listUtxos,
   liveData,
   makeCompoundSummary,
   managerListApps,
   portfolio,
   proxy,
+  psbt,
   receive,
   repl,
   satstack,
@@ -112,6 +119,7 @@ export default {
   testDetectOpCollision,
   testGetTrustedInputFromTxHash,
   user,
+  verifyMessage,
   version,
   walletconnect
 };
@@ -1,3 +1,4 @@
+import fs from "fs";
 import "lodash.product";
 // @ts-expect-error product is not inferred we need to extend lodash type
 import { product } from "lodash";
@@ -26,6 +27,12 @@ import {
   resolveTrackingPairs,
 } from "@ledgerhq/live-common/countervalues/logic";
 import CountervaluesAPI from "@ledgerhq/live-common/countervalues/api/index";
+import {
+  createStaticAPI,
+  parseRatesCSV,
+  parseRatesJSON,
+} from "@ledgerhq/live-common/countervalues/api/api.static";
+import { registerCountervaluesProvider } from "@ledgerhq/live-common/countervalues/api/providers";
 const histoFormatters = {
   stats: (histo, currency, countervalue) =>
     (currency.ticker + " to " + countervalue.ticker).padEnd(12) +
@@ -94,6 +101,7 @@ type Opts = Partial<{
   disableAutofillGaps: boolean;
   latest: boolean;
   startDate: string;
+  ratesFile: string;
 }>;
 export default {
   description: "Get the balance history for accounts",
@@ -159,6 +167,11 @@ export default {
       type: String,
       desk: "starting date for all time historical data. combine with -p all.",
     },
+    {
+      name: "ratesFile",
+      type: String,
+      desc: "a .csv (from,to,date,rate) or .json file of rates to use instead of the countervalues service",
+    },
   ],
   job: (opts: Opts) =>
     Observable.create((o) => {
@@ -168,7 +181,9 @@ export default {
         const format = histoFormatters[opts.format || "default"];
         const startDate = getStartDate(opts);
         const dates = getDatesWithOpts(opts);
+        const provider = getRatesFileProvider(opts);
         const cvs = await loadCountervalues(initialState, {
+          provider,
           trackingPairs: resolveTrackingPairs(
             product(currencies, countervalues).map(
               ([currency, countervalue]) => ({
@@ -226,6 +241,16 @@ export default {
     }),
 };
 
+function getRatesFileProvider(opts: Opts): string | undefined {
+  if (!opts.ratesFile) return;
+  const content = fs.readFileSync(opts.ratesFile, "utf8");
+  const rates = opts.ratesFile.endsWith(".json")
+    ? parseRatesJSON(content)
+    : parseRatesCSV(content);
+  registerCountervaluesProvider("file", createStaticAPI(rates));
+  return "file";
+}
+
 function asPortfolioRange(period: string): PortfolioRange {
   const ranges = getRanges();
   invariant(
@@ -0,0 +1,78 @@
+import { of } from "rxjs";
+import { concatMap, reduce, switchMap } from "rxjs/operators";
+import type { Account } from "@ledgerhq/types-live";
+import { getAccountUnit } from "@ledgerhq/live-common/account/index";
+import { getAccountBridge } from "@ledgerhq/live-common/bridge/index";
+import { formatCurrencyUnit } from "@ledgerhq/live-common/currencies/index";
+import {
+  getDiscoveryReport,
+  setGapLimit,
+} from "@ledgerhq/live-common/families/bitcoin/discovery";
+import { scan, scanCommonOpts } from "../scan";
+import type { ScanCommonOpts } from "../scan";
+export default {
+  description:
+    "List the addresses derived by the sync of a bitcoin-like account, with their path, usage and balance",
+  args: [
+    ...scanCommonOpts,
+    {
+      name: "gap",
+      type: Number,
+      desc: "gap limit of the address discovery, the account is synced again with it (default 20)",
+    },
+    {
+      name: "format",
+      alias: "f",
+      type: String,
+      typeDesc: "default | json",
+      desc: "how to display the data",
+    },
+  ],
+  job: (
+    opts: ScanCommonOpts & {
+      gap: number;
+      format: string;
+    }
+  ) =>
+    scan(opts).pipe(
+      concatMap((account) => {
+        if (account.currency.family !== "bitcoin") {
+          throw new Error(`${account.currency.name} has no address discovery`);
+        }
+        if (!opts.gap) return of(account);
+        const withGap = setGapLimit(account, opts.gap);
+        return getAccountBridge(withGap)
+          .sync(withGap, { paginationConfig: {} })
+          .pipe(
+            reduce((a: Account, f: (a: Account) => Account) => f(a), withGap)
+          );
+      }),
+      switchMap(async (account) => {
+        const { gapLimit, addresses } = await getDiscoveryReport(account);
+        if (opts.format === "json") {
+          return JSON.stringify({
+            gapLimit,
+            addresses: addresses.map((a) => ({
+              ...a,
+              balance: a.balance.toString(),
+            })),
+          });
+        }
+        const unit = getAccountUnit(account);
+        return [
+          `gap limit: ${gapLimit}`,
+          ...addresses.map((a) =>
+            [
+              a.path.padEnd(20),
+              a.address,
+              a.used ? "used  " : "unused",
+              formatCurrencyUnit(unit, a.balance, {
+                showCode: true,
+                disableRounding: true,
+              }),
+            ].join(" ")
+          ),
+        ].join("\n");
+      })
+    ),
+};
@@ -1,7 +1,24 @@
-import { of, interval } from "rxjs";
+import invariant from "invariant";
+import { of, interval, from } from "rxjs";
 import { reduce, mergeMap, shareReplay, tap } from "rxjs/operators";
 import { dataToFrames } from "qrloop";
 import { encode } from "@ledgerhq/live-common/cross";
+import {
+  createFountainEncoder,
+  dataToFountainFrames,
+} from "@ledgerhq/live-common/fountain/index";
+import { findCurrencyByTicker } from "@ledgerhq/live-common/currencies/index";
+import {
+  initialState,
+  loadCountervalues,
+  inferTrackingPairForAccounts,
+} from "@ledgerhq/live-common/countervalues/logic";
+import { exportColumns, ExportColumn } from "@ledgerhq/live-common/csvExport";
+import {
+  exportAccountsOperations,
+  operationsExportFormats,
+  OperationsExportFormat,
+} from "@ledgerhq/live-common/operationsExport";
 import { asQR } from "../qr";
 import { scan, scanCommonOpts } from "../scan";
 import type { ScanCommonOpts } from "../scan";
@@ -16,11 +33,56 @@ export default {
       type: Boolean,
       desc: "output to console",
     },
+    {
+      name: "fountain",
+      type: Boolean,
+      desc: "fountain code the frames, so the missed ones are recovered from the next ones",
+    },
+    {
+      name: "operations",
+      type: String,
+      typeDesc: operationsExportFormats.join(" | "),
+      desc: "output the operations of the accounts instead",
+    },
+    {
+      name: "columns",
+      type: String,
+      typeDesc: exportColumns.join(","),
+      desc: "the comma separated columns of the csv and jsonl operations",
+    },
+    {
+      name: "startDate",
+      type: String,
+      desc: "only the operations from this date",
+    },
+    {
+      name: "endDate",
+      type: String,
+      desc: "only the operations before this date",
+    },
+    {
+      name: "accountId",
+      type: String,
+      multiple: true,
+      desc: "only the operations of these accounts and their token accounts",
+    },
+    {
+      name: "countervalue",
+      type: String,
+      desc: "ticker of the currency of the countervalues of the operations",
+    },
   ],
   job: (
     opts: ScanCommonOpts &
       Partial<{
         out: boolean;
+        fountain: boolean;
+        operations: string;
+        columns: string;
+        startDate: string;
+        endDate: string;
+        accountId: string[];
+        countervalue: string;
       }>
   ) =>
     scan(opts).pipe(
@@ -29,6 +91,10 @@ export default {
         []
       ),
       mergeMap((accounts) => {
+        if (opts.operations) {
+          return from(exportOperations(accounts, opts.operations, opts));
+        }
+
         const data = encode({
           accounts,
           settings: {
@@ -38,6 +104,20 @@ export default {
           exporterName: "ledger-live-cli",
           exporterVersion: "0.0.0",
         });
+
+        if (opts.fountain) {
+          if (opts.out) {
+            return of(
+              Buffer.from(
+                JSON.stringify(dataToFountainFrames(data, 80))
+              ).toString("base64")
+            );
+          }
+
+          const { nextFrame } = createFountainEncoder(data, 80);
+          return interval(300).pipe(mergeMap(() => asQR(nextFrame())));
+        }
+
         const frames = dataToFrames(data, 80, 4);
 
         if (opts.out) {
@@ -51,6 +131,73 @@ export default {
           );
         }
       }),
-      tap(() => console.clear()) // eslint-disable-line no-console
+      tap(() => {
+        if (!opts.operations) console.clear(); // eslint-disable-line no-console
+      })
     ),
 };
+
+async function exportOperations(
+  accounts: Account[],
+  format: string,
+  opts: Partial<{
+    columns: string;
+    startDate: string;
+    endDate: string;
+    accountId: string[];
+    countervalue: string;
+  }>
+): Promise<string> {
+  invariant(
+    operationsExportFormats.includes(format as OperationsExportFormat),
+    "invalid format. valid values are %s",
+    operationsExportFormats.join(" | ")
+  );
+  const countervalue = opts.countervalue
+    ? findCurrencyByTicker(opts.countervalue)
+    : undefined;
+  invariant(
+    !opts.countervalue || countervalue,
+    "currency not found with ticker=" + opts.countervalue
+  );
+  const columns = opts.columns
+    ? (opts.columns.split(",") as ExportColumn[])
+    : undefined;
+  const unknownColumns = (columns || []).filter(
+    (c) => !exportColumns.includes(c)
+  );
+  invariant(
+    unknownColumns.length === 0,
+    "invalid columns %s. valid values are %s",
+    unknownColumns.join(","),
+    exportColumns.join(",")
+  );
+  const startDate = opts.startDate ? new Date(opts.startDate) : undefined;
+  invariant(
+    !startDate || !isNaN(startDate.getTime()),
+    "invalid startDate=" + opts.startDate
+  );
+  const endDate = opts.endDate ? new Date(opts.endDate) : undefined;
+  invariant(
+    !endDate || !isNaN(endDate.getTime()),
+    "invalid endDate=" + opts.endDate
+  );
+  const state = countervalue
+    ? await loadCountervalues(initialState, {
+        trackingPairs: inferTrackingPairForAccounts(accounts, countervalue),
+        autofillGaps: true,
+      })
+    : undefined;
+  return exportAccountsOperations(
+    format as OperationsExportFormat,
+    accounts,
+    countervalue,
+    state,
+    {
+      columns,
+      startDate,
+      endDate,
+      accountIds: opts.accountId,
+    }
+  );
+}
@@ -0,0 +1,102 @@
+import fs from "fs";
+import invariant from "invariant";
+import { map } from "rxjs/operators";
+import { getAccountUnit } from "@ledgerhq/live-common/account/index";
+import { formatCurrencyUnit } from "@ledgerhq/live-common/currencies/index";
+import { listUtxos } from "@ledgerhq/live-common/families/bitcoin/logic";
+import {
+  applyLabelsStore,
+  getLabelsByRef,
+  importBIP329,
+} from "@ledgerhq/live-common/labels/index";
+import type { BitcoinAccount } from "@ledgerhq/live-common/families/bitcoin/types";
+import { scan, scanCommonOpts } from "../scan";
+import type { ScanCommonOpts } from "../scan";
+export default {
+  description:
+    "List the unspent outputs of a bitcoin-like account, to use with send --includeUTXO",
+  args: [
+    ...scanCommonOpts,
+    {
+      name: "format",
+      alias: "f",
+      type: String,
+      typeDesc: "default | json",
+      desc: "how to display the data",
+    },
+    {
+      name: "labels",
+      type: String,
+      typeDesc: "filename",
+      desc: "BIP-329 JSONL file of the labels to show on the outputs",
+    },
+    {
+      name: "excludeUTXO",
+      alias: "E",
+      type: String,
+      multiple: true,
+      desc: "flag the utxos excluded by their txhash@index, as in send --excludeUTXO",
+    },
+  ],
+  job: (
+    opts: ScanCommonOpts & {
+      format: string;
+      labels: string;
+      excludeUTXO: string[];
+    }
+  ) =>
+    scan(opts).pipe(
+      map((scannedAccount) => {
+        if (scannedAccount.currency.family !== "bitcoin") {
+          throw new Error(`${scannedAccount.currency.name} has no utxos`);
+        }
+        const [account] = opts.labels
+          ? applyLabelsStore(
+              [scannedAccount],
+              importBIP329(
+                [scannedAccount],
+                fs.readFileSync(opts.labels, "utf8")
+              ).store
+            )
+          : [scannedAccount];
+        const excludeUTXOs = (opts.excludeUTXO || []).map((str) => {
+          const [hash, index] = str.split("@");
+          invariant(
+            hash && index && !isNaN(Number(index)),
+            "invalid format for --excludeUTXO, -E"
+          );
+          return { hash, outputIndex: parseInt(index, 10) };
+        });
+        const utxos = listUtxos(
+          account as BitcoinAccount,
+          getLabelsByRef(account, "output"),
+          excludeUTXOs
+        );
+        if (opts.format === "json") {
+          return JSON.stringify(
+            utxos.map((u) => ({ ...u, value: u.value.toString() }))
+          );
+        }
+        const unit = getAccountUnit(account);
+        return utxos
+          .map((u) =>
+            [
+              `${u.hash}@${u.outputIndex}`,
+              formatCurrencyUnit(unit, u.value, {
+                showCode: true,
+                disableRounding: true,
+              }).padEnd(20),
+              u.address,
+              u.path || "",
+              `${u.confirmations} confirmations`,
+              u.isChange ? "(change)" : "",
+              u.excluded ? "(excluded)" : "",
+              u.label ? `"${u.label}"` : "",
+            ]
+              .filter(Boolean)
+              .join(" ")
+          )
+          .join("\n");
+      })
+    ),
+};
@@ -6,6 +6,7 @@ import { reduce, concatMap, map } from "rxjs/operators";
 import type {
   Account,
   PortfolioRange,
+  PortfolioSnapshot,
 } from "@ledgerhq/types-live";
 import type {
   Currency
@@ -16,6 +17,11 @@ import {
 } from "@ledgerhq/live-common/account/index";
 import { getPortfolio } from "@ledgerhq/live-common/portfolio/v2/index";
 import { getRanges } from "@ledgerhq/live-common/portfolio/v2/range";
+import {
+  getPortfolioSnapshot,
+  portfolioSnapshotToCSV,
+  toPortfolioSnapshotRaw,
+} from "@ledgerhq/live-common/portfolio/v2/snapshot";
 import {
   formatCurrencyUnit,
   findCurrencyByTicker,
@@ -28,6 +34,50 @@ import {
   inferTrackingPairForAccounts,
 } from "@ledgerhq/live-common/countervalues/logic";
 
+function renderSnapshot(
+  snapshot: PortfolioSnapshot,
+  countervalue: Currency,
+  format = "default"
+): string {
+  switch (format) {
+    case "csv":
+      return portfolioSnapshotToCSV(snapshot, countervalue);
+
+    case "json":
+      return JSON.stringify(toPortfolioSnapshotRaw(snapshot, countervalue));
+
+    default: {
+      const unit = countervalue.units[0];
+      return (
+        snapshot.positions
+          .map(
+            ({ account, currency, amount, countervalue: value }) =>
+              getAccountName(account) +
+              ": " +
+              formatCurrencyUnit(currency.units[0], amount, {
+                showCode: true,
+                disableRounding: true,
+              }) +
+              (typeof value === "number"
+                ? " (" +
+                  formatCurrencyUnit(unit, new BigNumber(value), {
+                    showCode: true,
+                  }) +
+                  ")"
+                : "")
+          )
+          .join("\n") +
+        "\n\nTOTAL AT " +
+        snapshot.date.toISOString() +
+        ": " +
+        formatCurrencyUnit(unit, new BigNumber(snapshot.countervalue), {
+          showCode: true,
+        })
+      );
+    }
+  }
+}
+
 function asPortfolioRange(period: string): PortfolioRange {
   const ranges = getRanges();
   invariant(
@@ -59,6 +109,18 @@ export default {
       type: Boolean,
       desc: "if set, disable the autofill of gaps to evaluate the rates availability",
     },
+    {
+      name: "at",
+      type: String,
+      desc: "a date (e.g. 2025-12-31T23:59:00Z) to get the holdings of the accounts at, valued at the rates of that date",
+    },
+    {
+      name: "format",
+      alias: "f",
+      type: String,
+      typeDesc: "default | csv | json",
+      desc: "how to display the holdings of --at",
+    },
   ],
   job: (
     opts: Partial<
@@ -66,6 +128,8 @@ export default {
         disableAutofillGaps: boolean;
         countervalue: string;
         period: string;
+        at: string;
+        format: string;
       }
     >
   ) => {
@@ -74,6 +138,8 @@ export default {
       countervalue,
       "currency not found with ticker=" + opts.countervalue
     );
+    const at = opts.at ? new Date(opts.at) : null;
+    invariant(!at || !isNaN(at.getTime()), "invalid date " + opts.at);
     return scan(opts).pipe(
       reduce((all, a) => all.concat(a), [] as Account[]),
       concatMap((accounts) =>
@@ -82,11 +148,29 @@ export default {
             trackingPairs: inferTrackingPairForAccounts(
               accounts,
               countervalue as Currency
+            ).map((pair) =>
+              // the rates of the snapshot date are needed
+              at && (!pair.startDate || pair.startDate > at)
+                ? { ...pair, startDate: at }
+                : pair
             ),
             autofillGaps: !opts.disableAutofillGaps,
           })
         ).pipe(
           map((state) => {
+            if (at) {
+              return renderSnapshot(
+                getPortfolioSnapshot(
+                  accounts,
+                  at,
+                  state,
+                  countervalue as Currency
+                ),
+                countervalue as Currency,
+                opts.format
+              );
+            }
+
             const all = flattenAccounts(accounts);
             const period = asPortfolioRange(opts.period || "month");
             const unit = (countervalue as Currency).units[0];
@@ -0,0 +1,158 @@
+import fs from "fs";
+import { from, of, Observable } from "rxjs";
+import { map, mergeMap, reduce } from "rxjs/operators";
+import { withDevice } from "@ledgerhq/live-common/hw/deviceAccess";
+import { getAccountUnit } from "@ledgerhq/live-common/account/index";
+import { formatCurrencyUnit } from "@ledgerhq/live-common/currencies/index";
+import {
+  broadcastPsbt,
+  decodePsbt,
+  finalizePsbt,
+  parsePsbt,
+  serializePsbt,
+  signPsbt,
+} from "@ledgerhq/live-common/families/bitcoin/psbt";
+import type { DecodedPsbt } from "@ledgerhq/live-common/families/bitcoin/psbt";
+import type { Account } from "@ledgerhq/types-live";
+import { scan, scanCommonOpts } from "../scan";
+import type { ScanCommonOpts } from "../scan";
+import { fromFile } from "../stream";
+
+type PsbtJobOpts = ScanCommonOpts & {
+  action: string;
+  psbt: string;
+  walletHMAC: string;
+  format: string;
+};
+
+// the psbt is given inline, as a file, or on stdin with -
+const readPsbt = (psbt: string): Observable<string> => {
+  if (!psbt) {
+    throw new Error("--psbt is required");
+  }
+  if (psbt !== "-" && !fs.existsSync(psbt)) {
+    return of(psbt);
+  }
+  return fromFile(psbt).pipe(
+    reduce((acc, chunk) => acc + chunk.toString(), ""),
+    map((str) => str.trim())
+  );
+};
+
+const formatDecodedPsbt = (account: Account, decoded: DecodedPsbt): string => {
+  const unit = getAccountUnit(account);
+  const format = (value) =>
+    formatCurrencyUnit(unit, value, {
+      showCode: true,
+      disableRounding: true,
+    }).padEnd(20);
+  return [
+    `PSBT v${decoded.version}, tx version ${decoded.txVersion}, locktime ${decoded.locktime}`,
+    "Inputs:",
+    ...decoded.inputs.map((input) =>
+      [
+        `  ${input.txid}@${input.outputIndex}`,
+        input.value ? format(input.value) : "unknown amount".padEnd(20),
+        input.address || "",
+        input.isMine ? "(mine)" : "",
+        input.finalized ? "finalized" : `${input.signatures} signature(s)`,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    ),
+    "Outputs:",
+    ...decoded.outputs.map((output) =>
+      [
+        " ",
+        format(output.value),
+        output.address || "(no address)",
+        output.isChange ? "(change)" : output.isMine ? "(mine)" : "",
+      ]
+        .filter(Boolean)
+        .join(" ")
+    ),
+    `Fees: ${decoded.fee ? format(decoded.fee) : "unknown"}`,
+  ].join("\n");
+};
+
+export default {
+  description:
+    "Decode, sign with the device, finalize or broadcast a PSBT of a bitcoin-like account",
+  args: [
+    {
+      name: "action",
+      type: String,
+      defaultOption: true,
+      typeDesc: "decode | sign | finalize | broadcast",
+      desc: "what to do with the PSBT",
+    },
+    ...scanCommonOpts,
+    {
+      name: "psbt",
+      type: String,
+      typeDesc: "base64 | hex | filename | -",
+      desc: "the PSBT, version 0 or 2, or a file containing it (- for stdin)",
+    },
+    {
+      name: "walletHMAC",
+      type: String,
+      desc: "HMAC of the registered wallet policy, to sign for a multisig account",
+    },
+    {
+      name: "format",
+      alias: "f",
+      type: String,
+      typeDesc: "default | json",
+      desc: "how to display the decoded PSBT",
+    },
+  ],
+  job: (opts: PsbtJobOpts) =>
+    readPsbt(opts.psbt).pipe(
+      mergeMap((data) => {
+        switch (opts.action) {
+          case "finalize":
+            return of(finalizePsbt(parsePsbt(data)));
+
+          case "decode":
+            return scan(opts).pipe(
+              mergeMap((account) =>
+                from(decodePsbt(parsePsbt(data), account)).pipe(
+                  map((decoded) =>
+                    opts.format === "json"
+                      ? JSON.stringify(decoded)
+                      : formatDecodedPsbt(account, decoded)
+                  )
+                )
+              )
+            );
+
+          case "sign":
+            return scan(opts).pipe(
+              mergeMap((account) =>
+                withDevice(opts.device || "")((transport) =>
+                  from(
+                    signPsbt({
+                      transport,
+                      account,
+                      psbt: parsePsbt(data),
+                      walletHMAC: opts.walletHMAC,
+                    })
+                  )
+                )
+              ),
+              map(serializePsbt)
+            );
+
+          case "broadcast":
+            return scan(opts).pipe(
+              mergeMap((account) => from(broadcastPsbt(account, data)))
+            );
+
+          default:
+            throw new Error(
+              "action must be one of decode, sign, finalize, broadcast"
+            );
+        }
+      })
+    ),
+};
@@ -1,6 +1,12 @@
+import { concatMap, reduce } from "rxjs/operators";
+import type { Account } from "@ledgerhq/types-live";
 import { deviceOpt, currencyOpt } from "../scan";
+import { getAccountBridge } from "@ledgerhq/live-common/bridge/index";
 import { findCryptoCurrencyByKeyword } from "@ledgerhq/live-common/currencies/index";
+import { setEnv } from "@ledgerhq/live-common/env";
+import { checkGapLimit } from "@ledgerhq/live-common/families/bitcoin/discovery";
 import { scanDescriptors } from "@ledgerhq/live-common/families/bitcoin/descriptor";
+import { watchOnlyAccountFromDescriptor } from "@ledgerhq/live-common/families/bitcoin/watchOnly";
 
 function requiredCurrency(c) {
   if (!c) throw new Error("could not find currency");
@@ -9,15 +15,47 @@ function requiredCurrency(c) {
 
 export default {
   description: "Synchronize accounts with blockchain",
-  args: [deviceOpt, currencyOpt],
+  args: [
+    deviceOpt,
+    currencyOpt,
+    {
+      name: "gap",
+      type: Number,
+      desc: "sync each descriptor with this gap limit and show its balance",
+    },
+  ],
   job: (
     opts: Partial<{
       device: string;
       currency: string;
+      gap: number;
     }>
-  ) =>
-    scanDescriptors(
-      opts.device || "",
-      requiredCurrency(findCryptoCurrencyByKeyword(opts.currency || "bitcoin"))
-    ),
+  ) => {
+    const currency = requiredCurrency(
+      findCryptoCurrencyByKeyword(opts.currency || "bitcoin")
+    );
+    const descriptors = scanDescriptors(opts.device || "", currency);
+    if (!opts.gap) {
+      return descriptors;
+    }
+    checkGapLimit(opts.gap);
+    setEnv("BITCOIN_GAP_LIMIT", opts.gap);
+    return descriptors.pipe(
+      concatMap(async (descriptor) => {
+        const account = watchOnlyAccountFromDescriptor({
+          currency,
+          descriptor: descriptor.external,
+        });
+        const synced: Account = await getAccountBridge(account, null)
+          .sync(account, { paginationConfig: {} })
+          .pipe(reduce((a: Account, f: any) => f(a), account))
+          .toPromise();
+        return {
+          ...descriptor,
+          balance: synced.balance.toString(),
+          operationsCount: synced.operationsCount,
+        };
+      })
+    );
+  },
 };
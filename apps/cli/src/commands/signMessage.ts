@@ -1,8 +1,12 @@
 import fs from "fs";
-import { from } from "rxjs";
+import { concat, EMPTY, from, of } from "rxjs";
 import { mergeMap } from "rxjs/operators";
 import { withDevice } from "@ledgerhq/live-common/hw/deviceAccess";
 import signMessage from "@ledgerhq/live-common/hw/signMessage/index";
+import {
+  getEIP712MessageProperties,
+  parseEIP712Message,
+} from "@ledgerhq/live-common/families/ethereum/eip712";
 import { currencyOpt, inferCurrency } from "../scan";
 export default {
   description:
@@ -59,8 +63,19 @@ export default {
             break;
         }
 
-        return withDevice(arg.device || "")((t) =>
-          from(signMessage(t, { ...arg, currency }))
+        // the decoded fields of a typed message, to review before the device
+        const preview =
+          currency.family === "ethereum" && typeof arg.message === "object"
+            ? getEIP712MessageProperties(parseEIP712Message(arg.message))
+                .map(({ label, value }) => `${label}: ${value}`)
+                .join("\n")
+            : undefined;
+
+        return concat(
+          preview ? of(preview) : EMPTY,
+          withDevice(arg.device || "")((t) =>
+            from(signMessage(t, { ...arg, currency }))
+          )
         );
       })
     ),
@@ -5,6 +5,8 @@ import {
 } from "@ledgerhq/live-common/account/index";
 import { getCryptoCurrencyById } from "@ledgerhq/live-common/currencies/index";
 import { getCurrencyBridge } from "@ledgerhq/live-common/bridge/index";
+import { setEnv } from "@ledgerhq/live-common/env";
+import { checkGapLimit } from "@ledgerhq/live-common/families/bitcoin/discovery";
 import { scan, scanCommonOpts } from "../scan";
 import type { ScanCommonOpts } from "../scan";
 export default {
@@ -18,13 +20,23 @@ export default {
       typeDesc: Object.keys(accountFormatters).join(" | "),
       desc: "how to display the data",
     },
+    {
+      name: "gap",
+      type: Number,
+      desc: "gap limit of the address discovery of bitcoin accounts (default 20)",
+    },
   ],
   job: (
     opts: ScanCommonOpts & {
       format: string;
+      gap: number;
+    }
+  ) => {
+    if (opts.gap) {
+      checkGapLimit(opts.gap);
+      setEnv("BITCOIN_GAP_LIMIT", opts.gap);
     }
-  ) =>
-    scan(opts).pipe(
+    return scan(opts).pipe(
       switchMap(async (account) => {
         const { currencyId } = decodeAccountId(account.id);
         const currency = getCryptoCurrencyById(currencyId);
@@ -51,5 +63,6 @@ export default {
       map((account) =>
         (accountFormatters[opts.format] || accountFormatters.default)(account)
       )
-    ),
+    );
+  },
 };
@@ -0,0 +1,58 @@
+import fs from "fs";
+import { of } from "rxjs";
+import { verifyMessageSignature } from "@ledgerhq/live-common/families/ethereum/eip712";
+export default {
+  description:
+    "Verify offline the signature of a personal or EIP712 ethereum message",
+  args: [
+    {
+      name: "message",
+      type: String,
+      desc: "the signed message",
+    },
+    {
+      name: "parser",
+      type: String,
+      desc: "parser used for the message (String, JSON or File). Default: String",
+      default: "String",
+    },
+    {
+      name: "signature",
+      type: String,
+      desc: "the signature, as an hexadecimal string",
+    },
+    {
+      name: "address",
+      type: String,
+      desc: "the address expected to have signed the message",
+    },
+  ],
+  job: (arg: any) => {
+    if (!arg.message || !arg.signature || !arg.address) {
+      throw new Error("--message, --signature and --address are required");
+    }
+
+    let message;
+    switch (arg.parser?.toLowerCase()) {
+      case "object":
+      case "json":
+      case "json.parse":
+        message = JSON.parse(arg.message);
+        break;
+
+      case "file":
+        message = JSON.parse(fs.readFileSync(arg.message, "utf8"));
+        break;
+
+      case "string":
+      default:
+        message = arg.message.toString();
+        break;
+    }
+
+    if (!verifyMessageSignature(message, arg.signature, arg.address)) {
+      throw new Error("signature is invalid");
+    }
+    return of("signature is valid");
+  },
+};
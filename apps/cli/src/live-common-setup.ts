@@ -22,6 +22,7 @@ import { retry } from "@ledgerhq/live-common/promise";
 import { checkLibs } from "@ledgerhq/live-common/sanityChecks";
 import { closeAllSpeculosDevices } from "@ledgerhq/live-common/load/speculos";
 import { disconnectAll } from "@ledgerhq/live-common/api/index";
+import bitcoinWallet from "@ledgerhq/live-common/families/bitcoin/wallet-btc/index";
 
 checkLibs({
   NotEnoughBalance,
@@ -211,4 +212,5 @@ export function closeAllDevices() {
   Object.keys(cacheBle).forEach(disconnect);
   closeAllSpeculosDevices();
   disconnectAll();
+  bitcoinWallet.closeExplorers();
 }
@@ -44,6 +44,8 @@ import { withDevice } from "@ledgerhq/live-common/hw/deviceAccess";
 import { delay } from "@ledgerhq/live-common/promise";
 import { jsonFromFile } from "./stream";
 import { shortAddressPreview } from "@ledgerhq/live-common/account/helpers";
+import { watchOnlyAccountFromDescriptor } from "@ledgerhq/live-common/families/bitcoin/watchOnly";
+import { multisigAccountFromDescriptor } from "@ledgerhq/live-common/families/bitcoin/multisig";
 import fs from "fs";
 export const deviceOpt = {
   name: "device",
@@ -73,6 +75,7 @@ export type ScanCommonOpts = Partial<{
   device: string;
   id: string[];
   xpub: string[];
+  descriptor: string[];
   file: string;
   appjsonFile: string;
   currency: string;
@@ -89,6 +92,12 @@ export const scanCommonOpts = [
     desc: "use an xpub (alternatively to --device) [DEPRECATED: prefer use of id]",
     multiple: true,
   },
+  {
+    name: "descriptor",
+    type: String,
+    desc: "add a watch-only bitcoin account, or a wsh(sortedmulti(...)) multisig one, from an output descriptor (alternatively to --device)",
+    multiple: true,
+  },
   {
     name: "id",
     type: String,
@@ -159,6 +168,7 @@ export const inferCurrency = <
     file: string;
     xpub: string[];
     id: string[];
+    descriptor: string[];
   }
 >({
   device,
@@ -166,12 +176,13 @@ export const inferCurrency = <
   file,
   xpub,
   id,
+  descriptor,
 }: Partial<T>) => {
   if (currency) {
     return defer(() => of(findCryptoCurrencyByKeyword(currency)));
   }
 
-  if (file || xpub || id) {
+  if (file || xpub || id || descriptor) {
     return of(undefined);
   }
 
@@ -207,6 +218,7 @@ export function scan(arg: ScanCommonOpts): Observable<Account> {
     device,
     id: idArray,
     xpub: xpubArray,
+    descriptor: descriptorArray,
     file,
     appjsonFile,
     scheme,
@@ -261,6 +273,28 @@ export function scan(arg: ScanCommonOpts): Observable<Account> {
 
   return inferCurrency(arg).pipe(
     mergeMap((cur: CryptoCurrency | null | undefined) => {
+      if (descriptorArray) {
+        const currency = requiredCurrency(cur);
+        return from(
+          descriptorArray.map((descriptor) =>
+            descriptor.startsWith("wsh(")
+              ? multisigAccountFromDescriptor({ currency, descriptor })
+              : watchOnlyAccountFromDescriptor({
+                  currency,
+                  descriptor,
+                  derivationMode: scheme ? asDerivationMode(scheme) : undefined,
+                })
+          )
+        ).pipe(
+          prepareCurrency((a: Account) => a.currency),
+          concatMap((account: Account) =>
+            getAccountBridge(account, null)
+              .sync(account, syncConfig)
+              .pipe(reduce((a: Account, f: any) => f(a), account))
+          )
+        );
+      }
+
       let ids = idArray;
 
       if (xpubArray) {
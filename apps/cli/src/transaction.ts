@@ -16,6 +16,7 @@ import perFamily from "@ledgerhq/live-common/lib/generated/cli-transaction";
 import { getAccountCurrency } from "@ledgerhq/live-common/lib/account/helpers";
 import { parseCurrencyUnit } from "@ledgerhq/live-common/lib/currencies/parseCurrencyUnit";
 import { getAccountBridge } from "@ledgerhq/live-common/lib/bridge/index";
+import { resolveTransactionRecipient } from "@ledgerhq/live-common/lib/domain-service/index";
 
 const inferAmount = (account: AccountLike, str: string): BigNumber => {
   const currency = getAccountCurrency(account);
@@ -65,7 +66,7 @@ export const inferTransactionsOpts = uniqBy(
     {
       name: "recipient",
       type: String,
-      desc: "the address to send funds to",
+      desc: "the address, or a name like an ENS name, to send funds to",
       multiple: true,
     },
     {
@@ -166,7 +167,10 @@ export async function inferTransactions(
       inferTransactions(all, opts, {
         inferAmount,
       }).map(async (transaction) => {
-        const tx = await bridge.prepareTransaction(mainAccount, transaction);
+        const tx = await bridge.prepareTransaction(
+          mainAccount,
+          await resolveTransactionRecipient(mainAccount, transaction)
+        );
         const status = await bridge.getTransactionStatus(mainAccount, tx);
         const errorKeys = Object.keys(status.errors);
 
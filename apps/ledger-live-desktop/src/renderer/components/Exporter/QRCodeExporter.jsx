@@ -8,6 +8,8 @@ import styled from "styled-components";
 import { dataToFrames } from "qrloop";
 
 import { encode } from "@ledgerhq/live-common/cross";
+import { getEnv } from "@ledgerhq/live-common/env";
+import { dataToFountainFrames } from "@ledgerhq/live-common/fountain/index";
 
 import { activeAccountsSelector } from "~/renderer/reducers/accounts";
 import { exportSettingsSelector } from "~/renderer/reducers/settings";
@@ -58,7 +60,10 @@ class QRCodeExporter extends PureComponent<
       exporterVersion: __APP_VERSION__,
     });
 
-    this.chunks = dataToFrames(data, 160, 4);
+    // the mobile versions reading only qrloop frames can't import fountain ones
+    this.chunks = getEnv("EXPERIMENTAL_FOUNTAIN_EXPORT")
+      ? dataToFountainFrames(data, 160, 3)
+      : dataToFrames(data, 160, 4);
 
     setTimeout(() => {
       const BRIDGESTREAM_DATA = Buffer.from(JSON.stringify(this.chunks)).toString("base64");
@@ -121,6 +121,12 @@ export const developerFeatures: Feature[] = [
     title: i18n.t(i18nKeyDeveloper("experimentalApps", "title")),
     description: i18n.t(i18nKeyDeveloper("experimentalApps", "description")),
   },
+  {
+    type: "toggle",
+    name: "EXPERIMENTAL_FOUNTAIN_EXPORT",
+    title: i18n.t(i18nKeyDeveloper("fountainExport", "title")),
+    description: i18n.t(i18nKeyDeveloper("fountainExport", "description")),
+  },
   {
     type: "toggle",
     name: "USE_LEARN_STAGING_URL",
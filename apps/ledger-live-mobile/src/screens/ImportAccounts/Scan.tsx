@@ -6,6 +6,13 @@ import {
   areFramesComplete,
   progressOfFrames,
 } from "qrloop";
+import {
+  parseFountainFramesReducer,
+  fountainFramesToData,
+  areFountainFramesComplete,
+  progressOfFountainFrames,
+  isFountainFrame,
+} from "@ledgerhq/live-common/fountain/index";
 import {
   Result as ImportAccountsResult,
   decode,
@@ -48,16 +55,25 @@ class Scan extends PureComponent<
     const data = this.props.route.params?.data;
 
     if (data) {
-      const frames = data.reduce(parseFramesReducer, null);
+      if (data.length > 0 && data.every(isFountainFrame)) {
+        const frames = data.reduce(parseFountainFramesReducer, null);
+
+        if (areFountainFramesComplete(frames)) {
+          this.onResult(decode(fountainFramesToData(frames).toString()));
+        }
+      } else {
+        const frames = data.reduce(parseFramesReducer, null);
 
-      if (areFramesComplete(frames)) {
-        this.onResult(decode(framesToData(frames).toString()));
+        if (areFramesComplete(frames)) {
+          this.onResult(decode(framesToData(frames).toString()));
+        }
       }
     }
   }
 
   lastData: string | null | undefined = null;
   frames: ReturnType<typeof parseFramesReducer> = null;
+  fountainFrames: ReturnType<typeof parseFountainFramesReducer> | null = null;
   completed = false;
 
   onBarCodeRead = (data: string) => {
@@ -65,21 +81,25 @@ class Scan extends PureComponent<
       this.lastData = data;
 
       try {
-        this.frames = parseFramesReducer(this.frames, data);
-        this.setState({
-          progress: progressOfFrames(this.frames),
-        });
-
-        if (areFramesComplete(this.frames)) {
-          try {
-            this.onResult(decode(framesToData(this.frames).toString()));
-            this.completed = true;
-          } catch (error) {
-            this.frames = null;
-            this.setState({
-              error: error as Error,
-              progress: 0,
-            });
+        if (isFountainFrame(data)) {
+          const frames = parseFountainFramesReducer(this.fountainFrames, data);
+          this.fountainFrames = frames;
+          this.setState({
+            progress: progressOfFountainFrames(frames),
+          });
+
+          if (areFountainFramesComplete(frames)) {
+            this.onFramesComplete(() => fountainFramesToData(frames));
+          }
+        } else {
+          const frames = parseFramesReducer(this.frames, data);
+          this.frames = frames;
+          this.setState({
+            progress: progressOfFrames(frames),
+          });
+
+          if (areFramesComplete(frames)) {
+            this.onFramesComplete(() => framesToData(frames));
           }
         }
       } catch (e) {
@@ -87,6 +107,19 @@ class Scan extends PureComponent<
       }
     }
   };
+  onFramesComplete = (getData: () => Buffer) => {
+    try {
+      this.onResult(decode(getData().toString()));
+      this.completed = true;
+    } catch (error) {
+      this.frames = null;
+      this.fountainFrames = null;
+      this.setState({
+        error: error as Error,
+        progress: 0,
+      });
+    }
+  };
   onCloseError = () => {
     this.setState({
       error: null,
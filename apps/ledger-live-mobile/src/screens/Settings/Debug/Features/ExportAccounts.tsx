@@ -6,6 +6,8 @@ import VersionNumber from "react-native-version-number";
 import { Flex, Alert } from "@ledgerhq/native-ui";
 import { createStructuredSelector } from "reselect";
 import { encode, Settings } from "@ledgerhq/live-common/cross";
+import { getEnv } from "@ledgerhq/live-common/env";
+import { dataToFountainFrames } from "@ledgerhq/live-common/fountain/index";
 import { dataToFrames } from "qrloop";
 import { Account } from "@ledgerhq/types-live";
 import { accountsSelector } from "../../../../reducers/accounts";
@@ -40,7 +42,10 @@ class ExportAccounts extends PureComponent<
       exporterName: "mobile",
       exporterVersion: VersionNumber.appVersion || "",
     });
-    this.chunks = dataToFrames(data, 160, 4);
+    // the versions reading only qrloop frames can't import fountain ones
+    this.chunks = getEnv("EXPERIMENTAL_FOUNTAIN_EXPORT")
+      ? dataToFountainFrames(data, 160, 3)
+      : dataToFrames(data, 160, 4);
     const fps = 3;
 
     const animate = () => {
@@ -3,6 +3,7 @@ import { setEnv } from "../env";
 import { genAccount } from "../mock/account";
 import { getCryptoCurrencyById } from "../currencies";
 import { accountsOpToCSV } from "../csvExport";
+import { setLabel } from "../labels";
 import { initialState, loadCountervalues } from "../countervalues/logic";
 import { getFiatCurrencyByTicker } from "../currencies";
 setEnv("MOCK", "1");
@@ -25,5 +26,10 @@ test("export CSV", async () => {
       currency,
     })
   );
+  accounts[0] = setLabel(accounts[0], {
+    type: "tx",
+    ref: accounts[0].operations[0].hash,
+    label: "rent, march",
+  });
   expect(accountsOpToCSV(accounts, fiatCurrency, state)).toMatchSnapshot();
 });
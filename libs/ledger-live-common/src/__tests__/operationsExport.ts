@@ -0,0 +1,148 @@
+import "./test-helpers/staticTime";
+import { BigNumber } from "bignumber.js";
+import type { Account, Operation } from "@ledgerhq/types-live";
+import { getCryptoCurrencyById, getFiatCurrencyByTicker } from "../currencies";
+import { importCountervalues } from "../countervalues/logic";
+import { setLabel } from "../labels";
+import { accountsOpToCSV } from "../csvExport";
+import { exportAccountsOperations } from "../operationsExport";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const usd = getFiatCurrencyByTicker("USD");
+
+const state = importCountervalues(
+  {
+    status: {},
+    "BTC-USD": {
+      "2018-01-10": 10000,
+      "2018-02-10": 8000,
+      "2018-03-01": 9500,
+      latest: 9000,
+    },
+  },
+  { trackingPairs: [], autofillGaps: true }
+);
+
+const makeOperation = (
+  type: Operation["type"],
+  date: string,
+  value: number,
+  fee = 0
+): Operation => ({
+  id: `btc-${date}-${type}`,
+  hash: `hash${date}`,
+  type,
+  value: new BigNumber(value),
+  fee: new BigNumber(fee),
+  senders: ["bc1sender"],
+  recipients: ["bc1recipient"],
+  blockHash: null,
+  blockHeight: 100,
+  accountId: "btc",
+  date: new Date(`${date}T12:00:00Z`),
+  extra: {},
+});
+
+const account = setLabel(
+  {
+    type: "Account",
+    id: "btc",
+    name: "Savings",
+    xpub: "xpub123",
+    freshAddress: "bc1me",
+    currency: bitcoin,
+    balance: new BigNumber(0.5e8 - 1000),
+    operations: [
+      makeOperation("OUT", "2018-02-10", 0.5e8 + 1000, 1000),
+      makeOperation("IN", "2018-01-10", 1e8),
+    ],
+    subAccounts: [],
+  } as unknown as Account,
+  { type: "tx", ref: "hash2018-02-10", label: "rent" }
+);
+
+describe("operations export", () => {
+  it("should export the columns of the options and filter the dates", () => {
+    expect(
+      accountsOpToCSV([account], usd, state, {
+        columns: [
+          "operationId",
+          "counterparty",
+          "blockHeight",
+          "feesCountervalue",
+          "label",
+        ],
+        startDate: new Date("2018-02-01"),
+      }).split("\r\n")
+    ).toEqual([
+      "Operation Id,Counterparty Address,Block Height,Fees Countervalue at Operation Date,Operation Label",
+      "btc-2018-02-10-OUT,bc1recipient,100,0.08,rent",
+    ]);
+    expect(() =>
+      accountsOpToCSV([account], usd, state, {
+        columns: ["nope" as "label"],
+      })
+    ).toThrow("unknown export column nope");
+    // no operation of another account
+    expect(
+      accountsOpToCSV([account], usd, state, {
+        accountIds: ["other"],
+      }).split("\r\n")[1]
+    ).toBe("");
+  });
+
+  it("should export JSON Lines", () => {
+    expect(
+      exportAccountsOperations("jsonl", [account], usd, state, {
+        columns: ["type", "amount"],
+      }).split("\n")
+    ).toEqual([
+      JSON.stringify({ type: "OUT", amount: "0.50001" }),
+      JSON.stringify({ type: "IN", amount: "1" }),
+    ]);
+  });
+
+  it("should export a QIF and an OFX statement", () => {
+    expect(exportAccountsOperations("qif", [account]).split("\n")).toEqual([
+      "!Account",
+      "NSavings",
+      "TBank",
+      "^",
+      "!Type:Bank",
+      "D02/10/2018",
+      "T-0.50001",
+      "Pbc1recipient",
+      "Mrent",
+      "^",
+      "D01/10/2018",
+      "T1",
+      "Pbc1sender",
+      "MIN",
+      "^",
+    ]);
+    const ofx = exportAccountsOperations("ofx", [account], usd, state);
+    expect(ofx).toContain("<CURDEF>BTC");
+    expect(ofx).toContain(
+      [
+        "<STMTTRN>",
+        "<TRNTYPE>DEBIT",
+        "<DTPOSTED>20180210120000",
+        "<TRNAMT>-0.50001",
+        "<FITID>btc-2018-02-10-OUT",
+        "<NAME>bc1recipient",
+        "<MEMO>rent - 4000.08 USD",
+        "</STMTTRN>",
+      ].join("\n")
+    );
+  });
+
+  it("should export the Koinly layout with the fees apart", () => {
+    expect(
+      exportAccountsOperations("koinly", [account], usd, state).split("\r\n")
+    ).toEqual([
+      "Date,Sent Amount,Sent Currency,Received Amount,Received Currency,Fee Amount,Fee Currency,Net Worth Amount,Net Worth Currency,Label,Description,TxHash",
+      "2018-02-10 12:00:00 UTC,0.5,BTC,,,0.00001,BTC,4000.00,USD,,rent,hash2018-02-10",
+      "2018-01-10 12:00:00 UTC,,,1,BTC,,,10000.00,USD,,,hash2018-01-10",
+    ]);
+  });
+});
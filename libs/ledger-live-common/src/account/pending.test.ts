@@ -0,0 +1,80 @@
+import BigNumber from "bignumber.js";
+import type { Account, Operation } from "@ledgerhq/types-live";
+import {
+  addPendingOperation,
+  markReplacedPendingOperations,
+  shouldRetainPendingOperation,
+} from "./pending";
+
+const makeOperation = (
+  hash: string,
+  transactionSequenceNumber: number,
+  blockHeight: number | null = null
+): Operation => ({
+  id: `account-${hash}-OUT`,
+  hash,
+  type: "OUT",
+  value: new BigNumber(100),
+  fee: new BigNumber(10),
+  senders: ["0xSender"],
+  recipients: ["0xRecipient"],
+  blockHash: null,
+  blockHeight,
+  accountId: "account",
+  transactionSequenceNumber,
+  date: new Date(),
+  extra: {},
+});
+
+const account = {
+  id: "account",
+  operations: [],
+  pendingOperations: [],
+} as unknown as Account;
+
+describe("pending operations", () => {
+  it("should keep the operation a replacement replaces pending", () => {
+    const original = makeOperation("0xoriginal", 5);
+    const replacement = {
+      ...makeOperation("0xspeedup", 5),
+      replaces: "0xoriginal",
+    };
+    let a = addPendingOperation(account, original);
+    a = addPendingOperation(a, replacement);
+    expect(a.pendingOperations.map((op) => op.hash)).toEqual([
+      "0xspeedup",
+      "0xoriginal",
+    ]);
+    // a new operation with the same nonce is not a replacement
+    a = addPendingOperation(a, makeOperation("0xother", 5));
+    expect(a.pendingOperations.map((op) => op.hash)).toEqual(["0xother"]);
+  });
+
+  it("should mark the pending operations replaced by a confirmed one", () => {
+    const original = makeOperation("0xoriginal", 5);
+    const other = makeOperation("0xother", 6);
+    const confirmed = {
+      ...makeOperation("0xspeedup", 5, 100),
+      senders: ["0xsender"],
+    };
+    const [replaced, notReplaced] = markReplacedPendingOperations(
+      [original, other],
+      [confirmed]
+    );
+    expect(replaced.replacedBy).toBe("0xspeedup");
+    expect(notReplaced).toBe(other);
+    // kept, marked, even if its nonce is behind the confirmed one
+    expect(
+      shouldRetainPendingOperation(
+        { ...account, operations: [confirmed] },
+        replaced
+      )
+    ).toBe(true);
+    expect(
+      shouldRetainPendingOperation(
+        { ...account, operations: [confirmed] },
+        original
+      )
+    ).toBe(false);
+  });
+});
@@ -8,6 +8,11 @@ export function shouldRetainPendingOperation(
   const delay = new Date().valueOf() - op.date.valueOf();
   const last = account.operations[0];
 
+  // a replaced operation is kept, marked, until the end of the retention
+  if (op.replacedBy) {
+    return delay < getEnv("OPERATION_OPTIMISTIC_RETENTION");
+  }
+
   if (
     last &&
     last.transactionSequenceNumber &&
@@ -20,9 +25,40 @@ export function shouldRetainPendingOperation(
   return delay < getEnv("OPERATION_OPTIMISTIC_RETENTION");
 }
 
+const sameSender = (a: Operation, b: Operation) =>
+  a.senders.some((sender) =>
+    b.senders.some((s) => s.toLowerCase() === sender.toLowerCase())
+  );
+
+/**
+ * Mark the pending operations replaced by a confirmed operation: one sent from
+ * the same address, with the same sequence number, but another hash. It
+ * happens when a transaction is sped up or cancelled.
+ */
+export const markReplacedPendingOperations = (
+  pendingOperations: Operation[],
+  operations: Operation[]
+): Operation[] =>
+  pendingOperations.map((op) => {
+    if (op.replacedBy || op.transactionSequenceNumber === undefined) {
+      return op;
+    }
+    const replacing = operations.find(
+      (o) =>
+        o.transactionSequenceNumber === op.transactionSequenceNumber &&
+        o.hash !== op.hash &&
+        o.blockHeight &&
+        sameSender(o, op)
+    );
+    return replacing ? { ...op, replacedBy: replacing.hash } : op;
+  });
+
 const appendPendingOp = (ops: Operation[], op: Operation) => {
+  // the operations a replacement replaces stay pending, any of them can confirm
   const filtered: Operation[] = ops.filter(
-    (o) => o.transactionSequenceNumber !== op.transactionSequenceNumber
+    (o) =>
+      o.transactionSequenceNumber !== op.transactionSequenceNumber ||
+      (!!op.replaces && o.hash !== op.hash)
   );
   filtered.unshift(op);
   return filtered;
@@ -144,6 +144,8 @@ export const toOperationRaw = (
     transactionSequenceNumber,
     accountId,
     hasFailed,
+    replaces,
+    replacedBy,
     contract,
     operator,
     standard,
@@ -192,6 +194,14 @@ export const toOperationRaw = (
     copy.hasFailed = hasFailed;
   }
 
+  if (replaces) {
+    copy.replaces = replaces;
+  }
+
+  if (replacedBy) {
+    copy.replacedBy = replacedBy;
+  }
+
   if (subOperations && preserveSubOperation) {
     copy.subOperations = subOperations.map((o) => toOperationRaw(o));
   }
@@ -252,6 +262,8 @@ export const fromOperationRaw = (
     blockHash,
     transactionSequenceNumber,
     hasFailed,
+    replaces,
+    replacedBy,
     contract,
     operator,
     standard,
@@ -301,6 +313,14 @@ export const fromOperationRaw = (
     res.hasFailed = hasFailed;
   }
 
+  if (replaces) {
+    res.replaces = replaces;
+  }
+
+  if (replacedBy) {
+    res.replacedBy = replacedBy;
+  }
+
   if (subAccounts) {
     res.subOperations = inferSubOperations(hash, subAccounts);
   } else if (subOperations) {
@@ -712,6 +732,7 @@ export function fromAccountRaw(rawAccount: AccountRaw): Account {
     swapHistory,
     syncHash,
     nfts,
+    labels,
   } = rawAccount;
   const subAccounts =
     subAccountsRaw &&
@@ -889,6 +910,10 @@ export function fromAccountRaw(rawAccount: AccountRaw): Account {
     res.swapHistory = swapHistory.map(fromSwapOperationRaw);
   }
 
+  if (labels) {
+    res.labels = labels;
+  }
+
   return res;
 }
 export function toAccountRaw(account: Account): AccountRaw {
@@ -920,6 +945,7 @@ export function toAccountRaw(account: Account): AccountRaw {
     swapHistory,
     syncHash,
     nfts,
+    labels,
   } = account;
 
   const res: AccountRaw = {
@@ -1085,6 +1111,10 @@ export function toAccountRaw(account: Account): AccountRaw {
     res.swapHistory = swapHistory.map(toSwapOperationRaw);
   }
 
+  if (labels && labels.length > 0) {
+    res.labels = labels;
+  }
+
   return res;
 }
 
@@ -30,6 +30,8 @@ export type Tx = {
   gas_price: BigNumber;
   from: string;
   to: string;
+  // the call data of the transaction
+  input?: string;
   cumulative_gas_used?: BigNumber;
   gas_used?: BigNumber;
   transfer_events?: {
@@ -147,7 +149,24 @@ export type API = {
     next_base: BigNumber;
   }>;
   getBlockByHash: (blockHash: string) => Promise<BlockByHashOutput | undefined>;
+  // read-only call of a contract on the node of the currency
+  call: (to: string, data: string) => Promise<string>;
 };
+
+/**
+ * The JSON-RPC node configured for a currency in API_ETHEREUM_NODES, if any
+ */
+export const getEthereumNode = (
+  currency: CryptoCurrency
+): string | undefined => {
+  const nodes = getEnv("API_ETHEREUM_NODES");
+  const node =
+    nodes && typeof nodes === "object" && !Array.isArray(nodes)
+      ? nodes[currency.id]
+      : undefined;
+  return typeof node === "string" ? node : undefined;
+};
+
 export const apiForCurrency = (currency: CryptoCurrency): API => {
   const baseURL = blockchainBaseURL(currency);
 
@@ -357,5 +376,35 @@ export const apiForCurrency = (currency: CryptoCurrency): API => {
         return undefined;
       }
     },
+
+    async call(to, data) {
+      const node = getEthereumNode(currency);
+
+      if (!node) {
+        throw new LedgerAPINotAvailable(
+          `LedgerAPINotAvailable ${currency.id}`,
+          {
+            currencyName: currency.name,
+          }
+        );
+      }
+
+      const { data: response } = await network({
+        method: "POST",
+        url: node,
+        data: {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "eth_call",
+          params: [{ to, data }, "latest"],
+        },
+      });
+
+      if (response.error) {
+        throw new Error(`eth_call failed: ${response.error.message}`);
+      }
+
+      return response.result;
+    },
   };
 };
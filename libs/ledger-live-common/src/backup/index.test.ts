@@ -0,0 +1,130 @@
+import { genAccount } from "../mock/account";
+import { accountToAccountData } from "../cross";
+import { toAccountRaw } from "../account/serialization";
+import {
+  BackupVersionNotSupported,
+  BackupWrongPassphrase,
+  InvalidBackup,
+} from "../errors";
+import {
+  backupIterations,
+  backupVersion,
+  decodeBackup,
+  encodeBackup,
+  encryptBackup,
+  migrateBackup,
+} from ".";
+
+const accounts = Array(3)
+  .fill(null)
+  .map((_, i) => ({
+    ...genAccount("backup_" + i, { operationsSize: 10, swapHistorySize: 2 }),
+    name: "My account " + i,
+    starred: i === 0,
+    labels: [{ type: "tx" as const, ref: "hash" + i, label: "rent" }],
+  }));
+
+// the fewest iterations accepted keep the tests fast
+const options = { iterations: backupIterations.min };
+
+const data = {
+  accounts,
+  settings: {
+    counterValue: "EUR",
+    pairExchanges: { BTC_EUR: "KRAKEN" },
+    currenciesSettings: { bitcoin: { confirmationsNb: 3 } },
+  },
+  countervalues: { provider: "static" },
+  preferences: { theme: "dark" },
+  exporterName: "test",
+  exporterVersion: "0.0.0",
+};
+
+describe("backup", () => {
+  it("should restore what was backed up", async () => {
+    const backup = await decodeBackup(
+      await encodeBackup(data, "passphrase", options),
+      "passphrase"
+    );
+
+    expect(backup.version).toBe(backupVersion);
+    expect(backup.meta.exporterName).toBe("test");
+    expect(backup.accounts.map((a) => toAccountRaw(a).operations)).toEqual(
+      accounts.map((a) => toAccountRaw(a).operations)
+    );
+    expect(backup.accounts[0]).toMatchObject({
+      name: "My account 0",
+      starred: true,
+      labels: [{ type: "tx", ref: "hash0", label: "rent" }],
+    });
+    expect(backup.accounts[1].swapHistory).toHaveLength(2);
+    expect(backup.settings).toEqual(data.settings);
+    expect(backup.countervalues).toEqual({ provider: "static" });
+    expect(backup.preferences).toEqual({ theme: "dark" });
+  });
+
+  it("should not be readable without the passphrase", async () => {
+    const encoded = await encodeBackup(data, "passphrase", options);
+
+    expect(encoded).not.toContain("My account");
+    await expect(decodeBackup(encoded, "wrong")).rejects.toThrow(
+      BackupWrongPassphrase
+    );
+  });
+
+  it("should reject altered or unknown backups", async () => {
+    const envelope = JSON.parse(
+      await encodeBackup(data, "passphrase", options)
+    );
+
+    await expect(decodeBackup("not a backup", "passphrase")).rejects.toThrow(
+      InvalidBackup
+    );
+    await expect(
+      decodeBackup(
+        JSON.stringify({ ...envelope, ciphertext: "A" + envelope.ciphertext }),
+        "passphrase"
+      )
+    ).rejects.toThrow(BackupWrongPassphrase);
+    await expect(
+      decodeBackup(
+        JSON.stringify({ ...envelope, version: backupVersion + 1 }),
+        "passphrase"
+      )
+    ).rejects.toThrow(BackupVersionNotSupported);
+
+    for (const iterations of [1, backupIterations.max + 1, "600000"]) {
+      await expect(
+        decodeBackup(
+          JSON.stringify({ ...envelope, kdf: { ...envelope.kdf, iterations } }),
+          "passphrase"
+        )
+      ).rejects.toThrow(InvalidBackup);
+    }
+  });
+
+  it("should migrate the backups of the first version", async () => {
+    const payload = {
+      version: 1 as const,
+      meta: { exporterName: "desktop", exporterVersion: "2.0.0" },
+      accounts: accounts.map(accountToAccountData),
+      settings: data.settings,
+    };
+
+    expect(migrateBackup(payload)).toMatchObject({
+      version: backupVersion,
+      countervalues: {},
+      preferences: {},
+    });
+
+    const backup = await decodeBackup(
+      await encryptBackup(payload, "passphrase", options),
+      "passphrase"
+    );
+
+    expect(backup.version).toBe(1);
+    expect(backup.accounts.map((a) => [a.id, a.name, a.labels])).toEqual(
+      accounts.map((a) => [a.id, a.name, a.labels])
+    );
+  });
+});
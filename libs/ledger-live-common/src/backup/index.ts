@@ -0,0 +1,350 @@
+// backup helps moving the whole state of the accounts to another install,
+// encrypted with a passphrase of the user
+import { pbkdf2 } from "crypto";
+import CryptoJS from "crypto-js";
+import { accountDataToAccount, asResultSettings } from "../cross";
+import { fromAccountRaw, toAccountRaw } from "../account/serialization";
+import {
+  BackupVersionNotSupported,
+  BackupWrongPassphrase,
+  InvalidBackup,
+} from "../errors";
+import type {
+  Backup,
+  BackupDataIn,
+  BackupEnvelope,
+  BackupPayload,
+  BackupPayloadV1,
+  BackupPayloadV2,
+  CurrentBackupPayload,
+} from "./types";
+
+export * from "./types";
+
+export const backupVersion: CurrentBackupPayload["version"] = 2;
+
+// the PBKDF2 iterations of the backups, and the bounds of the ones accepted
+// from a file: too few make the passphrase easy to guess, too many hang the app
+export const backupIterations = {
+  default: 600000,
+  min: 100000,
+  max: 10000000,
+};
+
+type WordArray = ReturnType<typeof CryptoJS.lib.WordArray.create>;
+
+/**
+ * Derive a key of keyLength bytes from the passphrase with PBKDF2-SHA256.
+ * The default uses the async pbkdf2 of node, which does not block the UI.
+ */
+export type BackupKeyDerivation = (
+  passphrase: string,
+  salt: Buffer,
+  iterations: number,
+  keyLength: number
+) => Promise<Buffer>;
+
+let keyDerivation: BackupKeyDerivation = (
+  passphrase,
+  salt,
+  iterations,
+  keyLength
+) =>
+  new Promise((resolve, reject) =>
+    pbkdf2(passphrase, salt, iterations, keyLength, "sha256", (err, key) =>
+      err ? reject(err) : resolve(key)
+    )
+  );
+
+/**
+ * allows to override the key derivation of the backups, with a native one
+ */
+export function setBackupKeyDerivation(override: BackupKeyDerivation): void {
+  keyDerivation = override;
+}
+
+// upgrade a payload of a version to the next one
+const migrations: {
+  1: (payload: BackupPayloadV1) => BackupPayloadV2;
+} = {
+  1: ({ meta, accounts, settings }) => ({
+    version: 2,
+    meta,
+    accounts: accounts.map((data) => toAccountRaw(accountDataToAccount(data))),
+    settings,
+    countervalues: {},
+    preferences: {},
+  }),
+};
+
+/**
+ * Upgrade a payload of any known version to the current one. The data of the
+ * accounts export to mobile can be restored as a version 1 payload.
+ */
+export function migrateBackup(payload: BackupPayload): CurrentBackupPayload {
+  if (typeof payload !== "object" || !payload) {
+    throw new InvalidBackup("invalid backup payload");
+  }
+
+  let migrated: BackupPayload = payload;
+
+  while (migrated.version !== backupVersion) {
+    const migrate = migrations[migrated.version];
+
+    if (!migrate) {
+      throw new BackupVersionNotSupported(
+        `backup version ${migrated.version} is not supported`
+      );
+    }
+
+    migrated = migrate(migrated);
+  }
+
+  return migrated;
+}
+
+const validIterations = (iterations: unknown): iterations is number =>
+  typeof iterations === "number" &&
+  Number.isInteger(iterations) &&
+  iterations >= backupIterations.min &&
+  iterations <= backupIterations.max;
+
+const deriveKeys = async (
+  passphrase: string,
+  salt: WordArray,
+  iterations: number
+) => {
+  const key = await keyDerivation(
+    passphrase,
+    Buffer.from(salt.toString(CryptoJS.enc.Hex), "hex"),
+    iterations,
+    64
+  );
+  const { words } = CryptoJS.enc.Hex.parse(key.toString("hex"));
+  return {
+    encryptionKey: CryptoJS.lib.WordArray.create(words.slice(0, 8)),
+    macKey: CryptoJS.lib.WordArray.create(words.slice(8, 16)),
+  };
+};
+
+const computeMac = (
+  iv: WordArray,
+  ciphertext: WordArray,
+  macKey: WordArray
+): string =>
+  CryptoJS.HmacSHA256(iv.clone().concat(ciphertext), macKey).toString(
+    CryptoJS.enc.Hex
+  );
+
+// compare without leaking where the strings differ
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+};
+
+/**
+ * Encrypt a payload with a passphrase into the content of a backup file
+ */
+export async function encryptBackup(
+  payload: BackupPayload,
+  passphrase: string,
+  { iterations = backupIterations.default }: { iterations?: number } = {}
+): Promise<string> {
+  if (!validIterations(iterations)) {
+    throw new Error(
+      `backup iterations must be between ${backupIterations.min} and ${backupIterations.max}`
+    );
+  }
+
+  const salt = CryptoJS.lib.WordArray.random(16);
+  const iv = CryptoJS.lib.WordArray.random(16);
+  const { encryptionKey, macKey } = await deriveKeys(
+    passphrase,
+    salt,
+    iterations
+  );
+  const { ciphertext } = CryptoJS.AES.encrypt(
+    CryptoJS.enc.Utf8.parse(JSON.stringify(payload)),
+    encryptionKey,
+    {
+      iv,
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    }
+  );
+  const envelope: BackupEnvelope = {
+    type: "ledger-live-backup",
+    version: payload.version,
+    kdf: {
+      name: "PBKDF2-SHA256",
+      iterations,
+      salt: salt.toString(CryptoJS.enc.Hex),
+    },
+    cipher: "AES-256-CBC",
+    iv: iv.toString(CryptoJS.enc.Hex),
+    ciphertext: ciphertext.toString(CryptoJS.enc.Base64),
+    mac: computeMac(iv, ciphertext, macKey),
+  };
+  return JSON.stringify(envelope);
+}
+
+const asEnvelope = (data: string): BackupEnvelope => {
+  let unsafe;
+
+  try {
+    unsafe = JSON.parse(data);
+  } catch (e) {
+    throw new InvalidBackup("invalid backup data");
+  }
+
+  if (
+    typeof unsafe !== "object" ||
+    !unsafe ||
+    unsafe.type !== "ledger-live-backup"
+  ) {
+    throw new InvalidBackup("invalid backup data");
+  }
+
+  const { version, kdf, cipher, iv, ciphertext, mac } = unsafe;
+
+  if (typeof version !== "number" || version > backupVersion) {
+    throw new BackupVersionNotSupported(
+      `backup version ${version} is not supported`
+    );
+  }
+
+  if (
+    typeof kdf !== "object" ||
+    !kdf ||
+    kdf.name !== "PBKDF2-SHA256" ||
+    !validIterations(kdf.iterations) ||
+    typeof kdf.salt !== "string" ||
+    cipher !== "AES-256-CBC"
+  ) {
+    throw new InvalidBackup("invalid backup encryption");
+  }
+
+  if (
+    typeof iv !== "string" ||
+    typeof ciphertext !== "string" ||
+    typeof mac !== "string"
+  ) {
+    throw new InvalidBackup("invalid backup data");
+  }
+
+  return unsafe;
+};
+
+/**
+ * Decrypt the content of a backup file, and upgrade its payload to the
+ * current version
+ */
+export async function decryptBackup(
+  data: string,
+  passphrase: string
+): Promise<{ version: number; payload: CurrentBackupPayload }> {
+  const { version, kdf, iv, ciphertext, mac } = asEnvelope(data);
+  const ivWords = CryptoJS.enc.Hex.parse(iv);
+  const ciphertextWords = CryptoJS.enc.Base64.parse(ciphertext);
+  const { encryptionKey, macKey } = await deriveKeys(
+    passphrase,
+    CryptoJS.enc.Hex.parse(kdf.salt),
+    kdf.iterations
+  );
+
+  if (!safeEqual(computeMac(ivWords, ciphertextWords, macKey), mac)) {
+    throw new BackupWrongPassphrase();
+  }
+
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: ciphertextWords }),
+    encryptionKey,
+    {
+      iv: ivWords,
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    }
+  );
+  let payload;
+
+  try {
+    payload = JSON.parse(decrypted.toString(CryptoJS.enc.Utf8));
+  } catch (e) {
+    throw new InvalidBackup("invalid backup payload");
+  }
+
+  if (payload?.version !== version) {
+    throw new InvalidBackup("invalid backup payload");
+  }
+
+  return {
+    version,
+    payload: migrateBackup(payload),
+  };
+}
+
+/**
+ * The content of a backup file of the accounts and the settings, encrypted
+ * with a passphrase
+ */
+export function encodeBackup(
+  {
+    accounts,
+    settings,
+    countervalues = {},
+    preferences = {},
+    exporterName,
+    exporterVersion,
+  }: BackupDataIn,
+  passphrase: string,
+  options?: { iterations?: number }
+): Promise<string> {
+  return encryptBackup(
+    {
+      version: backupVersion,
+      meta: {
+        exporterName,
+        exporterVersion,
+        date: new Date().toISOString(),
+      },
+      accounts: accounts.map(toAccountRaw),
+      settings,
+      countervalues,
+      preferences,
+    },
+    passphrase,
+    options
+  );
+}
+
+/**
+ * Restore the accounts and the settings of a backup file, whatever the
+ * version that created it
+ */
+export async function decodeBackup(
+  data: string,
+  passphrase: string
+): Promise<Backup> {
+  const { version, payload } = await decryptBackup(data, passphrase);
+  const { meta, accounts, settings, countervalues, preferences } = payload;
+
+  if (!Array.isArray(accounts)) {
+    throw new InvalidBackup("invalid backup accounts");
+  }
+
+  return {
+    version,
+    meta,
+    accounts: accounts.map(fromAccountRaw),
+    settings: asResultSettings(settings),
+    countervalues: countervalues || {},
+    preferences:
+      typeof preferences === "object" && preferences ? preferences : {},
+  };
+}
@@ -0,0 +1,88 @@
+import type { Account, AccountRaw } from "@ledgerhq/types-live";
+import type { AccountData, Settings } from "../cross";
+import type { CountervaluesSettings } from "../countervalues/types";
+
+export type BackupMeta = {
+  exporterName: string;
+  exporterVersion: string;
+  // ISO 8601 date of the backup, unknown for the first version
+  date?: string;
+};
+
+export type BackupCountervaluesSettings = Pick<
+  CountervaluesSettings,
+  "provider" | "pairProviders"
+>;
+
+/**
+ * The first version of the backups is the data of the accounts export to
+ * mobile (see cross.ts), which only has what is needed to resync them.
+ */
+export type BackupPayloadV1 = {
+  version: 1;
+  meta: BackupMeta;
+  accounts: AccountData[];
+  settings: Settings;
+};
+
+/**
+ * The accounts with everything that can't be resynced from the blockchains:
+ * their name, starred flag, labels and swap history.
+ */
+export type BackupPayloadV2 = {
+  version: 2;
+  meta: BackupMeta;
+  accounts: AccountRaw[];
+  settings: Settings;
+  countervalues: BackupCountervaluesSettings;
+  // the preferences of the app, which are opaque to live-common
+  preferences: Record<string, unknown>;
+};
+
+export type BackupPayload = BackupPayloadV1 | BackupPayloadV2;
+
+// the version of the backups created by this version of live-common
+export type CurrentBackupPayload = BackupPayloadV2;
+
+/**
+ * What is stored: the version and the key derivation in clear, so a newer app
+ * knows how to decrypt and migrate the payload, and the encrypted payload
+ * authenticated with a HMAC.
+ */
+export type BackupEnvelope = {
+  type: "ledger-live-backup";
+  version: number;
+  kdf: {
+    name: "PBKDF2-SHA256";
+    iterations: number;
+    // hex
+    salt: string;
+  };
+  cipher: "AES-256-CBC";
+  // hex
+  iv: string;
+  // base64
+  ciphertext: string;
+  // hex HMAC-SHA256 of the iv and the ciphertext
+  mac: string;
+};
+
+export type BackupDataIn = {
+  accounts: Account[];
+  settings: Settings;
+  countervalues?: BackupCountervaluesSettings;
+  preferences?: Record<string, unknown>;
+  // the name of the exporter. e.g. "desktop" for the desktop app
+  exporterName: string;
+  // the version of the exporter. e.g. the desktop app version
+  exporterVersion: string;
+};
+
+export type Backup = {
+  version: number;
+  meta: BackupMeta;
+  accounts: Account[];
+  settings: Settings;
+  countervalues: BackupCountervaluesSettings;
+  preferences: Record<string, unknown>;
+};
@@ -19,6 +19,7 @@ import {
   getAccountPlaceholderName,
   getNewAccountPlaceholderName,
   shouldRetainPendingOperation,
+  markReplacedPendingOperations,
   isAccountEmpty,
   shouldShowNewAccount,
   clearAccount,
@@ -244,9 +245,10 @@ export const makeSync =
                   : new Date(),
               ...shape,
               operations,
-              pendingOperations: a.pendingOperations.filter((op) =>
-                shouldRetainPendingOperation(a, op)
-              ),
+              pendingOperations: markReplacedPendingOperations(
+                a.pendingOperations,
+                operations
+              ).filter((op) => shouldRetainPendingOperation(a, op)),
             });
 
             a = recalculateAccountBalanceHistories(a, acc);
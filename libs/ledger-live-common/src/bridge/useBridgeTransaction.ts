@@ -4,6 +4,7 @@ import { log } from "@ledgerhq/logs";
 import { getAccountBridge } from ".";
 import { getMainAccount } from "../account";
 import { delay } from "../promise";
+import { resolveTransactionRecipient } from "../domain-service";
 import type { Account, AccountBridge, AccountLike } from "@ledgerhq/types-live";
 import type { Transaction, TransactionStatus } from "../generated/types";
 
@@ -259,7 +260,7 @@ const useBridgeTransaction = <T extends Transaction = Transaction>(
           if (ignore) return;
           const preparedTransaction = await bridge.prepareTransaction(
             mainAccount,
-            transaction
+            await resolveTransactionRecipient(mainAccount, transaction)
           );
           if (ignore) return;
           const status = await bridge.getTransactionStatus(
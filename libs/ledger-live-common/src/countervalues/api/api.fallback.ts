@@ -0,0 +1,53 @@
+import { log } from "@ledgerhq/logs";
+import type { CounterValuesAPI } from "../types";
+
+/**
+ * A countervalues api asking each api in turn, until one has the rates of a
+ * pair, e.g. a rates file and then a live service
+ */
+export const createFallbackAPI = (
+  apis: CounterValuesAPI[]
+): CounterValuesAPI => ({
+  fetchHistorical: async (granularity, pair) => {
+    let error: unknown;
+    for (const api of apis) {
+      try {
+        const rates = await api.fetchHistorical(granularity, pair);
+        if (Object.keys(rates).length > 0) return rates;
+      } catch (e) {
+        log("countervalues-error", `fallback api failed: ${String(e)}`);
+        error = error || e;
+      }
+    }
+    // with no rates at all, the first failure is reported
+    if (error) throw error;
+    return {};
+  },
+  fetchLatest: async (pairs) => {
+    const result: Array<number | null | undefined> = pairs.map(() => null);
+    for (const api of apis) {
+      const missing = pairs.filter((_pair, i) => !result[i]);
+      if (missing.length === 0) break;
+      try {
+        const rates = await api.fetchLatest(missing);
+        missing.forEach((pair, i) => {
+          result[pairs.indexOf(pair)] = rates[i];
+        });
+      } catch (e) {
+        log("countervalues-error", `fallback api failed: ${String(e)}`);
+      }
+    }
+    return result;
+  },
+  fetchMarketcapTickers: async () => {
+    for (const api of apis) {
+      try {
+        const tickers = await api.fetchMarketcapTickers();
+        if (tickers.length > 0) return tickers;
+      } catch (e) {
+        log("countervalues-error", `fallback api failed: ${String(e)}`);
+      }
+    }
+    return [];
+  },
+});
@@ -0,0 +1,153 @@
+import {
+  getCryptoCurrencyById,
+  getFiatCurrencyByTicker,
+} from "../../currencies";
+import { InvalidCountervaluesRates } from "../../errors";
+import { calculate, initialState, loadCountervalues } from "../logic";
+import type { CounterValuesAPI } from "../types";
+import { createFallbackAPI } from "./api.fallback";
+import { createStaticAPI, parseRatesCSV, parseRatesJSON } from "./api.static";
+import api from ".";
+import {
+  getCountervaluesProvider,
+  registerCountervaluesProvider,
+  unregisterCountervaluesProvider,
+} from "./providers";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const ethereum = getCryptoCurrencyById("ethereum");
+const usd = getFiatCurrencyByTicker("USD");
+
+const csv = [
+  "from,to,date,rate",
+  "BTC,USD,2021-01-10,10000",
+  "BTC,USD,2021-01-11,12000",
+  "BTC,USD,2021-01-11T10,11000",
+  "BTC,USD,latest,20000",
+].join("\n");
+
+describe("static countervalues api", () => {
+  it("should parse the rates of a CSV or a JSON", () => {
+    const rates = {
+      "BTC-USD": {
+        "2021-01-10": 10000,
+        "2021-01-11": 12000,
+        "2021-01-11T10": 11000,
+        latest: 20000,
+      },
+    };
+    expect(parseRatesCSV(csv)).toEqual(rates);
+    expect(parseRatesJSON(JSON.stringify({ status: {}, ...rates }))).toEqual(
+      rates
+    );
+    expect(() => parseRatesCSV("BTC,USD,yesterday,1")).toThrow(
+      InvalidCountervaluesRates
+    );
+    expect(() => parseRatesJSON('{"BTC-USD":{"latest":"1"}}')).toThrow(
+      InvalidCountervaluesRates
+    );
+  });
+
+  it("should answer the rates of the granularity since the start date", async () => {
+    const api = createStaticAPI(parseRatesCSV(csv));
+    const pair = {
+      from: bitcoin,
+      to: usd,
+      startDate: new Date("2021-01-11T00:00:00Z"),
+    };
+    expect(await api.fetchHistorical("daily", pair)).toEqual({
+      "2021-01-11": 12000,
+    });
+    expect(await api.fetchHistorical("hourly", pair)).toEqual({
+      "2021-01-11T10": 11000,
+    });
+    expect(await api.fetchLatest([pair, { from: ethereum, to: usd }])).toEqual([
+      20000,
+      null,
+    ]);
+  });
+
+  it("should fall back on the next api without the rates of a pair", async () => {
+    const failing: CounterValuesAPI = {
+      fetchHistorical: () => Promise.reject(new Error("down")),
+      fetchLatest: () => Promise.reject(new Error("down")),
+      fetchMarketcapTickers: () => Promise.reject(new Error("down")),
+    };
+    const api = createFallbackAPI([
+      createStaticAPI({ "ETH-USD": { latest: 3000 } }),
+      failing,
+      createStaticAPI({ "BTC-USD": { latest: 50000 } }),
+    ]);
+    expect(
+      await api.fetchLatest([
+        { from: bitcoin, to: usd },
+        { from: ethereum, to: usd },
+      ])
+    ).toEqual([50000, 3000]);
+    // no api has the history, the failure is reported
+    await expect(
+      api.fetchHistorical("daily", { from: bitcoin, to: usd })
+    ).rejects.toThrow("down");
+  });
+
+  it("should load the countervalues from the provider of the settings", async () => {
+    registerCountervaluesProvider("file", createStaticAPI(parseRatesCSV(csv)));
+    const state = await loadCountervalues(initialState, {
+      trackingPairs: [
+        { from: bitcoin, to: usd, startDate: new Date("2021-01-10") },
+      ],
+      autofillGaps: true,
+      disableAutoRecoverErrors: true,
+      provider: "file",
+    });
+    unregisterCountervaluesProvider("file");
+
+    expect(
+      calculate(state, {
+        value: 1e8,
+        from: bitcoin,
+        to: usd,
+        date: new Date("2021-01-10T12:00:00Z"),
+      })
+    ).toBe(1000000);
+    expect(calculate(state, { value: 1e8, from: bitcoin, to: usd })).toBe(
+      2000000
+    );
+    await expect(
+      loadCountervalues(initialState, {
+        trackingPairs: [{ from: bitcoin, to: usd }],
+        autofillGaps: true,
+        disableAutoRecoverErrors: true,
+        pairProviders: { "BTC-USD": "file" },
+      })
+    ).rejects.toThrow("countervalues provider file is not registered");
+  });
+
+  it("should not fetch the pairs of a provider that is not registered", async () => {
+    const fetchHistorical = jest.spyOn(api, "fetchHistorical");
+    const fetchLatest = jest.spyOn(api, "fetchLatest");
+    const state = await loadCountervalues(initialState, {
+      trackingPairs: [{ from: bitcoin, to: usd }],
+      autofillGaps: true,
+      pairProviders: { "BTC-USD": "file" },
+    });
+    fetchHistorical.mockRestore();
+    fetchLatest.mockRestore();
+
+    expect(state.status["BTC-USD"].error).toBe(
+      "countervalues provider file is not registered"
+    );
+    expect(state.data["BTC-USD"]).toBeUndefined();
+    expect(fetchHistorical).not.toHaveBeenCalled();
+    expect(fetchLatest).not.toHaveBeenCalled();
+  });
+
+  it("should leave the pairs of the default provider to the modules", () => {
+    expect(
+      getCountervaluesProvider(
+        { provider: "ledger" },
+        { from: bitcoin, to: usd }
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { InvalidCountervaluesRates } from "../../errors";
+import { formatPerGranularity, pairId } from "../helpers";
+import type {
+  CounterValuesAPI,
+  RateGranularity,
+  RateMapRaw,
+  TrackingPair,
+} from "../types";
+
+// the rates of each pair id (e.g. "BTC-USD"), of one whole unit
+export type StaticRates = Record<string, RateMapRaw>;
+
+const datePatterns: Record<RateGranularity, RegExp> = {
+  daily: /^\d{4}-\d{2}-\d{2}$/,
+  hourly: /^\d{4}-\d{2}-\d{2}T\d{2}$/,
+};
+
+const isRateKey = (key: string): boolean =>
+  key === "latest" ||
+  Object.values(datePatterns).some((pattern) => pattern.test(key));
+
+const setRate = (
+  rates: StaticRates,
+  id: string,
+  key: string,
+  rate: unknown
+): void => {
+  if (!isRateKey(key)) {
+    throw new InvalidCountervaluesRates(`invalid date ${key} for ${id}`);
+  }
+  if (typeof rate !== "number" || !(rate >= 0)) {
+    throw new InvalidCountervaluesRates(`invalid rate for ${id} at ${key}`);
+  }
+  rates[id] = { ...rates[id], [key]: rate };
+};
+
+/**
+ * Parse rates from a CSV with a `from,to,date,rate` row per rate, e.g.
+ * `BTC,USD,2021-01-01,29000`. The date is a day, an hour (2021-01-01T12) or
+ * "latest".
+ */
+export function parseRatesCSV(csv: string): StaticRates {
+  const rates: StaticRates = {};
+  csv.split(/\r?\n/).forEach((line, i) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    if (!line.trim() || (i === 0 && cells[0].toLowerCase() === "from")) {
+      return;
+    }
+    if (cells.length !== 4) {
+      throw new InvalidCountervaluesRates(`invalid line ${i + 1}: ${line}`);
+    }
+    const [from, to, date, rate] = cells;
+    setRate(rates, `${from}-${to}`, date, rate ? Number(rate) : NaN);
+  });
+  return rates;
+}
+
+/**
+ * Parse rates from a JSON of the rates of each pair, e.g.
+ * `{ "BTC-USD": { "2021-01-01": 29000, "latest": 40000 } }`, which is also the
+ * shape of an exported countervalues state
+ */
+export function parseRatesJSON(json: string): StaticRates {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new InvalidCountervaluesRates("rates are not JSON");
+  }
+  if (!data || typeof data !== "object") {
+    throw new InvalidCountervaluesRates("rates need to be an object");
+  }
+  const rates: StaticRates = {};
+  for (const [id, map] of Object.entries(data)) {
+    if (id === "status") continue;
+    if (!map || typeof map !== "object") {
+      throw new InvalidCountervaluesRates(`invalid rates for ${id}`);
+    }
+    for (const [key, rate] of Object.entries(map)) {
+      setRate(rates, id, key, rate);
+    }
+  }
+  return rates;
+}
+
+/**
+ * A countervalues api answering from fixed rates, e.g. from a rates file, so
+ * the valuations are reproducible
+ */
+export const createStaticAPI = (rates: StaticRates): CounterValuesAPI => ({
+  fetchHistorical: async (granularity, pair) => {
+    const map = rates[pairId(pair)] || {};
+    const start = pair.startDate
+      ? formatPerGranularity[granularity](pair.startDate)
+      : "";
+    const res: RateMapRaw = {};
+    for (const key in map) {
+      if (datePatterns[granularity].test(key) && key >= start) {
+        res[key] = map[key];
+      }
+    }
+    return res;
+  },
+  fetchLatest: async (pairs: TrackingPair[]) =>
+    pairs.map((pair) => {
+      const map = rates[pairId(pair)];
+      if (!map) return null;
+      if ("latest" in map) return map.latest;
+      // the most recent rate
+      const [last] = Object.keys(map).sort().reverse();
+      return last ? map[last] : null;
+    }),
+  fetchMarketcapTickers: async () => [],
+});
@@ -6,11 +6,13 @@ import { formatPerGranularity } from "../helpers";
 import type { CounterValuesAPI, TrackingPair } from "../types";
 import { promiseAllBatched } from "../../promise";
 
-const baseURL = () => getEnv("LEDGER_COUNTERVALUES_API");
-
 const LATEST_CHUNK = 50;
 
-const latest = async (pairs: TrackingPair[], direct?: boolean) => {
+const latest = async (
+  baseURL: () => string,
+  pairs: TrackingPair[],
+  direct?: boolean
+) => {
   const all = await promiseAllBatched(
     4,
     chunk(pairs, LATEST_CHUNK),
@@ -35,7 +37,13 @@ const latest = async (pairs: TrackingPair[], direct?: boolean) => {
   return data;
 };
 
-const api: CounterValuesAPI = {
+/**
+ * The api of a countervalues service, e.g. a self-hosted one with the same
+ * endpoints as Ledger's
+ */
+export const createCountervaluesAPI = (
+  baseURL: () => string
+): CounterValuesAPI => ({
   fetchHistorical: async (granularity, { from, to, startDate }) => {
     const format = formatPerGranularity[granularity];
     const query: { start?: string; method?: string } = {};
@@ -72,8 +80,8 @@ const api: CounterValuesAPI = {
       }
     });
     const [direct, indirect] = await Promise.all([
-      directP.length ? latest(directP, true) : Promise.resolve([]),
-      indirectP.length ? latest(indirectP) : Promise.resolve([]),
+      directP.length ? latest(baseURL, directP, true) : Promise.resolve([]),
+      indirectP.length ? latest(baseURL, indirectP) : Promise.resolve([]),
     ]);
     const data = Array(pairs.length).fill(0);
     directP.forEach((p, i) => {
@@ -91,5 +99,7 @@ const api: CounterValuesAPI = {
     });
     return data;
   },
-};
+});
+
+const api = createCountervaluesAPI(() => getEnv("LEDGER_COUNTERVALUES_API"));
 export default api;
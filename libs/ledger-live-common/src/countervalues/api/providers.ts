@@ -0,0 +1,53 @@
+import api from ".";
+import { pairId } from "../helpers";
+import type {
+  CounterValuesAPI,
+  CountervaluesSettings,
+  TrackingPair,
+} from "../types";
+
+// the provider of the pairs with none in the settings
+export const defaultProvider = "ledger";
+
+const providers: Record<string, CounterValuesAPI> = {
+  [defaultProvider]: api,
+};
+
+/**
+ * Register a countervalues api as a provider that settings can choose, e.g. a
+ * createStaticAPI of a rates file
+ */
+export const registerCountervaluesProvider = (
+  id: string,
+  provider: CounterValuesAPI
+): void => {
+  providers[id] = provider;
+};
+
+export const unregisterCountervaluesProvider = (id: string): void => {
+  if (id === defaultProvider) return;
+  delete providers[id];
+};
+
+export const listCountervaluesProviders = (): string[] =>
+  Object.keys(providers);
+
+/**
+ * The api of the provider the settings chose for a pair: the one of the pair
+ * id (e.g. "BTC-USD") in pairProviders, or else settings.provider.
+ * Undefined when the settings chose none or the default provider, which the
+ * modules of the pairs apply to. Throws when the one they chose is not
+ * registered.
+ */
+export function getCountervaluesProvider(
+  settings: Pick<CountervaluesSettings, "provider" | "pairProviders">,
+  pair: TrackingPair
+): CounterValuesAPI | undefined {
+  const id = settings.pairProviders?.[pairId(pair)] || settings.provider;
+  if (!id || id === defaultProvider) return;
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`countervalues provider ${id} is not registered`);
+  }
+  return provider;
+}
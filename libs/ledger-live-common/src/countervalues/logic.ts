@@ -28,6 +28,7 @@ import {
   mapRate,
   resolveTrackingPair,
 } from "./modules";
+import { getCountervaluesProvider } from "./api/providers";
 import type { Account } from "@ledgerhq/types-live";
 import type { Currency } from "@ledgerhq/types-cryptoassets";
 
@@ -117,7 +118,31 @@ export async function loadCountervalues(
   const cache = { ...state.cache };
   const status = { ...state.status };
   const nowDate = new Date();
-  const latestToFetch = settings.trackingPairs;
+  const getProvider = (pair: TrackingPair) =>
+    getCountervaluesProvider(settings, pair);
+  // a pair of a provider that is not registered is not fetched from another
+  // one, that would mix their rates, its status has the error instead
+  const trackingPairs = settings.trackingPairs.filter((pair) => {
+    const key = pairId(pair);
+    try {
+      getProvider(pair);
+    } catch (e: any) {
+      if (settings.disableAutoRecoverErrors) throw e;
+      status[key] = {
+        ...status[key],
+        timestamp: nowDate.valueOf(),
+        error: String(e?.message),
+      };
+      log("countervalues-error", `${key} not fetched: ${String(e?.message)}`);
+      return false;
+    }
+    if (status[key]?.error) {
+      // its provider was registered since
+      status[key] = { ...status[key], error: undefined };
+    }
+    return true;
+  });
+  const latestToFetch = trackingPairs;
   // determines what historical data need to be fetched
   const histoToFetch: any[] = [];
 
@@ -128,7 +153,7 @@ export async function loadCountervalues(
     const earliestHisto = format(nowDate);
     log("countervalues", "earliestHisto=" + earliestHisto);
     const limit = datapointLimits[granularity];
-    settings.trackingPairs.forEach(({ from, to, startDate }) => {
+    trackingPairs.forEach(({ from, to, startDate }) => {
       const key = pairId({
         from,
         to,
@@ -202,12 +227,12 @@ export async function loadCountervalues(
   });
   log(
     "countervalues",
-    `${histoToFetch.length} historical value to fetch (${settings.trackingPairs.length} pairs)`
+    `${histoToFetch.length} historical value to fetch (${trackingPairs.length} pairs)`
   );
   // Fetch it all
   const [histo, latest] = await Promise.all([
     promiseAllBatched(10, histoToFetch, ([granularity, pair, key]) =>
-      fetchHistorical(granularity, pair)
+      fetchHistorical(granularity, pair, getProvider)
         .then((rates) => {
           // Update status infos
           const id = pairId(pair);
@@ -256,7 +281,7 @@ export async function loadCountervalues(
           return null;
         })
     ),
-    fetchLatest(latestToFetch, settings.disableAutoRecoverErrors)
+    fetchLatest(latestToFetch, settings.disableAutoRecoverErrors, getProvider)
       .then((rates) => {
         const out = {};
         let hasData = false;
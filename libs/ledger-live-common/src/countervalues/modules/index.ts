@@ -1,5 +1,5 @@
 import { log } from "@ledgerhq/logs";
-import type { RateGranularity, TrackingPair } from "../types";
+import type { CounterValuesAPI, RateGranularity, TrackingPair } from "../types";
 import type { Module } from "./types";
 import api from "../api";
 import weth from "./weth";
@@ -12,9 +12,13 @@ export const installModule = (module: Module): void => {
   modules.push(module);
 };
 
+// the api of the provider chosen for a pair, if any
+type GetProvider = (pair: TrackingPair) => CounterValuesAPI | undefined;
+
 export const fetchHistorical = (
   granularity: RateGranularity,
-  pair: TrackingPair
+  pair: TrackingPair,
+  getProvider: GetProvider = () => undefined
 ): Promise<Record<string, any>> => {
   let fn = api.fetchHistorical;
   // a module can override the default api. first who handle wins.
@@ -26,6 +30,13 @@ export const fetchHistorical = (
     fn = m.fetchHistorical;
   }
 
+  // but the provider chosen for the pair overrides them all
+  const provider = getProvider(pair);
+
+  if (provider) {
+    fn = provider.fetchHistorical;
+  }
+
   return fn(granularity, pair);
 };
 
@@ -37,7 +48,8 @@ type CountervaluesJobs = {
 
 export const fetchLatest = async (
   pairs: TrackingPair[],
-  disableAutoRecoverErrors?: boolean
+  disableAutoRecoverErrors?: boolean,
+  getProvider: GetProvider = () => undefined
 ): Promise<Array<number | null | undefined>> => {
   // a module can override as well. but as latest is a "one api" call,
   // we need to segment the pairs in diff modules
@@ -61,9 +73,24 @@ export const fetchLatest = async (
 
   for (let i = 0; i < pairs.length; i++) {
     const pair = pairs[i];
+    const provider = getProvider(pair);
     const m = modules.find((m) => m.handleAPI && m.handleAPI(pair));
 
-    if (m && m.fetchLatest) {
+    if (provider) {
+      let j = jobs.find((j) => provider.fetchLatest === j.fn);
+
+      if (!j) {
+        j = {
+          fn: provider.fetchLatest,
+          pairs: [],
+          indexes: [],
+        };
+        jobs.push(j);
+      }
+
+      j.pairs.push(pair);
+      j.indexes.push(i);
+    } else if (m && m.fetchLatest) {
       const j = jobs.find((j) => m.fetchLatest === j.fn);
 
       if (j) {
@@ -8,6 +8,10 @@ export type CountervaluesSettings = {
   autofillGaps: boolean;
   // throw exception in "loadCountervalues" if ANY error occurs (for test purpose)
   disableAutoRecoverErrors?: boolean;
+  // the registered provider to fetch the rates from, instead of Ledger's
+  provider?: string;
+  // the provider of some pairs, by pair id (e.g. "BTC-USD")
+  pairProviders?: Record<string, string>;
 };
 // This is the internal state of countervalues.
 export type CounterValuesState = {
@@ -53,6 +57,8 @@ export type CounterValuesStatus = Record<
     // count the number of successive failures
     // track the oldest date requested on data to know if need to pull before that
     oldestDateRequested?: string;
+    // why the pair was not fetched, e.g. its provider is not registered
+    error?: string;
   }
 >;
 export type RateMapStats = {
@@ -8,7 +8,10 @@ import {
 } from "./derivation";
 import { decodeAccountId, emptyHistoryCache } from "./account";
 import { getCryptoCurrencyById } from "./currencies";
-import type { Account, CryptoCurrencyIds } from "@ledgerhq/types-live";
+import { asLabel } from "./labels";
+import { validateCustomEvmNetwork } from "./families/evm/customNetworks";
+import type { CustomEvmNetwork } from "./families/evm/customNetworks";
+import type { Account, CryptoCurrencyIds, Label } from "@ledgerhq/types-live";
 
 export type AccountData = {
   id: string;
@@ -20,6 +23,7 @@ export type AccountData = {
   name: string;
   index: number;
   balance: string;
+  labels?: Label[];
 };
 
 export type CryptoSettings = {
@@ -32,6 +36,8 @@ export type Settings = {
   pairExchanges: Record<string, string | null | undefined>;
   blacklistedTokenIds?: string[];
   hideEmptyTokenAccounts?: boolean;
+  // to set with setCustomEvmNetworks before importing their accounts
+  customEvmNetworks?: CustomEvmNetwork[];
 };
 
 export type DataIn = {
@@ -113,6 +119,7 @@ const asResultAccount = (unsafe: Record<string, any>): AccountData => {
     name,
     index,
     balance,
+    labels,
   } = unsafe;
 
   if (typeof id !== "string") {
@@ -157,6 +164,26 @@ const asResultAccount = (unsafe: Record<string, any>): AccountData => {
     o.freshAddress = freshAddress;
   }
 
+  if (Array.isArray(labels)) {
+    const labelsSafe: Label[] = [];
+
+    for (const l of labels) {
+      let label: Label | null = null;
+
+      try {
+        label = asLabel(l);
+      } catch (e) {
+        // an invalid label is dropped, its account is still imported
+      }
+
+      if (label) {
+        labelsSafe.push(label);
+      }
+    }
+
+    o.labels = labelsSafe;
+  }
+
   return o;
 };
 
@@ -184,7 +211,7 @@ const asCryptoSettings = (unsafe: Record<string, any>): CryptoSettings => {
   return {};
 };
 
-const asResultSettings = (unsafe: Record<string, any>): Settings => {
+export const asResultSettings = (unsafe: Record<string, any>): Settings => {
   if (typeof unsafe !== "object" || !unsafe) {
     throw new Error("invalid settings data");
   }
@@ -195,6 +222,7 @@ const asResultSettings = (unsafe: Record<string, any>): Settings => {
     pairExchanges,
     blacklistedTokenIds,
     hideEmptyTokenAccounts,
+    customEvmNetworks,
   } = unsafe;
   const currenciesSettingsSafe: Record<CryptoCurrencyIds, CryptoSettings> = {};
 
@@ -241,9 +269,24 @@ const asResultSettings = (unsafe: Record<string, any>): Settings => {
     res.blacklistedTokenIds = blacklistedTokenIdsSafe;
   }
 
+  if (customEvmNetworks && Array.isArray(customEvmNetworks)) {
+    res.customEvmNetworks = customEvmNetworks.filter(isValidCustomEvmNetwork);
+  }
+
   return res;
 };
 
+const isValidCustomEvmNetwork = (
+  unsafe: unknown
+): unsafe is CustomEvmNetwork => {
+  try {
+    validateCustomEvmNetwork(unsafe as CustomEvmNetwork);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
 export function decode(bytes: string): Result {
   const unsafe: Record<string, any> = JSON.parse(
     Buffer.from(
@@ -270,6 +313,7 @@ export function accountToAccountData({
   currency,
   index,
   balance,
+  labels,
 }: Account): AccountData {
   const res: AccountData = {
     id,
@@ -282,6 +326,10 @@ export function accountToAccountData({
     balance: balance.toString(),
   };
 
+  if (labels && labels.length > 0) {
+    res.labels = labels;
+  }
+
   return res;
 }
 // reverse the account data to an account.
@@ -296,6 +344,7 @@ export const accountDataToAccount = ({
   balance,
   derivationMode: derivationModeStr,
   seedIdentifier,
+  labels,
 }: AccountData): Account => {
   const { xpubOrAddress } = decodeAccountId(id); // TODO rename in AccountId xpubOrAddress
 
@@ -362,5 +411,9 @@ export const accountDataToAccount = ({
     balanceHistoryCache: emptyHistoryCache,
   };
 
+  if (labels && labels.length > 0) {
+    account.labels = labels;
+  }
+
   return account;
 };
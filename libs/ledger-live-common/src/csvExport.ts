@@ -4,10 +4,43 @@ import { formatCurrencyUnit } from "./currencies";
 import { getAccountCurrency, getMainAccount, flattenAccounts } from "./account";
 import { flattenOperationWithInternalsAndNfts } from "./operation";
 import { calculate } from "./countervalues/logic";
+import { getLabel } from "./labels";
 import type { CounterValuesState } from "./countervalues/types";
 import type { Currency } from "@ledgerhq/types-cryptoassets";
 
+export type ExportColumn =
+  | "date"
+  | "currencyTicker"
+  | "type"
+  | "amount"
+  | "fees"
+  | "hash"
+  | "accountName"
+  | "accountXpub"
+  | "countervalueTicker"
+  | "countervalueAtOperationDate"
+  | "countervalueAtExport"
+  | "label"
+  | "operationId"
+  | "blockHeight"
+  | "counterparty"
+  | "tokenContract"
+  | "nftId"
+  | "feesCountervalue";
+
+export type OperationsExportOptions = {
+  // the columns, in their order
+  columns?: ExportColumn[];
+  // the operations from this date, included
+  startDate?: Date;
+  // the operations until this date, excluded
+  endDate?: Date;
+  // the accounts, with their token accounts
+  accountIds?: string[];
+};
+
 type Field = {
+  key: ExportColumn;
   title: string;
   cell: (
     arg0: AccountLike,
@@ -20,20 +53,53 @@ type Field = {
 
 const newLine = "\r\n";
 
+/**
+ * The countervalue of an amount at a date, or at the latest rate without a
+ * date, formatted for an export. Empty when it's unknown.
+ */
+export const formatCountervalue = (
+  countervalueState: CounterValuesState | null | undefined,
+  from: Currency,
+  to: Currency | null | undefined,
+  value: BigNumber,
+  date?: Date
+): string => {
+  const countervalue =
+    to && countervalueState
+      ? calculate(countervalueState, {
+          from,
+          to,
+          value: value.toNumber(),
+          disableRounding: true,
+          date,
+        })
+      : null;
+  return countervalue && to
+    ? formatCurrencyUnit(to.units[0], new BigNumber(countervalue), {
+        disableRounding: true,
+        useGrouping: false,
+      })
+    : "";
+};
+
 const fields: Field[] = [
   {
+    key: "date",
     title: "Operation Date",
     cell: (_account, _parentAccount, op) => op.date.toISOString(),
   },
   {
+    key: "currencyTicker",
     title: "Currency Ticker",
     cell: (account) => getAccountCurrency(account).ticker,
   },
   {
+    key: "type",
     title: "Operation Type",
     cell: (_account, _parentAccount, op) => op.type,
   },
   {
+    key: "amount",
     title: "Operation Amount",
     cell: (account, parentAccount, op) =>
       formatCurrencyUnit(getAccountCurrency(account).units[0], op.value, {
@@ -42,6 +108,7 @@ const fields: Field[] = [
       }),
   },
   {
+    key: "fees",
     title: "Operation Fees",
     cell: (account, parentAccount, op) =>
       ["TokenAccount", "ChildAccount"].includes(account.type)
@@ -52,15 +119,18 @@ const fields: Field[] = [
           }),
   },
   {
+    key: "hash",
     title: "Operation Hash",
     cell: (_account, _parentAccount, op) => op.hash,
   },
   {
+    key: "accountName",
     title: "Account Name",
     cell: (account, parentAccount) =>
       getMainAccount(account, parentAccount).name,
   },
   {
+    key: "accountXpub",
     title: "Account xpub",
     cell: (account, parentAccount) => {
       const main = getMainAccount(account, parentAccount);
@@ -68,12 +138,14 @@ const fields: Field[] = [
     },
   },
   {
+    key: "countervalueTicker",
     title: "Countervalue Ticker",
     cell: (account, parentAccount, op, countervalueCurrency) => {
       return countervalueCurrency?.ticker ?? "";
     },
   },
   {
+    key: "countervalueAtOperationDate",
     title: "Countervalue at Operation Date",
     cell: (
       account,
@@ -81,30 +153,17 @@ const fields: Field[] = [
       op,
       counterValueCurrency,
       countervalueState
-    ) => {
-      const value =
-        counterValueCurrency && countervalueState
-          ? calculate(countervalueState, {
-              from: getAccountCurrency(account),
-              to: counterValueCurrency,
-              value: op.value.toNumber(),
-              disableRounding: true,
-              date: op.date,
-            })
-          : null;
-      return value && counterValueCurrency
-        ? formatCurrencyUnit(
-            counterValueCurrency.units[0],
-            new BigNumber(value),
-            {
-              disableRounding: true,
-              useGrouping: false,
-            }
-          )
-        : "";
-    },
+    ) =>
+      formatCountervalue(
+        countervalueState,
+        getAccountCurrency(account),
+        counterValueCurrency,
+        op.value,
+        op.date
+      ),
   },
   {
+    key: "countervalueAtExport",
     title: "Countervalue at CSV Export",
     cell: (
       account,
@@ -112,81 +171,187 @@ const fields: Field[] = [
       op,
       counterValueCurrency,
       countervalueState
-    ) => {
-      const value =
-        counterValueCurrency && countervalueState
-          ? calculate(countervalueState, {
-              from: getAccountCurrency(account),
-              to: counterValueCurrency,
-              value: op.value.toNumber(),
-              disableRounding: true,
-            })
-          : null;
-      return value && counterValueCurrency
-        ? formatCurrencyUnit(
-            counterValueCurrency.units[0],
-            new BigNumber(value),
-            {
-              disableRounding: true,
-              useGrouping: false,
-            }
+    ) =>
+      formatCountervalue(
+        countervalueState,
+        getAccountCurrency(account),
+        counterValueCurrency,
+        op.value
+      ),
+  },
+  {
+    key: "label",
+    title: "Operation Label",
+    cell: (account, parentAccount, op) =>
+      getLabel(getMainAccount(account, parentAccount), "tx", op.hash) || "",
+  },
+  {
+    key: "operationId",
+    title: "Operation Id",
+    cell: (_account, _parentAccount, op) => op.id,
+  },
+  {
+    key: "blockHeight",
+    title: "Block Height",
+    cell: (_account, _parentAccount, op) =>
+      typeof op.blockHeight === "number" ? String(op.blockHeight) : "",
+  },
+  {
+    key: "counterparty",
+    title: "Counterparty Address",
+    cell: (_account, _parentAccount, op) =>
+      (["IN", "NFT_IN"].includes(op.type) ? op.senders : op.recipients).join(
+        " "
+      ),
+  },
+  {
+    key: "tokenContract",
+    title: "Token Contract",
+    cell: (account, _parentAccount, op) =>
+      account.type === "TokenAccount"
+        ? account.token.contractAddress
+        : op.contract || "",
+  },
+  {
+    key: "nftId",
+    title: "NFT Id",
+    cell: (_account, _parentAccount, op) => op.tokenId || "",
+  },
+  {
+    key: "feesCountervalue",
+    title: "Fees Countervalue at Operation Date",
+    cell: (
+      account,
+      parentAccount,
+      op,
+      counterValueCurrency,
+      countervalueState
+    ) =>
+      account.type === "Account"
+        ? formatCountervalue(
+            countervalueState,
+            account.currency,
+            counterValueCurrency,
+            op.fee,
+            op.date
           )
-        : "";
-    },
+        : "",
   },
 ];
 
-const accountRows = (
-  account: AccountLike,
-  parentAccount: Account | null | undefined,
-  counterValueCurrency?: Currency,
-  countervalueState?: CounterValuesState
-): Array<string[]> =>
-  account.operations
-    .reduce(
-      (ops: Operation[], op) =>
-        ops.concat(flattenOperationWithInternalsAndNfts(op)),
-      []
+export const exportColumns: ExportColumn[] = fields.map((field) => field.key);
+
+export const defaultExportColumns: ExportColumn[] = [
+  "date",
+  "currencyTicker",
+  "type",
+  "amount",
+  "fees",
+  "hash",
+  "accountName",
+  "accountXpub",
+  "countervalueTicker",
+  "countervalueAtOperationDate",
+  "countervalueAtExport",
+  "label",
+];
+
+const getFields = (columns: ExportColumn[] = defaultExportColumns): Field[] =>
+  columns.map((column) => {
+    const field = fields.find((f) => f.key === column);
+    if (!field) throw new Error(`unknown export column ${column}`);
+    return field;
+  });
+
+/**
+ * The operations of the accounts and their token accounts, with the filters
+ * of the options, each with its account
+ */
+export const getExportedOperations = (
+  accounts: Account[],
+  { startDate, endDate, accountIds }: OperationsExportOptions = {}
+): Array<{
+  account: AccountLike;
+  parentAccount: Account | null | undefined;
+  operation: Operation;
+}> =>
+  flattenAccounts(accounts)
+    .filter(
+      (account) =>
+        !accountIds ||
+        accountIds.includes(account.id) ||
+        (account.type !== "Account" && accountIds.includes(account.parentId))
     )
-    .map((operation) =>
-      fields.map((field) =>
-        field.cell(
+    .flatMap((account) => {
+      const parentAccount =
+        account.type !== "Account"
+          ? accounts.find((a) => a.id === account.parentId)
+          : null;
+      return account.operations
+        .flatMap(flattenOperationWithInternalsAndNfts)
+        .filter(
+          (operation) =>
+            (!startDate || operation.date >= startDate) &&
+            (!endDate || operation.date < endDate)
+        )
+        .map((operation) => ({ account, parentAccount, operation }));
+    });
+
+const accountsRows = (
+  accounts: Account[],
+  counterValueCurrency: Currency | undefined,
+  countervalueState: CounterValuesState | undefined,
+  options: OperationsExportOptions = {}
+): Array<{ field: Field; value: string }[]> => {
+  const exportFields = getFields(options.columns);
+  return getExportedOperations(accounts, options).map(
+    ({ account, parentAccount, operation }) =>
+      exportFields.map((field) => ({
+        field,
+        value: field.cell(
           account,
           parentAccount,
           operation,
           counterValueCurrency,
           countervalueState
-        )
-      )
-    );
-
-const accountsRows = (
-  accounts: Account[],
-  counterValueCurrency?: Currency,
-  countervalueState?: CounterValuesState
-): Array<string[]> =>
-  flattenAccounts(accounts).reduce((all: Array<string[]>, account) => {
-    const parentAccount =
-      account.type !== "Account"
-        ? accounts.find((a) => a.id === account.parentId)
-        : null;
-    return all.concat(
-      accountRows(
-        account,
-        parentAccount,
-        counterValueCurrency,
-        countervalueState
-      )
-    );
-  }, []);
+        ),
+      }))
+  );
+};
 
 export const accountsOpToCSV = (
   accounts: Account[],
   counterValueCurrency?: Currency,
-  countervalueState?: CounterValuesState // cvs state required for countervalues export
+  countervalueState?: CounterValuesState, // cvs state required for countervalues export
+  options?: OperationsExportOptions
 ): string =>
-  fields.map((field) => field.title).join(",") +
+  getFields(options?.columns)
+    .map((field) => field.title)
+    .join(",") +
   newLine +
-  accountsRows(accounts, counterValueCurrency, countervalueState)
-    .map((row) => row.map((value) => value.replace(/[,\n\r]/g, "")).join(","))
+  accountsRows(accounts, counterValueCurrency, countervalueState, options)
+    .map((row) =>
+      row.map(({ value }) => value.replace(/[,\n\r]/g, "")).join(",")
+    )
     .join(newLine);
+
+/**
+ * The same rows as accountsOpToCSV as JSON Lines, one object per operation
+ * keyed by column
+ */
+export const accountsOpToJSONL = (
+  accounts: Account[],
+  counterValueCurrency?: Currency,
+  countervalueState?: CounterValuesState,
+  options?: OperationsExportOptions
+): string =>
+  accountsRows(accounts, counterValueCurrency, countervalueState, options)
+    .map((row) =>
+      JSON.stringify(
+        row.reduce(
+          (obj, { field, value }) => ({ ...obj, [field.key]: value }),
+          {}
+        )
+      )
+    )
+    .join("\n");
@@ -9,6 +9,8 @@ import { getEnv } from "../env";
 
 // set by user side effect to precise which currencies are considered supported (typically by live)
 let userSupportedCurrencies: CryptoCurrency[] = [];
+// currencies defined at runtime, e.g. the custom EVM networks of the user
+let customCurrencies: CryptoCurrency[] = [];
 let userSupportedFiats: FiatCurrency[] = [];
 // Current list was established with what our API really supports
 // to update the list,
@@ -79,6 +81,10 @@ export function setSupportedCurrencies(ids: CryptoCurrencyIds[]) {
     .map((id) => getCryptoCurrencyById(id));
 }
 
+export function setCustomSupportedCurrencies(currencies: CryptoCurrency[]) {
+  customCurrencies = currencies;
+}
+
 function getExperimentalSupports() {
   return getEnv("EXPERIMENTAL_CURRENCIES")
     .split(",")
@@ -91,10 +97,10 @@ function getExperimentalSupports() {
 }
 
 export function listSupportedCurrencies(): CryptoCurrency[] {
-  const experimentals = getExperimentalSupports();
-  return experimentals.length === 0
+  const extras = getExperimentalSupports().concat(customCurrencies);
+  return extras.length === 0
     ? userSupportedCurrencies
-    : userSupportedCurrencies.concat(experimentals);
+    : userSupportedCurrencies.concat(extras);
 }
 export function isCurrencySupported(currency: CryptoCurrency): boolean {
   return listSupportedCurrencies().includes(currency);
@@ -22,6 +22,7 @@ export type ModeSpec = {
   isSegwit?: boolean;
   isNativeSegwit?: boolean;
   isTaproot?: boolean;
+  isMultisig?: boolean;
   // TODO drop
   isUnsplit?: boolean;
   // TODO drop
@@ -127,6 +128,15 @@ const modes = Object.freeze({
     tag: "segwit",
     addressFormat: "p2sh",
   },
+  // BIP48 p2wsh multisig, accounts are imported from their descriptor and never scanned
+  native_segwit_multisig: {
+    purpose: 48,
+    overridesDerivation: "48'/<coin_type>'/<account>'/2'/<node>/<address>",
+    addressFormat: "bech32",
+    tag: "multisig",
+    isSegwit: true,
+    isMultisig: true,
+  },
   segwit_on_legacy: {
     isSegwit: true,
     purpose: 44,
@@ -242,6 +252,10 @@ export const isTaprootDerivationMode = (
   derivationMode: DerivationMode
 ): boolean =>
   (modes[derivationMode] as { isTaproot: boolean }).isTaproot || false;
+export const isMultisigDerivationMode = (
+  derivationMode: DerivationMode
+): boolean =>
+  (modes[derivationMode] as { isMultisig: boolean }).isMultisig || false;
 
 export const isUnsplitDerivationMode = (
   derivationMode: DerivationMode
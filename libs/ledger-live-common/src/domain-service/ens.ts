@@ -0,0 +1,28 @@
+import { getCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import { getEnv } from "../env";
+import { lookupENSAddress, resolveENSName } from "../families/evm/api/rpc";
+import type { DomainResolver } from "./types";
+
+// The names are resolved with the node of ENS_RPC. Another EVM network would
+// need the ENSIP-11 address of its chain, so only ethereum is supported.
+const getENSCurrency = (): CryptoCurrency => {
+  const ethereum = getCryptoCurrencyById("ethereum");
+  return {
+    ...ethereum,
+    ethereumLikeInfo: {
+      chainId: 1,
+      ...ethereum.ethereumLikeInfo,
+      rpc: getEnv("ENS_RPC"),
+    },
+  };
+};
+
+export const ens: DomainResolver = {
+  registry: "ens",
+  pattern: /^([^\s.]+\.)+eth$/i,
+  isCurrencySupported: (currency) =>
+    currency.id === "ethereum" && !!getEnv("ENS_RPC"),
+  resolve: (_currency, domain) => resolveENSName(getENSCurrency(), domain),
+  reverse: (_currency, address) => lookupENSAddress(getENSCurrency(), address),
+};
@@ -0,0 +1,129 @@
+import { BigNumber } from "bignumber.js";
+import { getCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import { setEnv } from "../env";
+import { genAccount } from "../mock/account";
+import { lookupENSAddress, resolveENSName } from "../families/evm/api/rpc";
+import {
+  isDomain,
+  registerDomainResolver,
+  resolveDomain,
+  resolveTransactionRecipient,
+  reverseResolveAddress,
+} from ".";
+
+jest.mock("../families/evm/api/rpc");
+
+const vitalik = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+const ethereum = getCryptoCurrencyById("ethereum");
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const polygon = getCryptoCurrencyById("polygon");
+const account = genAccount("domain-service", { currency: ethereum });
+
+const transaction = (recipient: string) => ({
+  amount: new BigNumber(1),
+  recipient,
+});
+
+describe("domain-service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setEnv("ENS_RPC", "http://127.0.0.1:8545");
+    resolveDomain.reset();
+    reverseResolveAddress.reset();
+    (resolveENSName as jest.Mock).mockImplementation(async (_c, name) =>
+      name === "vitalik.eth" ? vitalik : null
+    );
+    (lookupENSAddress as jest.Mock).mockImplementation(async (_c, address) =>
+      address === vitalik ? "vitalik.eth" : null
+    );
+  });
+
+  it("should only consider the names of the currency name services", () => {
+    expect(isDomain(ethereum, "vitalik.eth")).toBe(true);
+    expect(isDomain(ethereum, vitalik)).toBe(false);
+    expect(isDomain(bitcoin, "vitalik.eth")).toBe(false);
+    // the address of another chain is not the one of ethereum
+    expect(isDomain(polygon, "vitalik.eth")).toBe(false);
+  });
+
+  it("should not resolve ENS names without a node", async () => {
+    setEnv("ENS_RPC", "");
+    expect(isDomain(ethereum, "vitalik.eth")).toBe(false);
+    expect(await resolveDomain(ethereum, "vitalik.eth")).toBe(null);
+    expect(await reverseResolveAddress(ethereum, vitalik)).toBe(null);
+    expect(resolveENSName).not.toHaveBeenCalled();
+    expect(lookupENSAddress).not.toHaveBeenCalled();
+  });
+
+  it("should resolve ENS names on ethereum, with a cache", async () => {
+    const expected = {
+      registry: "ens",
+      domain: "vitalik.eth",
+      address: vitalik,
+    };
+    expect(await resolveDomain(ethereum, "vitalik.eth")).toEqual(expected);
+    expect(await resolveDomain(ethereum, "vitalik.eth")).toEqual(expected);
+    expect(resolveENSName).toHaveBeenCalledTimes(1);
+    expect(
+      (resolveENSName as jest.Mock).mock.calls[0][0].ethereumLikeInfo.rpc
+    ).toBeTruthy();
+    expect(await resolveDomain(ethereum, "nobody.eth")).toBe(null);
+  });
+
+  it("should find the primary name of an address", async () => {
+    expect(await reverseResolveAddress(ethereum, vitalik)).toEqual({
+      registry: "ens",
+      domain: "vitalik.eth",
+      address: vitalik,
+    });
+    expect(await reverseResolveAddress(ethereum, account.freshAddress)).toBe(
+      null
+    );
+  });
+
+  it("should replace a name recipient by its address", async () => {
+    const resolved = await resolveTransactionRecipient(
+      account,
+      transaction("vitalik.eth")
+    );
+    expect(resolved).toEqual({
+      ...transaction(vitalik),
+      recipientDomain: {
+        registry: "ens",
+        domain: "vitalik.eth",
+        address: vitalik,
+      },
+    });
+    // already resolved
+    expect(await resolveTransactionRecipient(account, resolved)).toBe(resolved);
+    // the recipient was changed since
+    expect(
+      await resolveTransactionRecipient(account, {
+        ...resolved,
+        recipient: account.freshAddress,
+      })
+    ).toEqual({
+      ...transaction(account.freshAddress),
+      recipientDomain: null,
+    });
+    // an unknown name is left to the address validation
+    expect(
+      await resolveTransactionRecipient(account, transaction("nobody.eth"))
+    ).toEqual(transaction("nobody.eth"));
+  });
+
+  it("should use the registered name services", async () => {
+    registerDomainResolver({
+      registry: "test",
+      pattern: /\.test$/,
+      isCurrencySupported: (currency) => currency.id === "bitcoin",
+      resolve: async () => "bc1qtest",
+    });
+    expect(await resolveDomain(bitcoin, "satoshi.test")).toEqual({
+      registry: "test",
+      domain: "satoshi.test",
+      address: "bc1qtest",
+    });
+    expect(await resolveDomain(ethereum, "satoshi.test")).toBe(null);
+  });
+});
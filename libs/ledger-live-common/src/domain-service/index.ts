@@ -0,0 +1,112 @@
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import type {
+  Account,
+  RecipientDomain,
+  TransactionCommon,
+} from "@ledgerhq/types-live";
+import { makeLRUCache } from "../cache";
+import { ens } from "./ens";
+import type { DomainResolver } from "./types";
+
+export type { DomainResolver } from "./types";
+
+const resolvers: DomainResolver[] = [ens];
+
+/**
+ * Add a name service, or replace the one of the same registry
+ */
+export const registerDomainResolver = (resolver: DomainResolver): void => {
+  const index = resolvers.findIndex((r) => r.registry === resolver.registry);
+  if (index !== -1) {
+    resolvers.splice(index, 1, resolver);
+  } else {
+    resolvers.push(resolver);
+  }
+};
+
+export const getDomainResolvers = (
+  currency: CryptoCurrency
+): DomainResolver[] => resolvers.filter((r) => r.isCurrencySupported(currency));
+
+/**
+ * Whether a recipient is a name one of the name services of the currency
+ * would resolve
+ */
+export const isDomain = (
+  currency: CryptoCurrency,
+  recipient: string
+): boolean =>
+  getDomainResolvers(currency).some((r) => r.pattern.test(recipient));
+
+const cacheKey = (currency: CryptoCurrency, value: string) =>
+  `${currency.id}_${value.toLowerCase()}`;
+
+/**
+ * Resolve a name to an address with the first name service of the currency
+ * knowing it
+ */
+export const resolveDomain = makeLRUCache(
+  async (
+    currency: CryptoCurrency,
+    domain: string
+  ): Promise<RecipientDomain | null> => {
+    for (const resolver of getDomainResolvers(currency)) {
+      if (!resolver.pattern.test(domain)) continue;
+      const address = await resolver.resolve(currency, domain);
+      if (address) {
+        return { registry: resolver.registry, domain, address };
+      }
+    }
+    return null;
+  },
+  cacheKey
+);
+
+/**
+ * Find the primary name of an address, to label it
+ */
+export const reverseResolveAddress = makeLRUCache(
+  async (
+    currency: CryptoCurrency,
+    address: string
+  ): Promise<RecipientDomain | null> => {
+    for (const resolver of getDomainResolvers(currency)) {
+      if (!resolver.reverse) continue;
+      const domain = await resolver.reverse(currency, address);
+      if (domain) {
+        return { registry: resolver.registry, domain, address };
+      }
+    }
+    return null;
+  },
+  cacheKey
+);
+
+/**
+ * Replace a name typed as the recipient of a transaction by the address it
+ * resolves to, keeping the name in recipientDomain. A recipientDomain that no
+ * longer matches the recipient is dropped.
+ */
+export async function resolveTransactionRecipient<T extends TransactionCommon>(
+  account: Account,
+  transaction: T
+): Promise<T> {
+  const { recipient, recipientDomain } = transaction;
+  if (recipientDomain && recipientDomain.address === recipient) {
+    return transaction;
+  }
+  const domain = recipient.trim();
+  const resolved = isDomain(account.currency, domain)
+    ? await resolveDomain(account.currency, domain)
+    : null;
+  if (resolved) {
+    return {
+      ...transaction,
+      recipient: resolved.address,
+      recipientDomain: resolved,
+    };
+  }
+  return recipientDomain
+    ? { ...transaction, recipientDomain: null }
+    : transaction;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { log } from "@ledgerhq/logs";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import type { RecipientDomain } from "@ledgerhq/types-live";
+import { reverseResolveAddress } from ".";
+
+/**
+ * The primary name of an address, e.g. to label the senders and recipients
+ * of an operation. null until it is resolved, or when it has none.
+ */
+export function useAddressDomain(
+  currency: CryptoCurrency,
+  address: string
+): RecipientDomain | null {
+  const [domain, setDomain] = useState<RecipientDomain | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    setDomain(null);
+    reverseResolveAddress(currency, address).then(
+      (result) => {
+        if (!cancelled) setDomain(result);
+      },
+      (e) => log("domain-service", "reverse resolution failed " + String(e))
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, address]);
+  return domain;
+}
@@ -0,0 +1,18 @@
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+
+/**
+ * A name service resolving names to addresses, and addresses back to their
+ * primary name when it supports reverse records
+ */
+export type DomainResolver = {
+  // the name of the registry, e.g. "ens"
+  registry: string;
+  // the names it resolves
+  pattern: RegExp;
+  isCurrencySupported: (currency: CryptoCurrency) => boolean;
+  resolve: (currency: CryptoCurrency, domain: string) => Promise<string | null>;
+  reverse?: (
+    currency: CryptoCurrency,
+    address: string
+  ) => Promise<string | null>;
+};
@@ -212,6 +212,16 @@ const envDefinitions = {
     parser: stringParser,
     desc: "Ledger script runner API",
   },
+  BITCOIN_GAP_LIMIT: {
+    def: 20,
+    parser: intParser,
+    desc: "number of consecutive unused addresses that stops the address discovery of bitcoin accounts, unless the account has its own",
+  },
+  BITCOIN_STORAGE_DIR: {
+    def: "",
+    parser: stringParser,
+    desc: "directory where bitcoin accounts persist their synced transactions, kept in the serialized accounts if empty",
+  },
   BOT_TIMEOUT_SCAN_ACCOUNTS: {
     def: 10 * 60 * 1000,
     parser: intParser,
@@ -332,6 +342,16 @@ const envDefinitions = {
     parser: floatParser,
     desc: "Ethereum gasLimit multiplier for contracts to prevent out of gas issue",
   },
+  API_ETHEREUM_NODES: {
+    def: {},
+    parser: jsonParser,
+    desc: 'JSON-RPC nodes of the ethereum family currencies, by currency id, used to read the allowances. e.g. {"ethereum":"https://..."}',
+  },
+  ENS_RPC: {
+    def: "",
+    parser: stringParser,
+    desc: "Ethereum node used to resolve ENS names, which are not resolved without one",
+  },
   EXPERIMENTAL_BLE: {
     def: false,
     parser: boolParser,
@@ -352,6 +372,11 @@ const envDefinitions = {
     parser: boolParser,
     desc: "if HSM list apps fails, fallback on APDU version (>=1.6.0)",
   },
+  EXPERIMENTAL_FOUNTAIN_EXPORT: {
+    def: false,
+    parser: boolParser,
+    desc: "export the accounts in fountain QR code frames instead of qrloop ones, which older mobile apps can't import",
+  },
   EXPERIMENTAL_LANGUAGES: {
     def: false,
     parser: boolParser,
@@ -231,6 +231,56 @@ export const UnsupportedDerivation = createCustomErrorClass(
 
 export const EConnResetError = createCustomErrorClass("EConnReset");
 
+export const InvalidLabelRecord = createCustomErrorClass("InvalidLabelRecord");
+
+export const TransactionNotReplaceable = createCustomErrorClass(
+  "TransactionNotReplaceable"
+);
+export const ReplacementFeeTooLow = createCustomErrorClass(
+  "ReplacementFeeTooLow"
+);
+
+export const AllowanceContractRequired = createCustomErrorClass(
+  "AllowanceContractRequired"
+);
+export const NftAllowanceCanOnlyBeRevoked = createCustomErrorClass(
+  "NftAllowanceCanOnlyBeRevoked"
+);
+
+export const InvalidEIP712Message = createCustomErrorClass(
+  "InvalidEIP712Message"
+);
+
+export const SimulatedTransactionReverted = createCustomErrorClass(
+  "SimulatedTransactionReverted"
+);
+export const SimulatedBalanceChanges = createCustomErrorClass(
+  "SimulatedBalanceChanges"
+);
+
+export const InvalidCustomEvmNetwork = createCustomErrorClass(
+  "InvalidCustomEvmNetwork"
+);
+
+export const InvalidCountervaluesRates = createCustomErrorClass(
+  "InvalidCountervaluesRates"
+);
+
+export const InvalidBackup = createCustomErrorClass("InvalidBackup");
+export const BackupWrongPassphrase = createCustomErrorClass(
+  "BackupWrongPassphrase"
+);
+export const BackupVersionNotSupported = createCustomErrorClass(
+  "BackupVersionNotSupported"
+);
+
+export const InvalidFountainFrame = createCustomErrorClass(
+  "InvalidFountainFrame"
+);
+export const FountainChecksumMismatch = createCustomErrorClass(
+  "FountainChecksumMismatch"
+);
+
 export * from "./families/polkadot/errors";
 export * from "./families/stellar/errors";
 export * from "./families/solana/errors";
@@ -0,0 +1,153 @@
+import { crypto, ECPair, payments, script, Transaction } from "bitcoinjs-lib";
+import { bip322ToSpend } from "@ledgerhq/hw-app-btc/lib/newops/bip322";
+import { getCryptoCurrencyById } from "../../currencies";
+import { verifyMessage } from "./bip322";
+
+// Test vectors of BIP322
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const wif = "L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k";
+const segwitAddress = "bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l";
+const taprootAddress =
+  "bc1ppv609nr0vr25u07u95waq5lucwfm6tde4nydujnu8npg4q75mr5sxq8lt3";
+const emptySignature =
+  "AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=";
+const helloWorldSignature =
+  "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=";
+const taprootSignature =
+  "AUHd69PrJQEv+oKTfZ8l+WROBHuy9HKrbFCJu7U1iK2iiEy1vMU5EfMtjc+VSHM7aU0SDbak5IUZRVno2P5mjSafAQ==";
+
+const toSign = (scriptPubKey: Buffer, message: string) => {
+  const tx = new Transaction();
+  tx.version = 0;
+  tx.addInput(
+    crypto.hash256(bip322ToSpend(Buffer.from(message), scriptPubKey)),
+    0,
+    0
+  );
+  tx.addOutput(Buffer.from([0x6a]), 0);
+  return tx;
+};
+
+describe("BIP322 verifyMessage", () => {
+  it("verifies simple signatures of native segwit addresses", async () => {
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: segwitAddress,
+        message: "",
+        signature: emptySignature,
+      })
+    ).resolves.toBe(true);
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: segwitAddress,
+        message: "Hello World",
+        signature: helloWorldSignature,
+      })
+    ).resolves.toBe(true);
+  });
+
+  it("rejects a signature of another message", async () => {
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: segwitAddress,
+        message: "Hello World",
+        signature: emptySignature,
+      })
+    ).resolves.toBe(false);
+  });
+
+  it("verifies full signatures", async () => {
+    const { output } = payments.p2wpkh({ address: segwitAddress });
+    const tx = toSign(output as Buffer, "Hello World");
+    const witness = Buffer.from(helloWorldSignature, "base64");
+    tx.setWitness(0, [witness.slice(2, 2 + witness[1]), witness.slice(-33)]);
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: segwitAddress,
+        message: "Hello World",
+        signature: tx.toBuffer().toString("base64"),
+      })
+    ).resolves.toBe(true);
+  });
+
+  it("verifies signatures of taproot addresses", async () => {
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: taprootAddress,
+        message: "Hello World",
+        signature: taprootSignature,
+      })
+    ).resolves.toBe(true);
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: taprootAddress,
+        message: "",
+        signature: taprootSignature,
+      })
+    ).resolves.toBe(false);
+  });
+
+  it("verifies signatures of wrapped segwit addresses", async () => {
+    const key = ECPair.fromWIF(wif);
+    const p2sh = payments.p2sh({
+      redeem: payments.p2wpkh({ pubkey: key.publicKey }),
+    });
+    const tx = toSign(p2sh.output as Buffer, "Hello World");
+    const hash = tx.hashForWitnessV0(
+      0,
+      payments.p2pkh({ pubkey: key.publicKey }).output as Buffer,
+      0,
+      Transaction.SIGHASH_ALL
+    );
+    const sig = script.signature.encode(
+      key.sign(hash),
+      Transaction.SIGHASH_ALL
+    );
+    const simple = Buffer.concat([
+      Buffer.from([2, sig.length]),
+      sig,
+      Buffer.from([33]),
+      key.publicKey,
+    ]);
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: p2sh.address as string,
+        message: "Hello World",
+        signature: simple.toString("base64"),
+      })
+    ).resolves.toBe(true);
+  });
+
+  it("verifies full signatures of legacy addresses", async () => {
+    const key = ECPair.fromWIF(wif);
+    const p2pkh = payments.p2pkh({ pubkey: key.publicKey });
+    const tx = toSign(p2pkh.output as Buffer, "Hello World");
+    const hash = tx.hashForSignature(
+      0,
+      p2pkh.output as Buffer,
+      Transaction.SIGHASH_ALL
+    );
+    tx.setInputScript(
+      0,
+      script.compile([
+        script.signature.encode(key.sign(hash), Transaction.SIGHASH_ALL),
+        key.publicKey,
+      ])
+    );
+    await expect(
+      verifyMessage({
+        currency: bitcoin,
+        address: p2pkh.address as string,
+        message: "Hello World",
+        signature: tx.toBuffer().toString("base64"),
+      })
+    ).resolves.toBe(true);
+  });
+});
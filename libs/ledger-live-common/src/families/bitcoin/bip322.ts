@@ -0,0 +1,272 @@
+// BIP322 generic signed message format
+// https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki
+import * as secp from "@noble/secp256k1";
+import { crypto, script as bscript, Transaction } from "bitcoinjs-lib";
+import varuint from "varuint-bitcoin";
+import { InvalidAddress } from "@ledgerhq/errors";
+import { bip322ToSpend } from "@ledgerhq/hw-app-btc/lib/newops/bip322";
+import type { BIP322Format } from "@ledgerhq/hw-app-btc";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import cryptoFactory from "./wallet-btc/crypto/factory";
+import type { Currency } from "./wallet-btc";
+import { BIP322AddressNotSupported } from "./errors";
+
+export type { BIP322Format };
+
+const SIGHASH_DEFAULT = 0x00;
+const SIGHASH_ALL = 0x01;
+const OP_RETURN = 0x6a;
+
+type ToSign = {
+  version: number;
+  locktime: number;
+  sequence: number;
+  scriptSig: Buffer;
+  witness: Buffer[];
+};
+
+const readWitness = (buffer: Buffer): Buffer[] => {
+  let offset = 0;
+  const readVarInt = () => {
+    const n = varuint.decode(buffer, offset);
+    offset += varuint.decode.bytes;
+    return n;
+  };
+  const count = readVarInt();
+  const witness: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = readVarInt();
+    if (offset + length > buffer.length) {
+      throw new Error("invalid witness");
+    }
+    witness.push(buffer.slice(offset, offset + length));
+    offset += length;
+  }
+  if (offset !== buffer.length) {
+    throw new Error("invalid witness");
+  }
+  return witness;
+};
+
+// A full signature is the to_sign transaction, a simple one only its witness
+const parseSignature = (signature: Buffer, toSpendId: Buffer): ToSign => {
+  try {
+    const tx = Transaction.fromBuffer(signature);
+    if (tx.ins.length === 1 && tx.ins[0].hash.equals(toSpendId)) {
+      const [input] = tx.ins;
+      const [output] = tx.outs;
+      if (
+        input.index !== 0 ||
+        tx.outs.length !== 1 ||
+        output.value !== 0 ||
+        !output.script.equals(Buffer.from([OP_RETURN]))
+      ) {
+        throw new Error("invalid to_sign transaction");
+      }
+      return {
+        version: tx.version,
+        locktime: tx.locktime,
+        sequence: input.sequence,
+        scriptSig: input.script,
+        witness: input.witness,
+      };
+    }
+  } catch (e) {
+    // not a full signature
+  }
+  return {
+    version: 0,
+    locktime: 0,
+    sequence: 0,
+    scriptSig: Buffer.alloc(0),
+    witness: readWitness(signature),
+  };
+};
+
+const toSignTransaction = (toSpendId: Buffer, toSign: ToSign): Transaction => {
+  const tx = new Transaction();
+  tx.version = toSign.version;
+  tx.locktime = toSign.locktime;
+  tx.addInput(toSpendId, 0, toSign.sequence, toSign.scriptSig);
+  tx.addOutput(Buffer.from([OP_RETURN]), 0);
+  return tx;
+};
+
+const taggedHash = (tag: string, data: Buffer): Buffer => {
+  const h = crypto.sha256(Buffer.from(tag, "utf-8"));
+  return crypto.sha256(Buffer.concat([h, h, data]));
+};
+
+const uint32LE = (n: number): Buffer => {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(n >>> 0, 0);
+  return b;
+};
+
+const varSlice = (b: Buffer): Buffer =>
+  Buffer.concat([varuint.encode(b.length), b]);
+
+// BIP341 signature hash of the key path spending of the to_spend output
+const taprootSighash = (
+  tx: Transaction,
+  toSpendId: Buffer,
+  scriptPubKey: Buffer,
+  hashType: number
+): Buffer => {
+  const amount = Buffer.alloc(8, 0);
+  const sigMsg = Buffer.concat([
+    Buffer.from([0x00, hashType]), // epoch, hash_type
+    uint32LE(tx.version),
+    uint32LE(tx.locktime),
+    crypto.sha256(Buffer.concat([toSpendId, uint32LE(0)])),
+    crypto.sha256(amount),
+    crypto.sha256(varSlice(scriptPubKey)),
+    crypto.sha256(uint32LE(tx.ins[0].sequence)),
+    crypto.sha256(Buffer.concat([amount, varSlice(tx.outs[0].script)])),
+    Buffer.from([0x00]), // spend_type, key path without annex
+    uint32LE(0), // input_index
+  ]);
+  return taggedHash("TapSighash", sigMsg);
+};
+
+const p2pkhScript = (pubkeyHash: Buffer): Buffer =>
+  Buffer.concat([
+    Buffer.from([0x76, 0xa9, 0x14]),
+    pubkeyHash,
+    Buffer.from([0x88, 0xac]),
+  ]);
+
+const p2wpkhScript = (pubkeyHash: Buffer): Buffer =>
+  Buffer.concat([Buffer.from([0x00, 0x14]), pubkeyHash]);
+
+const verifyECDSA = (
+  signature: Buffer,
+  pubkey: Buffer,
+  sighash: (hashType: number) => Buffer
+): boolean => {
+  if (signature.length < 2) return false;
+  const hashType = signature[signature.length - 1];
+  try {
+    return secp.verify(
+      signature.slice(0, -1),
+      sighash(hashType),
+      pubkey
+    ) as boolean;
+  } catch (e) {
+    return false;
+  }
+};
+
+const verifyP2WPKH = (
+  tx: Transaction,
+  pubkeyHash: Buffer,
+  witness: Buffer[]
+): boolean => {
+  if (witness.length !== 2 || witness[1].length !== 33) return false;
+  const [signature, pubkey] = witness;
+  if (!crypto.hash160(pubkey).equals(pubkeyHash)) return false;
+  return verifyECDSA(signature, pubkey, (hashType) =>
+    tx.hashForWitnessV0(0, p2pkhScript(pubkeyHash), 0, hashType)
+  );
+};
+
+/**
+ * Verify offline a BIP322 signature, either in the "simple" or the "full"
+ * format, of a message by a P2PKH, P2SH-P2WPKH, P2WPKH or P2TR address.
+ * Only single key spendings of the to_spend output are supported.
+ */
+export const verifyMessage = async ({
+  currency,
+  address,
+  message,
+  signature,
+}: {
+  currency: CryptoCurrency;
+  address: string;
+  message: string;
+  signature: string;
+}): Promise<boolean> => {
+  const walletCrypto = cryptoFactory(currency.id as Currency);
+  if (!walletCrypto.validateAddress(address)) {
+    throw new InvalidAddress("", { currencyName: currency.name });
+  }
+  const scriptPubKey = walletCrypto.toOutputScript(address);
+  const toSpendId = crypto.hash256(
+    bip322ToSpend(Buffer.from(message), scriptPubKey)
+  );
+
+  let toSign: ToSign;
+  try {
+    toSign = parseSignature(Buffer.from(signature, "base64"), toSpendId);
+  } catch (e) {
+    return false;
+  }
+  const tx = toSignTransaction(toSpendId, toSign);
+  const { witness, scriptSig } = toSign;
+
+  // P2WPKH: OP_0 <20 bytes>
+  if (scriptPubKey.length === 22 && scriptPubKey[0] === 0x00) {
+    return scriptSig.length === 0
+      ? verifyP2WPKH(tx, scriptPubKey.slice(2), witness)
+      : false;
+  }
+
+  // P2TR: OP_1 <32 bytes>
+  if (scriptPubKey.length === 34 && scriptPubKey[0] === 0x51) {
+    if (witness.length !== 1 || scriptSig.length !== 0) return false;
+    const [sig] = witness;
+    if (sig.length !== 64 && sig.length !== 65) return false;
+    const hashType = sig.length === 65 ? sig[64] : SIGHASH_DEFAULT;
+    if (sig.length === 65 && hashType !== SIGHASH_ALL) return false;
+    const sighash = taprootSighash(tx, toSpendId, scriptPubKey, hashType);
+    try {
+      return await secp.schnorr.verify(
+        sig.slice(0, 64),
+        sighash,
+        scriptPubKey.slice(2)
+      );
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // P2SH-P2WPKH: OP_HASH160 <20 bytes> OP_EQUAL
+  if (
+    scriptPubKey.length === 23 &&
+    scriptPubKey[0] === 0xa9 &&
+    scriptPubKey[22] === 0x87
+  ) {
+    if (witness.length !== 2) return false;
+    const pubkeyHash = crypto.hash160(witness[1]);
+    const redeemScript = p2wpkhScript(pubkeyHash);
+    if (!crypto.hash160(redeemScript).equals(scriptPubKey.slice(2, 22))) {
+      return false;
+    }
+    // The simple format has no scriptSig, the redeem script is implied
+    const expectedScriptSig = bscript.compile([redeemScript]);
+    if (scriptSig.length > 0 && !scriptSig.equals(expectedScriptSig)) {
+      return false;
+    }
+    return verifyP2WPKH(tx, pubkeyHash, witness);
+  }
+
+  // P2PKH: only the full format is possible
+  if (
+    scriptPubKey.length === 25 &&
+    scriptPubKey[0] === 0x76 &&
+    scriptPubKey[1] === 0xa9
+  ) {
+    const chunks = bscript.decompile(scriptSig);
+    if (!chunks || chunks.length !== 2 || witness.length !== 0) return false;
+    const [sig, pubkey] = chunks;
+    if (!Buffer.isBuffer(sig) || !Buffer.isBuffer(pubkey)) return false;
+    if (!crypto.hash160(pubkey).equals(scriptPubKey.slice(3, 23))) {
+      return false;
+    }
+    return verifyECDSA(sig, pubkey, (hashType) =>
+      tx.hashForSignature(0, scriptPubKey, hashType)
+    );
+  }
+
+  throw new BIP322AddressNotSupported(undefined, { address });
+};
@@ -20,7 +20,9 @@ const getCacheKeyForCalculateFees = ({
     t.utxoStrategy.strategy
   }_${String(t.rbf)}_${t.utxoStrategy.excludeUTXOs
     .map(({ hash, outputIndex }) => `${hash}@${outputIndex}`)
-    .join("+")}`;
+    .join("+")}_${(t.utxoStrategy.includeUTXOs || [])
+    .map(({ hash, outputIndex }) => `${hash}@${outputIndex}`)
+    .join("+")}_${t.cpfp ? t.cpfp.parentTxHash : ""}`;
 
 export const calculateFees = makeLRUCache(
   async ({
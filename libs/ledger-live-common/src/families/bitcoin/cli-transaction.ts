@@ -16,11 +16,23 @@ const options = [
     multiple: true,
     desc: "exclude utxo by their txhash@index (example: -E hash@3 -E hash@0)",
   },
+  {
+    name: "includeUTXO",
+    alias: "I",
+    type: String,
+    multiple: true,
+    desc: "spend exactly these utxos by their txhash@index (example: -I hash@3 -I hash@0)",
+  },
   {
     name: "rbf",
     type: Boolean,
     desc: "enable replace-by-fee",
   },
+  {
+    name: "cpfp",
+    type: String,
+    desc: "accelerate the unconfirmed transaction with this hash using child-pays-for-parent",
+  },
   {
     name: "bitcoin-pick-strategy",
     type: String,
@@ -30,6 +42,18 @@ const options = [
   },
 ];
 
+function parseUTXO(
+  str: string,
+  message: string
+): { hash: string; outputIndex: number } {
+  const [hash, index] = str.split("@");
+  invariant(hash && index && !isNaN(Number(index)), message);
+  return {
+    hash,
+    outputIndex: parseInt(index, 10),
+  };
+}
+
 function inferTransactions(
   transactions: Array<{
     account: AccountLike;
@@ -46,19 +70,15 @@ function inferTransactions(
       ...transaction,
       feePerByte,
       rbf: opts.rbf || false,
+      cpfp: opts.cpfp ? { parentTxHash: opts.cpfp } : null,
       utxoStrategy: {
         strategy: bitcoinPickingStrategy[opts["bitcoin-pick-strategy"]] || 0,
-        excludeUTXOs: (opts.excludeUTXO || []).map((str) => {
-          const [hash, index] = str.split("@");
-          invariant(
-            hash && index && !isNaN(index),
-            "invalid format for --excludeUTXO, -E"
-          );
-          return {
-            hash,
-            outputIndex: parseInt(index, 10),
-          };
-        }),
+        excludeUTXOs: (opts.excludeUTXO || []).map((str) =>
+          parseUTXO(str, "invalid format for --excludeUTXO, -E")
+        ),
+        includeUTXOs: (opts.includeUTXO || []).map((str) =>
+          parseUTXO(str, "invalid format for --includeUTXO, -I")
+        ),
       },
     };
   });
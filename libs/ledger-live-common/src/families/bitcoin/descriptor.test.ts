@@ -3,7 +3,10 @@ import { getCryptoCurrencyById } from "../../currencies";
 import {
   inferDescriptorFromDeviceInfo,
   inferDescriptorFromAccount,
+  descriptorChecksum,
+  parseDescriptor,
 } from "./descriptor";
+import { InvalidDescriptor, InvalidDescriptorChecksum } from "./errors";
 import { fromAccountRaw } from "../../account";
 import bitcoinDatasets from "./datasets/bitcoin";
 describe("inferDescriptorFromAccount", () => {
@@ -60,3 +63,52 @@ describe("inferDescriptorFromDeviceInfo", () => {
     });
   });
 });
+describe("descriptorChecksum", () => {
+  it("should match the BIP380 test vectors", () => {
+    expect(descriptorChecksum("raw(deadbeef)")).toBe("89f8spxm");
+    expect(descriptorChecksum("raw(Deadbeef)")).not.toBe("89f8spxm");
+  });
+  it("should reject characters out of the descriptor charset", () => {
+    expect(() => descriptorChecksum("pkh(é)")).toThrow(InvalidDescriptor);
+  });
+});
+describe("parseDescriptor", () => {
+  const xpub =
+    "xpub6DEHKg8fgKcb9at2u9Xhjtx4tXGyWqUPQAx2zNCzr41gQRyCqpCn7onSoJU4VS96GXyCtAhhFxErnG2pGVvVexaqF7DEfqGGnGk7Havn7C2";
+  const descriptor = `wpkh([d6a9e45e/84'/0'/1']${xpub}/0/*)`;
+  it("should parse a descriptor with its key origin", () => {
+    expect(parseDescriptor(descriptor)).toEqual({
+      derivationMode: "native_segwit",
+      xpub,
+      fingerprint: "d6a9e45e",
+      accountPath: "84'/0'/1'",
+    });
+  });
+  it("should parse each supported script", () => {
+    expect(parseDescriptor(`pkh(${xpub})`).derivationMode).toBe("");
+    expect(parseDescriptor(`sh(wpkh(${xpub}/1/*))`).derivationMode).toBe(
+      "segwit"
+    );
+    expect(
+      parseDescriptor(`tr([d6a9e45e/86h/0h/0h]${xpub}/<0;1>/*)`)
+    ).toMatchObject({ derivationMode: "taproot", accountPath: "86'/0'/0'" });
+  });
+  it("should validate the checksum", () => {
+    const checksum = descriptorChecksum(descriptor);
+    expect(parseDescriptor(`${descriptor}#${checksum}`).xpub).toBe(xpub);
+    expect(() => parseDescriptor(`${descriptor}#${"q".repeat(8)}`)).toThrow(
+      InvalidDescriptorChecksum
+    );
+    expect(() => parseDescriptor(`${descriptor}#`)).toThrow(
+      InvalidDescriptorChecksum
+    );
+  });
+  it("should reject unsupported descriptors", () => {
+    expect(() => parseDescriptor(`wsh(pk(${xpub}))`)).toThrow(
+      InvalidDescriptor
+    );
+    expect(() => parseDescriptor(`wpkh(${xpub}/0/1)`)).toThrow(
+      InvalidDescriptor
+    );
+  });
+});
@@ -16,6 +16,7 @@ import getAddress from "../../hw/getAddress";
 import type { Account } from "@ledgerhq/types-live";
 import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
 import { decodeAccountId } from "../../account/accountId";
+import { InvalidDescriptor, InvalidDescriptorChecksum } from "./errors";
 
 export type AccountDescriptor = {
   internal: string;
@@ -63,6 +64,15 @@ export function inferDescriptorFromAccount(
   if (account.currency.family !== "bitcoin") return;
   const { id, derivationMode, seedIdentifier, currency, index } = account;
   const xpub = decodeAccountId(id).xpubOrAddress;
+  if (seedIdentifier === xpub) {
+    // watch-only accounts don't know the public key of their seed
+    const tmpl = perDerivation[derivationMode];
+    if (!tmpl) return;
+    return {
+      external: tmpl(`${xpub}/0/*`),
+      internal: tmpl(`${xpub}/1/*`),
+    };
+  }
   const fingerprint = makeFingerprint(
     compressPublicKeySECP256(Buffer.from(seedIdentifier, "hex"))
   );
@@ -195,3 +205,157 @@ export function scanDescriptors(
     )
   );
 }
+
+// https://github.com/bitcoin/bips/blob/master/bip-0380.mediawiki#checksum
+const INPUT_CHARSET =
+  "0123456789()[],'/*abcdefgh@:$%{}" +
+  "IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~" +
+  'ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [
+  "0xf5dee51989",
+  "0xa9fdca3312",
+  "0x1bab10e32d",
+  "0x3706b1677a",
+  "0x644d626ffd",
+].map((g) => BigInt(g));
+
+function polymod(c: bigint, value: number): bigint {
+  const c0 = Number(c >> BigInt(35));
+  c = ((c & BigInt("0x7ffffffff")) << BigInt(5)) ^ BigInt(value);
+  GENERATOR.forEach((g, i) => {
+    if ((c0 >> i) & 1) c ^= g;
+  });
+  return c;
+}
+
+/**
+ * Compute the 8 characters checksum of an output descriptor (without its
+ * "#checksum" suffix)
+ */
+export function descriptorChecksum(descriptor: string): string {
+  let c = BigInt(1);
+  let cls = 0;
+  let clscount = 0;
+  for (const ch of descriptor) {
+    const pos = INPUT_CHARSET.indexOf(ch);
+    if (pos === -1) {
+      throw new InvalidDescriptor(`invalid character '${ch}' in descriptor`);
+    }
+    c = polymod(c, pos & 31);
+    cls = cls * 3 + (pos >> 5);
+    if (++clscount === 3) {
+      c = polymod(c, cls);
+      cls = 0;
+      clscount = 0;
+    }
+  }
+  if (clscount > 0) c = polymod(c, cls);
+  for (let i = 0; i < 8; i++) c = polymod(c, 0);
+  c ^= BigInt(1);
+  let checksum = "";
+  for (let i = 0; i < 8; i++) {
+    checksum +=
+      CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & BigInt(31))];
+  }
+  return checksum;
+}
+
+export type ParsedDescriptor = {
+  derivationMode: DerivationMode;
+  xpub: string;
+  // key origin, when the descriptor provides it
+  fingerprint?: string;
+  accountPath?: string;
+};
+
+const scriptPatterns: [DerivationMode, RegExp][] = [
+  ["", /^pkh\((.+)\)$/],
+  ["segwit", /^sh\(wpkh\((.+)\)\)$/],
+  ["native_segwit", /^wpkh\((.+)\)$/],
+  ["taproot", /^tr\((.+)\)$/],
+];
+
+// [fingerprint/path]xpub followed by /0/*, /1/* or the /<0;1>/* multipath
+const keyPattern =
+  /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([1-9A-HJ-NP-Za-km-z]+)(?:\/(?:0|1|<0;1>)\/\*)?$/;
+
+/**
+ * Parse a single key pkh/sh(wpkh)/wpkh/tr descriptor of an account, as
+ * produced by inferDescriptorFromAccount. The checksum is optional but
+ * verified when present.
+ */
+export function parseDescriptor(descriptor: string): ParsedDescriptor {
+  const body = checkDescriptorChecksum(descriptor);
+  for (const [derivationMode, pattern] of scriptPatterns) {
+    const scriptMatch = body.match(pattern);
+    if (!scriptMatch) continue;
+    return { derivationMode, ...parseDescriptorKey(scriptMatch[1]) };
+  }
+  throw new InvalidDescriptor("only pkh, sh(wpkh), wpkh and tr are supported");
+}
+
+/**
+ * Verify the checksum of a descriptor, if any, and return the descriptor
+ * without it
+ */
+export function checkDescriptorChecksum(descriptor: string): string {
+  const [body, checksum, ...rest] = descriptor.trim().split("#");
+  if (rest.length > 0) {
+    throw new InvalidDescriptor("unexpected '#' in descriptor");
+  }
+  const expectedChecksum = descriptorChecksum(body);
+  if (checksum !== undefined && checksum !== expectedChecksum) {
+    throw new InvalidDescriptorChecksum(
+      `expected checksum ${expectedChecksum}`,
+      { expected: expectedChecksum }
+    );
+  }
+  return body;
+}
+
+export function parseDescriptorKey(
+  key: string
+): Omit<ParsedDescriptor, "derivationMode"> {
+  const keyMatch = key.match(keyPattern);
+  if (!keyMatch) {
+    throw new InvalidDescriptor(`unsupported key '${key}'`);
+  }
+  const [, fingerprint, path, xpub] = keyMatch;
+  if (!fingerprint) {
+    return { xpub };
+  }
+  return {
+    xpub,
+    fingerprint: fingerprint.toLowerCase(),
+    accountPath: path.slice(1).replace(/h/g, "'"),
+  };
+}
+
+/**
+ * Check that xpub is a valid extended public key of the currency
+ */
+export function validateDescriptorXpub(
+  currency: CryptoCurrency,
+  xpub: string
+): void {
+  const { XPUBVersion } = currency.bitcoinLikeInfo as { XPUBVersion?: number };
+  let decoded: Buffer;
+  try {
+    decoded = Buffer.from(bs58.decode(xpub));
+  } catch (e) {
+    throw new InvalidDescriptor(`invalid extended public key ${xpub}`);
+  }
+  const payload = decoded.slice(0, -4);
+  if (
+    payload.length !== 78 ||
+    !hash256(payload).slice(0, 4).equals(decoded.slice(-4))
+  ) {
+    throw new InvalidDescriptor(`invalid extended public key ${xpub}`);
+  }
+  if (!XPUBVersion || payload.readUInt32BE(0) !== XPUBVersion) {
+    throw new InvalidDescriptor(
+      `extended public key ${xpub} is not a ${currency.name} one`
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import * as bip32 from "bip32";
+import { payments } from "bitcoinjs-lib";
+import { getCryptoCurrencyById } from "../../currencies";
+import { fromAccountRaw, toAccountRaw } from "../../account";
+import { InvalidGapLimit } from "./errors";
+import {
+  checkGapLimit,
+  getDiscoveryReport,
+  getGapLimit,
+  MAX_GAP_LIMIT,
+  setGapLimit,
+} from "./discovery";
+import { watchOnlyAccountFromDescriptor } from "./watchOnly";
+import wallet, { DerivationModes } from "./wallet-btc";
+import type { Currency } from "./wallet-btc";
+import type { TX } from "./wallet-btc/storage/types";
+import type { BitcoinAccount, BitcoinResources } from "./types";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const accountNode = bip32
+  .fromSeed(Buffer.alloc(32, 1))
+  .derivePath("m/84'/0'/0'");
+const xpub = accountNode.neutered().toBase58();
+const addressAt = (chain: number, index: number) =>
+  payments.p2wpkh({
+    pubkey: accountNode.derive(chain).derive(index).publicKey,
+  }).address as string;
+
+// a confirmed transaction receiving value on an address of the account
+const receive = (chain: number, index: number, value: string): TX => ({
+  id: `tx-${chain}-${index}`,
+  account: chain,
+  index,
+  address: addressAt(chain, index),
+  received_at: "2022-01-01T00:00:00Z",
+  block: { height: 1, hash: "block1", time: "2022-01-01T00:00:00Z" },
+  inputs: [
+    {
+      value,
+      address: "other",
+      output_hash: "tx0",
+      output_index: 0,
+      sequence: 0xffffffff,
+    },
+  ],
+  outputs: [
+    {
+      value,
+      address: addressAt(chain, index),
+      output_hash: `tx-${chain}-${index}`,
+      output_index: 0,
+      block_height: 1,
+      rbf: false,
+    },
+  ],
+});
+
+const makeAccount = async (gap: number): Promise<BitcoinAccount> => {
+  const account = watchOnlyAccountFromDescriptor({
+    currency: bitcoin,
+    descriptor: xpub,
+    derivationMode: "native_segwit",
+  });
+  account.bitcoinResources.walletAccount = await wallet.generateAccount({
+    xpub,
+    path: "84'/0'",
+    index: 0,
+    currency: <Currency>"bitcoin",
+    network: "mainnet",
+    derivationMode: DerivationModes.NATIVE_SEGWIT,
+    explorer: "ledgerv3",
+    explorerURI: "http://localhost",
+    storage: "mock",
+    storageParams: [],
+    gap,
+  });
+  return account;
+};
+
+describe("setGapLimit", () => {
+  it("should keep the gap limit of the account through serialization", () => {
+    const account = watchOnlyAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor: xpub,
+    });
+    expect(getGapLimit(account)).toBe(20);
+    const updated = setGapLimit(account, 50);
+    expect(getGapLimit(updated)).toBe(50);
+    expect(getGapLimit(fromAccountRaw(toAccountRaw(updated)))).toBe(50);
+  });
+
+  it("should change the gap limit of a copy of the wallet account", async () => {
+    const walletAccount = (await makeAccount(3)).bitcoinResources
+      .walletAccount as NonNullable<BitcoinResources["walletAccount"]>;
+    const updated = wallet.withAccountGap(walletAccount, 50);
+    expect([updated.params.gap, updated.xpub.GAP]).toEqual([50, 50]);
+    expect([walletAccount.params.gap, walletAccount.xpub.GAP]).toEqual([3, 3]);
+    expect(updated.xpub.storage).toBe(walletAccount.xpub.storage);
+  });
+
+  it("should reject invalid gap limits", () => {
+    const account = watchOnlyAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor: xpub,
+    });
+    expect(() => setGapLimit(account, 0)).toThrow(InvalidGapLimit);
+    expect(() => setGapLimit(account, 2.5)).toThrow(InvalidGapLimit);
+    expect(() => setGapLimit(account, 100000)).toThrow(InvalidGapLimit);
+  });
+
+  it("should accept the gap limits up to the maximum", () => {
+    expect(() => checkGapLimit(MAX_GAP_LIMIT)).not.toThrow();
+    expect(() => checkGapLimit(MAX_GAP_LIMIT + 1)).toThrow(InvalidGapLimit);
+  });
+});
+
+describe("getDiscoveryReport", () => {
+  it("should list the used addresses and the gap after them", async () => {
+    const account = await makeAccount(3);
+    account.bitcoinResources.walletAccount?.xpub.storage.appendTxs([
+      receive(0, 1, "1000"),
+      receive(1, 0, "500"),
+    ]);
+    const report = await getDiscoveryReport(account);
+    expect(report.gapLimit).toBe(3);
+    expect(
+      report.addresses.map((a) => [
+        a.path,
+        a.used,
+        a.balance.toNumber(),
+        a.address === addressAt(a.chain, a.index),
+      ])
+    ).toEqual([
+      ["84'/0'/0'/0/0", false, 0, true],
+      ["84'/0'/0'/0/1", true, 1000, true],
+      ["84'/0'/0'/0/2", false, 0, true],
+      ["84'/0'/0'/0/3", false, 0, true],
+      ["84'/0'/0'/0/4", false, 0, true],
+      ["84'/0'/0'/1/0", true, 500, true],
+      ["84'/0'/0'/1/1", false, 0, true],
+      ["84'/0'/0'/1/2", false, 0, true],
+      ["84'/0'/0'/1/3", false, 0, true],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { BigNumber } from "bignumber.js";
+import type { Account } from "@ledgerhq/types-live";
+import { getEnv } from "../../env";
+import { getWalletAccount } from "./wallet-btc";
+import type { BitcoinAccount } from "./types";
+import { InvalidGapLimit } from "./errors";
+
+// above it, the discovery of an account derives too many addresses
+export const MAX_GAP_LIMIT = 1000;
+
+export type DiscoveredAddress = {
+  address: string;
+  path: string;
+  // 0 for the receive addresses, 1 for the change ones
+  chain: number;
+  index: number;
+  used: boolean;
+  balance: BigNumber;
+};
+
+export type DiscoveryReport = {
+  gapLimit: number;
+  addresses: DiscoveredAddress[];
+};
+
+/**
+ * The gap limit an account is synced with
+ */
+export const getGapLimit = (account: Account): number =>
+  (account as BitcoinAccount).bitcoinResources?.gapLimit ||
+  getEnv("BITCOIN_GAP_LIMIT");
+
+/**
+ * Throw InvalidGapLimit unless the gap limit is an integer between 1 and MAX_GAP_LIMIT
+ */
+export function checkGapLimit(gapLimit: number): void {
+  if (!Number.isInteger(gapLimit) || gapLimit < 1 || gapLimit > MAX_GAP_LIMIT) {
+    throw new InvalidGapLimit(
+      `gap limit must be an integer between 1 and ${MAX_GAP_LIMIT}`
+    );
+  }
+}
+
+/**
+ * Set the gap limit of an account, used from its next sync
+ */
+export function setGapLimit(account: Account, gapLimit: number): Account {
+  checkGapLimit(gapLimit);
+  const { bitcoinResources } = account as BitcoinAccount;
+  return {
+    ...account,
+    bitcoinResources: { ...bitcoinResources, gapLimit },
+  } as BitcoinAccount;
+}
+
+/**
+ * List the addresses derived by the last sync of an account: on each chain,
+ * the used ones and the unused ones up to the gap limit after the last used
+ * one.
+ */
+export async function getDiscoveryReport(
+  account: Account
+): Promise<DiscoveryReport> {
+  const { xpub } = getWalletAccount(account);
+  // the fresh address path is <account path>/0/<index>
+  const accountPath = account.freshAddressPath
+    .split("/")
+    .slice(0, -2)
+    .join("/");
+  const addresses: DiscoveredAddress[] = [];
+  for (const chain of [0, 1]) {
+    const used = new Map(
+      xpub.storage
+        .getUniquesAddresses({ account: chain })
+        .map((a) => [a.index, a])
+    );
+    const count = Math.max(-1, ...used.keys()) + 1 + xpub.GAP;
+    for (let index = 0; index < count; index++) {
+      const usedAddress = used.get(index);
+      const address =
+        usedAddress?.address ||
+        (await xpub.crypto.getAddress(
+          xpub.derivationMode,
+          xpub.xpub,
+          chain,
+          index
+        ));
+      addresses.push({
+        address,
+        path: `${accountPath}/${chain}/${index}`,
+        chain,
+        index,
+        used: !!usedAddress,
+        balance: usedAddress
+          ? await xpub.getAddressBalance(usedAddress)
+          : new BigNumber(0),
+      });
+    }
+  }
+  return { gapLimit: xpub.GAP, addresses };
+}
@@ -3,3 +3,34 @@ import { createCustomErrorClass } from "@ledgerhq/errors";
 export const TaprootNotActivated = createCustomErrorClass(
   "TaprootNotActivated"
 );
+export const CpfpParentNotFound = createCustomErrorClass("CpfpParentNotFound");
+export const CpfpParentAlreadyConfirmed = createCustomErrorClass(
+  "CpfpParentAlreadyConfirmed"
+);
+export const UnspentOutputNotFound = createCustomErrorClass(
+  "UnspentOutputNotFound"
+);
+export const CpfpWithIncludedUTXOs = createCustomErrorClass(
+  "CpfpWithIncludedUTXOs"
+);
+export const BIP322AddressNotSupported = createCustomErrorClass(
+  "BIP322AddressNotSupported"
+);
+export const InvalidDescriptor = createCustomErrorClass("InvalidDescriptor");
+export const InvalidDescriptorChecksum = createCustomErrorClass(
+  "InvalidDescriptorChecksum"
+);
+export const WatchOnlyAccountCannotSign = createCustomErrorClass(
+  "WatchOnlyAccountCannotSign"
+);
+export const MultisigPsbtRequired = createCustomErrorClass(
+  "MultisigPsbtRequired"
+);
+export const InvalidPsbt = createCustomErrorClass("InvalidPsbt");
+export const InvalidElectrumEndpoint = createCustomErrorClass(
+  "InvalidElectrumEndpoint"
+);
+export const ElectrumServerError = createCustomErrorClass(
+  "ElectrumServerError"
+);
+export const InvalidGapLimit = createCustomErrorClass("InvalidGapLimit");
@@ -0,0 +1,61 @@
+import { getCryptoCurrencyById } from "../../currencies";
+import btcSign from "./hw-signMessage";
+
+const signMessage = jest.fn(() =>
+  Promise.resolve({ v: 0, r: "11".repeat(32), s: "22".repeat(32) })
+);
+const signMessageBIP322 = jest.fn(() => Promise.resolve("bip322signature"));
+
+jest.mock("@ledgerhq/hw-app-btc", () => {
+  return function () {
+    return { signMessage, signMessageBIP322 };
+  };
+});
+
+const message = {
+  currency: getCryptoCurrencyById("bitcoin"),
+  path: "84'/0'/0'/0/0",
+  derivationMode: "native_segwit" as const,
+  message: "hello",
+  rawMessage: "0x68656c6c6f",
+};
+
+describe("Btc hw-signMessage", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should sign in the legacy format by default", async () => {
+    const { rsv, signature } = await btcSign.signMessage({} as any, message);
+
+    expect(signMessageBIP322).not.toHaveBeenCalled();
+    expect(rsv?.v).toBe(0);
+    expect(Buffer.from(signature, "base64")[0]).toBe(31);
+  });
+
+  it("should sign according to BIP322 when requested", async () => {
+    const result = await btcSign.signMessage({} as any, {
+      ...message,
+      bip322: true,
+    });
+
+    expect(signMessage).not.toHaveBeenCalled();
+    expect(signMessageBIP322).toHaveBeenCalledWith({
+      path: message.path,
+      messageHex: "68656c6c6f",
+      format: "bech32",
+    });
+    expect(result).toEqual({ signature: "bip322signature" });
+  });
+
+  it("should not sign legacy addresses according to BIP322", async () => {
+    await btcSign.signMessage({} as any, {
+      ...message,
+      derivationMode: "",
+      bip322: true,
+    });
+
+    expect(signMessageBIP322).not.toHaveBeenCalled();
+    expect(signMessage).toHaveBeenCalled();
+  });
+});
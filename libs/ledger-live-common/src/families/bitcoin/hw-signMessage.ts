@@ -1,9 +1,38 @@
-import Btc from "@ledgerhq/hw-app-btc";
-import type { SignMessage } from "../../hw/signMessage/types";
+import Btc, { AddressFormat } from "@ledgerhq/hw-app-btc";
+import type Transport from "@ledgerhq/hw-transport";
+import { getAddressFormatDerivationMode } from "../../derivation";
+import type { BitcoinMessageData, BitcoinSignMessageResult } from "./types";
+
+// the legacy signmessage format can't express native segwit and taproot
+// addresses, they can sign according to BIP322 instead
+const bip322AddressFormats: AddressFormat[] = ["bech32", "bech32m"];
+
+type BitcoinSignMessage = (
+  transport: Transport,
+  message: BitcoinMessageData
+) => Promise<BitcoinSignMessageResult>;
+
+const signMessage: BitcoinSignMessage = async (
+  transport,
+  { path, message, currency, derivationMode, bip322 }
+) => {
+  const btc = new Btc({ transport, currency: currency.id });
+  const hexMessage = Buffer.from(message).toString("hex");
+  const format = getAddressFormatDerivationMode(
+    derivationMode
+  ) as AddressFormat;
+
+  if (bip322 && bip322AddressFormats.includes(format)) {
+    const signature = await btc.signMessageBIP322({
+      path,
+      messageHex: hexMessage,
+      format,
+    });
+    return {
+      signature,
+    };
+  }
 
-const signMessage: SignMessage = async (transport, { path, message }) => {
-  const btc = new Btc({ transport });
-  const hexMessage = Buffer.from(message as string).toString("hex");
   const result = await btc.signMessage(path, hexMessage);
   const v = result["v"] + 27 + 4;
   const signature = Buffer.from(
@@ -1,5 +1,5 @@
-import type { Account as WalletAccount } from "./wallet-btc";
-import { CoinSelect, DeepFirst, Merge } from "./wallet-btc";
+import type { Account as WalletAccount, CpfpParent } from "./wallet-btc";
+import { CoinSelect, DeepFirst, Merge, Cpfp, Manual } from "./wallet-btc";
 import type { TransactionInfo as WalletTxInfo } from "./wallet-btc";
 import { FeeNotLoaded } from "@ledgerhq/errors";
 
@@ -8,11 +8,31 @@ import { bitcoinPickingStrategy } from "./types";
 import wallet, { getWalletAccount } from "./wallet-btc";
 import { log } from "@ledgerhq/logs";
 import { Account } from "@ledgerhq/types-live";
+import { CpfpWithIncludedUTXOs } from "./errors";
 
 const selectUtxoPickingStrategy = (
   walletAccount: WalletAccount,
-  utxoStrategy: UtxoStrategy
+  utxoStrategy: UtxoStrategy,
+  cpfpParent?: CpfpParent
 ) => {
+  if (utxoStrategy.includeUTXOs?.length) {
+    return new Manual(
+      walletAccount.xpub.crypto,
+      walletAccount.xpub.derivationMode,
+      utxoStrategy.excludeUTXOs,
+      utxoStrategy.includeUTXOs
+    );
+  }
+
+  if (cpfpParent) {
+    return new Cpfp(
+      walletAccount.xpub.crypto,
+      walletAccount.xpub.derivationMode,
+      utxoStrategy.excludeUTXOs,
+      cpfpParent
+    );
+  }
+
   const handler = {
     [bitcoinPickingStrategy.MERGE_OUTPUTS]: Merge,
     [bitcoinPickingStrategy.DEEP_OUTPUTS_FIRST]: DeepFirst,
@@ -27,6 +47,30 @@ const selectUtxoPickingStrategy = (
   );
 };
 
+// With coin control, every utxo that was not chosen is excluded
+export const getExcludedUTXOs = async (
+  walletAccount: WalletAccount,
+  utxoStrategy: UtxoStrategy
+): Promise<UtxoStrategy["excludeUTXOs"]> => {
+  const { includeUTXOs, excludeUTXOs } = utxoStrategy;
+  if (!includeUTXOs?.length) {
+    return excludeUTXOs;
+  }
+  const utxos = await wallet.getAccountUnspentUtxos(walletAccount);
+  return utxos
+    .filter(
+      (utxo) =>
+        !includeUTXOs.some(
+          (u) =>
+            u.hash === utxo.output_hash && u.outputIndex === utxo.output_index
+        )
+    )
+    .map((utxo) => ({
+      hash: utxo.output_hash,
+      outputIndex: utxo.output_index,
+    }));
+};
+
 export const buildTransaction = async (
   account: Account,
   transaction: Transaction
@@ -37,19 +81,38 @@ export const buildTransaction = async (
     throw new FeeNotLoaded();
   }
 
+  if (transaction.cpfp && utxoStrategy.includeUTXOs?.length) {
+    throw new CpfpWithIncludedUTXOs();
+  }
+
   const walletAccount = getWalletAccount(account);
+  const cpfpParent = transaction.cpfp
+    ? await wallet.getAccountCpfpParent(
+        walletAccount,
+        transaction.cpfp.parentTxHash
+      )
+    : undefined;
   const utxoPickingStrategy = selectUtxoPickingStrategy(
     walletAccount,
-    transaction.utxoStrategy
+    transaction.utxoStrategy,
+    cpfpParent
   );
 
-  const maxSpendable = await wallet.estimateAccountMaxSpendable(
-    walletAccount,
-    feePerByte.toNumber(), //!\ wallet-btc handles fees as JS number
-    utxoStrategy.excludeUTXOs,
-    [recipient],
-    opReturnData
-  );
+  const maxSpendable = cpfpParent
+    ? await wallet.estimateAccountCpfpMaxSpendable(
+        walletAccount,
+        cpfpParent,
+        feePerByte.toNumber(), //!\ wallet-btc handles fees as JS number
+        [recipient],
+        opReturnData
+      )
+    : await wallet.estimateAccountMaxSpendable(
+        walletAccount,
+        feePerByte.toNumber(), //!\ wallet-btc handles fees as JS number
+        await getExcludedUTXOs(walletAccount, utxoStrategy),
+        [recipient],
+        opReturnData
+      );
 
   log("btcwallet", "building transaction", transaction);
 
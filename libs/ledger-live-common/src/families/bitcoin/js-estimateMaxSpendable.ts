@@ -3,6 +3,7 @@ import type { Transaction } from "./types";
 import { getMainAccount } from "../../account";
 import wallet, { getWalletAccount } from "./wallet-btc";
 import { getAccountNetworkInfo } from "./getAccountNetworkInfo";
+import { getExcludedUTXOs } from "./js-buildTransaction";
 import type { Account, AccountLike } from "@ledgerhq/types-live";
 
 /**
@@ -27,13 +28,26 @@ const estimateMaxSpendable = async ({
     feePerByte = networkInfo.feeItems.defaultFeePerByte;
   }
 
-  const maxSpendable = await wallet.estimateAccountMaxSpendable(
-    walletAccount,
-    feePerByte.toNumber(), //!\ wallet-btc handles fees as JS number
-    transaction?.utxoStrategy?.excludeUTXOs || [],
-    transaction ? [transaction.recipient] : [],
-    transaction?.opReturnData
-  );
+  const maxSpendable = transaction?.cpfp
+    ? await wallet.estimateAccountCpfpMaxSpendable(
+        walletAccount,
+        await wallet.getAccountCpfpParent(
+          walletAccount,
+          transaction.cpfp.parentTxHash
+        ),
+        feePerByte.toNumber(), //!\ wallet-btc handles fees as JS number
+        [transaction.recipient],
+        transaction.opReturnData
+      )
+    : await wallet.estimateAccountMaxSpendable(
+        walletAccount,
+        feePerByte.toNumber(), //!\ wallet-btc handles fees as JS number
+        transaction?.utxoStrategy
+          ? await getExcludedUTXOs(walletAccount, transaction.utxoStrategy)
+          : [],
+        transaction ? [transaction.recipient] : [],
+        transaction?.opReturnData
+      );
 
   return maxSpendable.lt(0) ? new BigNumber(0) : maxSpendable;
 };
@@ -13,7 +13,7 @@ import type { Account } from "@ledgerhq/types-live";
 
 import type { Transaction, TransactionStatus } from "./types";
 import { calculateFees, validateRecipient, isTaprootRecipient } from "./cache";
-import { TaprootNotActivated } from "./errors";
+import { CpfpWithIncludedUTXOs, TaprootNotActivated } from "./errors";
 import { computeDustAmount } from "./wallet-btc/utils";
 import { Currency } from "./wallet-btc";
 import cryptoFactory from "./wallet-btc/crypto/factory";
@@ -61,6 +61,9 @@ const getTransactionStatus = async (
     errors.feePerByte = new FeeNotLoaded();
   } else if (t.feePerByte.eq(0)) {
     errors.feePerByte = new FeeRequired();
+  } else if (t.cpfp && t.utxoStrategy.includeUTXOs?.length) {
+    // the parent outputs to spend conflict with the utxos chosen by the user
+    errors.cpfp = new CpfpWithIncludedUTXOs();
   } else if (t.recipient && !errors.recipient) {
     await calculateFees({
       account: a,
@@ -76,6 +79,13 @@ const getTransactionStatus = async (
           errors.amount = error;
         } else if (error.name === "DustLimit") {
           errors.dustLimit = error;
+        } else if (
+          error.name === "CpfpParentNotFound" ||
+          error.name === "CpfpParentAlreadyConfirmed"
+        ) {
+          errors.cpfp = error;
+        } else if (error.name === "UnspentOutputNotFound") {
+          errors.includeUTXOs = error;
         } else {
           throw error;
         }
@@ -17,10 +17,14 @@ const prepareTransaction = async (
 
   const feePerByte = inferFeePerByte(t, networkInfo);
 
+  // a CPFP child without explicit recipient sends the stuck funds back to us
+  const recipient = t.cpfp && !t.recipient ? a.freshAddress : t.recipient;
+
   if (
-    (t.networkInfo === networkInfo &&
+    recipient === t.recipient &&
+    ((t.networkInfo === networkInfo &&
       (feePerByte === t.feePerByte || feePerByte.eq(t.feePerByte || 0))) ||
-    t.feesStrategy === "custom"
+      t.feesStrategy === "custom")
   ) {
     // nothing changed
     return t;
@@ -28,6 +32,7 @@ const prepareTransaction = async (
 
   return {
     ...t,
+    recipient,
     networkInfo,
     feePerByte,
   };
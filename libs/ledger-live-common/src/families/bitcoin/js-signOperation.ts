@@ -1,5 +1,5 @@
 import { BigNumber } from "bignumber.js";
-import { Observable } from "rxjs";
+import { Observable, throwError } from "rxjs";
 import Btc from "@ledgerhq/hw-app-btc";
 import { log } from "@ledgerhq/logs";
 import { DerivationMode, isSegwitDerivationMode } from "./../../derivation";
@@ -11,13 +11,16 @@ import { buildTransaction } from "./js-buildTransaction";
 import { calculateFees } from "./cache";
 import wallet, { getWalletAccount } from "./wallet-btc";
 import { perCoinLogic } from "./logic";
+import { isWatchOnlyAccount } from "./watchOnly";
+import { isMultisigAccount } from "./multisig";
+import { MultisigPsbtRequired, WatchOnlyAccountCannotSign } from "./errors";
 import type {
   Account,
   Operation,
   SignOperationEvent,
 } from "@ledgerhq/types-live";
 
-const signOperation = ({
+const signWithDevice = ({
   account,
   deviceId,
   transaction,
@@ -161,4 +164,18 @@ const signOperation = ({
     })
   );
 
+// watch-only accounts have no device to sign with, don't even try to open one,
+// and the cosigners of a multisig account sign a PSBT in turn (see multisig.ts)
+const signOperation = (
+  arg: Parameters<typeof signWithDevice>[0]
+): Observable<SignOperationEvent> => {
+  if (isWatchOnlyAccount(arg.account)) {
+    return throwError(new WatchOnlyAccountCannotSign());
+  }
+  if (isMultisigAccount(arg.account)) {
+    return throwError(new MultisigPsbtRequired());
+  }
+  return signWithDevice(arg);
+};
+
 export default signOperation;
@@ -1,17 +1,20 @@
 import type { Currency, Output as WalletOutput } from "./wallet-btc";
 import { DerivationModes as WalletDerivationModes } from "./wallet-btc";
 import { BigNumber } from "bignumber.js";
+import { crypto as bjsCrypto } from "bitcoinjs-lib";
 import Btc from "@ledgerhq/hw-app-btc";
 import { log } from "@ledgerhq/logs";
 import { getCryptoCurrencyById } from "@ledgerhq/cryptoassets";
 import type { GetAccountShape } from "../../bridge/jsHelpers";
 import { makeSync, makeScanAccounts, mergeOps } from "../../bridge/jsHelpers";
 import { findCurrencyExplorer } from "../../api/Ledger";
+import { getEnv } from "../../env";
 import { encodeAccountId } from "../../account";
 import {
   isSegwitDerivationMode,
   isNativeSegwitDerivationMode,
   isTaprootDerivationMode,
+  isMultisigDerivationMode,
   DerivationMode,
 } from "../../derivation";
 import { BitcoinAccount, BitcoinOutput } from "./types";
@@ -20,8 +23,14 @@ import wallet from "./wallet-btc";
 import { getAddress } from "./hw-getAddress";
 import { mapTxToOperations } from "./logic";
 import { Account, Operation } from "@ledgerhq/types-live";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
 import { decodeAccountId } from "../../account/accountId";
 import { startSpan } from "../../performance";
+import { toWalletMultisigXpub } from "./multisig";
+import { isWatchOnlyAccount, WATCH_ONLY_ACCOUNT_ID_TYPE } from "./watchOnly";
+import { isElectrumEndpoint } from "./wallet-btc/explorer/electrumClient";
+import type { ExplorerType } from "./wallet-btc/explorer/types";
+import type { StorageType } from "./wallet-btc/storage/types";
 
 // Map LL's DerivationMode to wallet-btc's
 const toWalletDerivationMode = (
@@ -44,6 +53,45 @@ const toWalletNetwork = (currencyId: string): "testnet" | "mainnet" => {
   return getCryptoCurrencyById(currencyId).isTestnetFor ? "testnet" : "mainnet";
 };
 
+// An account syncs with the electrum server of its endpointConfig, if any,
+// and with the ledger explorer of its currency otherwise
+const getWalletExplorer = (
+  currency: CryptoCurrency,
+  endpointConfig: string | null | undefined
+): { explorer: ExplorerType; explorerURI: string } => {
+  if (endpointConfig && isElectrumEndpoint(endpointConfig)) {
+    return { explorer: "electrum", explorerURI: endpointConfig };
+  }
+  const explorer = findCurrencyExplorer(currency);
+  if (!explorer) {
+    throw new Error(`No explorer found for currency ${currency.name}`);
+  }
+  if (explorer.version !== "v2" && explorer.version !== "v3") {
+    throw new Error(`Unsupported explorer version ${explorer.version}`);
+  }
+  return {
+    explorer: `ledger${explorer.version}`,
+    explorerURI: `${explorer.endpoint}/blockchain/${explorer.version}/${explorer.id}`,
+  };
+};
+
+// Accounts persist their transactions in a file of BITCOIN_STORAGE_DIR, if set,
+// named after their id which is too long for a file name
+const getWalletStorage = (
+  currency: CryptoCurrency,
+  accountId: string
+): { storage: StorageType; storageParams: string[] } => {
+  const dir = getEnv("BITCOIN_STORAGE_DIR");
+  if (!dir) {
+    return { storage: "mock", storageParams: [] };
+  }
+  const hash = bjsCrypto.sha256(Buffer.from(accountId)).toString("hex");
+  return {
+    storage: "persistent",
+    storageParams: [`${dir}/${currency.id}-${hash}.db`],
+  };
+};
+
 // Map wallet-btc's Output to LL's BitcoinOutput
 const fromWalletUtxo = (
   utxo: WalletOutput,
@@ -95,7 +143,11 @@ const getAccountShape: GetAccountShape = async (info) => {
   // 44'/0'/0'/0/0 --> 44'/0'
   // FIXME Only the CLI provides a full derivationPath: why?
   const rootPath = derivationPath.split("/", 2).join("/");
-  const accountPath = `${rootPath}/${index}'`;
+  const isMultisig = isMultisigDerivationMode(derivationMode as DerivationMode);
+  // BIP48 adds the script type, 2' for p2wsh, after the account index
+  const accountPath = isMultisig
+    ? `${rootPath}/${index}'/2'`
+    : `${rootPath}/${index}'`;
 
   const paramXpub = initialAccount
     ? decodeAccountId(initialAccount.id).xpubOrAddress
@@ -121,7 +173,11 @@ const getAccountShape: GetAccountShape = async (info) => {
   const xpub = paramXpub || generatedXpub;
 
   const accountId = encodeAccountId({
-    type: "js",
+    // a watch-only account keeps the id that sets it apart from the device one
+    type:
+      initialAccount && isWatchOnlyAccount(initialAccount)
+        ? WATCH_ONLY_ACCOUNT_ID_TYPE
+        : "js",
     version: "2",
     currencyId: currency.id,
     xpubOrAddress: xpub,
@@ -129,32 +185,61 @@ const getAccountShape: GetAccountShape = async (info) => {
   });
 
   const walletNetwork = toWalletNetwork(currency.id);
-  const walletDerivationMode = toWalletDerivationMode(
-    derivationMode as DerivationMode
+  // A multisig account syncs with the xpubs of all its cosigners
+  const walletParams = isMultisig
+    ? toWalletMultisigXpub(xpub)
+    : {
+        xpub,
+        derivationMode: toWalletDerivationMode(
+          derivationMode as DerivationMode
+        ),
+      };
+  const { explorer, explorerURI } = getWalletExplorer(
+    currency,
+    initialAccount?.endpointConfig
   );
-  const explorer = findCurrencyExplorer(currency);
-  if (!explorer) {
-    throw new Error(`No explorer found for currency ${currency.name}`);
-  }
-  if (explorer.version !== "v2" && explorer.version !== "v3") {
-    throw new Error(`Unsupported explorer version ${explorer.version}`);
-  }
 
   span = startSpan("sync", "generateAccount");
-  const walletAccount =
-    (initialAccount as BitcoinAccount)?.bitcoinResources?.walletAccount ||
-    (await wallet.generateAccount({
-      xpub,
-      path: rootPath,
-      index,
-      currency: <Currency>currency.id,
-      network: walletNetwork,
-      derivationMode: walletDerivationMode,
-      explorer: `ledger${explorer.version}`,
-      explorerURI: `${explorer.endpoint}/blockchain/${explorer.version}/${explorer.id}`,
-      storage: "mock",
-      storageParams: [],
-    }));
+  const initialWalletAccount = (initialAccount as BitcoinAccount)
+    ?.bitcoinResources?.walletAccount;
+  // switching to or from an electrum server drops the synced transactions
+  const keepWalletAccount =
+    initialWalletAccount &&
+    (explorer === "electrum"
+      ? initialWalletAccount.params.explorerURI === explorerURI
+      : initialWalletAccount.params.explorer !== "electrum");
+  const { storage, storageParams } = getWalletStorage(currency, accountId);
+  const { watchOnly, multisig, gapLimit } =
+    (initialAccount as BitcoinAccount)?.bitcoinResources || {};
+  const gap = gapLimit || getEnv("BITCOIN_GAP_LIMIT");
+  let walletAccount =
+    initialWalletAccount && keepWalletAccount
+      ? initialWalletAccount
+      : await wallet.generateAccount({
+          xpub: walletParams.xpub,
+          path: rootPath,
+          index,
+          currency: <Currency>currency.id,
+          network: walletNetwork,
+          derivationMode: walletParams.derivationMode,
+          explorer,
+          explorerURI,
+          storage,
+          storageParams,
+          gap,
+        });
+  // the accounts synced in memory move to their file on the next sync
+  if (storage === "persistent" && walletAccount.params.storage !== storage) {
+    walletAccount = wallet.migrateAccountStorage(
+      walletAccount,
+      storage,
+      storageParams
+    );
+  }
+  // the gap limit can change between two syncs
+  if (walletAccount.params.gap !== gap || walletAccount.xpub.GAP !== gap) {
+    walletAccount = wallet.withAccountGap(walletAccount, gap);
+  }
   span.finish();
 
   const oldOperations = initialAccount?.operations || [];
@@ -221,6 +306,9 @@ const getAccountShape: GetAccountShape = async (info) => {
     bitcoinResources: {
       utxos,
       walletAccount,
+      ...(watchOnly ? { watchOnly: true } : {}),
+      ...(multisig ? { multisig } : {}),
+      ...(gapLimit ? { gapLimit } : {}),
     },
   };
 };
@@ -2,8 +2,10 @@ import cashaddr from "cashaddrjs";
 import { Currency, isValidAddress } from "./wallet-btc";
 import { RecipientRequired, InvalidAddress } from "@ledgerhq/errors";
 import type {
+  BitcoinAccount,
   BitcoinOutput,
   BitcoinResources,
+  BitcoinUtxo,
   Transaction,
   NetworkInfo,
   UtxoStrategy,
@@ -16,6 +18,8 @@ import type {
 } from "./wallet-btc";
 import { BigNumber } from "bignumber.js";
 import { encodeOperationId } from "../../operation";
+import { isMultisigDerivationMode } from "../../derivation";
+import type { DerivationMode } from "../../derivation";
 import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
 import type { Account, Operation, OperationType } from "@ledgerhq/types-live";
 import type { CryptoCurrencyIds } from "@ledgerhq/cryptoassets";
@@ -99,7 +103,11 @@ export const getUTXOStatus = (
   if (
     utxoStrategy.excludeUTXOs.some(
       (u) => u.hash === utxo.hash && u.outputIndex === utxo.outputIndex
-    )
+    ) ||
+    (utxoStrategy.includeUTXOs?.length &&
+      !utxoStrategy.includeUTXOs.some(
+        (u) => u.hash === utxo.hash && u.outputIndex === utxo.outputIndex
+      ))
   ) {
     return {
       excluded: true,
@@ -112,6 +120,60 @@ export const getUTXOStatus = (
   };
 };
 
+/**
+ * List the unspent outputs of an account for coin control.
+ * Labels are looked up by output reference, in the "txid:vout" form, and the
+ * outputs of excludeUTXOs are flagged as excluded.
+ */
+export const listUtxos = (
+  account: BitcoinAccount,
+  labels: Record<string, string> = {},
+  excludeUTXOs: UtxoStrategy["excludeUTXOs"] = []
+): BitcoinUtxo[] => {
+  if (!account.bitcoinResources) return [];
+  const { utxos, walletAccount } = account.bitcoinResources;
+  const paths: Record<string, string> = {};
+
+  if (walletAccount) {
+    const { path, index } = walletAccount.params;
+    // BIP48 adds the script type, 2' for p2wsh, after the account index
+    const accountPath = isMultisigDerivationMode(
+      account.derivationMode as DerivationMode
+    )
+      ? `${path}/${index}'/2'`
+      : `${path}/${index}'`;
+    walletAccount.xpub.storage.getUniquesAddresses({}).forEach((a) => {
+      paths[a.address] = `${accountPath}/${a.account}/${a.index}`;
+    });
+  }
+
+  const syncReplaceAddress =
+    perCoinLogic[account.currency.id]?.syncReplaceAddress;
+  const addressPaths = syncReplaceAddress
+    ? Object.keys(paths).reduce((acc, address) => {
+        acc[syncReplaceAddress(address)] = paths[address];
+        return acc;
+      }, {} as Record<string, string>)
+    : paths;
+
+  return utxos.map((utxo) => ({
+    hash: utxo.hash,
+    outputIndex: utxo.outputIndex,
+    address: utxo.address,
+    path: utxo.address ? addressPaths[utxo.address] : undefined,
+    value: utxo.value,
+    confirmations: utxo.blockHeight
+      ? Math.max(account.blockHeight - utxo.blockHeight + 1, 0)
+      : 0,
+    isChange: utxo.isChange,
+    rbf: utxo.rbf,
+    label: labels[`${utxo.hash}:${utxo.outputIndex}`],
+    excluded: excludeUTXOs.some(
+      (u) => u.hash === utxo.hash && u.outputIndex === utxo.outputIndex
+    ),
+  }));
+};
+
 const bchExplicit = (str: string): string => {
   const explicit = str.includes(":") ? str : "bitcoincash:" + str;
 
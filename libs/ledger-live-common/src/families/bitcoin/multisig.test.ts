@@ -0,0 +1,256 @@
+import { BigNumber } from "bignumber.js";
+import * as bip32 from "bip32";
+import { payments, script, Transaction } from "bitcoinjs-lib";
+import { PsbtV2 } from "@ledgerhq/hw-app-btc/lib/newops/psbtv2";
+import { getCryptoCurrencyById } from "../../currencies";
+import { fromAccountRaw, toAccountRaw } from "../../account";
+import { InvalidDescriptor, MultisigPsbtRequired } from "./errors";
+import {
+  combineMultisigPsbts,
+  finalizeMultisigPsbt,
+  getMultisigWalletPolicy,
+  isMultisigAccount,
+  multisigAccountFromDescriptor,
+  parseMultisigDescriptor,
+  psbtFromTransactionInfo,
+  toWalletMultisigXpub,
+} from "./multisig";
+import signOperation from "./js-signOperation";
+import { listUtxos } from "./logic";
+import wallet, { getWalletAccount } from "./wallet-btc";
+import type { Currency, TransactionInfo } from "./wallet-btc";
+import type { BitcoinAccount, Transaction as BtcTransaction } from "./types";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const roots = [1, 2, 3].map((i) => bip32.fromSeed(Buffer.alloc(32, i)));
+const accountPath = "48'/0'/0'/2'";
+const keys = roots.map((root) => ({
+  root,
+  fingerprint: root.fingerprint.toString("hex"),
+  xpub: root.derivePath(`m/${accountPath}`).neutered().toBase58(),
+}));
+const descriptor = `wsh(sortedmulti(2,${keys
+  .map((k) => `[${k.fingerprint}/48h/0h/0h/2h]${k.xpub}/<0;1>/*`)
+  .join(",")}))`;
+
+const makeAccount = async (): Promise<BitcoinAccount> => {
+  const account = multisigAccountFromDescriptor({
+    currency: bitcoin,
+    descriptor,
+  });
+  const { xpub, derivationMode } = toWalletMultisigXpub(account.xpub as string);
+  account.bitcoinResources.walletAccount = await wallet.generateAccount({
+    xpub,
+    path: "48'/0'",
+    index: 0,
+    currency: <Currency>"bitcoin",
+    network: "mainnet",
+    derivationMode,
+    explorer: "ledgerv3",
+    explorerURI: "http://localhost",
+    storage: "mock",
+    storageParams: [],
+  });
+  return account;
+};
+
+// p2wsh sortedmulti script of the cosigners at change/index
+const witnessScriptAt = (change: number, index: number) =>
+  payments.p2ms({
+    m: 2,
+    pubkeys: keys
+      .map(
+        (k) =>
+          k.root.derivePath(`m/${accountPath}/${change}/${index}`).publicKey
+      )
+      .sort(Buffer.compare),
+  }).output as Buffer;
+
+describe("parseMultisigDescriptor", () => {
+  it("should parse a sortedmulti descriptor", () => {
+    const { threshold, cosigners } = parseMultisigDescriptor(descriptor);
+    expect(threshold).toBe(2);
+    expect(cosigners.map((c) => c.xpub)).toEqual(
+      keys.map((k) => k.xpub).sort()
+    );
+    expect(cosigners[0].accountPath).toBe(accountPath);
+  });
+
+  it("should reject keys without origin and invalid thresholds", () => {
+    expect(() =>
+      parseMultisigDescriptor(`wsh(sortedmulti(1,${keys[0].xpub}/0/*))`)
+    ).toThrow(InvalidDescriptor);
+    expect(() =>
+      parseMultisigDescriptor(descriptor.replace("(2,", "(4,"))
+    ).toThrow(InvalidDescriptor);
+    expect(() =>
+      parseMultisigDescriptor(descriptor.replace("sortedmulti", "multi"))
+    ).toThrow(InvalidDescriptor);
+  });
+});
+
+describe("multisigAccountFromDescriptor", () => {
+  it("should build a multisig account", () => {
+    const account = multisigAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor,
+    });
+    expect(account.derivationMode).toBe("native_segwit_multisig");
+    expect(account.freshAddressPath).toBe("48'/0'/0'/2'/0/0");
+    expect(account.name).toBe("Bitcoin multisig 2-of-3");
+    expect(isMultisigAccount(account)).toBe(true);
+    const copy = fromAccountRaw(toAccountRaw(account)) as BitcoinAccount;
+    expect(copy.bitcoinResources.multisig).toEqual(
+      account.bitcoinResources.multisig
+    );
+    expect(getMultisigWalletPolicy(account).keys.length).toBe(3);
+  });
+
+  it("should derive p2wsh addresses", async () => {
+    const account = await makeAccount();
+    const { xpub } = getWalletAccount(account);
+    expect(
+      await xpub.crypto.getAddress(xpub.derivationMode, xpub.xpub, 0, 3)
+    ).toBe(
+      payments.p2wsh({ redeem: { output: witnessScriptAt(0, 3) } }).address
+    );
+  });
+
+  it("should list the utxos with their BIP48 path", async () => {
+    const account = await makeAccount();
+    const { xpub } = getWalletAccount(account);
+    const address = await xpub.crypto.getAddress(
+      xpub.derivationMode,
+      xpub.xpub,
+      0,
+      3
+    );
+    xpub.storage.appendTxs([
+      {
+        id: "tx1",
+        account: 0,
+        index: 3,
+        address,
+        received_at: "2022-01-01T00:00:00Z",
+        block: { height: 1, hash: "block1", time: "" },
+        inputs: [],
+        outputs: [],
+      },
+    ]);
+    account.blockHeight = 10;
+    account.bitcoinResources.utxos = [0, 1].map((outputIndex) => ({
+      hash: "tx1",
+      outputIndex,
+      blockHeight: 1,
+      address,
+      value: new BigNumber(1000),
+      rbf: false,
+      isChange: false,
+    }));
+    const utxos = listUtxos(account, {}, [{ hash: "tx1", outputIndex: 1 }]);
+    expect(utxos.map((u) => [u.path, u.confirmations, u.excluded])).toEqual([
+      ["48'/0'/0'/2'/0/3", 10, false],
+      ["48'/0'/0'/2'/0/3", 10, true],
+    ]);
+  });
+
+  it("should refuse to sign without a PSBT", async () => {
+    const account = multisigAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor,
+    });
+    await expect(
+      signOperation({
+        account,
+        deviceId: "",
+        transaction: {} as BtcTransaction,
+      }).toPromise()
+    ).rejects.toThrow(MultisigPsbtRequired);
+  });
+});
+
+describe("multisig PSBT", () => {
+  it("should combine the signatures of two cosigners and finalize", async () => {
+    const account = await makeAccount();
+    const { xpub } = getWalletAccount(account);
+    const address = await xpub.crypto.getAddress(
+      xpub.derivationMode,
+      xpub.xpub,
+      0,
+      0
+    );
+    const changeAddress = await xpub.crypto.getAddress(
+      xpub.derivationMode,
+      xpub.xpub,
+      1,
+      0
+    );
+    const prevTx = new Transaction();
+    prevTx.addInput(Buffer.alloc(32, 0x22), 0);
+    prevTx.addOutput(xpub.crypto.toOutputScript(address), 100000);
+    const recipient = payments.p2wpkh({ pubkey: roots[0].publicKey });
+
+    const txInfo: TransactionInfo = {
+      inputs: [
+        {
+          value: "100000",
+          address,
+          output_hash: prevTx.getId(),
+          output_index: 0,
+          sequence: 0xfffffffd,
+          txHex: prevTx.toHex(),
+        },
+      ],
+      associatedDerivations: [[0, 0]],
+      outputs: [
+        {
+          script: recipient.output as Buffer,
+          value: new BigNumber(60000),
+          address: recipient.address as string,
+          isChange: false,
+        },
+        {
+          script: xpub.crypto.toOutputScript(changeAddress),
+          value: new BigNumber(39000),
+          address: changeAddress,
+          isChange: true,
+        },
+      ],
+      fee: 1000,
+      changeAddress: { account: 1, index: 0, address: changeAddress },
+    };
+    const unsigned = await psbtFromTransactionInfo(account, txInfo);
+    expect(unsigned.getInputWitnessScript(0)).toEqual(witnessScriptAt(0, 0));
+    expect(unsigned.getOutputWitnessScript(1)).toEqual(witnessScriptAt(1, 0));
+
+    const tx = new Transaction();
+    tx.version = 2;
+    tx.addInput(prevTx.getHash(), 0, 0xfffffffd);
+    txInfo.outputs.forEach((o) => tx.addOutput(o.script, o.value.toNumber()));
+    const sighash = tx.hashForWitnessV0(
+      0,
+      witnessScriptAt(0, 0),
+      100000,
+      Transaction.SIGHASH_ALL
+    );
+    // each cosigner signs a copy of the PSBT, as a device would
+    const signedBy = (cosigner: number): string => {
+      const psbt = new PsbtV2();
+      psbt.deserialize(unsigned.serialize());
+      const key = roots[cosigner].derivePath(`m/${accountPath}/0/0`);
+      psbt.setInputPartialSig(
+        0,
+        key.publicKey,
+        script.signature.encode(key.sign(sighash), Transaction.SIGHASH_ALL)
+      );
+      return psbt.serialize().toString("base64");
+    };
+
+    expect(() => finalizeMultisigPsbt(signedBy(0))).toThrow();
+    const combined = combineMultisigPsbts([signedBy(0), signedBy(2)]);
+    const signedTx = Transaction.fromHex(finalizeMultisigPsbt(combined));
+    expect(signedTx.getId()).toBe(tx.getId());
+    expect(signedTx.ins[0].witness.length).toBe(4);
+    expect(signedTx.ins[0].witness[3]).toEqual(witnessScriptAt(0, 0));
+  });
+});
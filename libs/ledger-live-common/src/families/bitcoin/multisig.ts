@@ -0,0 +1,341 @@
+import { BigNumber } from "bignumber.js";
+import Btc, { WalletPolicy } from "@ledgerhq/hw-app-btc";
+import { PsbtV2 } from "@ledgerhq/hw-app-btc/lib/newops/psbtv2";
+import { finalize } from "@ledgerhq/hw-app-btc/lib/newops/psbtFinalizer";
+import { extract } from "@ledgerhq/hw-app-btc/lib/newops/psbtExtractor";
+import { sortedMultisigTemplate } from "@ledgerhq/hw-app-btc/lib/newops/policy";
+import { pathStringToArray } from "@ledgerhq/hw-app-btc/lib/bip32";
+import type Transport from "@ledgerhq/hw-transport";
+import type { Account } from "@ledgerhq/types-live";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import { encodeAccountId } from "../../account/accountId";
+import { emptyHistoryCache } from "../../account/balanceHistoryCache";
+import { getDerivationScheme, runDerivationScheme } from "../../derivation";
+import {
+  checkDescriptorChecksum,
+  parseDescriptorKey,
+  validateDescriptorXpub,
+} from "./descriptor";
+import { InvalidDescriptor } from "./errors";
+import { buildTransaction } from "./js-buildTransaction";
+import { getWalletAccount, multisigDerivationMode } from "./wallet-btc";
+import type { TransactionInfo } from "./wallet-btc";
+import type { BitcoinAccount, MultisigInfo, Transaction } from "./types";
+
+export const MULTISIG_DERIVATION_MODE = "native_segwit_multisig";
+
+// p2wsh scripts are limited to 3600 bytes but standard multisig to 15 keys
+const MAX_COSIGNERS = 15;
+
+const sortedMultiPattern = /^wsh\(sortedmulti\((\d+),(.+)\)\)$/;
+const accountXpubPattern = /^sortedmulti\((\d+),(.+)\)$/;
+
+export const isMultisigAccount = (account: Account): boolean =>
+  !!(account as BitcoinAccount).bitcoinResources?.multisig;
+
+/**
+ * Parse a wsh(sortedmulti(m,key1,...,keyn)) descriptor. Every key must
+ * provide its origin, [fingerprint/48'/coin'/account'/2'], to sign with the
+ * device. The cosigners are sorted by xpub, their order is irrelevant to a
+ * sortedmulti descriptor.
+ */
+export function parseMultisigDescriptor(descriptor: string): MultisigInfo {
+  const body = checkDescriptorChecksum(descriptor);
+  const match = body.match(sortedMultiPattern);
+  if (!match) {
+    throw new InvalidDescriptor("only wsh(sortedmulti(...)) is supported");
+  }
+  const threshold = Number(match[1]);
+  const cosigners = match[2].split(",").map((key) => {
+    const { xpub, fingerprint, accountPath } = parseDescriptorKey(key);
+    if (!fingerprint || !accountPath) {
+      throw new InvalidDescriptor(`missing key origin of ${xpub}`);
+    }
+    return { xpub, fingerprint, accountPath };
+  });
+  if (
+    threshold < 1 ||
+    threshold > cosigners.length ||
+    cosigners.length > MAX_COSIGNERS
+  ) {
+    throw new InvalidDescriptor(
+      `invalid ${threshold}-of-${cosigners.length} multisig`
+    );
+  }
+  if (new Set(cosigners.map((c) => c.xpub)).size !== cosigners.length) {
+    throw new InvalidDescriptor("duplicate cosigner keys");
+  }
+  cosigners.sort((a, b) => (a.xpub < b.xpub ? -1 : a.xpub > b.xpub ? 1 : 0));
+  return { threshold, cosigners };
+}
+
+// The xpub of a multisig account, which also identifies it
+export const multisigAccountXpub = ({
+  threshold,
+  cosigners,
+}: MultisigInfo): string =>
+  `sortedmulti(${threshold},${cosigners.map((c) => c.xpub).join(",")})`;
+
+/**
+ * Map the xpub of a multisig account to the xpub and derivation mode of its
+ * wallet-btc account
+ */
+export function toWalletMultisigXpub(xpub: string): {
+  xpub: string;
+  derivationMode: string;
+} {
+  const match = xpub.match(accountXpubPattern);
+  if (!match) {
+    throw new InvalidDescriptor(`invalid multisig account xpub ${xpub}`);
+  }
+  const xpubs = match[2].split(",");
+  return {
+    xpub: xpubs.join(","),
+    derivationMode: multisigDerivationMode(Number(match[1]), xpubs.length),
+  };
+}
+
+/**
+ * Build a multisig account from its wsh(sortedmulti(...)) descriptor. The
+ * account syncs with the xpubs of all its cosigners, and its transactions
+ * are built as PSBTs that each cosigner signs in turn.
+ */
+export function multisigAccountFromDescriptor({
+  currency,
+  descriptor,
+}: {
+  currency: CryptoCurrency;
+  descriptor: string;
+}): BitcoinAccount {
+  if (currency.family !== "bitcoin" || !currency.supportsSegwit) {
+    throw new InvalidDescriptor(`${currency.name} has no multisig accounts`);
+  }
+  const multisig = parseMultisigDescriptor(descriptor);
+  multisig.cosigners.forEach((c) => validateDescriptorXpub(currency, c.xpub));
+  const { threshold, cosigners } = multisig;
+  const xpub = multisigAccountXpub(multisig);
+  const derivationMode = MULTISIG_DERIVATION_MODE;
+
+  return {
+    type: "Account",
+    id: encodeAccountId({
+      type: "js",
+      version: "2",
+      currencyId: currency.id,
+      xpubOrAddress: xpub,
+      derivationMode,
+    }),
+    name: `${currency.name} multisig ${threshold}-of-${cosigners.length}`,
+    xpub,
+    // the keys are spread across devices, the descriptor identifies the account
+    seedIdentifier: xpub,
+    starred: false,
+    used: false,
+    swapHistory: [],
+    derivationMode,
+    currency,
+    unit: currency.units[0],
+    index: 0,
+    freshAddress: "",
+    freshAddressPath: runDerivationScheme(
+      getDerivationScheme({ currency, derivationMode }),
+      currency,
+      { account: 0, node: 0, address: 0 }
+    ),
+    freshAddresses: [],
+    creationDate: new Date(),
+    lastSyncDate: new Date(0),
+    blockHeight: 0,
+    balance: new BigNumber(0),
+    spendableBalance: new BigNumber(0),
+    operationsCount: 0,
+    operations: [],
+    pendingOperations: [],
+    balanceHistoryCache: emptyHistoryCache,
+    bitcoinResources: {
+      utxos: [],
+      multisig,
+    },
+  };
+}
+
+function getMultisig(account: Account): MultisigInfo {
+  const { multisig } = (account as BitcoinAccount).bitcoinResources || {};
+  if (!multisig) {
+    throw new Error(`account ${account.id} is not a multisig account`);
+  }
+  return multisig;
+}
+
+const uint64LE = (value: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value), 0);
+  return buffer;
+};
+
+/**
+ * Create the unsigned PSBT of a transaction of a multisig account, with the
+ * witness scripts and the BIP32 derivations of every cosigner key, so that
+ * each device can find and sign its inputs.
+ */
+export async function psbtFromTransactionInfo(
+  account: Account,
+  txInfo: TransactionInfo
+): Promise<PsbtV2> {
+  const { threshold, cosigners } = getMultisig(account);
+  const walletAccount = getWalletAccount(account);
+  const { crypto, xpub: xpubs } = walletAccount.xpub;
+
+  const setDerivations = async (
+    setBip32Derivation: (pubkey: Buffer, fp: Buffer, path: number[]) => void,
+    setWitnessScript: (script: Buffer) => void,
+    [change, index]: [number, number]
+  ) => {
+    setWitnessScript(
+      await crypto.getMultisigWitnessScript(threshold, xpubs, change, index)
+    );
+    const pubkeys = await crypto.getMultisigPubkeys(xpubs, change, index);
+    pubkeys.forEach((pubkey, i) =>
+      setBip32Derivation(
+        pubkey,
+        Buffer.from(cosigners[i].fingerprint, "hex"),
+        pathStringToArray(`${cosigners[i].accountPath}/${change}/${index}`)
+      )
+    );
+  };
+
+  const psbt = new PsbtV2();
+  psbt.setGlobalPsbtVersion(2);
+  psbt.setGlobalTxVersion(2);
+  psbt.setGlobalFallbackLocktime(0);
+  psbt.setGlobalInputCount(txInfo.inputs.length);
+  psbt.setGlobalOutputCount(txInfo.outputs.length);
+
+  for (let i = 0; i < txInfo.inputs.length; i++) {
+    const input = txInfo.inputs[i];
+    psbt.setInputPreviousTxId(
+      i,
+      Buffer.from(input.output_hash, "hex").reverse()
+    );
+    psbt.setInputOutputIndex(i, input.output_index);
+    psbt.setInputSequence(i, input.sequence);
+    psbt.setInputNonWitnessUtxo(i, Buffer.from(input.txHex, "hex"));
+    psbt.setInputWitnessUtxo(
+      i,
+      uint64LE(Number(input.value)),
+      crypto.toOutputScript(input.address)
+    );
+    await setDerivations(
+      (pubkey, fp, path) => psbt.setInputBip32Derivation(i, pubkey, fp, path),
+      (script) => psbt.setInputWitnessScript(i, script),
+      txInfo.associatedDerivations[i]
+    );
+  }
+
+  const { changeAddress } = txInfo;
+  for (let i = 0; i < txInfo.outputs.length; i++) {
+    const output = txInfo.outputs[i];
+    psbt.setOutputAmount(i, output.value.toNumber());
+    psbt.setOutputScript(i, output.script);
+    if (output.isChange && output.address === changeAddress.address) {
+      await setDerivations(
+        (pubkey, fp, path) =>
+          psbt.setOutputBip32Derivation(i, pubkey, fp, path),
+        (script) => psbt.setOutputWitnessScript(i, script),
+        [changeAddress.account, changeAddress.index]
+      );
+    }
+  }
+  return psbt;
+}
+
+/**
+ * Build the transaction of a multisig account as an unsigned base64 PSBT, to
+ * share with its cosigners
+ */
+export async function buildMultisigPsbt(
+  account: Account,
+  transaction: Transaction
+): Promise<string> {
+  const txInfo = await buildTransaction(account, transaction);
+  const psbt = await psbtFromTransactionInfo(account, txInfo);
+  return psbt.serialize().toString("base64");
+}
+
+const parsePsbt = (psbt: string): PsbtV2 => {
+  const result = new PsbtV2();
+  result.deserialize(Buffer.from(psbt, "base64"));
+  return result;
+};
+
+/**
+ * Merge the signatures of copies of a PSBT signed by different cosigners
+ */
+export function combineMultisigPsbts(psbts: string[]): string {
+  if (psbts.length === 0) {
+    throw new Error("no PSBT to combine");
+  }
+  const [first, ...others] = psbts.map(parsePsbt);
+  others.forEach((other) => first.combine(other));
+  return first.serialize().toString("base64");
+}
+
+/**
+ * Finalize a PSBT signed by enough cosigners and return the hex of the
+ * transaction to broadcast
+ */
+export function finalizeMultisigPsbt(psbt: string): string {
+  const parsed = parsePsbt(psbt);
+  finalize(parsed);
+  return extract(parsed).toString("hex");
+}
+
+/**
+ * The wallet policy of a multisig account, that the device must register
+ * before signing its PSBTs
+ */
+export function getMultisigWalletPolicy(account: Account): WalletPolicy {
+  const { threshold, cosigners } = getMultisig(account);
+  return new WalletPolicy(
+    sortedMultisigTemplate(threshold, cosigners.length),
+    cosigners.map((c) => `[${c.fingerprint}/${c.accountPath}]${c.xpub}/**`),
+    account.name
+  );
+}
+
+/**
+ * Register the policy of a multisig account on the device, after the user
+ * reviewed its cosigners. The returned HMAC proves the registration when
+ * signing.
+ */
+export async function registerMultisigPolicy(
+  transport: Transport,
+  account: Account
+): Promise<string> {
+  const btc = new Btc({ transport, currency: account.currency.id });
+  const hmac = await btc.registerWalletPolicy(getMultisigWalletPolicy(account));
+  return hmac.toString("hex");
+}
+
+/**
+ * Add the signatures of the device to a PSBT of a multisig account
+ */
+export async function signMultisigPsbt({
+  transport,
+  account,
+  psbt,
+  walletHMAC,
+}: {
+  transport: Transport;
+  account: Account;
+  psbt: string;
+  walletHMAC: string;
+}): Promise<string> {
+  const btc = new Btc({ transport, currency: account.currency.id });
+  const signed = await btc.signPsbtWithPolicy({
+    psbt: Buffer.from(psbt, "base64"),
+    walletPolicy: getMultisigWalletPolicy(account),
+    walletHMAC: Buffer.from(walletHMAC, "hex"),
+  });
+  return signed.toString("base64");
+}
@@ -0,0 +1,163 @@
+import * as bip32 from "bip32";
+import { payments, Psbt, Transaction } from "bitcoinjs-lib";
+import { getCryptoCurrencyById } from "../../currencies";
+import { InvalidPsbt } from "./errors";
+import { decodePsbt, finalizePsbt, parsePsbt, serializePsbt } from "./psbt";
+import { watchOnlyAccountFromDescriptor } from "./watchOnly";
+import wallet, { DerivationModes } from "./wallet-btc";
+import type { Currency } from "./wallet-btc";
+import type { BitcoinAccount } from "./types";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const root = bip32.fromSeed(Buffer.alloc(32, 1));
+const accountNode = root.derivePath("m/84'/0'/0'");
+const xpub = accountNode.neutered().toBase58();
+const p2wpkhAt = (chain: number, index: number) =>
+  payments.p2wpkh({
+    pubkey: accountNode.derive(chain).derive(index).publicKey,
+  });
+const recipient = payments.p2wpkh({
+  pubkey: bip32.fromSeed(Buffer.alloc(32, 2)).publicKey,
+});
+
+const makeAccount = async (): Promise<BitcoinAccount> => {
+  const account = watchOnlyAccountFromDescriptor({
+    currency: bitcoin,
+    descriptor: xpub,
+    derivationMode: "native_segwit",
+  });
+  account.bitcoinResources.walletAccount = await wallet.generateAccount({
+    xpub,
+    path: "84'/0'",
+    index: 0,
+    currency: <Currency>"bitcoin",
+    network: "mainnet",
+    derivationMode: DerivationModes.NATIVE_SEGWIT,
+    explorer: "ledgerv3",
+    explorerURI: "http://localhost",
+    storage: "mock",
+    storageParams: [],
+  });
+  return account;
+};
+
+// a version 0 psbt spending the first address of the account
+const makePsbtV0 = (): Psbt => {
+  const psbt = new Psbt();
+  psbt.addInput({
+    hash: Buffer.alloc(32, 0x11),
+    index: 0,
+    witnessUtxo: { script: p2wpkhAt(0, 0).output as Buffer, value: 100000 },
+    bip32Derivation: [
+      {
+        masterFingerprint: root.fingerprint,
+        path: "m/84'/0'/0'/0/0",
+        pubkey: accountNode.derive(0).derive(0).publicKey,
+      },
+    ],
+  });
+  psbt.addOutput({ script: recipient.output as Buffer, value: 60000 });
+  psbt.addOutput({ script: p2wpkhAt(1, 0).output as Buffer, value: 39000 });
+  return psbt;
+};
+
+describe("parsePsbt", () => {
+  it("should parse base64 and hex psbts and serialize them back", () => {
+    const v0 = makePsbtV0();
+    const parsed = parsePsbt(v0.toBase64());
+    expect(parsed.version).toBe(0);
+    expect(parsed.psbt.getGlobalInputCount()).toBe(1);
+    expect(serializePsbt(parsed)).toBe(v0.toBase64());
+    expect(serializePsbt(parsePsbt(v0.toHex()))).toBe(v0.toBase64());
+
+    const v2 = serializePsbt({ ...parsed, version: 2 });
+    expect(parsePsbt(v2).version).toBe(2);
+    expect(serializePsbt({ ...parsePsbt(v2), version: 0 })).toBe(v0.toBase64());
+  });
+
+  it("should reject invalid psbts", () => {
+    expect(() => parsePsbt("cHNidP8=garbage")).toThrow(InvalidPsbt);
+  });
+});
+
+describe("decodePsbt", () => {
+  it("should flag the inputs and the change of the account", async () => {
+    const account = await makeAccount();
+    const decoded = await decodePsbt(
+      parsePsbt(makePsbtV0().toBase64()),
+      account
+    );
+    expect(decoded.inputs).toHaveLength(1);
+    expect(decoded.inputs[0].address).toBe(p2wpkhAt(0, 0).address);
+    expect(decoded.inputs[0].value?.toNumber()).toBe(100000);
+    expect(decoded.inputs[0].isMine).toBe(true);
+    expect(decoded.inputs[0].signatures).toBe(0);
+    expect(
+      decoded.outputs.map((o) => [o.address, o.isMine, o.isChange])
+    ).toEqual([
+      [recipient.address, false, false],
+      [p2wpkhAt(1, 0).address, true, true],
+    ]);
+    expect(decoded.fee?.toNumber()).toBe(1000);
+  });
+
+  it("should reject inputs spending an output their transaction lacks", async () => {
+    const account = await makeAccount();
+    const previous = new Transaction();
+    previous.addInput(Buffer.alloc(32, 0x22), 0);
+    previous.addOutput(p2wpkhAt(0, 0).output as Buffer, 100000);
+    const psbt = new Psbt();
+    psbt.addInput({
+      hash: previous.getHash(),
+      index: 3,
+      nonWitnessUtxo: previous.toBuffer(),
+    });
+    psbt.addOutput({ script: recipient.output as Buffer, value: 60000 });
+    await expect(
+      decodePsbt(parsePsbt(psbt.toBase64()), account)
+    ).rejects.toThrow(InvalidPsbt);
+  });
+
+  it("should reject inputs with another previous transaction than their txid", async () => {
+    const account = await makeAccount();
+    const previous = new Transaction();
+    previous.addInput(Buffer.alloc(32, 0x22), 0);
+    previous.addOutput(p2wpkhAt(0, 0).output as Buffer, 100000);
+    const parsed = parsePsbt(makePsbtV0().toBase64());
+    parsed.psbt.setInputNonWitnessUtxo(0, previous.toBuffer());
+    await expect(decodePsbt(parsed, account)).rejects.toThrow(InvalidPsbt);
+  });
+});
+
+describe("finalizePsbt", () => {
+  it("should finalize signed psbts", () => {
+    const v0 = makePsbtV0();
+    v0.signInput(0, accountNode.derive(0).derive(0));
+    const txHex = finalizePsbt(parsePsbt(v0.toBase64()));
+    v0.finalizeAllInputs();
+    expect(txHex).toBe(v0.extractTransaction().toHex());
+    // already finalized by another tool
+    expect(finalizePsbt(parsePsbt(v0.toBase64()))).toBe(txHex);
+  });
+
+  it("should only finalize the inputs not finalized yet", () => {
+    const v0 = makePsbtV0();
+    v0.addInput({
+      hash: Buffer.alloc(32, 0x33),
+      index: 1,
+      witnessUtxo: { script: p2wpkhAt(0, 1).output as Buffer, value: 5000 },
+    });
+    v0.signInput(0, accountNode.derive(0).derive(0));
+    v0.signInput(1, accountNode.derive(0).derive(1));
+    v0.finalizeInput(0);
+    const txHex = finalizePsbt(parsePsbt(v0.toBase64()));
+    v0.finalizeInput(1);
+    expect(txHex).toBe(v0.extractTransaction().toHex());
+  });
+
+  it("should reject unsigned psbts", () => {
+    expect(() => finalizePsbt(parsePsbt(makePsbtV0().toBase64()))).toThrow(
+      InvalidPsbt
+    );
+  });
+});
@@ -0,0 +1,298 @@
+import { BigNumber } from "bignumber.js";
+import {
+  address as bjsAddress,
+  Transaction as BjsTransaction,
+} from "bitcoinjs-lib";
+import type { Network } from "bitcoinjs-lib";
+import Btc, { AddressFormat } from "@ledgerhq/hw-app-btc";
+import { psbtIn, PsbtV2 } from "@ledgerhq/hw-app-btc/lib/newops/psbtv2";
+import { finalize } from "@ledgerhq/hw-app-btc/lib/newops/psbtFinalizer";
+import { extract } from "@ledgerhq/hw-app-btc/lib/newops/psbtExtractor";
+import type Transport from "@ledgerhq/hw-transport";
+import type { Account } from "@ledgerhq/types-live";
+import { getAddressFormatDerivationMode } from "../../derivation";
+import type { DerivationMode } from "../../derivation";
+import wallet, { getWalletAccount } from "./wallet-btc";
+import type { Account as WalletAccount } from "./wallet-btc";
+import { isMultisigAccount, signMultisigPsbt } from "./multisig";
+import { InvalidPsbt } from "./errors";
+
+// A psbt, whatever its version, is handled as a version 2 one
+export type ParsedPsbt = {
+  psbt: PsbtV2;
+  // version of the imported psbt, 0 or 2, to export it back the same way
+  version: number;
+};
+
+export type DecodedPsbtInput = {
+  txid: string;
+  outputIndex: number;
+  sequence: number;
+  // unknown without the utxo of the input
+  value?: BigNumber;
+  address?: string;
+  isMine: boolean;
+  signatures: number;
+  finalized: boolean;
+};
+
+export type DecodedPsbtOutput = {
+  value: BigNumber;
+  // undefined for OP_RETURN and non standard scripts
+  address?: string;
+  isMine: boolean;
+  isChange: boolean;
+};
+
+export type DecodedPsbt = {
+  version: number;
+  txVersion: number;
+  locktime: number;
+  inputs: DecodedPsbtInput[];
+  outputs: DecodedPsbtOutput[];
+  // unknown when the value of an input is
+  fee?: BigNumber;
+};
+
+const PSBT_MAGIC_HEX = "70736274ff";
+
+/**
+ * Parse a base64 or hex psbt, of version 0 (BIP174) or 2 (BIP370)
+ */
+export function parsePsbt(data: string): ParsedPsbt {
+  const trimmed = data.trim();
+  const buffer = trimmed.toLowerCase().startsWith(PSBT_MAGIC_HEX)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  try {
+    const version = PsbtV2.versionOf(buffer);
+    const psbt = new PsbtV2();
+    psbt.deserialize(buffer);
+    return { psbt, version };
+  } catch (e: any) {
+    throw new InvalidPsbt(e?.message);
+  }
+}
+
+/**
+ * Serialize a psbt in base64, as a version 0 one if requested
+ */
+export function serializePsbt({ psbt, version }: ParsedPsbt): string {
+  const buffer = version === 0 ? psbt.serializeV0() : psbt.serialize();
+  return buffer.toString("base64");
+}
+
+const isInputFinalized = (psbt: PsbtV2, index: number): boolean =>
+  psbt.getInputKeyDatas(index, psbtIn.FINAL_SCRIPTWITNESS).length > 0 ||
+  !!psbt.getInputFinalScriptsig(index);
+
+const scriptToAddress = (
+  script: Buffer,
+  network: Network
+): string | undefined => {
+  try {
+    return bjsAddress.fromOutputScript(script, network);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// The used addresses of the account and the next ones of the gap, as the
+// change of a psbt usually goes to an unused address. Maps them to their chain.
+const getAccountAddresses = async ({
+  xpub,
+}: WalletAccount): Promise<Map<string, number>> => {
+  const result = new Map<string, number>();
+  for (const chain of [0, 1]) {
+    const used = xpub.storage.getUniquesAddresses({ account: chain });
+    const count = Math.max(-1, ...used.map((a) => a.index)) + 1 + xpub.GAP;
+    for (let index = 0; index < count; index++) {
+      const address = await xpub.crypto.getAddress(
+        xpub.derivationMode,
+        xpub.xpub,
+        chain,
+        index
+      );
+      result.set(address, chain);
+    }
+  }
+  return result;
+};
+
+/**
+ * Decode the inputs and outputs of a psbt. The inputs and outputs of the
+ * addresses of the synced account are flagged, outputs to its internal chain
+ * being the change.
+ */
+export async function decodePsbt(
+  { psbt, version }: ParsedPsbt,
+  account: Account
+): Promise<DecodedPsbt> {
+  const walletAccount = getWalletAccount(account);
+  const accountAddresses = await getAccountAddresses(walletAccount);
+  const network = walletAccount.xpub.crypto.network as Network;
+
+  const inputs: DecodedPsbtInput[] = [];
+  for (let i = 0; i < psbt.getGlobalInputCount(); i++) {
+    const outputIndex = psbt.getInputOutputIndex(i);
+    let utxo = psbt.getInputWitnessUtxo(i);
+    const nonWitnessUtxo = psbt.getInputNonWitnessUtxo(i);
+    const previous =
+      nonWitnessUtxo && BjsTransaction.fromBuffer(nonWitnessUtxo);
+    if (previous && !previous.getHash().equals(psbt.getInputPreviousTxid(i))) {
+      throw new InvalidPsbt(
+        `the previous transaction of input ${i} does not match its txid`
+      );
+    }
+    if (!utxo && previous) {
+      const { outs } = previous;
+      if (outputIndex >= outs.length) {
+        throw new InvalidPsbt(
+          `input ${i} spends the output ${outputIndex} of a transaction with ${outs.length} outputs`
+        );
+      }
+      const { value, script } = outs[outputIndex];
+      const amount = Buffer.alloc(8);
+      amount.writeBigUInt64LE(BigInt(value), 0);
+      utxo = { amount, scriptPubKey: script };
+    }
+    const address = utxo && scriptToAddress(utxo.scriptPubKey, network);
+    inputs.push({
+      txid: Buffer.from(psbt.getInputPreviousTxid(i)).reverse().toString("hex"),
+      outputIndex,
+      sequence: psbt.getInputSequence(i),
+      value: utxo && new BigNumber(utxo.amount.readBigUInt64LE(0).toString()),
+      address,
+      isMine: !!address && accountAddresses.has(address),
+      signatures:
+        psbt.getInputKeyDatas(i, psbtIn.PARTIAL_SIG).length +
+        (psbt.getInputTapKeySig(i) ? 1 : 0),
+      finalized: isInputFinalized(psbt, i),
+    });
+  }
+
+  const outputs: DecodedPsbtOutput[] = [];
+  for (let i = 0; i < psbt.getGlobalOutputCount(); i++) {
+    const address = scriptToAddress(psbt.getOutputScript(i), network);
+    const chain =
+      address !== undefined ? accountAddresses.get(address) : undefined;
+    outputs.push({
+      value: new BigNumber(psbt.getOutputAmount(i)),
+      address,
+      isMine: chain !== undefined,
+      isChange: chain === 1,
+    });
+  }
+
+  const fee = inputs.every((input) => input.value)
+    ? outputs.reduce(
+        (sum, output) => sum.minus(output.value),
+        inputs.reduce(
+          (sum, input) => sum.plus(input.value as BigNumber),
+          new BigNumber(0)
+        )
+      )
+    : undefined;
+
+  return {
+    version,
+    txVersion: psbt.getGlobalTxVersion(),
+    locktime: psbt.getGlobalFallbackLocktime() ?? 0,
+    inputs,
+    outputs,
+    fee,
+  };
+}
+
+/**
+ * Add the signatures of the device to the inputs of a psbt spending outputs
+ * of the account. A multisig account needs the HMAC of its registered policy.
+ */
+export async function signPsbt({
+  transport,
+  account,
+  psbt,
+  walletHMAC,
+}: {
+  transport: Transport;
+  account: Account;
+  psbt: ParsedPsbt;
+  walletHMAC?: string;
+}): Promise<ParsedPsbt> {
+  const serialized = psbt.psbt.serialize().toString("base64");
+  let signed: string;
+  if (isMultisigAccount(account)) {
+    if (!walletHMAC) {
+      throw new InvalidPsbt("the wallet HMAC of the multisig is required");
+    }
+    signed = await signMultisigPsbt({
+      transport,
+      account,
+      psbt: serialized,
+      walletHMAC,
+    });
+  } else {
+    const { params } = getWalletAccount(account);
+    const btc = new Btc({ transport, currency: account.currency.id });
+    const result = await btc.signPsbtBuffer({
+      psbt: Buffer.from(serialized, "base64"),
+      accountPath: `${params.path}/${params.index}'`,
+      addressFormat: getAddressFormatDerivationMode(
+        account.derivationMode as DerivationMode
+      ) as AddressFormat,
+    });
+    signed = result.toString("base64");
+  }
+  return { ...parsePsbt(signed), version: psbt.version };
+}
+
+// The finalizer of hw-app-btc handles every input of a psbt, and rejects the
+// ones already finalized, so it is given a psbt of one input at a time
+class FinalizablePsbt extends PsbtV2 {
+  finalizeInput(index: number): void {
+    const single = new FinalizablePsbt();
+    single.setGlobalInputCount(1);
+    // the input is finalized in place
+    single.inputMaps = [this.inputMaps[index]];
+    finalize(single);
+  }
+}
+
+/**
+ * Finalize the inputs of a fully signed psbt, except the ones another tool
+ * already finalized, and extract the hex of its transaction
+ */
+export function finalizePsbt({ psbt }: ParsedPsbt): string {
+  const copy = new FinalizablePsbt();
+  psbt.copy(copy);
+  for (let i = 0; i < copy.getGlobalInputCount(); i++) {
+    if (isInputFinalized(copy, i)) continue;
+    try {
+      copy.finalizeInput(i);
+    } catch (e: any) {
+      throw new InvalidPsbt(`input ${i}: ${e?.message}`);
+    }
+  }
+  try {
+    return extract(copy).toString("hex");
+  } catch (e: any) {
+    throw new InvalidPsbt(e?.message);
+  }
+}
+
+/**
+ * Broadcast the transaction of a finalized psbt, or a transaction hex,
+ * through the explorer of the account
+ */
+export async function broadcastPsbt(
+  account: Account,
+  psbtOrTxHex: string
+): Promise<string> {
+  const isTxHex =
+    /^[0-9a-fA-F]+$/.test(psbtOrTxHex.trim()) &&
+    !psbtOrTxHex.trim().toLowerCase().startsWith(PSBT_MAGIC_HEX);
+  const txHex = isTxHex
+    ? psbtOrTxHex.trim()
+    : finalizePsbt(parsePsbt(psbtOrTxHex));
+  return wallet.broadcastTx(getWalletAccount(account), txHex);
+}
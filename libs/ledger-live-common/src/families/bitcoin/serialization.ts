@@ -80,6 +80,9 @@ export function toBitcoinResourcesRaw(
     utxos: r.utxos.map(toBitcoinOutputRaw),
     walletAccount:
       r.walletAccount && wallet.exportToSerializedAccountSync(r.walletAccount),
+    ...(r.watchOnly ? { watchOnly: true } : {}),
+    ...(r.multisig ? { multisig: r.multisig } : {}),
+    ...(r.gapLimit ? { gapLimit: r.gapLimit } : {}),
   };
 }
 export function fromBitcoinResourcesRaw(
@@ -90,5 +93,8 @@ export function fromBitcoinResourcesRaw(
     walletAccount:
       r.walletAccount &&
       wallet.importFromSerializedAccountSync(r.walletAccount),
+    ...(r.watchOnly ? { watchOnly: true } : {}),
+    ...(r.multisig ? { multisig: r.multisig } : {}),
+    ...(r.gapLimit ? { gapLimit: r.gapLimit } : {}),
   };
 }
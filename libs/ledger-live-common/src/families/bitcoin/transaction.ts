@@ -60,6 +60,7 @@ export const fromTransactionRaw = (tr: TransactionRaw): Transaction => {
     },
     feesStrategy: tr.feesStrategy,
     opReturnData: tr.opReturnData,
+    cpfp: tr.cpfp,
   };
 };
 
@@ -77,6 +78,7 @@ export const toTransactionRaw = (t: Transaction): TransactionRaw => {
     },
     feesStrategy: t.feesStrategy,
     opReturnData: t.opReturnData,
+    cpfp: t.cpfp,
   };
 };
 
@@ -152,7 +154,7 @@ const formatNetworkInfo = (
 
 export const formatTransaction = (t: Transaction, account: Account): string => {
   const n = getEnv("DEBUG_UTXO_DISPLAY");
-  const { excludeUTXOs, strategy } = t.utxoStrategy;
+  const { excludeUTXOs, includeUTXOs = [], strategy } = t.utxoStrategy;
   const displayAll = excludeUTXOs.length <= n;
   return `
 SEND ${
@@ -173,11 +175,14 @@ ${[
   ),
   "pick-unconfirmed",
   t.rbf && "RBF-enabled",
+  t.cpfp && `CPFP-parent=${t.cpfp.parentTxHash}`,
 ]
   .filter(Boolean)
   .join(" ")}${excludeUTXOs
     .slice(0, displayAll ? excludeUTXOs.length : n)
     .map((utxo) => `\nexclude ${utxo.hash} @${utxo.outputIndex}`)
+    .join("")}${includeUTXOs
+    .map((utxo) => `\ninclude ${utxo.hash} @${utxo.outputIndex}`)
     .join("")}`;
 };
 
@@ -11,6 +11,7 @@ import {
   TransactionStatusCommon,
   TransactionStatusCommonRaw,
 } from "@ledgerhq/types-live";
+import type { MessageData, Result } from "../../hw/signMessage/types";
 
 export type BitcoinInput = {
   address: string | null | undefined;
@@ -46,14 +47,35 @@ export type BitcoinOutputRaw = [
   number
 ];
 
+export type MultisigCosigner = {
+  xpub: string;
+  // key origin: master key fingerprint, in hex, and path of the xpub
+  fingerprint: string;
+  accountPath: string;
+};
+
+// p2wsh sortedmulti account, its cosigners are sorted by xpub
+export type MultisigInfo = {
+  threshold: number;
+  cosigners: MultisigCosigner[];
+};
+
 export type BitcoinResources = {
   utxos: BitcoinOutput[];
   walletAccount?: WalletAccount;
+  // imported from a descriptor or an xpub, without a device to sign
+  watchOnly?: boolean;
+  multisig?: MultisigInfo;
+  // number of consecutive unused addresses that stops the address discovery
+  gapLimit?: number;
 };
 
 export type BitcoinResourcesRaw = {
   utxos: BitcoinOutputRaw[];
   walletAccount?: WalletAccountRaw;
+  watchOnly?: boolean;
+  multisig?: MultisigInfo;
+  gapLimit?: number;
 };
 
 export const initialBitcoinResourcesValue = {
@@ -139,6 +161,34 @@ export type UtxoStrategy = {
     hash: string;
     outputIndex: number;
   }>;
+  // coin control: when not empty, exactly these utxos are spent and the
+  // picking strategy is ignored
+  includeUTXOs?: Array<{
+    hash: string;
+    outputIndex: number;
+  }>;
+};
+
+// Unspent output of an account, as listed for coin control
+export type BitcoinUtxo = {
+  hash: string;
+  outputIndex: number;
+  address: string | null | undefined;
+  // derivation path of the address, unknown for addresses not synced yet
+  path: string | null | undefined;
+  value: BigNumber;
+  confirmations: number;
+  isChange: boolean;
+  rbf: boolean;
+  label?: string;
+  // excluded from the coins to spend by the user
+  excluded: boolean;
+};
+
+// Child-pays-for-parent: spend the unconfirmed outputs of a stuck transaction
+// and pay enough fees for the package to reach the transaction feePerByte
+export type CpfpParams = {
+  parentTxHash: string;
 };
 
 export type Transaction = TransactionCommon & {
@@ -148,6 +198,7 @@ export type Transaction = TransactionCommon & {
   feePerByte: BigNumber | null | undefined;
   networkInfo: NetworkInfo | null | undefined;
   opReturnData?: Buffer;
+  cpfp?: CpfpParams | null;
 };
 
 export type TransactionRaw = TransactionCommonRaw & {
@@ -157,6 +208,7 @@ export type TransactionRaw = TransactionCommonRaw & {
   feePerByte: string | null | undefined;
   networkInfo: NetworkInfoRaw | null | undefined;
   opReturnData?: Buffer;
+  cpfp?: CpfpParams | null;
 };
 
 export type TransactionStatus = TransactionStatusCommon & {
@@ -176,3 +228,13 @@ export type BitcoinAccount = Account & { bitcoinResources: BitcoinResources };
 export type BitcoinAccountRaw = AccountRaw & {
   bitcoinResources: BitcoinResourcesRaw;
 };
+
+export type BitcoinMessageData = MessageData & {
+  // sign according to BIP322, which native segwit and taproot addresses can
+  // be verified with, instead of the legacy signmessage format
+  bip322?: boolean;
+};
+
+// a BIP322 signature is not a plain ECDSA one, it has no r, s and v
+export type BitcoinSignMessageResult = Omit<Result, "rsv"> &
+  Partial<Pick<Result, "rsv">>;
@@ -0,0 +1,275 @@
+import net from "net";
+import type { AddressInfo } from "net";
+import * as bip32 from "bip32";
+import { crypto as bjsCrypto, payments, Transaction } from "bitcoinjs-lib";
+import ElectrumExplorer from "../explorer/electrum";
+import { parseElectrumEndpoint } from "../explorer/electrumClient";
+import cryptoFactory from "../crypto/factory";
+import { ElectrumServerError, InvalidElectrumEndpoint } from "../../errors";
+
+const root = bip32.fromSeed(Buffer.alloc(32, 1));
+const p2wpkh = (index: number) =>
+  payments.p2wpkh({ pubkey: root.derive(index).publicKey });
+const address = p2wpkh(0).address as string;
+const scripthash = bjsCrypto
+  .sha256(p2wpkh(0).output as Buffer)
+  .reverse()
+  .toString("hex");
+
+// previous -> funding, confirmed, -> spending, pending
+const previous = new Transaction();
+previous.addInput(Buffer.alloc(32, 0x22), 0);
+previous.addOutput(p2wpkh(2).output as Buffer, 150000);
+const funding = new Transaction();
+funding.addInput(previous.getHash(), 0);
+funding.addOutput(p2wpkh(0).output as Buffer, 100000);
+const spending = new Transaction();
+spending.addInput(funding.getHash(), 0, 0xfffffffd);
+spending.addOutput(p2wpkh(1).output as Buffer, 90000);
+
+const header = (height: number) => {
+  const buffer = Buffer.alloc(80, height);
+  buffer.writeUInt32LE(1600000000 + height, 68);
+  return buffer.toString("hex");
+};
+const txs = {
+  [previous.getId()]: previous.toHex(),
+  [funding.getId()]: funding.toHex(),
+  [spending.getId()]: spending.toHex(),
+};
+
+// a stub electrum server, answering from the fixtures above
+const makeServer = () => {
+  const calls: string[] = [];
+  const sockets: net.Socket[] = [];
+  let status = "status1";
+  let handshakeError: string | null = null;
+  const handlers = {
+    "server.version": () => {
+      if (handshakeError) throw new Error(handshakeError);
+      return ["stub", "1.4"];
+    },
+    "blockchain.scripthash.subscribe": ([hash]) =>
+      hash === scripthash ? status : null,
+    "blockchain.scripthash.get_history": () => [
+      { tx_hash: funding.getId(), height: 100 },
+      { tx_hash: spending.getId(), height: 0, fee: 10000 },
+    ],
+    "blockchain.scripthash.listunspent": () => [
+      { tx_hash: funding.getId(), tx_pos: 0, height: 100, value: 100000 },
+    ],
+    "blockchain.transaction.get": ([txId]) => txs[txId],
+    "blockchain.block.header": ([height]) => header(height),
+    "blockchain.headers.subscribe": () => ({ height: 120, hex: header(120) }),
+    "blockchain.estimatefee": ([target]) => (target === 6 ? -1 : 0.0002),
+    "blockchain.relayfee": () => 0.00001,
+    "blockchain.transaction.broadcast": ([tx]) => {
+      if (tx === "00") {
+        throw new Error("TX decode failed");
+      }
+      return Transaction.fromHex(tx).getId();
+    },
+  };
+  const server = net.createServer((socket) => {
+    sockets.push(socket);
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop() as string;
+      lines.forEach((line) => {
+        const { id, method, params } = JSON.parse(line);
+        calls.push(method);
+        try {
+          const result = handlers[method](params);
+          socket.write(`${JSON.stringify({ jsonrpc: "2.0", id, result })}\n`);
+        } catch (e: any) {
+          const error = { code: 1, message: e.message };
+          socket.write(`${JSON.stringify({ jsonrpc: "2.0", id, error })}\n`);
+        }
+      });
+    });
+  });
+  return {
+    calls,
+    sockets,
+    // the next handshakes fail with this error, or succeed without one
+    failHandshake: (error: string | null) => {
+      handshakeError = error;
+    },
+    listen: () =>
+      new Promise<number>((resolve) =>
+        server.listen(0, "127.0.0.1", () =>
+          resolve((server.address() as AddressInfo).port)
+        )
+      ),
+    // the address received a new transaction
+    notify: (newStatus: string) => {
+      status = newStatus;
+      sockets.forEach((socket) =>
+        socket.write(
+          `${JSON.stringify({
+            jsonrpc: "2.0",
+            method: "blockchain.scripthash.subscribe",
+            params: [scripthash, status],
+          })}\n`
+        )
+      );
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+};
+
+describe("parseElectrumEndpoint", () => {
+  it("should parse tcp and tls endpoints", () => {
+    expect(parseElectrumEndpoint("tcp://localhost:50001")).toEqual({
+      host: "localhost",
+      port: 50001,
+      secure: false,
+    });
+    expect(parseElectrumEndpoint("ssl://[::1]:50002")).toEqual({
+      host: "::1",
+      port: 50002,
+      secure: true,
+    });
+    expect(() => parseElectrumEndpoint("https://localhost:50001")).toThrow(
+      InvalidElectrumEndpoint
+    );
+  });
+});
+
+describe("ElectrumExplorer", () => {
+  let server: ReturnType<typeof makeServer>;
+  let explorer: ElectrumExplorer;
+
+  beforeEach(async () => {
+    server = makeServer();
+    const port = await server.listen();
+    explorer = new ElectrumExplorer({
+      explorerURI: `tcp://127.0.0.1:${port}`,
+      crypto: cryptoFactory("bitcoin"),
+    });
+  });
+
+  afterEach(async () => {
+    explorer.close();
+    await server.close();
+  });
+
+  it("should fetch the transactions of an address", async () => {
+    const txs = await explorer.getAddressTxsSinceLastTxBlock(
+      50,
+      { address, account: 0, index: 0 },
+      undefined
+    );
+    expect(txs.map((tx) => tx.id)).toEqual([funding.getId(), spending.getId()]);
+    const [confirmed, pending] = txs;
+    expect(confirmed.block.height).toBe(100);
+    expect(confirmed.received_at).toBe(
+      new Date((1600000000 + 100) * 1000).toISOString()
+    );
+    expect(confirmed.inputs[0]).toEqual({
+      value: "150000",
+      address: p2wpkh(2).address,
+      output_hash: previous.getId(),
+      output_index: 0,
+      sequence: 0xffffffff,
+    });
+    expect(confirmed.outputs[0]).toMatchObject({
+      value: "100000",
+      address,
+      output_hash: funding.getId(),
+      block_height: 100,
+      rbf: false,
+    });
+    expect(confirmed.fees).toBe(50000);
+    expect(pending.block).toBeNull();
+    expect(pending.outputs[0].rbf).toBe(true);
+    expect(pending.inputs[0].address).toBe(address);
+
+    const since = await explorer.getAddressTxsSinceLastTxBlock(
+      50,
+      { address, account: 0, index: 0 },
+      confirmed
+    );
+    expect(since.map((tx) => tx.id)).toEqual([spending.getId()]);
+  });
+
+  it("should only fetch the history again when the status changes", async () => {
+    const addr = { address, account: 0, index: 0 };
+    await explorer.getPendings(addr);
+    await explorer.getPendings(addr);
+    const count = () =>
+      server.calls.filter((m) => m === "blockchain.scripthash.get_history")
+        .length;
+    expect(count()).toBe(1);
+    server.notify("status2");
+    await explorer.getPendings(addr);
+    expect(count()).toBe(2);
+
+    const unused = p2wpkh(5).address as string;
+    expect(
+      await explorer.getPendings({ address: unused, account: 0, index: 5 })
+    ).toEqual([]);
+    expect(count()).toBe(2);
+  });
+
+  it("should list the unspent outputs of an address", async () => {
+    const unspents = await explorer.getAddressUnspents({
+      address,
+      account: 0,
+      index: 0,
+    });
+    expect(unspents).toEqual([
+      {
+        value: "100000",
+        address,
+        output_hash: funding.getId(),
+        output_index: 0,
+        block_height: 100,
+        rbf: false,
+      },
+    ]);
+  });
+
+  it("should return blocks and fees", async () => {
+    const block = await explorer.getCurrentBlock();
+    expect(block?.height).toBe(120);
+    expect(block?.hash).toBe(
+      bjsCrypto
+        .hash256(Buffer.from(header(120), "hex"))
+        .reverse()
+        .toString("hex")
+    );
+    expect(await explorer.getRelayFee()).toBe(0.00001);
+    // sat/kB, the relay fee when the server can't estimate
+    expect(await explorer.getFees()).toEqual({
+      "2": 20000,
+      "3": 20000,
+      "6": 1000,
+    });
+  });
+
+  it("should connect again after a failed handshake", async () => {
+    server.failHandshake("unsupported protocol version");
+    await expect(explorer.getCurrentBlock()).rejects.toThrow(
+      ElectrumServerError
+    );
+    server.failHandshake(null);
+    expect((await explorer.getCurrentBlock())?.height).toBe(120);
+    expect(server.sockets.map((socket) => socket.destroyed)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("should broadcast transactions", async () => {
+    const { data } = await explorer.broadcast(spending.toHex());
+    expect(data.result).toBe(spending.getId());
+    await expect(explorer.broadcast("00")).rejects.toThrow(ElectrumServerError);
+  });
+});
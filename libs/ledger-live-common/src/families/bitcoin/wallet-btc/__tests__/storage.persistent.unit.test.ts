@@ -0,0 +1,190 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import BitcoinLikeStorage from "../storage";
+import PersistentStorage from "../storage/persistent";
+import FileKeyValueStore from "../storage/fileStore";
+import { IStorage, TX } from "../storage/types";
+
+const A = { address: "addressA", account: 0, index: 0 };
+const B = { address: "addressB", account: 0, index: 1 };
+
+const makeTx = (
+  id: string,
+  { address, account, index }: typeof A,
+  inputs: [string, number, string, string][],
+  outputs: [string, string][],
+  height: number | null
+): TX => ({
+  id,
+  account,
+  index,
+  address,
+  received_at: "2022-01-01T00:00:00Z",
+  block: (height && {
+    height,
+    hash: `block${height}`,
+    time: "",
+  }) as TX["block"],
+  inputs: inputs.map(([output_hash, output_index, value, address]) => ({
+    output_hash,
+    output_index,
+    value,
+    address,
+    sequence: 0xffffffff,
+  })),
+  outputs: outputs.map(([value, address], output_index) => ({
+    output_hash: id,
+    output_index,
+    value,
+    address,
+    block_height: height,
+    rbf: false,
+  })),
+});
+
+// A receives, then sends to B with a change, and B receives a pending tx
+const spend = (address: typeof A) =>
+  makeTx(
+    "tx2",
+    address,
+    [["tx1", 0, "1000", A.address]],
+    [
+      ["400", B.address],
+      ["500", A.address],
+    ],
+    2
+  );
+const txs = [
+  makeTx("tx1", A, [["tx0", 0, "2000", "other"]], [["1000", A.address]], 1),
+  spend(A),
+  spend(B),
+  makeTx("tx3", B, [["tx0", 1, "200", "other"]], [["100", B.address]], null),
+];
+
+const snapshot = (storage: IStorage) => ({
+  addresses: storage.getUniquesAddresses({}),
+  unspents: [A, B].map((a) => storage.getAddressUnspentUtxos(a) || []),
+  lastConfirmed: [A, B].map(
+    (a) => storage.getLastTx({ ...a, confirmed: true })?.id
+  ),
+  lastUnconfirmed: storage.getLastUnconfirmedTx()?.id,
+  txs: storage.getTxs().map((tx) => `${tx.address}-${tx.id}`),
+});
+
+describe("PersistentStorage", () => {
+  let dir: string;
+  const file = () => path.join(dir, "account.db");
+  const open = () => new PersistentStorage(FileKeyValueStore.open(file()));
+  const reopen = (storage: PersistentStorage) => {
+    (storage.store as FileKeyValueStore).close();
+    return open();
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-btc-"));
+  });
+
+  afterEach(() => {
+    FileKeyValueStore.open(file()).close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should index the transactions as the in memory storage", () => {
+    const mock = new BitcoinLikeStorage();
+    const storage = open();
+    expect(mock.appendTxs(txs)).toBe(4);
+    expect(storage.appendTxs(txs)).toBe(4);
+    expect(storage.appendTxs(txs)).toBe(0);
+    expect(snapshot(storage)).toEqual(snapshot(mock));
+    expect(
+      snapshot(storage).unspents.map((u) => u.map((o) => o.value))
+    ).toEqual([["500"], ["400", "100"]]);
+    expect(storage.getTx(B.address, "tx3")).toEqual(txs[3]);
+
+    mock.removePendingTxs(B);
+    storage.removePendingTxs(B);
+    expect(snapshot(storage)).toEqual(snapshot(mock));
+    mock.removeTxs(A);
+    storage.removeTxs(A);
+    expect(snapshot(storage)).toEqual(snapshot(mock));
+  });
+
+  it("should keep the transactions on disk", () => {
+    const storage = open();
+    storage.appendTxs(txs.slice(0, 2));
+    storage.addAddress("key", A.address);
+    const reopened = reopen(storage);
+    reopened.appendTxs(txs.slice(2));
+    const expected = new BitcoinLikeStorage();
+    expected.appendTxs(txs);
+    expect(snapshot(reopen(reopened))).toEqual(snapshot(expected));
+    // the serialized account only keeps the version of the storage
+    expect(reopened.exportSync()).toEqual({ version: 1 });
+  });
+
+  it("should migrate the serialized data of the in memory storage", () => {
+    const mock = new BitcoinLikeStorage();
+    mock.appendTxs(txs);
+    mock.addAddress("key", A.address);
+    const storage = open();
+    storage.loadSync(mock.exportSync());
+    expect(snapshot(storage)).toEqual(snapshot(mock));
+    expect(storage.store.get("addressCache/key")).toBe(A.address);
+    // already migrated
+    storage.loadSync({ txs: [], addressCache: {} });
+    expect(snapshot(reopen(storage))).toEqual(snapshot(mock));
+  });
+
+  it("should read the addresses from the store once", () => {
+    const storage = open();
+    storage.appendTxs(txs);
+    const reopened = reopen(storage);
+    const get = jest.spyOn(reopened.store, "get");
+    snapshot(reopened);
+    // another storage of the same store sees the new addresses
+    open().removeTxs(A);
+    expect(reopened.getUniquesAddresses({})).toEqual([B]);
+    expect(get.mock.calls.filter(([key]) => key === "addresses")).toHaveLength(
+      1
+    );
+  });
+});
+
+describe("FileKeyValueStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-btc-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should compact and ignore a partially written record", () => {
+    const file = path.join(dir, "store.db");
+    let store = FileKeyValueStore.open(file);
+    for (let i = 0; i < 100; i++) {
+      store.set("counter", i);
+    }
+    store.set("removed", "value");
+    store.delete("removed");
+    const size = fs.statSync(file).size;
+    store.compact();
+    expect(fs.statSync(file).size).toBeLessThan(size / 10);
+    store.set("other", { value: "é" });
+    store.close();
+
+    fs.appendFileSync(file, '"truncated"\t{"va');
+    store = FileKeyValueStore.open(file);
+    expect(store.get("counter")).toBe(99);
+    expect(store.get("removed")).toBeUndefined();
+    expect(store.get("other")).toEqual({ value: "é" });
+    expect(store.keys("")).toEqual(["counter", "other"]);
+    store.set("truncated", 1);
+    store.close();
+    expect(FileKeyValueStore.open(file).get("truncated")).toBe(1);
+    FileKeyValueStore.open(file).close();
+  });
+});
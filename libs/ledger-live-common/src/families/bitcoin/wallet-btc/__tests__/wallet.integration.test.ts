@@ -1,4 +1,5 @@
 import BigNumber from "bignumber.js";
+import type { AxiosInstance } from "axios";
 import { script } from "bitcoinjs-lib";
 
 import { DerivationModes } from "../types";
@@ -139,7 +140,7 @@ describe("testing wallet", () => {
   });
 
   it("should throw during sync if there is an error in explorer", async () => {
-    const client = account.xpub.explorer.underlyingClient;
+    const client = account.xpub.explorer.underlyingClient as AxiosInstance;
     // eslint-disable-next-line no-underscore-dangle
     const _get = client.get;
     client.get = async () => {
@@ -0,0 +1,151 @@
+import * as bip32 from "bip32";
+import * as bip39 from "bip39";
+import coininfo from "coininfo";
+import BigNumber from "bignumber.js";
+import { CpfpParentNotFound } from "../../errors";
+import { DerivationModes, OutputInfo } from "../types";
+import Xpub from "../xpub";
+import BitcoinLikeExplorer from "../explorer";
+import Crypto from "../crypto/bitcoin";
+import BitcoinLikeStorage from "../storage";
+import { Cpfp } from "../pickingstrategies/Cpfp";
+import { computeCpfpFee, maxTxSize } from "../utils";
+import { TX } from "../storage/types";
+
+describe("child-pays-for-parent picking strategy", () => {
+  const network = coininfo.bitcoin.test.toBitcoinJS();
+  const crypto = new Crypto({ network });
+  const node = bip32.fromSeed(
+    bip39.mnemonicToSeedSync("test1 test1 test1"),
+    network
+  );
+  const address = "mwXTtHo8Yy3aNKUUZLkBDrTcKT9qG9TqLb";
+  const parentHash =
+    "9e1b337875c21f751e70ee2c2c6ee93d8a6733d0f3ba6d139ae6a0479ebcefb0";
+  const confirmedHash =
+    "0f4f6a6b8fe0d3b3e0e5c4a4ef3a3d86db4cb6c0b1b5e8f1e4e0e6b5c4b3a291";
+  const parent = { hash: parentHash, fee: 200, vsize: 200 };
+
+  const tx = (id: string, value: string, blockHeight: number | null): TX => ({
+    id,
+    account: 0,
+    index: 0,
+    address,
+    received_at: "2022-01-01T00:00:00Z",
+    block: blockHeight
+      ? { height: blockHeight, hash: "blockhash", time: "" }
+      : (null as any),
+    inputs: [],
+    outputs: [
+      {
+        output_index: 0,
+        value,
+        address,
+        output_hash: id,
+        block_height: blockHeight,
+        rbf: false,
+      },
+    ],
+  });
+
+  const makeXpub = () => {
+    const storage = new BitcoinLikeStorage();
+    return new Xpub({
+      storage,
+      explorer: new BitcoinLikeExplorer({
+        explorerURI: "https://explorers.api.live.ledger.com/blockchain/v3/btc",
+        explorerVersion: "v3",
+      }),
+      crypto,
+      xpub: node.neutered().toBase58(),
+      derivationMode: DerivationModes.LEGACY,
+    });
+  };
+
+  const outputs = (amount: number): OutputInfo[] => [
+    {
+      address,
+      isChange: false,
+      script: crypto.toOutputScript(address),
+      value: new BigNumber(amount),
+    },
+  ];
+
+  it("pays for the whole package", () => {
+    // parent pays 1 sat/vB, package must reach 10 sat/vB
+    expect(computeCpfpFee(parent, 100, 10)).toEqual(10 * 300 - 200);
+  });
+
+  it("pays at least the target rate for the child itself", () => {
+    const wellPaidParent = { ...parent, fee: 10000 };
+    expect(computeCpfpFee(wellPaidParent, 100, 10)).toEqual(1000);
+  });
+
+  it("always spends the unconfirmed outputs of the parent", async () => {
+    const xpub = makeXpub();
+    xpub.storage.appendTxs([
+      tx(confirmedHash, "100000000", 10),
+      tx(parentHash, "50000", null),
+    ]);
+    const strategy = new Cpfp(crypto, DerivationModes.LEGACY, [], parent);
+    const res = await strategy.selectUnspentUtxosToUse(
+      xpub,
+      outputs(10000),
+      10
+    );
+    expect(res.unspentUtxos.map((u) => u.output_hash)).toEqual([parentHash]);
+    expect(res.needChangeoutput).toBe(true);
+    const childSize = maxTxSize(
+      1,
+      outputs(10000).map((o) => o.script),
+      true,
+      crypto,
+      DerivationModes.LEGACY
+    );
+    expect(res.fee).toEqual(computeCpfpFee(parent, childSize, 10));
+  });
+
+  it("adds confirmed utxos when the parent outputs are not enough", async () => {
+    const xpub = makeXpub();
+    xpub.storage.appendTxs([
+      tx(confirmedHash, "100000000", 10),
+      tx(parentHash, "5000", null),
+    ]);
+    const strategy = new Cpfp(crypto, DerivationModes.LEGACY, [], parent);
+    const res = await strategy.selectUnspentUtxosToUse(
+      xpub,
+      outputs(10000),
+      10
+    );
+    expect(res.unspentUtxos.map((u) => u.output_hash)).toEqual([
+      parentHash,
+      confirmedHash,
+    ]);
+  });
+
+  it("fails when the parent has no unspent output in the account", async () => {
+    const xpub = makeXpub();
+    xpub.storage.appendTxs([tx(confirmedHash, "100000000", 10)]);
+    const strategy = new Cpfp(crypto, DerivationModes.LEGACY, [], parent);
+    await expect(
+      strategy.selectUnspentUtxosToUse(xpub, outputs(10000), 10)
+    ).rejects.toBeInstanceOf(CpfpParentNotFound);
+  });
+
+  it("does not spend the excluded utxos", async () => {
+    const xpub = makeXpub();
+    xpub.storage.appendTxs([
+      tx(confirmedHash, "100000000", 10),
+      tx(parentHash, "50000", null),
+    ]);
+    const strategy = new Cpfp(
+      crypto,
+      DerivationModes.LEGACY,
+      [{ hash: parentHash, outputIndex: 0 }],
+      parent
+    );
+    await expect(
+      strategy.selectUnspentUtxosToUse(xpub, outputs(10000), 10)
+    ).rejects.toBeInstanceOf(CpfpParentNotFound);
+  });
+});
@@ -0,0 +1,142 @@
+import * as bip32 from "bip32";
+import * as bip39 from "bip39";
+import coininfo from "coininfo";
+import BigNumber from "bignumber.js";
+import { NotEnoughBalance } from "@ledgerhq/errors";
+import { UnspentOutputNotFound } from "../../errors";
+import { DerivationModes, OutputInfo } from "../types";
+import Xpub from "../xpub";
+import BitcoinLikeExplorer from "../explorer";
+import Crypto from "../crypto/bitcoin";
+import BitcoinLikeStorage from "../storage";
+import { Manual } from "../pickingstrategies/Manual";
+import { TX } from "../storage/types";
+
+describe("manual coin control picking strategy", () => {
+  const network = coininfo.bitcoin.test.toBitcoinJS();
+  const crypto = new Crypto({ network });
+  const node = bip32.fromSeed(
+    bip39.mnemonicToSeedSync("test1 test1 test1"),
+    network
+  );
+  const address = "mwXTtHo8Yy3aNKUUZLkBDrTcKT9qG9TqLb";
+  const hashes = [
+    "9e1b337875c21f751e70ee2c2c6ee93d8a6733d0f3ba6d139ae6a0479ebcefb0",
+    "0f4f6a6b8fe0d3b3e0e5c4a4ef3a3d86db4cb6c0b1b5e8f1e4e0e6b5c4b3a291",
+    "5b2c1a0e9d8c7b6a5f4e3d2c1b0a99887766554433221100ffeeddccbbaa9988",
+  ];
+
+  const tx = (id: string, value: string, blockHeight: number | null): TX => ({
+    id,
+    account: 0,
+    index: 0,
+    address,
+    received_at: "2022-01-01T00:00:00Z",
+    block: blockHeight
+      ? { height: blockHeight, hash: "blockhash", time: "" }
+      : (null as any),
+    inputs: [],
+    outputs: [
+      {
+        output_index: 0,
+        value,
+        address,
+        output_hash: id,
+        block_height: blockHeight,
+        rbf: false,
+      },
+    ],
+  });
+
+  const makeXpub = () => {
+    const storage = new BitcoinLikeStorage();
+    return new Xpub({
+      storage,
+      explorer: new BitcoinLikeExplorer({
+        explorerURI: "https://explorers.api.live.ledger.com/blockchain/v3/btc",
+        explorerVersion: "v3",
+      }),
+      crypto,
+      xpub: node.neutered().toBase58(),
+      derivationMode: DerivationModes.LEGACY,
+    });
+  };
+
+  const outputs = (amount: number): OutputInfo[] => [
+    {
+      address,
+      isChange: false,
+      script: crypto.toOutputScript(address),
+      value: new BigNumber(amount),
+    },
+  ];
+
+  const makeFundedXpub = () => {
+    const xpub = makeXpub();
+    xpub.storage.appendTxs([
+      tx(hashes[0], "100000", 10),
+      tx(hashes[1], "200000", 11),
+      tx(hashes[2], "300000", 12),
+    ]);
+    return xpub;
+  };
+
+  it("spends exactly the chosen utxos", async () => {
+    const strategy = new Manual(
+      crypto,
+      DerivationModes.LEGACY,
+      [],
+      [
+        { hash: hashes[2], outputIndex: 0 },
+        { hash: hashes[0], outputIndex: 0 },
+      ]
+    );
+    const res = await strategy.selectUnspentUtxosToUse(
+      makeFundedXpub(),
+      outputs(10000),
+      1
+    );
+    expect(res.unspentUtxos.map((u) => u.output_hash)).toEqual([
+      hashes[2],
+      hashes[0],
+    ]);
+    expect(res.totalValue.toNumber()).toEqual(400000);
+    expect(res.needChangeoutput).toBe(true);
+  });
+
+  it("does not add utxos when the chosen ones are not enough", async () => {
+    const strategy = new Manual(
+      crypto,
+      DerivationModes.LEGACY,
+      [],
+      [{ hash: hashes[0], outputIndex: 0 }]
+    );
+    await expect(
+      strategy.selectUnspentUtxosToUse(makeFundedXpub(), outputs(150000), 1)
+    ).rejects.toBeInstanceOf(NotEnoughBalance);
+  });
+
+  it("fails on a utxo that is not unspent in the account", async () => {
+    const strategy = new Manual(
+      crypto,
+      DerivationModes.LEGACY,
+      [],
+      [{ hash: hashes[0], outputIndex: 1 }]
+    );
+    await expect(
+      strategy.selectUnspentUtxosToUse(makeFundedXpub(), outputs(10000), 1)
+    ).rejects.toBeInstanceOf(UnspentOutputNotFound);
+  });
+
+  it("fails on a chosen utxo that is excluded", async () => {
+    const strategy = new Manual(
+      crypto,
+      DerivationModes.LEGACY,
+      [{ hash: hashes[0], outputIndex: 0 }],
+      [{ hash: hashes[0], outputIndex: 0 }]
+    );
+    await expect(
+      strategy.selectUnspentUtxosToUse(makeFundedXpub(), outputs(10000), 1)
+    ).rejects.toBeInstanceOf(UnspentOutputNotFound);
+  });
+});
@@ -1,5 +1,6 @@
-import { DerivationModes } from "./types";
 import { Currency } from "./crypto/types";
+import { ExplorerType } from "./explorer/types";
+import { StorageType } from "./storage/types";
 import Xpub from "./xpub";
 
 export interface Account {
@@ -8,10 +9,13 @@ export interface Account {
     index: number;
     currency: Currency;
     network: "mainnet" | "testnet";
-    derivationMode: DerivationModes;
-    explorer: "ledgerv3" | "ledgerv2";
+    // a DerivationModes, or a multisig one, see multisigDerivationMode
+    derivationMode: string;
+    explorer: ExplorerType;
     explorerURI: string;
-    storage: "mock";
+    storage: StorageType;
+    // the gap limit of the address discovery, DEFAULT_GAP_LIMIT if undefined
+    gap?: number;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     storageParams: any[];
   };
@@ -25,10 +29,13 @@ export interface SerializedAccount {
     index: number;
     currency: Currency;
     network: "mainnet" | "testnet";
-    derivationMode: DerivationModes;
-    explorer: "ledgerv3" | "ledgerv2";
+    // a DerivationModes, or a multisig one, see multisigDerivationMode
+    derivationMode: string;
+    explorer: ExplorerType;
     explorerURI: string;
-    storage: "mock";
+    storage: StorageType;
+    // the gap limit of the address discovery, DEFAULT_GAP_LIMIT if undefined
+    gap?: number;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     storageParams: any[];
   };
@@ -4,6 +4,7 @@ import * as bjs from "bitcoinjs-lib";
 import { toOutputScript } from "bitcoinjs-lib/src/address";
 import bs58check from "bs58check";
 import { DerivationModes } from "../types";
+import { parseMultisigDerivationMode } from "../multisig";
 import { ICrypto } from "./types";
 import bs58 from "bs58";
 import bech32 from "bech32";
@@ -139,6 +140,51 @@ class Base implements ICrypto {
     return bs58check.encode(payload);
   }
 
+  // public keys of the cosigners of a multisig account at account and index
+  // positions, in the order of their comma separated xpubs
+  async getMultisigPubkeys(
+    xpubs: string,
+    account: number,
+    index: number
+  ): Promise<Buffer[]> {
+    return Promise.all(
+      xpubs.split(",").map((xpub) => this.getPubkeyAt(xpub, account, index))
+    );
+  }
+
+  // witness script of a sortedmulti account at account and index positions
+  async getMultisigWitnessScript(
+    threshold: number,
+    xpubs: string,
+    account: number,
+    index: number
+  ): Promise<Buffer> {
+    const pubkeys = await this.getMultisigPubkeys(xpubs, account, index);
+    return bjs.payments.p2ms({
+      m: threshold,
+      pubkeys: pubkeys.sort(Buffer.compare),
+      network: this.network,
+    }).output as Buffer;
+  }
+
+  // derive p2wsh sortedmulti address at account and index positions
+  private async getMultisigAddress(
+    threshold: number,
+    xpubs: string,
+    account: number,
+    index: number
+  ): Promise<string> {
+    const witnessScript = await this.getMultisigWitnessScript(
+      threshold,
+      xpubs,
+      account,
+      index
+    );
+    const words: number[] = bech32.toWords(bjs.crypto.sha256(witnessScript));
+    words.unshift(0x00);
+    return bech32.encode(this.network.bech32, words);
+  }
+
   // get address given an address type
   async getAddress(
     derivationMode: string,
@@ -168,6 +214,15 @@ class Base implements ICrypto {
     account: number,
     index: number
   ): Promise<string> {
+    const multisig = parseMultisigDerivationMode(derivationMode);
+    if (multisig) {
+      return await this.getMultisigAddress(
+        multisig.threshold,
+        xpub,
+        account,
+        index
+      );
+    }
     switch (derivationMode) {
       case DerivationModes.LEGACY:
         return await this.getLegacyAddress(xpub, account, index);
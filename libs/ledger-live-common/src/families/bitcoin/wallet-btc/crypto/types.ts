@@ -13,6 +13,17 @@ export interface ICrypto {
     account: number,
     index: number
   ): Promise<string>;
+  getMultisigPubkeys(
+    xpubs: string,
+    account: number,
+    index: number
+  ): Promise<Buffer[]>;
+  getMultisigWitnessScript(
+    threshold: number,
+    xpubs: string,
+    account: number,
+    index: number
+  ): Promise<Buffer>;
   toOutputScript(address: string): Buffer;
   toOpReturnOutputScript(data: Buffer): Buffer;
   validateAddress(address: string): boolean;
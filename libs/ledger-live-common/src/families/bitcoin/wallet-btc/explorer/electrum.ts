@@ -0,0 +1,313 @@
+import BigNumber from "bignumber.js";
+import {
+  address as bjsAddress,
+  crypto as bjsCrypto,
+  Transaction,
+} from "bitcoinjs-lib";
+import { Address, Block, Input, Output, TX } from "../storage/types";
+import { ICrypto } from "../crypto/types";
+import { IExplorer } from "./types";
+import ElectrumClient from "./electrumClient";
+
+type HistoryItem = {
+  tx_hash: string;
+  // 0 for mempool transactions, -1 when some of their inputs are unconfirmed
+  height: number;
+  fee?: number;
+};
+
+type UnspentItem = {
+  tx_hash: string;
+  tx_pos: number;
+  height: number;
+  value: number;
+};
+
+// the fee targets, in blocks, that getFees returns
+const FEE_TARGETS = [2, 3, 6];
+
+/**
+ * Explorer of a self hosted electrum server, such as electrs or ElectrumX.
+ * Addresses are looked up by the hash of their output script. The history of
+ * an address is only fetched again when the status the server returns for
+ * its subscription changed.
+ */
+class ElectrumExplorer implements IExplorer {
+  client: ElectrumClient;
+
+  crypto: ICrypto;
+
+  // scripthash -> last known status and the history it matches
+  histories: Map<string, { status: string; history: HistoryItem[] }> =
+    new Map();
+
+  // transactions are immutable, only confirmed ones are kept
+  rawTxs: Map<string, Transaction> = new Map();
+
+  constructor({
+    explorerURI,
+    crypto,
+  }: {
+    explorerURI: string;
+    crypto: ICrypto;
+  }) {
+    this.client = new ElectrumClient(explorerURI);
+    this.crypto = crypto;
+    // forget the history of an address as soon as its status changes
+    this.client.onNotification(
+      "blockchain.scripthash.subscribe",
+      ([scripthash, status]) => {
+        const cached = this.histories.get(scripthash);
+        if (cached && cached.status !== status) {
+          this.histories.delete(scripthash);
+        }
+      }
+    );
+  }
+
+  close(): void {
+    this.client.close();
+  }
+
+  // see https://electrumx.readthedocs.io/en/latest/protocol-basics.html#script-hashes
+  toScripthash(address: string): string {
+    return bjsCrypto
+      .sha256(this.crypto.toOutputScript(address))
+      .reverse()
+      .toString("hex");
+  }
+
+  async broadcast(tx: string): Promise<{ data: { result: string } }> {
+    const result = await this.client.request<string>(
+      "blockchain.transaction.broadcast",
+      [tx]
+    );
+    return { data: { result } };
+  }
+
+  async getTxHex(txId: string): Promise<string> {
+    return this.client.request<string>("blockchain.transaction.get", [
+      txId,
+      false,
+    ]);
+  }
+
+  async getCurrentBlock(): Promise<Block | null> {
+    const { height, hex } = await this.client.request<{
+      height: number;
+      hex: string;
+    }>("blockchain.headers.subscribe");
+    return this.toBlock(height, hex);
+  }
+
+  async getBlockByHeight(height: number): Promise<Block | null> {
+    try {
+      const hex = await this.client.request<string>("blockchain.block.header", [
+        height,
+      ]);
+      return this.toBlock(height, hex);
+    } catch (e) {
+      // the height is above the tip of the server
+      return null;
+    }
+  }
+
+  // in sat/kB, as the ledger explorers
+  async getFees(): Promise<{ [key: string]: number }> {
+    const relayFee = await this.getRelayFee();
+    const fees = await Promise.all(
+      FEE_TARGETS.map((target) =>
+        this.client.request<number>("blockchain.estimatefee", [target])
+      )
+    );
+    const result = {};
+    FEE_TARGETS.forEach((target, i) => {
+      // -1 when the server has not enough data to estimate
+      const feePerKb = fees[i] > 0 ? Math.max(fees[i], relayFee) : relayFee;
+      result[target] = new BigNumber(feePerKb)
+        .times(1e8)
+        .integerValue(BigNumber.ROUND_CEIL)
+        .toNumber();
+    });
+    return result;
+  }
+
+  // in BTC/kB
+  async getRelayFee(): Promise<number> {
+    return this.client.request<number>("blockchain.relayfee");
+  }
+
+  async getPendings(address: Address, nbMax?: number): Promise<TX[]> {
+    const history = await this.getHistory(address.address);
+    const pendings = history.filter((item) => item.height <= 0);
+    return this.toTxs(address, pendings.slice(0, nbMax || pendings.length));
+  }
+
+  /**
+   * The history of an electrum server is not paginated, all the transactions
+   * confirmed after the block of lastTx, and the pending ones, are returned
+   * at once
+   */
+  async getAddressTxsSinceLastTxBlock(
+    _batchSize: number,
+    address: Address,
+    lastTx: TX | undefined
+  ): Promise<TX[]> {
+    const history = await this.getHistory(address.address);
+    const lastHeight = lastTx ? lastTx.block.height : 0;
+    const confirmed = history
+      .filter((item) => item.height > lastHeight)
+      .sort((a, b) => a.height - b.height);
+    const pendings = history.filter((item) => item.height <= 0);
+    return this.toTxs(address, [...confirmed, ...pendings]);
+  }
+
+  /**
+   * The unspent outputs of an address, as the server sees them
+   */
+  async getAddressUnspents(address: Address): Promise<Output[]> {
+    const unspents = await this.client.request<UnspentItem[]>(
+      "blockchain.scripthash.listunspent",
+      [this.toScripthash(address.address)]
+    );
+    return unspents.map((unspent) => ({
+      value: new BigNumber(unspent.value).toString(),
+      address: address.address,
+      output_hash: unspent.tx_hash,
+      output_index: unspent.tx_pos,
+      block_height: unspent.height > 0 ? unspent.height : null,
+      // only known from the inputs of the transaction
+      rbf: false,
+    }));
+  }
+
+  async getHistory(address: string): Promise<HistoryItem[]> {
+    const scripthash = this.toScripthash(address);
+    const status = await this.client.request<string | null>(
+      "blockchain.scripthash.subscribe",
+      [scripthash]
+    );
+    if (!status) {
+      // never used
+      return [];
+    }
+    const cached = this.histories.get(scripthash);
+    if (cached && cached.status === status) {
+      return cached.history;
+    }
+    const history = await this.client.request<HistoryItem[]>(
+      "blockchain.scripthash.get_history",
+      [scripthash]
+    );
+    this.histories.set(scripthash, { status, history });
+    return history;
+  }
+
+  async getTransaction(txId: string, confirmed: boolean): Promise<Transaction> {
+    const cached = this.rawTxs.get(txId);
+    if (cached) {
+      return cached;
+    }
+    const tx = Transaction.fromHex(await this.getTxHex(txId));
+    if (confirmed) {
+      this.rawTxs.set(txId, tx);
+    }
+    return tx;
+  }
+
+  scriptToAddress(script: Buffer): string {
+    try {
+      return bjsAddress.fromOutputScript(script, this.crypto.network);
+    } catch (e) {
+      // OP_RETURN and non standard outputs
+      return "";
+    }
+  }
+
+  async toTxs(address: Address, items: HistoryItem[]): Promise<TX[]> {
+    const blocks: Map<number, Promise<Block | null>> = new Map();
+    const getBlock = (height: number) => {
+      if (!blocks.has(height)) {
+        blocks.set(height, this.getBlockByHeight(height));
+      }
+      return blocks.get(height) as Promise<Block | null>;
+    };
+    return Promise.all(
+      items.map(async (item) => {
+        const block = item.height > 0 ? await getBlock(item.height) : null;
+        const tx = await this.getTransaction(item.tx_hash, !!block);
+        return this.toTx(address, item.tx_hash, tx, block);
+      })
+    );
+  }
+
+  // the same format as the transactions of the ledger explorers once hydrated
+  async toTx(
+    address: Address,
+    txId: string,
+    tx: Transaction,
+    block: Block | null
+  ): Promise<TX> {
+    const inputs: Input[] = await Promise.all(
+      tx.ins.map(async (input) => {
+        const outputHash = Buffer.from(input.hash).reverse().toString("hex");
+        if (tx.isCoinbase()) {
+          return {
+            value: "0",
+            address: "",
+            output_hash: outputHash,
+            output_index: input.index,
+            sequence: input.sequence,
+          };
+        }
+        // the previous transaction is confirmed if this one is
+        const previous = await this.getTransaction(outputHash, !!block);
+        const spent = previous.outs[input.index];
+        return {
+          value: new BigNumber(spent.value).toString(),
+          address: this.scriptToAddress(spent.script),
+          output_hash: outputHash,
+          output_index: input.index,
+          sequence: input.sequence,
+        };
+      })
+    );
+    // Definition of replaceable, per the standard: https://github.com/bitcoin/bips/blob/61ccc84930051e5b4a99926510d0db4a8475a4e6/bip-0125.mediawiki#summary
+    const rbf = inputs[0] ? inputs[0].sequence < 0xffffffff : false;
+    const outputs: Output[] = tx.outs.map((output, outputIndex) => ({
+      value: new BigNumber(output.value).toString(),
+      address: this.scriptToAddress(output.script),
+      output_hash: txId,
+      output_index: outputIndex,
+      block_height: block ? block.height : null,
+      rbf,
+    }));
+    const fees = tx.isCoinbase()
+      ? 0
+      : inputs.reduce((sum, input) => sum + Number(input.value), 0) -
+        outputs.reduce((sum, output) => sum + Number(output.value), 0);
+    return {
+      id: txId,
+      account: address.account,
+      index: address.index,
+      address: address.address,
+      received_at: block ? block.time : new Date().toISOString(),
+      // pending transactions have no block
+      block: block as Block,
+      inputs,
+      outputs,
+      fees,
+    };
+  }
+
+  toBlock(height: number, headerHex: string): Block {
+    const header = Buffer.from(headerHex, "hex");
+    return {
+      height,
+      hash: bjsCrypto.hash256(header).reverse().toString("hex"),
+      time: new Date(header.readUInt32LE(68) * 1000).toISOString(),
+    };
+  }
+}
+
+export default ElectrumExplorer;
@@ -0,0 +1,235 @@
+import type net from "net";
+import type tls from "tls";
+import { log } from "@ledgerhq/logs";
+import { ElectrumServerError, InvalidElectrumEndpoint } from "../../errors";
+
+// ElectrumX and electrs both speak this version of the protocol
+const PROTOCOL_VERSION = "1.4";
+const CLIENT_NAME = "ledger-live";
+const REQUEST_TIMEOUT = 30000;
+
+const endpointPattern = /^(tcp|ssl|tls):\/\/([^:/]+|\[[^\]]+\]):(\d+)\/?$/;
+
+export type ElectrumEndpoint = {
+  host: string;
+  port: number;
+  secure: boolean;
+};
+
+export const isElectrumEndpoint = (uri: string): boolean =>
+  endpointPattern.test(uri);
+
+/**
+ * Parse an electrum server endpoint: tcp://host:port, or ssl://host:port
+ * and tls://host:port for a TLS connection
+ */
+export function parseElectrumEndpoint(uri: string): ElectrumEndpoint {
+  const match = uri.match(endpointPattern);
+  if (!match) {
+    throw new InvalidElectrumEndpoint(
+      `invalid electrum endpoint ${uri}, expected tcp://host:port or ssl://host:port`
+    );
+  }
+  return {
+    host: match[2].replace(/^\[|\]$/g, ""),
+    port: Number(match[3]),
+    secure: match[1] !== "tcp",
+  };
+}
+
+type PendingRequest = {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+};
+
+type Socket = net.Socket | tls.TLSSocket;
+
+/**
+ * JSON-RPC client of an electrum server, over a single TCP or TLS connection
+ * opened on the first request and reopened after it closes. Requests and
+ * responses are newline-delimited JSON, matched by id, and the server pushes
+ * subscription notifications on the same connection.
+ */
+class ElectrumClient {
+  endpoint: ElectrumEndpoint;
+
+  socket: Socket | null = null;
+
+  connecting: Promise<Socket> | null = null;
+
+  nextId = 0;
+
+  pending: Map<number, PendingRequest> = new Map();
+
+  buffer = "";
+
+  listeners: Map<string, ((params: any[]) => void)[]> = new Map();
+
+  constructor(uri: string) {
+    this.endpoint = parseElectrumEndpoint(uri);
+  }
+
+  // subscribe to the notifications of a method, e.g. blockchain.scripthash.subscribe
+  onNotification(method: string, listener: (params: any[]) => void): void {
+    this.listeners.set(method, [
+      ...(this.listeners.get(method) || []),
+      listener,
+    ]);
+  }
+
+  async request<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    const socket = await this.connect();
+    return this.send(socket, method, params);
+  }
+
+  close(): void {
+    const { socket } = this;
+    this.reset(new ElectrumServerError("connection closed"));
+    if (socket) {
+      socket.destroy();
+    }
+  }
+
+  connect(): Promise<Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.openSocket().then(
+        async (socket) => {
+          try {
+            await this.send(socket, "server.version", [
+              CLIENT_NAME,
+              PROTOCOL_VERSION,
+            ]);
+          } catch (e) {
+            // the next request connects again
+            this.connecting = null;
+            socket.destroy();
+            throw e;
+          }
+          this.socket = socket;
+          this.connecting = null;
+          return socket;
+        },
+        (e) => {
+          this.connecting = null;
+          throw e;
+        }
+      );
+    }
+    return this.connecting;
+  }
+
+  openSocket(): Promise<Socket> {
+    const { host, port, secure } = this.endpoint;
+    // required lazily, they are not available on react native
+    // eslint-disable-next-line global-require,@typescript-eslint/no-var-requires
+    const { connect } = secure ? require("tls") : require("net");
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.removeListener("error", onConnectError);
+        socket.on("error", (e) => log("electrum", `socket error ${e.message}`));
+        resolve(socket);
+      };
+      const onConnectError = (e: Error) =>
+        reject(
+          new ElectrumServerError(
+            `cannot connect to ${host}:${port}: ${e.message}`
+          )
+        );
+      const socket: Socket = connect(
+        { host, port, ...(secure && { servername: host }) },
+        onConnect
+      );
+      socket.setEncoding("utf8");
+      socket.setKeepAlive(true);
+      // an idle connection must not keep the process alive, the timeouts of
+      // the pending requests do while they wait for their response
+      socket.unref();
+      socket.once("error", onConnectError);
+      socket.on("data", (chunk: string) => this.onData(chunk));
+      socket.on("close", () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.reset(new ElectrumServerError("connection closed"));
+      });
+    });
+  }
+
+  send<T>(socket: Socket, method: string, params: unknown[]): Promise<T> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new ElectrumServerError(`${method} timed out`));
+      }, REQUEST_TIMEOUT);
+      this.pending.set(id, { method, resolve, reject, timeout });
+      socket.write(
+        `${JSON.stringify({ jsonrpc: "2.0", id, method, params })}\n`
+      );
+    });
+  }
+
+  onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.onMessage(line);
+      }
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  onMessage(line: string): void {
+    let message;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      log("electrum", `invalid message ${line}`);
+      return;
+    }
+    // some servers batch their notifications
+    const messages = Array.isArray(message) ? message : [message];
+    messages.forEach(({ id, method, params, result, error }) => {
+      if (method) {
+        (this.listeners.get(method) || []).forEach((listener) =>
+          listener(params || [])
+        );
+        return;
+      }
+      const request = this.pending.get(id);
+      if (!request) {
+        return;
+      }
+      this.pending.delete(id);
+      clearTimeout(request.timeout);
+      if (error) {
+        request.reject(
+          new ElectrumServerError(
+            `${request.method}: ${error.message || JSON.stringify(error)}`
+          )
+        );
+      } else {
+        request.resolve(result);
+      }
+    });
+  }
+
+  reset(error: Error): void {
+    this.buffer = "";
+    this.pending.forEach(({ reject, timeout }) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    this.pending.clear();
+  }
+}
+
+export default ElectrumClient;
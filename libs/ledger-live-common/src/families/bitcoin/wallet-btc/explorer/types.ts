@@ -1,9 +1,13 @@
 import { AxiosInstance } from "axios";
 import { TX, Address, Block } from "../storage/types";
 
+// ledger explorers, or a self hosted electrum server
+export type ExplorerType = "ledgerv3" | "ledgerv2" | "electrum";
+
 // abstract explorer api used, abstract batching logic, pagination, and retries
 export interface IExplorer {
-  underlyingClient: AxiosInstance;
+  // http client of the ledger explorers
+  underlyingClient?: AxiosInstance;
   broadcast(tx: string): Promise<{ data: { result: string } }>;
   getTxHex(txId: string): Promise<string>;
   getFees(): Promise<{ [key: string]: number }>;
@@ -16,4 +20,6 @@ export interface IExplorer {
     address: Address,
     lastTx: TX | undefined
   ): Promise<TX[]>;
+  // release the connections the explorer holds
+  close?(): void;
 }
@@ -5,13 +5,20 @@ import {
   InputInfo,
   OutputInfo,
   TransactionInfo,
+  CpfpParent,
 } from "./types";
 import { Account, SerializedAccount } from "./account";
 import { TX, Input, Output } from "./storage/types";
 import { CoinSelect } from "./pickingstrategies/CoinSelect";
 import { DeepFirst } from "./pickingstrategies/DeepFirst";
 import { Merge } from "./pickingstrategies/Merge";
+import { Cpfp } from "./pickingstrategies/Cpfp";
+import { Manual } from "./pickingstrategies/Manual";
 import { isValidAddress, isTaprootAddress } from "./utils";
+import {
+  multisigDerivationMode,
+  parseMultisigDerivationMode,
+} from "./multisig";
 
 import type { Account as WalletAccount } from "./account";
 import type { Account as LiveAccount } from "@ledgerhq/types-live";
@@ -28,12 +35,17 @@ export {
   InputInfo,
   OutputInfo,
   TransactionInfo,
+  CpfpParent,
   TX,
   CoinSelect,
   DeepFirst,
   Merge,
+  Cpfp,
+  Manual,
   isValidAddress,
   isTaprootAddress,
+  multisigDerivationMode,
+  parseMultisigDerivationMode,
   Currency,
 };
 
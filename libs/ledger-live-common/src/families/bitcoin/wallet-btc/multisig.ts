@@ -0,0 +1,25 @@
+import { DerivationModes } from "./types";
+
+const multisigDerivationModeRegex = new RegExp(
+  `^${DerivationModes.MULTISIG} (\\d+)-of-(\\d+)$`
+);
+
+/**
+ * Derivation mode of a p2wsh sortedmulti account, e.g. "Multisig 2-of-3".
+ * The xpub of such an account is the comma separated list of the xpubs of
+ * its cosigners.
+ */
+export function multisigDerivationMode(
+  threshold: number,
+  keyCount: number
+): string {
+  return `${DerivationModes.MULTISIG} ${threshold}-of-${keyCount}`;
+}
+
+export function parseMultisigDerivationMode(
+  derivationMode: string
+): { threshold: number; keyCount: number } | null {
+  const match = derivationMode.match(multisigDerivationModeRegex);
+  if (!match) return null;
+  return { threshold: Number(match[1]), keyCount: Number(match[2]) };
+}
@@ -0,0 +1,121 @@
+import BigNumber from "bignumber.js";
+import { flatten, sortBy } from "lodash";
+import { NotEnoughBalance } from "@ledgerhq/errors";
+import { Output } from "../storage/types";
+import Xpub from "../xpub";
+import { PickingStrategy } from "./types";
+import { ICrypto } from "../crypto/types";
+import * as utils from "../utils";
+import { log } from "@ledgerhq/logs";
+import { CpfpParent, OutputInfo } from "../types";
+import { CpfpParentNotFound } from "../../errors";
+
+// Child-pays-for-parent: always spend the unconfirmed outputs of the parent,
+// then add confirmed utxos (deepest first) until the child can pay for the
+// whole package at the requested fee rate
+export class Cpfp extends PickingStrategy {
+  parent: CpfpParent;
+
+  constructor(
+    crypto: ICrypto,
+    derivationMode: string,
+    excludedUTXOs: Array<{
+      hash: string;
+      outputIndex: number;
+    }>,
+    parent: CpfpParent
+  ) {
+    super(crypto, derivationMode, excludedUTXOs);
+    this.parent = parent;
+  }
+
+  async selectUnspentUtxosToUse(
+    xpub: Xpub,
+    outputs: OutputInfo[],
+    feePerByte: number
+  ): Promise<{
+    unspentUtxos: Output[];
+    totalValue: BigNumber;
+    fee: number;
+    needChangeoutput: boolean;
+  }> {
+    const addresses = await xpub.getXpubAddresses();
+    log("picking strategy", "Cpfp");
+
+    const unspentUtxos = flatten(
+      await Promise.all(
+        addresses.map((address) => xpub.storage.getAddressUnspentUtxos(address))
+      )
+    ).filter(
+      (o) =>
+        !this.excludedUTXOs.filter(
+          (x) => x.hash === o.output_hash && x.outputIndex === o.output_index
+        ).length
+    );
+    const parentUtxos = unspentUtxos.filter(
+      (o) => o.output_hash === this.parent.hash
+    );
+    // only confirmed utxos can be used to complete the child, spending
+    // another unconfirmed output would drag its parent into the package
+    const otherUtxos = sortBy(
+      unspentUtxos.filter(
+        (o) => o.output_hash !== this.parent.hash && o.block_height !== null
+      ),
+      "block_height"
+    );
+
+    if (!parentUtxos.length) {
+      throw new CpfpParentNotFound();
+    }
+
+    const outputScripts = outputs.map((o) => o.script);
+    const amount = outputs.reduce(
+      (sum, output) => sum.plus(output.value),
+      new BigNumber(0)
+    );
+    const feeFor = (inputCount: number, withChange: boolean) =>
+      utils.computeCpfpFee(
+        this.parent,
+        utils.maxTxSize(
+          inputCount,
+          outputScripts,
+          withChange,
+          this.crypto,
+          this.derivationMode
+        ),
+        feePerByte
+      );
+
+    const unspentUtxoSelected: Output[] = parentUtxos.slice();
+    let total = parentUtxos.reduce(
+      (sum, utxo) => sum.plus(utxo.value),
+      new BigNumber(0)
+    );
+    let i = 0;
+    while (total.lt(amount.plus(feeFor(unspentUtxoSelected.length, false)))) {
+      if (!otherUtxos[i]) {
+        throw new NotEnoughBalance();
+      }
+      total = total.plus(otherUtxos[i].value);
+      unspentUtxoSelected.push(otherUtxos[i]);
+      i += 1;
+    }
+
+    const feeWithChange = feeFor(unspentUtxoSelected.length, true);
+    if (total.minus(amount).lte(feeWithChange)) {
+      // not enough fund to make a change output
+      return {
+        totalValue: total,
+        unspentUtxos: unspentUtxoSelected,
+        fee: feeFor(unspentUtxoSelected.length, false),
+        needChangeoutput: false,
+      };
+    }
+    return {
+      totalValue: total,
+      unspentUtxos: unspentUtxoSelected,
+      fee: feeWithChange,
+      needChangeoutput: true,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import BigNumber from "bignumber.js";
+import { flatten } from "lodash";
+import { NotEnoughBalance } from "@ledgerhq/errors";
+import { Output } from "../storage/types";
+import Xpub from "../xpub";
+import { PickingStrategy } from "./types";
+import { ICrypto } from "../crypto/types";
+import * as utils from "../utils";
+import { log } from "@ledgerhq/logs";
+import { OutputInfo } from "../types";
+import { UnspentOutputNotFound } from "../../errors";
+
+// Coin control: spend exactly the utxos chosen by the user, nothing more
+export class Manual extends PickingStrategy {
+  includedUTXOs: Array<{
+    hash: string;
+    outputIndex: number;
+  }>;
+
+  constructor(
+    crypto: ICrypto,
+    derivationMode: string,
+    excludedUTXOs: Array<{
+      hash: string;
+      outputIndex: number;
+    }>,
+    includedUTXOs: Array<{
+      hash: string;
+      outputIndex: number;
+    }>
+  ) {
+    super(crypto, derivationMode, excludedUTXOs);
+    this.includedUTXOs = includedUTXOs;
+  }
+
+  async selectUnspentUtxosToUse(
+    xpub: Xpub,
+    outputs: OutputInfo[],
+    feePerByte: number
+  ): Promise<{
+    unspentUtxos: Output[];
+    totalValue: BigNumber;
+    fee: number;
+    needChangeoutput: boolean;
+  }> {
+    const addresses = await xpub.getXpubAddresses();
+    log("picking strategy", "Manual");
+
+    // an excluded utxo can't be spent, even when it is chosen
+    const unspentUtxos = flatten(
+      await Promise.all(
+        addresses.map((address) => xpub.storage.getAddressUnspentUtxos(address))
+      )
+    ).filter(
+      (o) =>
+        !this.excludedUTXOs.filter(
+          (x) => x.hash === o.output_hash && x.outputIndex === o.output_index
+        ).length
+    );
+
+    const unspentUtxoSelected: Output[] = this.includedUTXOs.map((x) => {
+      const utxo = unspentUtxos.find(
+        (o) => x.hash === o.output_hash && x.outputIndex === o.output_index
+      );
+      if (!utxo) {
+        throw new UnspentOutputNotFound(undefined, {
+          utxo: `${x.hash}@${x.outputIndex}`,
+        });
+      }
+      return utxo;
+    });
+
+    const outputScripts = outputs.map((o) => o.script);
+    const total = unspentUtxoSelected.reduce(
+      (sum, utxo) => sum.plus(utxo.value),
+      new BigNumber(0)
+    );
+    const amount = outputs.reduce(
+      (sum, output) => sum.plus(output.value),
+      new BigNumber(0)
+    );
+    const feeWithoutChange =
+      feePerByte *
+      utils.maxTxSize(
+        unspentUtxoSelected.length,
+        outputScripts,
+        false,
+        this.crypto,
+        this.derivationMode
+      );
+
+    if (total.lt(amount.plus(feeWithoutChange))) {
+      throw new NotEnoughBalance();
+    }
+
+    const feeWithChange =
+      feePerByte *
+      utils.maxTxSize(
+        unspentUtxoSelected.length,
+        outputScripts,
+        true,
+        this.crypto,
+        this.derivationMode
+      );
+
+    if (total.minus(amount).lte(feeWithChange)) {
+      // not enough fund to make a change output
+      return {
+        totalValue: total,
+        unspentUtxos: unspentUtxoSelected,
+        fee: Math.ceil(feeWithoutChange),
+        needChangeoutput: false,
+      };
+    }
+    return {
+      totalValue: total,
+      unspentUtxos: unspentUtxoSelected,
+      fee: Math.ceil(feeWithChange),
+      needChangeoutput: true,
+    };
+  }
+}
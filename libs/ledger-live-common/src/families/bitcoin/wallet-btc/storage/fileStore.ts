@@ -0,0 +1,196 @@
+import type fs from "fs";
+import { IKeyValueStore } from "./types";
+
+// compact once the overwritten records take more than this and than the live ones
+const COMPACTION_THRESHOLD = 1024 * 1024;
+
+const NEWLINE = 0x0a;
+const SEPARATOR = "\t";
+
+type Location = { offset: number; length: number };
+
+/**
+ * An append-only key value store in a single file: every set or delete adds
+ * a line `json key<TAB>json value`, an empty value for a delete. Only the
+ * location of the last value of each key stays in memory, values are read
+ * from the file when needed. The file is rewritten without its overwritten
+ * records once they take more space than the live ones.
+ */
+class FileKeyValueStore implements IKeyValueStore {
+  // one store per file, two stores appending to the same file would corrupt it
+  private static instances: Map<string, FileKeyValueStore> = new Map();
+
+  static open(path: string): FileKeyValueStore {
+    let store = FileKeyValueStore.instances.get(path);
+    if (!store) {
+      store = new FileKeyValueStore(path);
+      FileKeyValueStore.instances.set(path, store);
+    }
+    return store;
+  }
+
+  path: string;
+
+  private fs: typeof fs;
+
+  private fd: number;
+
+  private size = 0;
+
+  private garbage = 0;
+
+  private locations: Map<string, Location> = new Map();
+
+  private constructor(path: string) {
+    // required lazily, it is not available on react native
+    // eslint-disable-next-line global-require,@typescript-eslint/no-var-requires
+    this.fs = require("fs");
+    this.path = path;
+    this.fd = this.fs.openSync(path, "a+");
+    this.readLocations();
+  }
+
+  get<T>(key: string): T | undefined {
+    const location = this.locations.get(key);
+    if (!location) {
+      return undefined;
+    }
+    const buffer = Buffer.alloc(location.length);
+    this.fs.readSync(this.fd, buffer, 0, location.length, location.offset);
+    return JSON.parse(buffer.toString("utf8"));
+  }
+
+  set(key: string, value: unknown): void {
+    this.append(key, JSON.stringify(value));
+    this.compactIfNeeded();
+  }
+
+  delete(key: string): void {
+    if (this.locations.has(key)) {
+      this.append(key, "");
+      this.compactIfNeeded();
+    }
+  }
+
+  keys(prefix: string): string[] {
+    const keys: string[] = [];
+    this.locations.forEach((_, key) => {
+      if (key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    });
+    return keys;
+  }
+
+  close(): void {
+    this.fs.closeSync(this.fd);
+    FileKeyValueStore.instances.delete(this.path);
+  }
+
+  /**
+   * Rewrite the file with the last value of each key only
+   */
+  compact(): void {
+    const tmpPath = `${this.path}.tmp`;
+    const tmpFd = this.fs.openSync(tmpPath, "w");
+    const locations: Map<string, Location> = new Map();
+    let size = 0;
+    this.locations.forEach((location, key) => {
+      const value = Buffer.alloc(location.length);
+      this.fs.readSync(this.fd, value, 0, location.length, location.offset);
+      const prefix = Buffer.from(`${JSON.stringify(key)}${SEPARATOR}`);
+      this.fs.writeSync(
+        tmpFd,
+        Buffer.concat([prefix, value, Buffer.from("\n")])
+      );
+      locations.set(key, {
+        offset: size + prefix.length,
+        length: location.length,
+      });
+      size += prefix.length + location.length + 1;
+    });
+    this.fs.closeSync(tmpFd);
+    this.fs.closeSync(this.fd);
+    this.fs.renameSync(tmpPath, this.path);
+    this.fd = this.fs.openSync(this.path, "a+");
+    this.locations = locations;
+    this.size = size;
+    this.garbage = 0;
+  }
+
+  private append(key: string, value: string): void {
+    const prefix = Buffer.from(`${JSON.stringify(key)}${SEPARATOR}`);
+    const data = Buffer.from(value);
+    this.fs.writeSync(
+      this.fd,
+      Buffer.concat([prefix, data, Buffer.from("\n")])
+    );
+    this.track(key, this.size + prefix.length, data.length, prefix.length);
+    this.size += prefix.length + data.length + 1;
+  }
+
+  private track(
+    key: string,
+    offset: number,
+    length: number,
+    prefixLength: number
+  ): void {
+    const previous = this.locations.get(key);
+    if (previous) {
+      this.garbage += previous.length + prefixLength + 1;
+    }
+    if (length === 0) {
+      // a delete record is garbage as soon as it is written
+      this.locations.delete(key);
+      this.garbage += prefixLength + 1;
+    } else {
+      this.locations.set(key, { offset, length });
+    }
+  }
+
+  private readLocations(): void {
+    const content = this.fs.readFileSync(this.path);
+    let start = 0;
+    let end = content.indexOf(NEWLINE, start);
+    while (end !== -1) {
+      const separator = content.indexOf(SEPARATOR, start);
+      let key: string | undefined;
+      if (separator !== -1 && separator < end) {
+        try {
+          key = JSON.parse(content.toString("utf8", start, separator));
+        } catch (e) {
+          key = undefined;
+        }
+      }
+      if (typeof key === "string") {
+        this.track(
+          key,
+          separator + 1,
+          end - separator - 1,
+          separator - start + 1
+        );
+      } else {
+        // corrupted lines are skipped
+        this.garbage += end - start + 1;
+      }
+      start = end + 1;
+      end = content.indexOf(NEWLINE, start);
+    }
+    // a partially written last line is overwritten by the next append
+    this.size = start;
+    if (start < content.length) {
+      this.fs.ftruncateSync(this.fd, start);
+    }
+  }
+
+  private compactIfNeeded(): void {
+    if (
+      this.garbage > COMPACTION_THRESHOLD &&
+      this.garbage > this.size - this.garbage
+    ) {
+      this.compact();
+    }
+  }
+}
+
+export default FileKeyValueStore;
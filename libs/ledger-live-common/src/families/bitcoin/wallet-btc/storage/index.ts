@@ -49,6 +49,10 @@ class BitcoinLikeStorage implements IStorage {
     return tx;
   }
 
+  getTxs(): TX[] {
+    return this.txs;
+  }
+
   getLastUnconfirmedTx(): TX | undefined {
     const tx: TX | undefined = findLast(this.txs, (t) => {
       return !t.block;
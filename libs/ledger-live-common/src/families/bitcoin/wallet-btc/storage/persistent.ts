@@ -0,0 +1,298 @@
+import Base from "../crypto/base";
+import { Address, IKeyValueStore, Input, IStorage, Output, TX } from "./types";
+
+const VERSION = 1;
+
+// keys of the store
+const txKey = (address: string, txId: string) => `tx/${address}/${txId}`;
+const txIdsKey = (account: number, index: number) =>
+  `txids/${account}/${index}`;
+const unspentsKey = (address: string) => `unspents/${address}`;
+const spentsKey = (address: string) => `spents/${address}`;
+const ADDRESSES_KEY = "addresses";
+const PENDINGS_KEY = "pendings";
+const ADDRESS_CACHE_PREFIX = "addressCache/";
+
+type PendingRef = { address: string; id: string };
+
+// the addresses are looked up on every read, they are parsed once per store,
+// which all the storages of an account share
+const addressesCache: WeakMap<IKeyValueStore, Address[]> = new WeakMap();
+
+// the serialized data of the in memory storage, see BitcoinLikeStorage
+type SerializedStorage = {
+  txs: TX[];
+  addressCache: { [key: string]: string };
+};
+
+/**
+ * A storage persisting the transactions in a key value store, instead of the
+ * serialized account. Transactions are indexed by address and id, and the
+ * unspent outputs by address, so that loading an account reads nothing and a
+ * sync only writes its new transactions.
+ */
+class PersistentStorage implements IStorage {
+  store: IKeyValueStore;
+
+  constructor(store: IKeyValueStore) {
+    this.store = store;
+  }
+
+  getLastTx(txFilter: {
+    account: number;
+    index: number;
+    confirmed?: boolean;
+  }): TX | undefined {
+    const address = this.findAddress(txFilter.account, txFilter.index);
+    if (!address) {
+      return undefined;
+    }
+    const txIds = this.getTxIds(txFilter.account, txFilter.index);
+    for (let i = txIds.length - 1; i >= 0; i--) {
+      const tx = this.getTx(address, txIds[i]);
+      if (
+        tx &&
+        (typeof txFilter.confirmed === "undefined" ||
+          txFilter.confirmed === !!tx.block)
+      ) {
+        return tx;
+      }
+    }
+    return undefined;
+  }
+
+  getLastUnconfirmedTx(): TX | undefined {
+    const pendings = this.getPendings();
+    const last = pendings[pendings.length - 1];
+    return last && this.getTx(last.address, last.id);
+  }
+
+  getTx(address: string, txId: string): TX | undefined {
+    return this.store.get<TX>(txKey(address, txId));
+  }
+
+  getTxs(): TX[] {
+    const txs: TX[] = [];
+    this.getAddresses().forEach(({ address, account, index }) =>
+      this.getTxIds(account, index).forEach((id) => {
+        const tx = this.getTx(address, id);
+        if (tx) {
+          txs.push(tx);
+        }
+      })
+    );
+    return txs;
+  }
+
+  getAddressUnspentUtxos(address: Address): Output[] {
+    return this.store.get<Output[]>(unspentsKey(address.address)) || [];
+  }
+
+  appendTxs(txs: TX[]): number {
+    let inserted = 0;
+    const addresses = [...this.getAddresses()];
+    const pendings = this.getPendings();
+    // the lists of the addresses touched by these transactions, written once
+    const txIds: Map<string, string[]> = new Map();
+    const unspents: Map<string, Output[]> = new Map();
+    const spents: Map<string, Input[]> = new Map();
+
+    txs.forEach((tx) => {
+      const key = txIdsKey(tx.account, tx.index);
+      if (!txIds.has(key)) {
+        txIds.set(key, this.getTxIds(tx.account, tx.index));
+        unspents.set(tx.address, this.getAddressUnspentUtxos(tx));
+        spents.set(tx.address, this.store.get(spentsKey(tx.address)) || []);
+      }
+      const addressTxIds = txIds.get(key) as string[];
+      // we reject already seen tx
+      if (addressTxIds.includes(tx.id)) {
+        return;
+      }
+      if (addressTxIds.length === 0) {
+        addresses.push({
+          address: tx.address,
+          account: tx.account,
+          index: tx.index,
+        });
+      }
+      addressTxIds.push(tx.id);
+      this.store.set(txKey(tx.address, tx.id), tx);
+      if (!tx.block) {
+        pendings.push({ address: tx.address, id: tx.id });
+      }
+      inserted += 1;
+
+      const addressUnspents = unspents.get(tx.address) as Output[];
+      const addressSpents = spents.get(tx.address) as Input[];
+      tx.outputs.forEach((output) => {
+        if (output.address === tx.address) {
+          addressUnspents.push(output);
+        }
+      });
+      tx.inputs.forEach((input) => {
+        if (input.address === tx.address) {
+          addressSpents.push(input);
+        }
+      });
+      // the input can be seen before the output it spends
+      unspents.set(
+        tx.address,
+        addressUnspents.filter((output) => {
+          const matchIndex = addressSpents.findIndex(
+            (input) =>
+              input.output_hash === output.output_hash &&
+              input.output_index === output.output_index
+          );
+          if (matchIndex > -1) {
+            addressSpents.splice(matchIndex, 1);
+            return false;
+          }
+          return true;
+        })
+      );
+    });
+
+    if (inserted > 0) {
+      txIds.forEach((ids, key) => this.store.set(key, ids));
+      unspents.forEach((outputs, address) =>
+        this.store.set(unspentsKey(address), outputs)
+      );
+      spents.forEach((inputs, address) =>
+        this.store.set(spentsKey(address), inputs)
+      );
+      this.setAddresses(addresses);
+      this.store.set(PENDINGS_KEY, pendings);
+    }
+    return inserted;
+  }
+
+  getUniquesAddresses(addressesFilter: {
+    account?: number;
+    index?: number;
+  }): Address[] {
+    return this.getAddresses().filter(
+      (a) =>
+        (typeof addressesFilter.account === "undefined" ||
+          addressesFilter.account === a.account) &&
+        (typeof addressesFilter.index === "undefined" ||
+          addressesFilter.index === a.index)
+    );
+  }
+
+  removeTxs(txsFilter: { account: number; index: number }): void {
+    this.removeAddressTxs(txsFilter.account, txsFilter.index);
+  }
+
+  // The unspent outputs can't be undone, so the address is rebuilt from its
+  // confirmed transactions
+  removePendingTxs(txsFilter: { account: number; index: number }): void {
+    const confirmed = this.removeAddressTxs(
+      txsFilter.account,
+      txsFilter.index
+    ).filter((tx) => tx.block);
+    this.appendTxs(confirmed);
+  }
+
+  addAddress(key: string, address: string): void {
+    const cacheKey = `${ADDRESS_CACHE_PREFIX}${key}`;
+    if (this.store.get(cacheKey) !== address) {
+      this.store.set(cacheKey, address);
+    }
+  }
+
+  // the data is in the store, the serialized account only keeps its version
+  exportSync(): { version: number } {
+    return { version: VERSION };
+  }
+
+  /**
+   * Also migrates the serialized data of the in memory storage, unless the
+   * store already has transactions
+   */
+  loadSync(data: { version: number } | SerializedStorage | undefined): void {
+    if (data && "txs" in data && this.getAddresses().length === 0) {
+      data.txs.forEach((tx) => {
+        // migration from the field "hash" to "id" to adapt old data format
+        if (!tx.id && tx.hash) {
+          tx.id = tx.hash;
+        }
+      });
+      this.appendTxs(data.txs);
+      Object.entries(data.addressCache || {}).forEach(([key, address]) =>
+        this.addAddress(key, address)
+      );
+    }
+    const addressCache = {};
+    this.store.keys(ADDRESS_CACHE_PREFIX).forEach((key) => {
+      addressCache[key.slice(ADDRESS_CACHE_PREFIX.length)] =
+        this.store.get(key);
+    });
+    Base.addressCache = { ...Base.addressCache, ...addressCache };
+  }
+
+  async export(): Promise<{ version: number }> {
+    return this.exportSync();
+  }
+
+  async load(
+    data: { version: number } | SerializedStorage | undefined
+  ): Promise<void> {
+    return this.loadSync(data);
+  }
+
+  private getAddresses(): Address[] {
+    let addresses = addressesCache.get(this.store);
+    if (!addresses) {
+      addresses = this.store.get<Address[]>(ADDRESSES_KEY) || [];
+      addressesCache.set(this.store, addresses);
+    }
+    return addresses;
+  }
+
+  private setAddresses(addresses: Address[]): void {
+    this.store.set(ADDRESSES_KEY, addresses);
+    addressesCache.set(this.store, addresses);
+  }
+
+  private findAddress(account: number, index: number): string | undefined {
+    return this.getAddresses().find(
+      (a) => a.account === account && a.index === index
+    )?.address;
+  }
+
+  private getTxIds(account: number, index: number): string[] {
+    return this.store.get<string[]>(txIdsKey(account, index)) || [];
+  }
+
+  private getPendings(): PendingRef[] {
+    return this.store.get<PendingRef[]>(PENDINGS_KEY) || [];
+  }
+
+  // remove the transactions of an address and return them
+  private removeAddressTxs(account: number, index: number): TX[] {
+    const address = this.findAddress(account, index);
+    if (!address) {
+      return [];
+    }
+    const removed: TX[] = [];
+    this.getTxIds(account, index).forEach((id) => {
+      const tx = this.getTx(address, id);
+      if (tx) {
+        removed.push(tx);
+      }
+      this.store.delete(txKey(address, id));
+    });
+    this.store.delete(txIdsKey(account, index));
+    this.store.delete(unspentsKey(address));
+    this.store.delete(spentsKey(address));
+    this.setAddresses(this.getAddresses().filter((a) => a.address !== address));
+    this.store.set(
+      PENDINGS_KEY,
+      this.getPendings().filter((p) => p.address !== address)
+    );
+    return removed;
+  }
+}
+
+export default PersistentStorage;
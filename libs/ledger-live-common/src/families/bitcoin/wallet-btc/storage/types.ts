@@ -41,8 +41,12 @@ export interface Address {
   address: string;
 }
 
+// "mock" keeps the transactions in memory, "persistent" in a file
+export type StorageType = "mock" | "persistent";
+
 export interface IStorage {
   appendTxs(txs: TX[]): number;
+  getTxs(): TX[];
   getAddressUnspentUtxos(address: Address): Output[];
   getLastTx(txFilter: {
     account: number;
@@ -63,3 +67,11 @@ export interface IStorage {
   exportSync(): unknown;
   loadSync(data: unknown): void;
 }
+
+// a synchronous key value store, values being json serializable
+export interface IKeyValueStore {
+  get<T>(key: string): T | undefined;
+  set(key: string, value: unknown): void;
+  delete(key: string): void;
+  keys(prefix: string): string[];
+}
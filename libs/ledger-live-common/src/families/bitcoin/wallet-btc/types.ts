@@ -6,6 +6,7 @@ export enum DerivationModes {
   NATIVE_SEGWIT = "Native SegWit", // This is for native segwit v0
   SEGWIT = "SegWit", // This is wrapped segwit v0 (wrapping is only allowed for v0)
   TAPROOT = "Taproot", // This is for segwit v1+
+  MULTISIG = "Multisig", // This is for p2wsh sortedmulti, see multisig.ts
 }
 
 export type InputInfo = Input & { txHex: string };
@@ -26,3 +27,12 @@ export type TransactionInfo = {
   fee: number;
   changeAddress: Address;
 };
+
+// Unconfirmed transaction accelerated by a child-pays-for-parent transaction
+export type CpfpParent = {
+  hash: string;
+  // fee already paid by the parent, in satoshis
+  fee: number;
+  // virtual size of the parent, in vbytes
+  vsize: number;
+};
@@ -1,9 +1,10 @@
-import { DerivationModes } from "./types";
+import { CpfpParent, DerivationModes } from "./types";
 import { Currency, ICrypto } from "./crypto/types";
 import cryptoFactory from "./crypto/factory";
 import { fallbackValidateAddress } from "./crypto/base";
 import { UnsupportedDerivation } from "../../../errors";
 import varuint from "varuint-bitcoin";
+import { parseMultisigDerivationMode } from "./multisig";
 
 export function byteSize(count: number): number {
   if (count < 0xfd) {
@@ -31,7 +32,18 @@ function fixedWeight(currency: ICrypto, derivationMode: string): number {
 
 function inputWeight(derivationMode: string): number {
   let inputWeight = (32 + 4 + 1 + 4) * baseByte;
-  if (derivationMode === DerivationModes.TAPROOT) {
+  const multisig = parseMultisigDerivationMode(derivationMode);
+  if (multisig) {
+    // witness: items count, empty item, signatures, witness script
+    // OP_m + (PUSH33 + <33 bytes>) * n + OP_n + OP_CHECKMULTISIG
+    const witnessScriptSize = 3 + 34 * multisig.keyCount;
+    inputWeight +=
+      1 +
+      1 +
+      (1 + 72) * multisig.threshold +
+      byteSize(witnessScriptSize) +
+      witnessScriptSize;
+  } else if (derivationMode === DerivationModes.TAPROOT) {
     inputWeight += 1 + 1 + 65;
   } else if (derivationMode === DerivationModes.NATIVE_SEGWIT) {
     inputWeight += 1 + 1 + 72 + 1 + 33;
@@ -47,8 +59,11 @@ function inputWeight(derivationMode: string): number {
 
 function outputWeight(derivationMode: string): number {
   let outputSize = 8 + 1; // amount + script size
-  if (derivationMode === DerivationModes.TAPROOT) {
-    outputSize += 34; // "1" + PUSH32 + <32 bytes>
+  if (
+    derivationMode === DerivationModes.TAPROOT ||
+    parseMultisigDerivationMode(derivationMode)
+  ) {
+    outputSize += 34; // "1" or "0" (p2wsh) + PUSH32 + <32 bytes>
   } else if (derivationMode === DerivationModes.NATIVE_SEGWIT) {
     outputSize += 22; // "0" + PUSH20 + <20 bytes>
   } else if (derivationMode === DerivationModes.SEGWIT) {
@@ -172,6 +187,25 @@ export function computeDustAmount(currency: ICrypto, txSize: number): number {
   return dustAmount;
 }
 
+/**
+ * Computes the fee a child transaction must pay so that the package made of
+ * an unconfirmed parent and this child reaches the target fee rate. The child
+ * never pays less than the target rate for its own size, even if the parent
+ * already pays enough.
+ *
+ * @param parent The unconfirmed parent transaction
+ * @param childSize Size of the child transaction in vbytes
+ * @param feePerByte Target fee rate of the package
+ */
+export function computeCpfpFee(
+  parent: CpfpParent,
+  childSize: number,
+  feePerByte: number
+): number {
+  const packageFee = feePerByte * (parent.vsize + childSize) - parent.fee;
+  return Math.ceil(Math.max(packageFee, feePerByte * childSize));
+}
+
 export function isValidAddress(address: string, currency?: Currency): boolean {
   if (!currency) {
     // If the caller doesn't provide the currency, we'll
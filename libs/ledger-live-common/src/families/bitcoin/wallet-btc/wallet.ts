@@ -1,26 +1,33 @@
 import { flatten } from "lodash";
 import BigNumber from "bignumber.js";
+import * as bjs from "bitcoinjs-lib";
 import Btc from "@ledgerhq/hw-app-btc";
 import { log } from "@ledgerhq/logs";
 import { Transaction } from "@ledgerhq/hw-app-btc/types";
 
 import { Currency } from "./crypto/types";
-import { TransactionInfo, DerivationModes } from "./types";
+import { TransactionInfo, CpfpParent } from "./types";
 import { Account, SerializedAccount } from "./account";
 import Xpub from "./xpub";
-import { IExplorer } from "./explorer/types";
+import { ExplorerType, IExplorer } from "./explorer/types";
 import BitcoinLikeExplorer from "./explorer";
-import { IStorage, Output } from "./storage/types";
+import ElectrumExplorer from "./explorer/electrum";
+import { IStorage, Output, StorageType } from "./storage/types";
 import BitcoinLikeStorage from "./storage";
+import PersistentStorage from "./storage/persistent";
+import FileKeyValueStore from "./storage/fileStore";
 import { PickingStrategy } from "./pickingstrategies/types";
 import * as utils from "./utils";
 import cryptoFactory from "./crypto/factory";
 import { TX, Address } from "./storage/types";
+import { CpfpParentNotFound, CpfpParentAlreadyConfirmed } from "../errors";
 
 class BitcoinLikeWallet {
   explorerInstances: { [key: string]: IExplorer } = {};
 
-  explorers: { [key: string]: (explorerURI: string) => IExplorer } = {
+  explorers: {
+    [key: string]: (explorerURI: string, currency: Currency) => IExplorer;
+  } = {
     ledgerv3: (explorerURI) =>
       new BitcoinLikeExplorer({
         explorerURI,
@@ -31,40 +38,63 @@ class BitcoinLikeWallet {
         explorerURI,
         explorerVersion: "v2",
       }),
+    electrum: (explorerURI, currency) =>
+      new ElectrumExplorer({
+        explorerURI,
+        crypto: cryptoFactory(currency),
+      }),
   };
 
   accountStorages: { [key: string]: (...args: any[]) => IStorage } = {
     mock: () => new BitcoinLikeStorage(),
+    persistent: (path: string) =>
+      new PersistentStorage(FileKeyValueStore.open(path)),
   };
 
   getExplorer(
-    explorer: "ledgerv3" | "ledgerv2",
-    explorerURI: string
+    explorer: ExplorerType,
+    explorerURI: string,
+    currency: Currency
   ): IExplorer {
-    const id = `explorer-${explorer}-uri-${explorerURI}`;
+    const id = `explorer-${explorer}-${currency}-uri-${explorerURI}`;
     this.explorerInstances[id] =
-      this.explorerInstances[id] || this.explorers[explorer](explorerURI);
+      this.explorerInstances[id] ||
+      this.explorers[explorer](explorerURI, currency);
     return this.explorerInstances[id];
   }
 
+  // close the connections of the explorers, they are reopened on next use
+  closeExplorers(): void {
+    Object.values(this.explorerInstances).forEach((explorer) =>
+      explorer.close?.()
+    );
+    this.explorerInstances = {};
+  }
+
   async generateAccount(params: {
     xpub: string;
     path: string;
     index: number;
     currency: Currency;
     network: "mainnet" | "testnet";
-    derivationMode: DerivationModes;
-    explorer: "ledgerv3" | "ledgerv2";
+    // a DerivationModes, or a multisig one, see multisigDerivationMode
+    derivationMode: string;
+    explorer: ExplorerType;
     explorerURI: string;
-    storage: "mock";
+    storage: StorageType;
     storageParams: any[];
+    gap?: number;
   }): Promise<Account> {
     const crypto = cryptoFactory(params.currency);
 
     const storage = this.accountStorages[params.storage](
       ...params.storageParams
     );
-    const explorer = this.getExplorer(params.explorer, params.explorerURI);
+    const explorer = this.getExplorer(
+      params.explorer,
+      params.explorerURI,
+      params.currency
+    );
     return {
       params,
       xpub: new Xpub({
@@ -73,6 +103,7 @@ class BitcoinLikeWallet {
         crypto,
         xpub: params.xpub,
         derivationMode: params.derivationMode,
+        gap: params.gap,
       }),
     };
   }
@@ -92,8 +123,7 @@ class BitcoinLikeWallet {
   }
 
   async getAccountTransactions(account: Account): Promise<{ txs: TX[] }> {
-    const txs = (await account.xpub.storage.export()) as { txs: TX[] };
-    return txs;
+    return { txs: account.xpub.storage.getTxs() };
   }
 
   async getAccountUnspentUtxos(account: Account): Promise<Output[]> {
@@ -176,6 +206,91 @@ class BitcoinLikeWallet {
     return maxSpendable.lt(0) ? new BigNumber(0) : maxSpendable;
   }
 
+  async getAccountCpfpParent(
+    account: Account,
+    txHash: string
+  ): Promise<CpfpParent> {
+    const parentUtxos = (await this.getAccountUnspentUtxos(account)).filter(
+      (utxo) => utxo.output_hash === txHash
+    );
+    if (!parentUtxos.length) {
+      throw new CpfpParentNotFound();
+    }
+    if (parentUtxos.some((utxo) => utxo.block_height !== null)) {
+      throw new CpfpParentAlreadyConfirmed();
+    }
+
+    const tx = account.xpub.storage.getTx(parentUtxos[0].address, txHash);
+    let fee = tx?.fees;
+    if (fee === undefined && tx) {
+      // fees are not always provided by explorers, infer them from the amounts
+      fee = tx.inputs
+        .reduce((sum, i) => sum.plus(i.value), new BigNumber(0))
+        .minus(
+          tx.outputs.reduce((sum, o) => sum.plus(o.value), new BigNumber(0))
+        )
+        .toNumber();
+    }
+
+    const txHex = await account.xpub.explorer.getTxHex(txHash);
+    let vsize: number;
+    try {
+      vsize = bjs.Transaction.fromHex(txHex).virtualSize();
+    } catch (e) {
+      // not a bitcoin-serialized transaction, without segwit discount
+      vsize = txHex.length / 2;
+    }
+
+    return {
+      hash: txHash,
+      fee: Math.max(fee || 0, 0),
+      vsize,
+    };
+  }
+
+  async estimateAccountCpfpMaxSpendable(
+    account: Account,
+    parent: CpfpParent,
+    feePerByte: number,
+    outputAddresses: string[] = [],
+    opReturnData?: Buffer
+  ): Promise<BigNumber> {
+    // a CPFP child sending the max only sweeps the outputs of its parent
+    const utxos = (await this.getAccountUnspentUtxos(account)).filter(
+      (utxo) => utxo.output_hash === parent.hash
+    );
+    const balance = utxos.reduce(
+      (sum, utxo) => sum.plus(utxo.value),
+      new BigNumber(0)
+    );
+
+    const outputScripts = outputAddresses.map((addr) =>
+      account.xpub.crypto.toOutputScript(addr)
+    );
+    if (opReturnData) {
+      outputScripts.push(
+        account.xpub.crypto.toOpReturnOutputScript(opReturnData)
+      );
+    }
+
+    const fees = utils.computeCpfpFee(
+      parent,
+      utils.maxTxSize(
+        utxos.length,
+        outputScripts,
+        outputScripts.length == 0,
+        account.xpub.crypto,
+        account.xpub.derivationMode
+      ),
+      feePerByte
+    );
+
+    log("btcwallet", "estimateAccountCpfpMaxSpendable balance", balance);
+    log("btcwallet", "estimateAccountCpfpMaxSpendable fees", fees);
+    const maxSpendable = balance.minus(fees);
+    return maxSpendable.lt(0) ? new BigNumber(0) : maxSpendable;
+  }
+
   async getAccountBalance(account: Account): Promise<BigNumber> {
     const balance = await account.xpub.getXpubBalance();
     return balance;
@@ -370,7 +485,8 @@ class BitcoinLikeWallet {
     );
     const explorer = this.getExplorer(
       account.params.explorer,
-      account.params.explorerURI
+      account.params.explorerURI,
+      account.params.currency
     );
 
     return new Xpub({
@@ -379,6 +495,7 @@ class BitcoinLikeWallet {
       crypto,
       xpub: account.xpub.xpub,
       derivationMode: account.params.derivationMode,
+      gap: account.params.gap,
     });
   }
 
@@ -406,6 +523,22 @@ class BitcoinLikeWallet {
     };
   }
 
+  /**
+   * Move the synced transactions of an account to another storage, such as
+   * from memory to a file
+   */
+  migrateAccountStorage(
+    account: Account,
+    storage: StorageType,
+    storageParams: any[]
+  ): Account {
+    const serialized = this.exportToSerializedAccountSync(account);
+    return this.importFromSerializedAccountSync({
+      ...serialized,
+      params: { ...serialized.params, storage, storageParams },
+    });
+  }
+
   async exportToSerializedAccount(
     account: Account
   ): Promise<SerializedAccount> {
@@ -420,6 +553,15 @@ class BitcoinLikeWallet {
     };
   }
 
+  // the same account, discovering its addresses with another gap limit
+  withAccountGap(account: Account, gap: number): Account {
+    const { storage, explorer, crypto, xpub, derivationMode } = account.xpub;
+    return {
+      params: { ...account.params, gap },
+      xpub: new Xpub({ storage, explorer, crypto, xpub, derivationMode, gap }),
+    };
+  }
+
   exportToSerializedAccountSync(account: Account): SerializedAccount {
     const data = account.xpub.storage.exportSync();
 
@@ -7,6 +7,9 @@ import { PickingStrategy } from "./pickingstrategies/types";
 import { computeDustAmount, maxTxSizeCeil } from "./utils";
 import { TransactionInfo, InputInfo, OutputInfo } from "./types";
 
+// the gap limit of BIP44, most wallets use it
+export const DEFAULT_GAP_LIMIT = 20;
+
 // names inside this class and discovery logic respect BIP32 standard
 class Xpub {
   storage: IStorage;
@@ -27,7 +30,8 @@ class Xpub {
   // only works with number so we need to be sure to pass correct numbers
   OUTPUT_VALUE_MAX: number = Number.MAX_SAFE_INTEGER;
 
-  GAP = 20;
+  // number of consecutive unused addresses that stops the discovery
+  GAP = DEFAULT_GAP_LIMIT;
 
   // need to be bigger than the number of tx from the same address that can be in the same block
   txsSyncArraySize = 1000;
@@ -38,12 +42,14 @@ class Xpub {
     crypto,
     xpub,
     derivationMode,
+    gap,
   }: {
     storage: IStorage;
     explorer: IExplorer;
     crypto: ICrypto;
     xpub: string;
     derivationMode: string;
+    gap?: number;
   }) {
     this.storage = storage;
     this.explorer = explorer;
@@ -52,6 +58,9 @@ class Xpub {
     this.derivationMode = derivationMode;
     this.freshAddress = "";
     this.freshAddressIndex = 0;
+    if (gap) {
+      this.GAP = gap;
+    }
   }
 
   async syncAddress(account: number, index: number): Promise<boolean> {
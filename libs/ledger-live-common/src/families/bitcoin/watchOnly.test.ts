@@ -0,0 +1,90 @@
+import { getCryptoCurrencyById } from "../../currencies";
+import { encodeAccountId, fromAccountRaw, toAccountRaw } from "../../account";
+import { inferDescriptorFromAccount } from "./descriptor";
+import { InvalidDescriptor, WatchOnlyAccountCannotSign } from "./errors";
+import {
+  isWatchOnlyAccount,
+  watchOnlyAccountFromDescriptor,
+} from "./watchOnly";
+import signOperation from "./js-signOperation";
+import type { Transaction } from "./types";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const xpub =
+  "xpub6DEHKg8fgKcb9at2u9Xhjtx4tXGyWqUPQAx2zNCzr41gQRyCqpCn7onSoJU4VS96GXyCtAhhFxErnG2pGVvVexaqF7DEfqGGnGk7Havn7C2";
+
+describe("watchOnlyAccountFromDescriptor", () => {
+  it("should build an account from a descriptor", () => {
+    const account = watchOnlyAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor: `wpkh([d6a9e45e/84'/0'/1']${xpub}/0/*)`,
+    });
+    expect(account.id).toBe(`watchonly:2:bitcoin:${xpub}:native_segwit`);
+    // the device account of the same xpub is another account
+    expect(account.id).not.toBe(
+      encodeAccountId({
+        type: "js",
+        version: "2",
+        currencyId: "bitcoin",
+        xpubOrAddress: xpub,
+        derivationMode: "native_segwit",
+      })
+    );
+    expect(account.derivationMode).toBe("native_segwit");
+    expect(account.index).toBe(1);
+    expect(account.freshAddressPath).toBe("84'/0'/1'/0/0");
+    expect(isWatchOnlyAccount(account)).toBe(true);
+    expect(inferDescriptorFromAccount(account)?.external).toBe(
+      `wpkh(${xpub}/0/*)`
+    );
+  });
+
+  it("should build an account from a bare xpub", () => {
+    const account = watchOnlyAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor: xpub,
+      derivationMode: "segwit",
+    });
+    expect(account.derivationMode).toBe("segwit");
+    expect(account.freshAddressPath).toBe("49'/0'/0'/0/0");
+  });
+
+  it("should keep the watch-only flag through serialization", () => {
+    const account = watchOnlyAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor: `pkh(${xpub})`,
+    });
+    expect(isWatchOnlyAccount(fromAccountRaw(toAccountRaw(account)))).toBe(
+      true
+    );
+  });
+
+  it("should reject keys of another currency", () => {
+    expect(() =>
+      watchOnlyAccountFromDescriptor({
+        currency: getCryptoCurrencyById("litecoin"),
+        descriptor: `wpkh(${xpub})`,
+      })
+    ).toThrow(InvalidDescriptor);
+    expect(() =>
+      watchOnlyAccountFromDescriptor({
+        currency: bitcoin,
+        descriptor: `wpkh(${xpub.slice(0, -1)}3)`,
+      })
+    ).toThrow(InvalidDescriptor);
+  });
+
+  it("should refuse to sign", async () => {
+    const account = watchOnlyAccountFromDescriptor({
+      currency: bitcoin,
+      descriptor: `wpkh(${xpub})`,
+    });
+    await expect(
+      signOperation({
+        account,
+        deviceId: "",
+        transaction: {} as Transaction,
+      }).toPromise()
+    ).rejects.toThrow(WatchOnlyAccountCannotSign);
+  });
+});
@@ -0,0 +1,115 @@
+import { BigNumber } from "bignumber.js";
+import type { Account } from "@ledgerhq/types-live";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import { encodeAccountId } from "../../account/accountId";
+import { shortAddressPreview } from "../../account/helpers";
+import { emptyHistoryCache } from "../../account/balanceHistoryCache";
+import type { DerivationMode } from "../../derivation";
+import {
+  getDerivationModesForCurrency,
+  getDerivationScheme,
+  runAccountDerivationScheme,
+} from "../../derivation";
+import { parseDescriptor, validateDescriptorXpub } from "./descriptor";
+import type { ParsedDescriptor } from "./descriptor";
+import { InvalidDescriptor } from "./errors";
+import type { BitcoinAccount } from "./types";
+
+// The id of a watch-only account differs from the one of the device account
+// with the same xpub, so that both can live side by side
+export const WATCH_ONLY_ACCOUNT_ID_TYPE = "watchonly";
+
+export const isWatchOnlyAccount = (account: Account): boolean =>
+  !!(account as BitcoinAccount).bitcoinResources?.watchOnly;
+
+// The account index is the last hardened level of a purpose'/coin'/account' path
+function accountIndexFromPath(accountPath: string): number {
+  const levels = accountPath.split("/");
+  const last = levels[levels.length - 1];
+  if (levels.length !== 3 || !levels.every((l) => /^\d+'$/.test(l))) {
+    throw new InvalidDescriptor(`unsupported account path ${accountPath}`);
+  }
+  return parseInt(last, 10);
+}
+
+/**
+ * Build a watch-only account from an output descriptor, or from an xpub with
+ * its derivation mode. The account holds no device information: it syncs
+ * with its xpub and refuses to sign (WatchOnlyAccountCannotSign).
+ */
+export function watchOnlyAccountFromDescriptor({
+  currency,
+  descriptor,
+  derivationMode = "",
+}: {
+  currency: CryptoCurrency;
+  // a descriptor such as wpkh([fingerprint/84'/0'/0']xpub/0/*)#checksum, or a bare xpub
+  descriptor: string;
+  // only used for a bare xpub, a descriptor carries its own
+  derivationMode?: DerivationMode;
+}): BitcoinAccount {
+  if (currency.family !== "bitcoin") {
+    throw new InvalidDescriptor(`${currency.name} has no descriptors`);
+  }
+  const parsed: ParsedDescriptor = descriptor.includes("(")
+    ? parseDescriptor(descriptor)
+    : { derivationMode, xpub: descriptor.trim() };
+  const { xpub } = parsed;
+  if (
+    !getDerivationModesForCurrency(currency).includes(parsed.derivationMode)
+  ) {
+    throw new InvalidDescriptor(
+      `${currency.name} doesn't support the derivation mode '${parsed.derivationMode}'`
+    );
+  }
+  validateDescriptorXpub(currency, xpub);
+
+  const index = parsed.accountPath
+    ? accountIndexFromPath(parsed.accountPath)
+    : 0;
+  const accountPath =
+    parsed.accountPath ||
+    runAccountDerivationScheme(
+      getDerivationScheme({ currency, derivationMode: parsed.derivationMode }),
+      currency,
+      { account: index }
+    );
+
+  return {
+    type: "Account",
+    id: encodeAccountId({
+      type: WATCH_ONLY_ACCOUNT_ID_TYPE,
+      version: "2",
+      currencyId: currency.id,
+      xpubOrAddress: xpub,
+      derivationMode: parsed.derivationMode,
+    }),
+    name: `${currency.name} watch-only ${shortAddressPreview(xpub)}`,
+    xpub,
+    // no device is involved, the xpub identifies the account
+    seedIdentifier: xpub,
+    starred: false,
+    used: false,
+    swapHistory: [],
+    derivationMode: parsed.derivationMode,
+    currency,
+    unit: currency.units[0],
+    index,
+    freshAddress: "",
+    freshAddressPath: `${accountPath}/0/0`,
+    freshAddresses: [],
+    creationDate: new Date(),
+    lastSyncDate: new Date(0),
+    blockHeight: 0,
+    balance: new BigNumber(0),
+    spendableBalance: new BigNumber(0),
+    operationsCount: 0,
+    operations: [],
+    pendingOperations: [],
+    balanceHistoryCache: emptyHistoryCache,
+    bitcoinResources: {
+      utxos: [],
+      watchOnly: true,
+    },
+  };
+}
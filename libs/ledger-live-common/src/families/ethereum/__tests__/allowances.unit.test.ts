@@ -0,0 +1,270 @@
+import BigNumber from "bignumber.js";
+import type { Operation, TokenAccount } from "@ledgerhq/types-live";
+import { getTokenById } from "@ledgerhq/cryptoassets";
+import { fromAccountRaw } from "../../../account";
+import {
+  AllowanceContractRequired,
+  NftAllowanceCanOnlyBeRevoked,
+} from "../../../errors";
+import { ethereum1 } from "../datasets/ethereum1";
+import {
+  buildRevokeTransaction,
+  getAllowanceCandidates,
+  getAllowances,
+} from "../allowances";
+import { buildEthereumTx } from "../transaction";
+import getTransactionStatus from "../getTransactionStatus";
+import { setTransactionSimulator } from "../../evm/simulation";
+import { setEnv } from "../../../env";
+
+const mockCall = jest.fn();
+const mockGetERC20ApprovalsPerContract = jest.fn();
+jest.mock("../../../api/Ethereum", () => ({
+  ...jest.requireActual("../../../api/Ethereum"),
+  apiForCurrency: () => ({
+    call: mockCall,
+    getERC20ApprovalsPerContract: mockGetERC20ApprovalsPerContract,
+  }),
+}));
+
+const account = fromAccountRaw(ethereum1);
+const token = getTokenById("ethereum/erc20/usd_tether__erc20_");
+const router = "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D";
+const marketplace = "0x00000000006c3852cbEf3e08E8dF289169EdE581";
+const collection = "0x60E4d786628Fea6478F785A6d7e704777c86a7c6";
+
+const tokenAccount = {
+  type: "TokenAccount",
+  id: `${account.id}+ethereum%2Ferc20%2Fusd_tether__erc20_`,
+  parentId: account.id,
+  token,
+  balance: new BigNumber(0),
+  spendableBalance: new BigNumber(0),
+  operations: [],
+  pendingOperations: [],
+} as unknown as TokenAccount;
+
+const makeOperation = (
+  hash: string,
+  recipient: string,
+  patch: Partial<Operation>
+): Operation => ({
+  id: `${account.id}-${hash}-FEES`,
+  hash,
+  type: "FEES",
+  value: new BigNumber(0),
+  fee: new BigNumber(0),
+  senders: [account.freshAddress],
+  recipients: [recipient],
+  blockHash: null,
+  blockHeight: 1,
+  accountId: account.id,
+  date: new Date(),
+  extra: {},
+  ...patch,
+});
+
+const tokenOut = (hash: string) =>
+  ({
+    id: `${tokenAccount.id}-${hash}-OUT`,
+    accountId: tokenAccount.id,
+    type: "OUT",
+  } as Operation);
+
+const accountWithHistory = {
+  ...account,
+  subAccounts: [tokenAccount],
+  operations: [
+    // a swap, the router moved the tokens
+    makeOperation("0xswap", router, { subOperations: [tokenOut("0xswap")] }),
+    makeOperation("0xswap2", router, { subOperations: [tokenOut("0xswap2")] }),
+    // a transfer, sent to the token contract
+    makeOperation("0xtransfer", token.contractAddress, {
+      subOperations: [tokenOut("0xtransfer")],
+    }),
+    // a sale, the marketplace moved the NFT
+    makeOperation("0xsale", marketplace, {
+      nftOperations: [
+        {
+          ...makeOperation("0xsale", marketplace, {}),
+          type: "NFT_OUT",
+          contract: collection,
+          tokenId: "1",
+        },
+      ],
+    }),
+  ],
+};
+
+// approve(router, 1000) and setApprovalForAll(marketplace, true)
+const approveData =
+  "0x095ea7b3" +
+  router.slice(2).toLowerCase().padStart(64, "0") +
+  (1000).toString(16).padStart(64, "0");
+const approveAllData =
+  "0xa22cb465" +
+  marketplace.slice(2).toLowerCase().padStart(64, "0") +
+  "1".padStart(64, "0");
+
+const accountWithApprovals = {
+  ...account,
+  subAccounts: [tokenAccount],
+  operations: [
+    makeOperation("0xapprove", token.contractAddress, {
+      extra: { input: approveData },
+    }),
+    makeOperation("0xapproveall", collection, {
+      extra: { input: approveAllData },
+    }),
+  ],
+};
+
+const encodeUint = (value: number) =>
+  "0x" + value.toString(16).padStart(64, "0");
+
+describe("allowances", () => {
+  beforeAll(() => {
+    setTransactionSimulator(async () => null);
+  });
+
+  beforeEach(() => {
+    setEnv("API_ETHEREUM_NODES", { ethereum: "http://127.0.0.1:8545" });
+    mockCall.mockReset();
+    mockGetERC20ApprovalsPerContract.mockReset();
+  });
+
+  it("should find the spenders that moved the tokens and NFTs", () => {
+    expect(getAllowanceCandidates(accountWithHistory)).toEqual([
+      {
+        type: "erc20",
+        contract: token.contractAddress,
+        spender: router,
+        tokenAccountId: tokenAccount.id,
+      },
+      {
+        type: "nft",
+        contract: collection,
+        spender: marketplace,
+      },
+    ]);
+  });
+
+  it("should find the approvals sent by the account", () => {
+    expect(getAllowanceCandidates(accountWithApprovals)).toEqual([
+      {
+        type: "erc20",
+        contract: token.contractAddress,
+        spender: router,
+        tokenAccountId: tokenAccount.id,
+      },
+      {
+        type: "nft",
+        contract: collection,
+        spender: marketplace,
+      },
+    ]);
+  });
+
+  it("should list the allowances still given on the node", async () => {
+    mockCall.mockImplementation(async (to: string) =>
+      to === token.contractAddress ? encodeUint(1000) : encodeUint(1)
+    );
+
+    expect(await getAllowances(accountWithApprovals)).toEqual([
+      {
+        type: "erc20",
+        contract: token.contractAddress,
+        spender: router,
+        tokenAccountId: tokenAccount.id,
+        value: new BigNumber(1000),
+      },
+      {
+        type: "nft",
+        contract: collection,
+        spender: marketplace,
+      },
+    ]);
+    expect(mockGetERC20ApprovalsPerContract).not.toHaveBeenCalled();
+  });
+
+  it("should leave out the revoked allowances", async () => {
+    mockCall.mockResolvedValue(encodeUint(0));
+
+    expect(await getAllowances(accountWithApprovals)).toEqual([]);
+  });
+
+  it("should read the ERC-20 allowances of the explorer without a node", async () => {
+    setEnv("API_ETHEREUM_NODES", {});
+    mockGetERC20ApprovalsPerContract.mockResolvedValue([
+      { sender: router.toLowerCase(), value: "500" },
+    ]);
+
+    expect(await getAllowances(accountWithApprovals)).toEqual([
+      {
+        type: "erc20",
+        contract: token.contractAddress,
+        spender: router,
+        tokenAccountId: tokenAccount.id,
+        value: new BigNumber(500),
+      },
+    ]);
+    expect(mockCall).not.toHaveBeenCalled();
+  });
+
+  it("should revoke an ERC-20 allowance with an approval of 0", () => {
+    const transaction = {
+      ...buildRevokeTransaction({
+        type: "erc20",
+        contract: token.contractAddress,
+        spender: router,
+        tokenAccountId: tokenAccount.id,
+      }),
+      gasPrice: new BigNumber(1),
+      userGasLimit: new BigNumber(60000),
+    };
+    const { tx } = buildEthereumTx(accountWithHistory, transaction, 0);
+
+    expect(tx.to?.toString()).toBe(token.contractAddress.toLowerCase());
+    // approve(router, 0)
+    expect(tx.data.toString("hex")).toBe(
+      "095ea7b3" +
+        router.slice(2).toLowerCase().padStart(64, "0") +
+        "0".repeat(64)
+    );
+  });
+
+  it("should revoke an approval for all of a collection", async () => {
+    const transaction = buildRevokeTransaction({
+      type: "nft",
+      contract: collection,
+      spender: marketplace,
+    });
+    const { tx } = buildEthereumTx(accountWithHistory, transaction, 0);
+
+    expect(tx.to?.toString()).toBe(collection.toLowerCase());
+    // setApprovalForAll(marketplace, false)
+    expect(tx.data.toString("hex")).toBe(
+      "a22cb465" +
+        marketplace.slice(2).toLowerCase().padStart(64, "0") +
+        "0".repeat(64)
+    );
+
+    const status = await getTransactionStatus(accountWithHistory, {
+      ...transaction,
+      amount: new BigNumber(1),
+    });
+    expect(status.errors.amount).toBeInstanceOf(NftAllowanceCanOnlyBeRevoked);
+  });
+
+  it("should require the contract of the allowance", async () => {
+    const status = await getTransactionStatus(accountWithHistory, {
+      ...buildRevokeTransaction({
+        type: "nft",
+        contract: collection,
+        spender: marketplace,
+      }),
+      collection: undefined,
+    });
+    expect(status.errors.amount).toBeInstanceOf(AllowanceContractRequired);
+  });
+});
@@ -0,0 +1,97 @@
+import { personalSign, signTypedData_v4 } from "eth-sig-util";
+import { privateToAddress, bufferToHex } from "ethereumjs-util";
+import testEIP712Message from "@ledgerhq/hw-app-eth/tests/fixtures/messages/0.json";
+import { InvalidEIP712Message } from "../../../errors";
+import {
+  getEIP712MessageProperties,
+  parseEIP712Message,
+  verifyMessageSignature,
+} from "../eip712";
+
+const privateKey = Buffer.from("11".repeat(32), "hex");
+const address = bufferToHex(privateToAddress(privateKey));
+const otherAddress = "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826";
+
+describe("eip712", () => {
+  describe("parseEIP712Message", () => {
+    it("should parse a JSON payload", () => {
+      expect(parseEIP712Message(JSON.stringify(testEIP712Message))).toEqual(
+        testEIP712Message
+      );
+    });
+
+    it("should reject the payloads not describing their message", () => {
+      expect(() => parseEIP712Message("not json")).toThrow(
+        InvalidEIP712Message
+      );
+      expect(() =>
+        parseEIP712Message({ ...testEIP712Message, primaryType: "Unknown" })
+      ).toThrow(InvalidEIP712Message);
+      expect(() =>
+        parseEIP712Message({
+          ...testEIP712Message,
+          types: {
+            ...testEIP712Message.types,
+            Person: [{ name: "name", type: "Name" }],
+          },
+        })
+      ).toThrow("field Person.name has an unknown type Name");
+      expect(() =>
+        parseEIP712Message({
+          ...testEIP712Message,
+          domain: { name: "Ether Mail" },
+        })
+      ).toThrow("domain is missing version");
+    });
+  });
+
+  it("should preview the domain, the primary type and the fields", () => {
+    expect(
+      getEIP712MessageProperties(parseEIP712Message(testEIP712Message))
+    ).toEqual([
+      { label: "domain.name", value: "Ether Mail" },
+      { label: "domain.version", value: "1" },
+      { label: "domain.chainId", value: "5" },
+      {
+        label: "domain.verifyingContract",
+        value: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC",
+      },
+      { label: "primaryType", value: "Mail" },
+      { label: "message.from.name", value: "Cow" },
+      {
+        label: "message.from.wallets",
+        value: testEIP712Message.message.from.wallets,
+      },
+      { label: "message.to.name", value: "Bob" },
+      {
+        label: "message.to.wallets",
+        value: testEIP712Message.message.to.wallets,
+      },
+      { label: "message.contents", value: "Hello, Bob!" },
+    ]);
+  });
+
+  describe("verifyMessageSignature", () => {
+    it("should verify the signature of an EIP712 message", () => {
+      const message = parseEIP712Message(testEIP712Message);
+      const signature = signTypedData_v4(privateKey, {
+        data: message as Parameters<typeof signTypedData_v4>[1]["data"],
+      });
+
+      expect(verifyMessageSignature(message, signature, address)).toBe(true);
+      expect(verifyMessageSignature(message, signature, otherAddress)).toBe(
+        false
+      );
+    });
+
+    it("should verify the signature of a personal message", () => {
+      const signature = personalSign(privateKey, {
+        data: bufferToHex(Buffer.from("Hello")),
+      });
+
+      expect(verifyMessageSignature("Hello", signature, address)).toBe(true);
+      expect(verifyMessageSignature("Hello!", signature, address)).toBe(false);
+      expect(verifyMessageSignature("Hello", "0x00", address)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import BigNumber from "bignumber.js";
+import type { Operation } from "@ledgerhq/types-live";
+import { fromAccountRaw } from "../../../account";
+import {
+  ReplacementFeeTooLow,
+  TransactionNotReplaceable,
+} from "../../../errors";
+import { ethereum1 } from "../datasets/ethereum1";
+import {
+  buildReplacementTransaction,
+  getMinimumReplacementFees,
+} from "../replaceTransaction";
+import getTransactionStatus from "../getTransactionStatus";
+import type { NetworkInfo } from "../types";
+
+const account = fromAccountRaw(ethereum1);
+const recipient = "0xc3f95102D5c8F2c83e49Ce3Acfb905eDfb7f37dE";
+
+const pending: Operation = {
+  id: `${account.id}-0xpending-OUT`,
+  hash: "0xpending",
+  type: "OUT",
+  value: new BigNumber(1000),
+  fee: new BigNumber(63000),
+  senders: [account.freshAddress],
+  recipients: [recipient],
+  blockHash: null,
+  blockHeight: null,
+  accountId: account.id,
+  transactionSequenceNumber: 12,
+  date: new Date(),
+  extra: { gasLimit: "21000", maxFeePerGas: "20", maxPriorityFeePerGas: "10" },
+};
+
+const networkInfo: NetworkInfo = {
+  family: "ethereum",
+  maxPriorityFeePerGas: {
+    min: new BigNumber(1),
+    initial: new BigNumber(2),
+    max: new BigNumber(3),
+    step: new BigNumber(1),
+    steps: 3,
+  },
+  nextBaseFeePerGas: new BigNumber(5),
+};
+
+describe("replaceTransaction", () => {
+  it("should bump the fees of the pending operation by 10%", () => {
+    const minimum = getMinimumReplacementFees(pending);
+    expect(minimum.maxFeePerGas?.toNumber()).toBe(22);
+    expect(minimum.maxPriorityFeePerGas?.toNumber()).toBe(11);
+    expect(minimum.gasPrice).toBeUndefined();
+  });
+
+  it("should speed up a pending operation with its nonce", async () => {
+    const tx = await buildReplacementTransaction(
+      account,
+      pending,
+      "speedup",
+      networkInfo
+    );
+    expect(tx.nonce).toBe(12);
+    expect(tx.replaces).toBe("0xpending");
+    expect(tx.recipient).toBe(recipient);
+    expect(tx.amount.toNumber()).toBe(1000);
+    expect(tx.maxPriorityFeePerGas?.toNumber()).toBe(11);
+    expect(tx.maxFeePerGas?.toNumber()).toBe(22);
+  });
+
+  it("should use the network fees when they are higher", async () => {
+    const tx = await buildReplacementTransaction(account, pending, "cancel", {
+      ...networkInfo,
+      nextBaseFeePerGas: new BigNumber(50),
+    });
+    expect(tx.recipient).toBe(account.freshAddress);
+    expect(tx.amount.toNumber()).toBe(0);
+    expect(tx.allowZeroAmount).toBe(true);
+    expect(tx.maxFeePerGas?.toNumber()).toBe(111);
+  });
+
+  it("should refuse confirmed operations and unknown fees", async () => {
+    await expect(
+      buildReplacementTransaction(
+        account,
+        { ...pending, blockHeight: 10 },
+        "speedup",
+        networkInfo
+      )
+    ).rejects.toThrow(TransactionNotReplaceable);
+    await expect(
+      buildReplacementTransaction(
+        account,
+        { ...pending, extra: {} },
+        "cancel",
+        networkInfo
+      )
+    ).rejects.toThrow(TransactionNotReplaceable);
+  });
+
+  it("should reject a replacement below the minimum bump", async () => {
+    const tx = await buildReplacementTransaction(
+      account,
+      pending,
+      "speedup",
+      networkInfo
+    );
+    const status = await getTransactionStatus(
+      { ...account, pendingOperations: [pending] },
+      { ...tx, maxPriorityFeePerGas: new BigNumber(10) }
+    );
+    expect(status.errors.maxPriorityFee).toBeInstanceOf(ReplacementFeeTooLow);
+  });
+});
@@ -0,0 +1,227 @@
+import { BigNumber } from "bignumber.js";
+import abi from "ethereumjs-abi";
+import eip55 from "eip55";
+import uniqBy from "lodash/uniqBy";
+import type { Account, TokenAccount } from "@ledgerhq/types-live";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import { apiForCurrency, getEthereumNode } from "../../api/Ethereum";
+import { promiseAllBatched } from "../../promise";
+import createTransaction from "./createTransaction";
+import type { Transaction } from "./types";
+
+// an ERC-20 allowance, or an ERC-721/1155 approval for all of a collection
+export type Allowance = {
+  type: "erc20" | "nft";
+  // the token or collection contract
+  contract: string;
+  spender: string;
+  // the token account of an ERC-20 allowance
+  tokenAccountId?: string;
+  // the allowed amount of an ERC-20 allowance, none for an approval for all
+  value?: BigNumber;
+};
+
+type AllowanceCandidate = Omit<Allowance, "value">;
+
+const approveSelector = "095ea7b3";
+const setApprovalForAllSelector = "a22cb465";
+
+/**
+ * The spender of the call data of an approve (ERC-20) or a setApprovalForAll
+ * (ERC-721/1155) transaction, null for any other call
+ */
+export function decodeApproval(
+  data: string | null | undefined
+): { type: Allowance["type"]; spender: string } | null {
+  const hex = (data || "").replace(/^0x/, "").toLowerCase();
+  // a selector and two 32 bytes arguments, the spender first
+  if (hex.length !== 8 + 2 * 64) return null;
+  const selector = hex.slice(0, 8);
+  const spender = eip55.encode("0x" + hex.slice(8 + 24, 8 + 64));
+  if (selector === approveSelector) return { type: "erc20", spender };
+  if (selector === setApprovalForAllSelector) return { type: "nft", spender };
+  return null;
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * The spenders that may have an allowance from an account, from its history:
+ * the approvals it sent, the contracts that moved its tokens or NFTs in a
+ * transaction they were called by, and the approvals synced on its token
+ * accounts
+ */
+export function getAllowanceCandidates(account: Account): AllowanceCandidate[] {
+  const tokenAccounts = (account.subAccounts || []).filter(
+    (a): a is TokenAccount => a.type === "TokenAccount"
+  );
+  const candidates: AllowanceCandidate[] = [];
+
+  for (const tokenAccount of tokenAccounts) {
+    const contract = tokenAccount.token.contractAddress;
+    const erc20Candidate = (spender: string) => ({
+      type: "erc20" as const,
+      contract,
+      spender: eip55.encode(spender),
+      tokenAccountId: tokenAccount.id,
+    });
+
+    for (const { sender } of tokenAccount.approvals || []) {
+      candidates.push(erc20Candidate(sender));
+    }
+
+    for (const op of account.operations) {
+      const [to] = op.recipients;
+      const movedTokens = op.subOperations?.some(
+        (sub) => sub.accountId === tokenAccount.id && sub.type === "OUT"
+      );
+      // a transfer calls the token contract itself
+      if (movedTokens && to && !sameAddress(to, contract)) {
+        candidates.push(erc20Candidate(to));
+      }
+    }
+  }
+
+  for (const op of account.operations) {
+    const [contract] = op.recipients;
+    const approval = decodeApproval(op.extra?.input);
+    if (!approval || !contract) continue;
+    if (approval.type === "nft") {
+      candidates.push({
+        type: "nft",
+        contract: eip55.encode(contract),
+        spender: approval.spender,
+      });
+      continue;
+    }
+    // the allowance of a token never held can't be revoked from its account
+    const tokenAccount = tokenAccounts.find((a) =>
+      sameAddress(a.token.contractAddress, contract)
+    );
+    if (tokenAccount) {
+      candidates.push({
+        type: "erc20",
+        contract: tokenAccount.token.contractAddress,
+        spender: approval.spender,
+        tokenAccountId: tokenAccount.id,
+      });
+    }
+  }
+
+  for (const op of account.operations) {
+    const [to] = op.recipients;
+    for (const nftOp of op.nftOperations || []) {
+      if (
+        nftOp.type === "NFT_OUT" &&
+        nftOp.contract &&
+        to &&
+        !sameAddress(to, nftOp.contract)
+      ) {
+        candidates.push({
+          type: "nft",
+          contract: eip55.encode(nftOp.contract),
+          spender: eip55.encode(to),
+        });
+      }
+    }
+  }
+
+  return uniqBy(candidates, (c) =>
+    [c.type, c.contract, c.spender].join(":").toLowerCase()
+  );
+}
+
+// read-only call of a contract, when a node is configured for the currency
+async function ethCall(
+  currency: CryptoCurrency,
+  to: string,
+  data: Buffer
+): Promise<string | null> {
+  if (!getEthereumNode(currency)) return null;
+  const result = await apiForCurrency(currency).call(
+    to,
+    "0x" + data.toString("hex")
+  );
+  // a call to an address without code has an empty result
+  return result && result !== "0x" ? result : null;
+}
+
+async function getERC20Allowance(
+  account: Account,
+  { contract, spender }: AllowanceCandidate
+): Promise<BigNumber> {
+  const result = await ethCall(
+    account.currency,
+    contract,
+    abi.simpleEncode(
+      "allowance(address,address):(uint256)",
+      account.freshAddress,
+      spender
+    )
+  );
+  if (result) {
+    return new BigNumber(result);
+  }
+  // without a node, the allowances indexed by the explorer are used
+  const approvals = await apiForCurrency(
+    account.currency
+  ).getERC20ApprovalsPerContract(account.freshAddress, contract);
+  const approval = approvals.find((a) => sameAddress(a.sender, spender));
+  return new BigNumber(approval?.value || 0);
+}
+
+async function isApprovedForAll(
+  account: Account,
+  { contract, spender }: AllowanceCandidate
+): Promise<boolean> {
+  const result = await ethCall(
+    account.currency,
+    contract,
+    abi.simpleEncode(
+      "isApprovedForAll(address,address):(bool)",
+      account.freshAddress,
+      spender
+    )
+  );
+  // an approval for all can only be read from a node
+  return !!result && !new BigNumber(result).isZero();
+}
+
+/**
+ * List the current allowances of an account: its candidates from its history,
+ * checked against the current state of their contract
+ */
+export async function getAllowances(account: Account): Promise<Allowance[]> {
+  const allowances = await promiseAllBatched(
+    5,
+    getAllowanceCandidates(account),
+    async (candidate): Promise<Allowance | null> => {
+      if (candidate.type === "nft") {
+        return (await isApprovedForAll(account, candidate)) ? candidate : null;
+      }
+      const value = await getERC20Allowance(account, candidate);
+      return value.isZero() ? null : { ...candidate, value };
+    }
+  );
+  return allowances.filter((a): a is Allowance => !!a);
+}
+
+/**
+ * Build the transaction revoking an allowance, or lowering it to value for an
+ * ERC-20 one
+ */
+export function buildRevokeTransaction(
+  allowance: Allowance,
+  value: BigNumber = new BigNumber(0)
+): Transaction {
+  return {
+    ...createTransaction(),
+    mode: "allowance.revoke",
+    recipient: allowance.spender,
+    amount: value,
+    ...(allowance.type === "erc20"
+      ? { subAccountId: allowance.tokenAccountId }
+      : { collection: allowance.contract }),
+  };
+}
@@ -0,0 +1,153 @@
+import { isEIP712Message } from "@ledgerhq/hw-app-eth";
+import type { EIP712Message } from "@ledgerhq/hw-app-eth/lib/modules/EIP712/EIP712.types";
+import {
+  recoverPersonalSignature,
+  recoverTypedSignature_v4,
+} from "eth-sig-util";
+import { bufferToHex } from "ethereumjs-util";
+import type { MessageProperties } from "../../hw/signMessage/types";
+import { InvalidEIP712Message } from "../../errors";
+
+// the solidity types a field of a struct can have, besides the other structs
+const atomicType =
+  /^(address|bool|string|bytes([1-9]|[12][0-9]|3[0-2])?|u?int(8|16|24|32|40|48|56|64|72|80|88|96|104|112|120|128|136|144|152|160|168|176|184|192|200|208|216|224|232|240|248|256)?)$/;
+
+// e.g. Person[2][] is an array of arrays of 2 Person
+const baseType = (type: string): string => type.replace(/(\[\d*\])+$/, "");
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Parse an EIP-712 payload, as a JSON string or an object, and validate that
+ * its types describe its domain and message.
+ * Throws an InvalidEIP712Message with the reason otherwise.
+ */
+export function parseEIP712Message(
+  payload: string | Record<string, unknown>
+): EIP712Message {
+  let message: unknown = payload;
+  if (typeof payload === "string") {
+    try {
+      message = JSON.parse(payload);
+    } catch (e) {
+      throw new InvalidEIP712Message("payload is not JSON");
+    }
+  }
+  if (!isObject(message) || !isEIP712Message(message)) {
+    throw new InvalidEIP712Message(
+      "payload needs types, primaryType, domain and message"
+    );
+  }
+
+  const { types, primaryType, domain } = message;
+  if (!isObject(types) || !Array.isArray(types.EIP712Domain)) {
+    throw new InvalidEIP712Message("types need an EIP712Domain");
+  }
+  if (!isObject(domain) || !isObject(message.message)) {
+    throw new InvalidEIP712Message("domain and message need to be objects");
+  }
+  if (typeof primaryType !== "string" || !Array.isArray(types[primaryType])) {
+    throw new InvalidEIP712Message(`primaryType ${primaryType} has no type`);
+  }
+  for (const [name, fields] of Object.entries(types)) {
+    if (!Array.isArray(fields)) {
+      throw new InvalidEIP712Message(`type ${name} needs a list of fields`);
+    }
+    for (const field of fields) {
+      if (typeof field?.name !== "string" || typeof field?.type !== "string") {
+        throw new InvalidEIP712Message(`type ${name} has an invalid field`);
+      }
+      const type = baseType(field.type);
+      if (!atomicType.test(type) && !Array.isArray(types[type])) {
+        throw new InvalidEIP712Message(
+          `field ${name}.${field.name} has an unknown type ${field.type}`
+        );
+      }
+    }
+  }
+  for (const { name } of types.EIP712Domain) {
+    if (!(name in domain)) {
+      throw new InvalidEIP712Message(`domain is missing ${name}`);
+    }
+  }
+
+  return message;
+}
+
+const formatValue = (value: unknown): string =>
+  typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// the fields of a struct, with their path in the message as a label
+const getFieldsProperties = (
+  message: EIP712Message,
+  type: string,
+  value: unknown,
+  path: string
+): MessageProperties => {
+  const fields = message.types[baseType(type)];
+  if (!fields || !isObject(value)) {
+    return [
+      {
+        label: path,
+        value: Array.isArray(value)
+          ? value.map(formatValue)
+          : formatValue(value),
+      },
+    ];
+  }
+  return fields.flatMap(({ name, type }) =>
+    getFieldsProperties(message, type, value[name], `${path}.${name}`)
+  );
+};
+
+/**
+ * A decoded preview of an EIP-712 message: the fields of its domain, its
+ * primary type and every field of its message
+ */
+export const getEIP712MessageProperties = (
+  message: EIP712Message
+): MessageProperties => [
+  ...message.types.EIP712Domain.map(({ name }) => ({
+    label: `domain.${name}`,
+    value: formatValue(message.domain[name]),
+  })),
+  {
+    label: "primaryType",
+    value: message.primaryType,
+  },
+  ...getFieldsProperties(
+    message,
+    message.primaryType,
+    message.message,
+    "message"
+  ),
+];
+
+/**
+ * Verify offline that a personal or EIP-712 message was signed by an address
+ */
+export function verifyMessageSignature(
+  message: string | EIP712Message,
+  signature: string,
+  address: string
+): boolean {
+  try {
+    const signer =
+      typeof message === "string"
+        ? recoverPersonalSignature({
+            data: bufferToHex(Buffer.from(message)),
+            sig: signature,
+          })
+        : recoverTypedSignature_v4({
+            data: message as Parameters<
+              typeof recoverTypedSignature_v4
+            >[0]["data"],
+            sig: signature,
+          });
+    return signer.toLowerCase() === address.toLowerCase();
+  } catch (e) {
+    // a malformed signature
+    return false;
+  }
+}
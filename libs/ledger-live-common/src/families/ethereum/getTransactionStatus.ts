@@ -17,12 +17,23 @@ import eip55 from "eip55";
 import invariant from "invariant";
 import BigNumber from "bignumber.js";
 import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
-import { AccountBridge, TransactionStatusCommon } from "@ledgerhq/types-live";
-import { EIP1559ShouldBeUsed, getGasLimit } from "./transaction";
+import type {
+  Account,
+  AccountBridge,
+  TransactionStatusCommon,
+} from "@ledgerhq/types-live";
+import {
+  buildEthereumTx,
+  EIP1559ShouldBeUsed,
+  getGasLimit,
+} from "./transaction";
 import { Transaction, TransactionStatus } from "./types";
 import { isEthereumAddress } from "./logic";
 import { getEnv } from "../../env";
 import { modes } from "./modules";
+import { getReplacementFeeTooLowField } from "./replaceTransaction";
+import { ReplacementFeeTooLow } from "../../errors";
+import { getSimulationIssues } from "../evm/simulation";
 
 type TransactionErrors = {
   gasPrice?: Error;
@@ -30,12 +41,14 @@ type TransactionErrors = {
   maxPriorityFee?: Error;
   gasLimit?: Error;
   recipient?: Error;
+  simulation?: Error;
 };
 
 type TransactionWarnings = {
   maxFee?: Error;
   maxPriorityFee?: Error;
   gasLimit?: Error;
+  simulation?: Error;
 };
 
 const isRecipientValid = (
@@ -131,8 +144,36 @@ const validateEIP1559Gas = (
   }
 };
 
+// the outcome of the contract call of a transaction, see ../evm/simulation.ts
+const validateSimulation = async (
+  account: Account,
+  tx: Transaction,
+  { errors, warnings }: TransactionStatus
+): Promise<void> => {
+  let call: ReturnType<typeof buildEthereumTx>["tx"];
+  try {
+    call = buildEthereumTx(account, tx, 0).tx;
+  } catch (e) {
+    // the transaction can't be built yet
+    return;
+  }
+  if (!call.to || !call.data.length) return;
+
+  const [simulationErrors, simulationWarnings] = await getSimulationIssues(
+    account.currency,
+    {
+      from: account.freshAddress,
+      to: call.to.toString(),
+      value: new BigNumber(call.value.toString(10)),
+      data: `0x${call.data.toString("hex")}`,
+    }
+  );
+  Object.assign(errors, simulationErrors);
+  Object.assign(warnings, simulationWarnings);
+};
+
 export const getTransactionStatus: AccountBridge<Transaction>["getTransactionStatus"] =
-  (account, tx) => {
+  async (account, tx) => {
     const gasLimit = getGasLimit(tx);
     const estimatedGasPrice = (() => {
       if (EIP1559ShouldBeUsed(account.currency)) {
@@ -166,6 +207,13 @@ export const getTransactionStatus: AccountBridge<Transaction>["getTransactionSta
       validateLegacyGas(account.currency, tx, status);
     }
 
+    // a replacement must bump the fees of the transaction it replaces
+    const replacementFeeTooLow =
+      tx.replaces && getReplacementFeeTooLowField(account, tx);
+    if (replacementFeeTooLow && !errors[replacementFeeTooLow]) {
+      errors[replacementFeeTooLow] = new ReplacementFeeTooLow();
+    }
+
     if (gasLimit.eq(0)) {
       errors.gasLimit = new FeeRequired();
     } else if (!errors.recipient) {
@@ -178,7 +226,12 @@ export const getTransactionStatus: AccountBridge<Transaction>["getTransactionSta
       warnings.gasLimit = new GasLessThanEstimate();
     }
 
-    return Promise.resolve(status);
+    // only a valid transaction is worth simulating
+    if (!Object.keys(errors).length) {
+      await validateSimulation(account, tx, status);
+    }
+
+    return status;
   };
 
 export default getTransactionStatus;
@@ -4,11 +4,16 @@ import { getFiltersForMessage } from "@ledgerhq/hw-app-eth";
 import Transport from "@ledgerhq/hw-transport";
 import { TypedDataUtils } from "eth-sig-util";
 import { bufferToHex } from "ethereumjs-util";
-import type { MessageData, Result } from "../../hw/signMessage/types";
+import type {
+  MessageData,
+  MessageProperties,
+  Result,
+} from "../../hw/signMessage/types";
 import type { TypedMessageData } from "./types";
 import { DerivationMode } from "../../derivation";
 import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
 import { getEnv } from "../../env";
+import { parseEIP712Message } from "./eip712";
 
 type EthSignMessage = (
   transport: Transport,
@@ -36,13 +41,20 @@ export const messageHash = (message: EIP712Message): Buffer => {
 };
 
 function tryConvertToJSON(message: string): string | EIP712Message {
+  let parsedMessage: unknown;
   try {
-    const parsedMessage = JSON.parse(message);
-    if (isEIP712Message(parsedMessage)) {
-      return parsedMessage as EIP712Message;
-    }
+    parsedMessage = JSON.parse(message);
   } catch {
     // Not a JSON message
+    return message;
+  }
+  // a message shaped as an EIP712 one is signed as one, once validated
+  if (
+    parsedMessage &&
+    typeof parsedMessage === "object" &&
+    isEIP712Message(parsedMessage as Record<string, unknown>)
+  ) {
+    return parseEIP712Message(parsedMessage as Record<string, unknown>);
   }
   return message;
 }
@@ -90,10 +102,10 @@ const signMessage: EthSignMessage = async (
   { path, message, rawMessage }: PartialMessageData
 ) => {
   const eth = new Eth(transport);
-  let parsedMessage = message;
-  if (typeof message === "string") {
-    parsedMessage = tryConvertToJSON(message);
-  }
+  const parsedMessage =
+    typeof message === "string"
+      ? tryConvertToJSON(message)
+      : parseEIP712Message(message);
 
   let result: Awaited<ReturnType<typeof eth.signPersonalMessage>>;
   if (typeof parsedMessage === "string") {
@@ -193,12 +205,12 @@ const getValueFromPath = (
 export const getNanoDisplayedInfosFor712 = async (
   message: Record<string, any>,
   remoteCryptoAssetsListURI: string = getEnv("DYNAMIC_CAL_BASE_URL")
-): Promise<{ label: string; value: string | string[] }[] | null> => {
+): Promise<MessageProperties | null> => {
   if (!isEIP712Message(message)) {
     return null;
   }
 
-  const displayedInfos: { label: string; value: string | string[] }[] = [];
+  const displayedInfos: MessageProperties = [];
   const filters = await getFiltersForMessage(
     message,
     remoteCryptoAssetsListURI
@@ -0,0 +1,107 @@
+// revoke or lower the allowances given to spenders, see ../allowances.ts
+import abi from "ethereumjs-abi";
+import invariant from "invariant";
+import eip55 from "eip55";
+import { BigNumber } from "bignumber.js";
+import type { ModeModule, Transaction } from "../types";
+import type { Account } from "@ledgerhq/types-live";
+import { inferTokenAccount } from "../transaction";
+import { getAccountCurrency } from "../../../account";
+import {
+  AllowanceContractRequired,
+  NftAllowanceCanOnlyBeRevoked,
+} from "../../../errors";
+
+export type Modes = "allowance.revoke";
+
+/**
+ * "allowance.revoke" revokes or lowers the allowance given to a spender.
+ * transaction params:
+ * - transaction.recipient address of the spender
+ * - transaction.subAccountId the token account of an ERC-20 allowance
+ * - transaction.collection the contract of an NFT collection approved for all
+ * - transaction.amount the lowered ERC-20 allowance, 0 to revoke it. An
+ *   approval for all of a collection can only be revoked.
+ */
+const allowanceRevoke: ModeModule = {
+  fillTransactionStatus(a, t, result) {
+    const subAccount = inferTokenAccount(a, t);
+
+    if (!subAccount && !t.collection) {
+      result.errors.amount = new AllowanceContractRequired();
+    } else if (!subAccount && !t.amount.isZero()) {
+      result.errors.amount = new NftAllowanceCanOnlyBeRevoked();
+    }
+
+    result.amount = t.amount;
+  },
+
+  fillTransactionData(a, t, tx) {
+    const data = serializeTransactionData(a, t);
+    invariant(data, "serializeTransactionData provided no data");
+    tx.data = "0x" + (data as Buffer).toString("hex");
+    tx.to = inferTokenAccount(a, t)?.token.contractAddress ?? t.collection;
+    tx.value = "0x00";
+  },
+
+  fillDeviceTransactionConfig({ transaction, account }, fields) {
+    fields.push({
+      type: "text",
+      label: "Type",
+      value: "Approve",
+    });
+
+    if (transaction.collection) {
+      fields.push({
+        type: "text",
+        label: "Amount",
+        value: "Revoke all",
+      });
+    } else if (transaction.amount.isZero()) {
+      fields.push({
+        type: "text",
+        label: "Amount",
+        value: "0 " + getAccountCurrency(account).ticker,
+      });
+    } else {
+      fields.push({
+        type: "amount",
+        label: "Amount",
+      });
+    }
+
+    fields.push({
+      type: "address",
+      label: "Spender",
+      address: transaction.recipient,
+    });
+  },
+
+  fillOptimisticOperation(_account, _transaction, operation) {
+    operation.type = "FEES";
+  },
+
+  getResolutionConfig: (a, t) =>
+    t.collection ? { nft: true } : { erc20: true, externalPlugins: true },
+};
+
+function serializeTransactionData(
+  account: Account,
+  transaction: Transaction
+): Buffer | null | undefined {
+  const spender = eip55.encode(transaction.recipient);
+
+  if (!inferTokenAccount(account, transaction)) {
+    return abi.simpleEncode("setApprovalForAll(address,bool)", spender, false);
+  }
+
+  return abi.simpleEncode(
+    "approve(address,uint256)",
+    spender,
+    new BigNumber(transaction.amount).toString(10)
+  );
+}
+
+export const modes: Record<Modes, ModeModule> = {
+  "allowance.revoke": allowanceRevoke,
+};
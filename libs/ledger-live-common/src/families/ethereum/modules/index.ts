@@ -13,11 +13,13 @@ import * as erc20 from "./erc20";
 import * as send from "./send";
 import * as erc721 from "./erc721";
 import * as erc1155 from "./erc1155";
+import * as allowance from "./allowance";
 import type { Modes as CompoundModes } from "./compound";
 import type { Modes as ERC20Modes } from "./erc20";
 import type { Modes as SendModes } from "./send";
 import type { Modes as ERC721Modes } from "./erc721";
 import type { Modes as ERC1155Modes } from "./erc1155";
+import type { Modes as AllowanceModes } from "./allowance";
 import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
 import type { ResolutionConfig } from "@ledgerhq/hw-app-eth/lib/services/types";
 
@@ -27,13 +29,15 @@ const modules = {
   send,
   erc721,
   erc1155,
+  allowance,
 };
 export type TransactionMode =
   | CompoundModes
   | ERC20Modes
   | SendModes
   | ERC721Modes
-  | ERC1155Modes;
+  | ERC1155Modes
+  | AllowanceModes;
 
 /**
  * A ModeModule enable a new transaction mode in Ethereum family
@@ -1,5 +1,8 @@
 import type { AccountLike, Account, Operation } from "@ledgerhq/types-live";
-import { shouldRetainPendingOperation } from "../../account";
+import {
+  markReplacedPendingOperations,
+  shouldRetainPendingOperation,
+} from "../../account";
 
 // we need to preserve ETH pendingOperations because there is no mempool to do this
 // we assume we need to preserve until:
@@ -12,17 +15,23 @@ const postSyncPatchGen = <T extends AccountLike>(
   mainAccount: Account,
   parentPendingOperation?: Operation[]
 ): T => {
-  const pendingOperations = initial.pendingOperations || [];
-  if (pendingOperations.length === 0) return synced;
+  if (!initial.pendingOperations?.length) return synced;
   const { operations } = synced;
+  // a speed up or a cancellation confirmed instead of the pending operation
+  const pendingOperations = markReplacedPendingOperations(
+    initial.pendingOperations,
+    operations
+  );
   synced.pendingOperations = pendingOperations.filter(
     (op) =>
       (!parentPendingOperation || // a child pending parent need to disappear if parent eth op disappear
         parentPendingOperation.some((o) => o.hash === op.hash)) &&
       op.transactionSequenceNumber &&
-      op.transactionSequenceNumber > latestNonce && // retain logic
-      (shouldRetainPendingOperation(mainAccount, op) || // after retain logic, we need operation to appear
-        !operations.some((o) => o.hash === op.hash))
+      (op.replacedBy
+        ? shouldRetainPendingOperation(mainAccount, op) // kept marked as replaced for a while
+        : op.transactionSequenceNumber > latestNonce && // retain logic
+          (shouldRetainPendingOperation(mainAccount, op) || // after retain logic, we need operation to appear
+            !operations.some((o) => o.hash === op.hash)))
   );
   return synced;
 };
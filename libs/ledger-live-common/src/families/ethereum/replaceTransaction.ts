@@ -0,0 +1,167 @@
+import { BigNumber } from "bignumber.js";
+import type { Account, Operation } from "@ledgerhq/types-live";
+import { TransactionNotReplaceable } from "../../errors";
+import { getNetworkInfo } from "./gas";
+import { EIP1559ShouldBeUsed } from "./transaction";
+import createTransaction from "./createTransaction";
+import type { NetworkInfo, Transaction } from "./types";
+
+// speed up re-sends the transaction, cancel sends nothing to the account itself
+export type ReplacementMode = "speedup" | "cancel";
+
+// the fees of a transaction, recorded in the extra of its optimistic operation
+export type ReplaceableOperationExtra = {
+  gasLimit: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+};
+
+type ReplacementFees = {
+  gasPrice?: BigNumber;
+  maxFeePerGas?: BigNumber;
+  maxPriorityFeePerGas?: BigNumber;
+};
+
+// nodes only accept a transaction with the nonce of a pending one if each of
+// its fees is at least 10% higher
+const MIN_REPLACEMENT_BUMP = 1.1;
+
+const bump = (fee: string | undefined): BigNumber | undefined =>
+  fee === undefined
+    ? undefined
+    : new BigNumber(fee)
+        .times(MIN_REPLACEMENT_BUMP)
+        .integerValue(BigNumber.ROUND_CEIL);
+
+const max = (a: BigNumber | undefined, b: BigNumber | null | undefined) =>
+  a && b ? BigNumber.max(a, b) : a || b || undefined;
+
+/**
+ * A pending operation signed by the live, whose fees are known, can be replaced
+ */
+export const isReplaceableOperation = (operation: Operation): boolean =>
+  !operation.blockHeight &&
+  !operation.replacedBy &&
+  operation.transactionSequenceNumber !== undefined &&
+  !!operation.extra?.gasLimit;
+
+/**
+ * The lowest fees of a replacement of a pending operation
+ */
+export const getMinimumReplacementFees = (
+  operation: Operation
+): ReplacementFees => {
+  if (!isReplaceableOperation(operation)) {
+    throw new TransactionNotReplaceable();
+  }
+  const extra = operation.extra as ReplaceableOperationExtra;
+  return {
+    gasPrice: bump(extra.gasPrice),
+    maxFeePerGas: bump(extra.maxFeePerGas),
+    maxPriorityFeePerGas: bump(extra.maxPriorityFeePerGas),
+  };
+};
+
+/**
+ * Build a transaction with the nonce of a pending operation, which either
+ * re-sends it or cancels it, with fees above both the current network ones and
+ * the minimum bump of the operation ones
+ */
+export async function buildReplacementTransaction(
+  account: Account,
+  operation: Operation,
+  mode: ReplacementMode,
+  networkInfo?: NetworkInfo
+): Promise<Transaction> {
+  const minimum = getMinimumReplacementFees(operation);
+  const extra = operation.extra as ReplaceableOperationExtra;
+  const info = networkInfo || (await getNetworkInfo(account.currency));
+
+  const content = (() => {
+    if (mode === "cancel") {
+      return {
+        recipient: account.freshAddress,
+        amount: new BigNumber(0),
+        allowZeroAmount: true,
+        userGasLimit: new BigNumber(21000),
+      };
+    }
+    const tokenOperation = operation.subOperations?.find(
+      (op) => op.type === "OUT"
+    );
+    if (tokenOperation) {
+      return {
+        subAccountId: tokenOperation.accountId,
+        recipient: tokenOperation.recipients[0],
+        amount: tokenOperation.value,
+        userGasLimit: new BigNumber(extra.gasLimit),
+      };
+    }
+    if (operation.type !== "OUT") {
+      // the data of contract calls is not in the operation, they can only be cancelled
+      throw new TransactionNotReplaceable();
+    }
+    return {
+      recipient: operation.recipients[0],
+      amount: operation.value,
+      userGasLimit: new BigNumber(extra.gasLimit),
+    };
+  })();
+
+  const fees: ReplacementFees = (() => {
+    if (EIP1559ShouldBeUsed(account.currency)) {
+      const maxPriorityFeePerGas = max(
+        minimum.maxPriorityFeePerGas,
+        info.maxPriorityFeePerGas?.initial
+      );
+      return {
+        maxPriorityFeePerGas,
+        maxFeePerGas: max(
+          minimum.maxFeePerGas,
+          info.nextBaseFeePerGas?.times(2).plus(maxPriorityFeePerGas || 0)
+        ),
+      };
+    }
+    return { gasPrice: max(minimum.gasPrice, info.gasPrice?.initial) };
+  })();
+
+  return {
+    ...createTransaction(),
+    ...content,
+    ...fees,
+    networkInfo: info,
+    feesStrategy: "custom",
+    nonce: operation.transactionSequenceNumber,
+    replaces: operation.hash,
+  };
+}
+
+/**
+ * The fees of a replacement that are below the minimum bump of the operation
+ * it replaces
+ */
+export const getReplacementFeeTooLowField = (
+  account: Account,
+  transaction: Transaction
+): "gasPrice" | "maxFee" | "maxPriorityFee" | undefined => {
+  const operation = account.pendingOperations.find(
+    (op) => op.hash === transaction.replaces
+  );
+  if (!operation || !isReplaceableOperation(operation)) {
+    return undefined;
+  }
+  const minimum = getMinimumReplacementFees(operation);
+  const isBelow = (fee?: BigNumber | null, min?: BigNumber) =>
+    !!min && (!fee || fee.lt(min));
+  if (isBelow(transaction.gasPrice, minimum.gasPrice)) {
+    return "gasPrice";
+  }
+  if (isBelow(transaction.maxPriorityFeePerGas, minimum.maxPriorityFeePerGas)) {
+    return "maxPriorityFee";
+  }
+  if (isBelow(transaction.maxFeePerGas, minimum.maxFeePerGas)) {
+    return "maxFee";
+  }
+  return undefined;
+};
@@ -27,6 +27,7 @@ import { isNFTActive } from "../../nft";
 import { getEnv } from "../../env";
 import { modes } from "./modules";
 import type { Transaction } from "./types";
+import type { ReplaceableOperationExtra } from "./replaceTransaction";
 import {
   getGasLimit,
   buildEthereumTx,
@@ -194,6 +195,16 @@ export const signOperation = ({
 
               const transactionSequenceNumber = nonce;
               const accountId = account.id;
+              // the fees of the transaction, to be able to replace it while pending
+              const extra: ReplaceableOperationExtra = {
+                gasLimit: gasLimit.toString(),
+                ...(EIP1559ShouldBeUsed(account.currency)
+                  ? {
+                      maxFeePerGas: String(maxFeePerGas),
+                      maxPriorityFeePerGas: String(maxPriorityFeePerGas),
+                    }
+                  : { gasPrice: String(gasPrice) }),
+              };
               // currently, all mode are always at least one OUT tx on ETH parent
               const operation: Operation = {
                 id: `${accountId}-${txHash}-OUT`,
@@ -210,7 +221,10 @@ export const signOperation = ({
                 recipients,
                 accountId,
                 date: new Date(),
-                extra: {},
+                extra,
+                ...(transaction.replaces
+                  ? { replaces: transaction.replaces }
+                  : {}),
               };
               m.fillOptimisticOperation(account, transaction, operation);
               o.next({
@@ -18,6 +18,7 @@ import { encodeAccountId } from "../../account";
 import type { Operation, TokenAccount, Account } from "@ledgerhq/types-live";
 import { API, apiForCurrency, Tx } from "../../api/Ethereum";
 import { digestTokenAccounts, prepareTokenAccounts } from "./modules";
+import { decodeApproval } from "./allowances";
 import { findTokenByAddressInCurrency } from "@ledgerhq/cryptoassets";
 import { encodeNftId, isNFTActive, nftsFromOperations } from "../../nft";
 import { encodeOperationId, encodeSubOperationId } from "../../operation";
@@ -501,7 +502,8 @@ const txToOps =
         senders: [from],
         recipients: [to],
         date,
-        extra: {},
+        // the spender of an approval is only in its call data
+        extra: decodeApproval(tx.input) ? { input: tx.input } : {},
         hasFailed,
         internalOperations: internalOperations,
         subOperations,
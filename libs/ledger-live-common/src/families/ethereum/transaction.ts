@@ -132,6 +132,7 @@ export const fromTransactionRaw = (tr: TransactionRaw): Transaction => {
     collection: tr.collection,
     collectionName: tr.collectionName,
     quantities: tr.quantities?.map((q) => new BigNumber(q)),
+    ...(tr.replaces ? { replaces: tr.replaces } : {}),
   };
 };
 
@@ -173,6 +174,7 @@ export const toTransactionRaw = (t: Transaction): TransactionRaw => {
     collection: t.collection,
     collectionName: t.collectionName,
     quantities: t.quantities?.map((q) => q?.toFixed() || "0"),
+    ...(t.replaces ? { replaces: t.replaces } : {}),
   };
 };
 
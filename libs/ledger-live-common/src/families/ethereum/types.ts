@@ -44,6 +44,8 @@ export type Transaction = TransactionCommon & {
   collectionName?: string;
   tokenIds?: string[];
   quantities?: Array<BigNumber | null>;
+  // hash of the pending operation this transaction replaces, with its nonce
+  replaces?: string;
 };
 
 export type TransactionRaw = TransactionCommonRaw & {
@@ -63,6 +65,7 @@ export type TransactionRaw = TransactionCommonRaw & {
   collection?: string;
   collectionName?: string;
   quantities?: string[];
+  replaces?: string;
 };
 
 export type TypedMessageData = Omit<MessageData, "message"> & {
@@ -2,12 +2,15 @@ import { ethers } from "ethers";
 import BigNumber from "bignumber.js";
 import { Operation } from "@ledgerhq/types-live";
 import { encodeAccountId } from "../../../account";
+import { findCryptoCurrencyById } from "@ledgerhq/cryptoassets";
 import {
+  EtherscanERC20Event,
   EtherscanOperation,
   EvmTransactionEIP1559,
   EvmTransactionLegacy,
 } from "../types";
 import {
+  etherscanERC20EventToOperation,
   etherscanOperationToOperation,
   transactionToEthersTransaction,
 } from "../adapters";
@@ -132,17 +135,111 @@ describe("EVM Family", () => {
           date: new Date("2022-06-08T00:02:50.000Z"),
           transactionSequenceNumber: 7,
           type: "OUT",
-          extra: {},
+          extra: {
+            contractCall: {
+              selector: "0xa9059cbb",
+              method: "transfer",
+              signature: "transfer(address,uint256)",
+              args: [
+                {
+                  name: "to",
+                  type: "address",
+                  value: "0x313143c4088A47c469D06Fe3fA5fd4196Be6a4d6",
+                },
+                {
+                  name: "amount",
+                  type: "uint256",
+                  value: "4500000000000000000000000",
+                  formatted: "4,500,000\u00a0HOP",
+                },
+              ],
+              summary:
+                "transfer(to: 0x313143c4088A47c469D06Fe3fA5fd4196Be6a4d6, amount: 4,500,000\u00a0HOP)",
+            },
+          },
         };
 
         expect(
           etherscanOperationToOperation(
             accountId,
             "0x9aa99c23f67c81701c772b106b4f83f6e858dd2e",
-            etherscanOp
+            etherscanOp,
+            findCryptoCurrencyById("ethereum")!
           )
         ).toEqual(expectedOperation);
       });
     });
+
+    describe("etherscanERC20EventToOperation", () => {
+      const address = "0x9aa99c23f67c81701c772b106b4f83f6e858dd2e";
+      const accountId = encodeAccountId({
+        type: "js",
+        version: "2",
+        currencyId: "ethereum",
+        xpubOrAddress: address,
+        derivationMode: "",
+      });
+      const event: EtherscanERC20Event = {
+        blockNumber: "14923692",
+        timeStamp: "1654646570",
+        hash: "0xaa45b4858ba44230a5fce5a29570a5dec2bf1f0ba95bacdec4fe8f2c4fa99338",
+        nonce: "7",
+        blockHash:
+          "0x8df71a12a8c06b36c06c26bf6248857dd2a2b75b6edbb4e33e9477078897b282",
+        from: address,
+        contractAddress: "0xdac17f958d2ee523a2206206994597c13d831ec7",
+        to: "0xc5102fe9359fd9a28f877a67e36b0f050d81a3cc",
+        value: "1000000",
+        tokenName: "Tether USD",
+        tokenSymbol: "USDT",
+        tokenDecimal: "6",
+        transactionIndex: "27",
+        gas: "6000000",
+        gasPrice: "125521409858",
+        gasUsed: "57168",
+        cumulativeGasUsed: "1977481",
+        input: "deprecated",
+        confirmations: "122471",
+      };
+
+      it("should convert an etherscan-like ERC-20 event to an operation of the token account", () => {
+        const tokenAccountId = `${accountId}+ethereum%2Ferc20%2Fusd_tether__erc20_`;
+
+        expect(
+          etherscanERC20EventToOperation(
+            accountId,
+            address,
+            event,
+            findCryptoCurrencyById("ethereum")!
+          )
+        ).toEqual({
+          id: `${tokenAccountId}-${event.hash}-OUT`,
+          hash: event.hash,
+          accountId: tokenAccountId,
+          blockHash: event.blockHash,
+          blockHeight: 14923692,
+          recipients: ["0xc5102fE9359FD9a28f877a67E36B0F050d81a3CC"],
+          senders: ["0x9AA99C23F67c81701C772B106b4F83f6e858dd2E"],
+          value: new BigNumber(1000000),
+          fee: new BigNumber(7175807958762144),
+          date: new Date("2022-06-08T00:02:50.000Z"),
+          transactionSequenceNumber: 7,
+          type: "OUT",
+          contract: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+          extra: {},
+        });
+      });
+
+      it("should ignore the events of unknown tokens", () => {
+        expect(
+          etherscanERC20EventToOperation(
+            accountId,
+            address,
+            { ...event, contractAddress: "0x" + "0".repeat(40) },
+            findCryptoCurrencyById("ethereum")!
+          )
+        ).toBe(null);
+      });
+    });
   });
 });
@@ -0,0 +1,98 @@
+import {
+  findCryptoCurrencyById,
+  listCryptoCurrencies,
+} from "@ledgerhq/cryptoassets";
+import { InvalidCustomEvmNetwork } from "../../../errors";
+import { isCurrencySupported } from "../../../currencies";
+import { getAccountBridge, getCurrencyBridge } from "../../../bridge";
+import { makeAccount } from "../testUtils";
+import {
+  CustomEvmNetwork,
+  getCustomEvmNetwork,
+  setCustomEvmNetworks,
+} from "../customNetworks";
+
+const devnet: CustomEvmNetwork = {
+  name: "Devnet",
+  chainId: 1337,
+  rpc: "http://127.0.0.1:8545",
+  explorer: { uri: "http://127.0.0.1:4000", type: "blockscout" },
+  explorerWebsite: "http://127.0.0.1:4000/",
+  unit: { name: "Dev", code: "DEV", magnitude: 18 },
+};
+
+describe("EVM Family", () => {
+  describe("customNetworks.ts", () => {
+    afterEach(() => {
+      setCustomEvmNetworks([]);
+    });
+
+    it("should make a custom network a supported currency of the evm family", () => {
+      setCustomEvmNetworks([devnet]);
+      const currency = findCryptoCurrencyById("evm_custom_1337")!;
+
+      expect(currency).toMatchObject({
+        name: "Devnet",
+        ticker: "DEV",
+        family: "evm",
+        disableCountervalue: true,
+        ethereumLikeInfo: {
+          chainId: 1337,
+          rpc: devnet.rpc,
+          explorer: devnet.explorer,
+        },
+        explorerViews: [
+          {
+            tx: "http://127.0.0.1:4000/tx/$hash",
+            address: "http://127.0.0.1:4000/address/$address",
+          },
+        ],
+      });
+      expect(currency.units.map((u) => u.code)).toEqual([
+        "DEV",
+        "Gwei",
+        "Mwei",
+        "Kwei",
+        "wei",
+      ]);
+      expect(getCustomEvmNetwork(currency)).toBe(devnet);
+      expect(isCurrencySupported(currency)).toBe(true);
+      expect(getCurrencyBridge(currency)).toBeTruthy();
+      expect(getAccountBridge(makeAccount("0xkvn", currency))).toBeTruthy();
+    });
+
+    it("should replace the networks", () => {
+      setCustomEvmNetworks([devnet]);
+      const currency = findCryptoCurrencyById("evm_custom_1337")!;
+      setCustomEvmNetworks([{ ...devnet, chainId: 1338, countervalues: true }]);
+
+      expect(findCryptoCurrencyById("evm_custom_1337")).toBe(undefined);
+      expect(isCurrencySupported(currency)).toBe(false);
+      expect(findCryptoCurrencyById("evm_custom_1338")).toMatchObject({
+        disableCountervalue: false,
+      });
+      expect(
+        listCryptoCurrencies(true, true).filter((c) => c.id.startsWith("evm_"))
+      ).toHaveLength(1);
+    });
+
+    it("should reject the invalid networks", () => {
+      const invalids: CustomEvmNetwork[] = [
+        { ...devnet, name: " " },
+        { ...devnet, chainId: 0 },
+        // the chain id of ethereum
+        { ...devnet, chainId: 1 },
+        { ...devnet, rpc: "ws://127.0.0.1:8545" },
+        { ...devnet, unit: { ...devnet.unit, magnitude: -1 } },
+      ];
+      for (const network of invalids) {
+        expect(() => setCustomEvmNetworks([network])).toThrow(
+          InvalidCustomEvmNetwork
+        );
+      }
+      expect(() => setCustomEvmNetworks([devnet, devnet])).toThrow(
+        "chain id 1337 is used twice"
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { ethers } from "ethers";
+import { findCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import { decodeContractCall } from "../decoder";
+
+const ethereum = findCryptoCurrencyById("ethereum")!;
+const router = "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D";
+const usdt = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const weth = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const recipient = "0x9AA99C23F67c81701C772B106b4F83f6e858dd2E";
+const unknownContract = "0xc5102fE9359FD9a28f877a67E36B0F050d81a3CC";
+
+const encode = (signature: string, args: unknown[]) =>
+  new ethers.utils.Interface([`function ${signature}`]).encodeFunctionData(
+    signature.slice(0, signature.indexOf("(")),
+    args
+  );
+
+describe("EVM Family", () => {
+  describe("decoder.ts", () => {
+    describe("decodeContractCall", () => {
+      it("should decode the call of a known contract, with the amounts in their token", () => {
+        const input = encode(
+          "swapExactTokensForETH(uint256,uint256,address[],address,uint256)",
+          ["25000000", "10000000000000000", [usdt, weth], recipient, 1654646570]
+        );
+
+        expect(decodeContractCall(ethereum, router, input)).toEqual({
+          selector: "0x18cbafe5",
+          method: "swapExactTokensForETH",
+          signature:
+            "swapExactTokensForETH(uint256,uint256,address[],address,uint256)",
+          contractName: "Uniswap V2 Router",
+          args: [
+            {
+              name: "amountIn",
+              type: "uint256",
+              value: "25000000",
+              formatted: "25\u00a0USDT",
+            },
+            {
+              name: "amountOutMin",
+              type: "uint256",
+              value: "10000000000000000",
+              formatted: "0.01\u00a0WETH",
+            },
+            { name: "path", type: "address[]", value: [usdt, weth] },
+            { name: "to", type: "address", value: recipient },
+            { name: "deadline", type: "uint256", value: "1654646570" },
+          ],
+          summary: `Uniswap V2 Router: swapExactTokensForETH(amountIn: 25\u00a0USDT, amountOutMin: 0.01\u00a0WETH, path: [${usdt}, ${weth}], to: ${recipient}, deadline: 1654646570)`,
+        });
+      });
+
+      it("should decode an approval of a token with the standards", () => {
+        const call = decodeContractCall(
+          ethereum,
+          usdt,
+          encode("approve(address,uint256)", [router, "1000000"])
+        );
+
+        expect(call?.summary).toBe(
+          `approve(spender: ${router}, amount: 1\u00a0USDT)`
+        );
+      });
+
+      it("should fallback on the signature of the explorer, then on the 4-byte signatures", () => {
+        expect(
+          decodeContractCall(
+            ethereum,
+            unknownContract,
+            encode("vote(uint256,bool)", [42, true]),
+            "vote(uint256 proposalId, bool support)"
+          )?.summary
+        ).toBe("vote(proposalId: 42, support: true)");
+
+        expect(
+          decodeContractCall(
+            ethereum,
+            unknownContract,
+            encode("multicall(bytes[])", [["0x01", "0x02"]])
+          )?.summary
+        ).toBe("multicall(arg0: [0x01, 0x02])");
+      });
+
+      it("should not decode unknown calls or transfers of the native coin", () => {
+        expect(
+          decodeContractCall(
+            ethereum,
+            unknownContract,
+            encode("vote(uint256,bool)", [42, true])
+          )
+        ).toBe(null);
+        expect(decodeContractCall(ethereum, recipient, "0x")).toBe(null);
+      });
+    });
+  });
+});
@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
 import BigNumber from "bignumber.js";
-import { Account } from "@ledgerhq/types-live";
-import { findCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import { ethers } from "ethers";
+import { Account, TokenAccount } from "@ledgerhq/types-live";
+import { findCryptoCurrencyById, findTokenById } from "@ledgerhq/cryptoassets";
 import {
   NotEnoughGas,
   FeeNotLoaded,
@@ -12,9 +13,11 @@ import {
   NotEnoughBalance,
   GasLessThanEstimate,
 } from "@ledgerhq/errors";
+import { ReplacementFeeTooLow } from "../../../errors";
 import { EvmTransactionEIP1559, EvmTransactionLegacy } from "../types";
 import getTransactionStatus from "../getTransactionStatus";
 import { makeAccount } from "../testUtils";
+import * as API from "../api/rpc.common";
 
 const recipient = "0xe2ca7390e76c5A992749bB622087310d2e63ca29"; // rambo.eth
 const testData = Buffer.from("testBufferString").toString("hex");
@@ -310,5 +313,125 @@ describe("EVM Family", () => {
         );
       });
     });
+
+    describe("Token transactions", () => {
+      const tokenAccount = {
+        type: "TokenAccount",
+        id: "tokenAccountId",
+        parentId: account.id,
+        token: findTokenById("ethereum/erc20/usd_tether__erc20_")!,
+        balance: new BigNumber(500),
+        spendableBalance: new BigNumber(500),
+      } as TokenAccount;
+      const accountWithToken = {
+        ...account,
+        balance: new BigNumber(10000000),
+        subAccounts: [tokenAccount],
+      };
+      const tokenTx: EvmTransactionEIP1559 = {
+        ...eip1559Tx,
+        mode: "erc20.transfer",
+        subAccountId: tokenAccount.id,
+      };
+
+      it("should spend the tokens and only the fees of the account", async () => {
+        const res = await getTransactionStatus(accountWithToken, {
+          ...tokenTx,
+          useAllAmount: true,
+        });
+
+        expect(res.errors).toEqual({});
+        expect(res.amount).toEqual(new BigNumber(500));
+        expect(res.totalSpent).toEqual(new BigNumber(500));
+      });
+
+      it("should detect a transfer of more tokens than the token account has", async () => {
+        const res = await getTransactionStatus(accountWithToken, {
+          ...tokenTx,
+          amount: new BigNumber(501),
+        });
+
+        expect(res.errors.amount).toBeInstanceOf(NotEnoughBalance);
+      });
+
+      it("should allow an unlimited approval", async () => {
+        const res = await getTransactionStatus(accountWithToken, {
+          ...tokenTx,
+          mode: "erc20.approve",
+          amount: new BigNumber(0),
+          useAllAmount: true,
+        });
+
+        expect(res.errors).toEqual({});
+        expect(res.totalSpent).toEqual(new BigNumber(0));
+      });
+
+      it("should detect a token transaction without its token account", async () => {
+        const res = await getTransactionStatus(accountWithToken, {
+          ...tokenTx,
+          subAccountId: "unknown",
+        });
+
+        expect(res.errors.amount).toBeInstanceOf(NotEnoughBalance);
+      });
+    });
+
+    describe("Replacements", () => {
+      const pending = {
+        hash: "0xpending",
+        blockNumber: null,
+        type: 2,
+        maxFeePerGas: ethers.BigNumber.from(100),
+        maxPriorityFeePerGas: ethers.BigNumber.from(10),
+      } as unknown as ethers.providers.TransactionResponse;
+      const replacementTx: EvmTransactionEIP1559 = {
+        ...eip1559Tx,
+        replaces: "0xpending",
+        maxFeePerGas: new BigNumber(110),
+        maxPriorityFeePerGas: new BigNumber(11),
+      };
+
+      beforeEach(() => {
+        jest
+          .spyOn(API, "getTransaction")
+          .mockImplementation(async () => pending);
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it("should accept the fees bumped from the pending transaction", async () => {
+        const res = await getTransactionStatus(account, replacementTx);
+
+        expect(res.errors.maxFee).toBeUndefined();
+        expect(res.errors.maxPriorityFee).toBeUndefined();
+      });
+
+      it("should detect fees below the minimum bump and have an error", async () => {
+        const res = await getTransactionStatus(account, {
+          ...replacementTx,
+          maxFeePerGas: new BigNumber(105),
+        });
+
+        expect(res.errors.maxFee).toBeInstanceOf(ReplacementFeeTooLow);
+      });
+
+      it("should detect a legacy gas price below the minimum bump and have an error", async () => {
+        jest.spyOn(API, "getTransaction").mockImplementation(async () => ({
+          ...pending,
+          type: 0,
+          maxFeePerGas: undefined,
+          maxPriorityFeePerGas: undefined,
+          gasPrice: ethers.BigNumber.from(100),
+        }));
+        const res = await getTransactionStatus(
+          { ...account, balance: new BigNumber(10000000) },
+          { ...legacyTx, replaces: "0xpending" }
+        );
+
+        expect(res.errors.gasPrice).toBeInstanceOf(ReplacementFeeTooLow);
+      });
+    });
   });
 });
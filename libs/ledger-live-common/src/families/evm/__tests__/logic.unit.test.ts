@@ -1,9 +1,14 @@
 import BigNumber from "bignumber.js";
+import { ethers } from "ethers";
+import { Account, TokenAccount } from "@ledgerhq/types-live";
+import { findCryptoCurrencyById, findTokenById } from "@ledgerhq/cryptoassets";
 import {
   eip1559TransactionHasFees,
   getEstimatedFees,
+  getTokenCall,
   legacyTransactionHasFees,
 } from "../logic";
+import { makeAccount } from "../testUtils";
 import { EvmTransactionEIP1559, EvmTransactionLegacy } from "../types";
 
 describe("EVM Family", () => {
@@ -99,5 +104,76 @@ describe("EVM Family", () => {
         expect(getEstimatedFees(tx as any)).toEqual(new BigNumber(420));
       });
     });
+
+    describe("getTokenCall", () => {
+      const currency = findCryptoCurrencyById("ethereum")!;
+      const token = findTokenById("ethereum/erc20/usd_tether__erc20_")!;
+      const account: Account = makeAccount("0xkvn", currency);
+      const tokenAccount = {
+        type: "TokenAccount",
+        id: "tokenAccountId",
+        parentId: account.id,
+        token,
+        balance: new BigNumber(500),
+        spendableBalance: new BigNumber(500),
+      } as TokenAccount;
+      const tx: EvmTransactionEIP1559 = {
+        amount: new BigNumber(100),
+        useAllAmount: false,
+        subAccountId: tokenAccount.id,
+        recipient: "0x997e135e96114c0E84FFc58754552368E4abf329",
+        family: "evm",
+        mode: "erc20.transfer",
+        nonce: 0,
+        gasLimit: new BigNumber(60000),
+        chainId: 1,
+        maxFeePerGas: new BigNumber(100),
+        maxPriorityFeePerGas: new BigNumber(100),
+        type: 2,
+      };
+      const accountWithToken = { ...account, subAccounts: [tokenAccount] };
+
+      it("should keep a send transaction as it is", () => {
+        const sendTx = { ...tx, mode: "send" as const };
+
+        expect(getTokenCall(accountWithToken, sendTx)).toBe(sendTx);
+      });
+
+      it("should call the transfer method of the token contract", () => {
+        const call = getTokenCall(accountWithToken, {
+          ...tx,
+          useAllAmount: true,
+        });
+
+        expect(call.recipient).toBe(token.contractAddress);
+        expect(call.amount).toEqual(new BigNumber(0));
+        expect(`0x${call.data?.toString("hex")}`).toBe(
+          new ethers.utils.Interface([
+            "function transfer(address to, uint256 value)",
+          ]).encodeFunctionData("transfer", [tx.recipient, "500"])
+        );
+      });
+
+      it("should approve an unlimited amount to the spender", () => {
+        const call = getTokenCall(accountWithToken, {
+          ...tx,
+          mode: "erc20.approve",
+          useAllAmount: true,
+        });
+
+        expect(`0x${call.data?.toString("hex")}`).toBe(
+          new ethers.utils.Interface([
+            "function approve(address spender, uint256 value)",
+          ]).encodeFunctionData("approve", [
+            tx.recipient,
+            ethers.constants.MaxUint256,
+          ])
+        );
+      });
+
+      it("should throw without the token account", () => {
+        expect(() => getTokenCall(account, tx)).toThrow();
+      });
+    });
   });
 });
@@ -0,0 +1,122 @@
+import BigNumber from "bignumber.js";
+import { ethers } from "ethers";
+import { Account, Operation } from "@ledgerhq/types-live";
+import { findCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import { buildReplacementTransaction } from "../replaceTransaction";
+import { prepareTransaction } from "../prepareTransaction";
+import { transactionToUnsignedTransaction } from "../transaction";
+import { TransactionNotReplaceable } from "../../../errors";
+import { makeAccount } from "../testUtils";
+import * as API from "../api/rpc.common";
+
+const currency = findCryptoCurrencyById("ethereum")!;
+const account: Account = makeAccount(
+  "0x813eC5fACF289bD41365A8F1C9038A1228E95201", // minus.eth
+  currency
+);
+const recipient = "0xe2ca7390e76c5A992749bB622087310d2e63ca29"; // cortex.eth
+const operation = {
+  hash: "0xpending",
+  transactionSequenceNumber: 7,
+} as Operation;
+const pending = {
+  hash: "0xpending",
+  blockNumber: null,
+  to: recipient,
+  value: ethers.BigNumber.from(100),
+  data: "0x",
+  gasLimit: ethers.BigNumber.from(30000),
+  nonce: 7,
+  type: 2,
+  maxFeePerGas: ethers.BigNumber.from(100),
+  maxPriorityFeePerGas: ethers.BigNumber.from(10),
+} as unknown as ethers.providers.TransactionResponse;
+
+describe("EVM Family", () => {
+  describe("replaceTransaction.ts", () => {
+    beforeEach(() => {
+      jest.spyOn(API, "getFeesEstimation").mockImplementation(async () => ({
+        gasPrice: null,
+        maxFeePerGas: new BigNumber(105),
+        maxPriorityFeePerGas: new BigNumber(5),
+      }));
+      jest
+        .spyOn(API, "getGasEstimation")
+        .mockImplementation(async () => new BigNumber(30000));
+      jest.spyOn(API, "getTransactionCount").mockImplementation(async () => 9);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    describe("buildReplacementTransaction", () => {
+      it("should speed up with the nonce and the bumped fees of the pending transaction", async () => {
+        jest
+          .spyOn(API, "getTransaction")
+          .mockImplementation(async () => pending);
+
+        const tx = await buildReplacementTransaction(
+          account,
+          operation,
+          "speedup"
+        );
+
+        expect(tx).toMatchObject({
+          recipient,
+          amount: new BigNumber(100),
+          data: null,
+          gasLimit: new BigNumber(30000),
+          nonce: 7,
+          replaces: "0xpending",
+          // the bumped fees are above the network ones
+          maxFeePerGas: new BigNumber(110),
+          maxPriorityFeePerGas: new BigNumber(11),
+          type: 2,
+        });
+        // the fees and the nonce are kept until the signature
+        const prepared = await prepareTransaction(account, tx);
+        expect(prepared.maxFeePerGas).toEqual(new BigNumber(110));
+        expect(
+          (await transactionToUnsignedTransaction(account, prepared)).nonce
+        ).toBe(7);
+      });
+
+      it("should cancel a legacy transaction by sending nothing to the account", async () => {
+        jest.spyOn(API, "getTransaction").mockImplementation(async () => ({
+          ...pending,
+          type: 0,
+          maxFeePerGas: undefined,
+          maxPriorityFeePerGas: undefined,
+          gasPrice: ethers.BigNumber.from(50),
+        }));
+
+        const tx = await buildReplacementTransaction(
+          account,
+          operation,
+          "cancel"
+        );
+
+        expect(tx).toMatchObject({
+          recipient: account.freshAddress,
+          amount: new BigNumber(0),
+          gasLimit: new BigNumber(21000),
+          gasPrice: new BigNumber(55),
+          type: 0,
+        });
+        expect(tx.maxFeePerGas).toBeUndefined();
+      });
+
+      it("should refuse a confirmed transaction", async () => {
+        jest.spyOn(API, "getTransaction").mockImplementation(async () => ({
+          ...pending,
+          blockNumber: 100,
+        }));
+
+        await expect(
+          buildReplacementTransaction(account, operation, "speedup")
+        ).rejects.toThrow(TransactionNotReplaceable);
+      });
+    });
+  });
+});
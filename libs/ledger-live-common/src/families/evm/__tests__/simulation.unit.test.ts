@@ -0,0 +1,193 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import BigNumber from "bignumber.js";
+import { findCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import {
+  SimulatedBalanceChanges,
+  SimulatedTransactionReverted,
+} from "../../../errors";
+import {
+  getSimulationIssues,
+  rpcSimulator,
+  setTransactionSimulator,
+  simulateTransaction,
+  SimulationRequest,
+} from "../simulation";
+
+const sender = "0x9AA99C23F67c81701C772B106b4F83f6e858dd2E";
+const router = "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D";
+const usdt = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const ethereum = findCryptoCurrencyById("ethereum")!;
+const topic = (address: string) =>
+  ethers.utils.hexZeroPad(address.toLowerCase(), 32);
+
+const swap: SimulationRequest = {
+  from: sender,
+  to: router,
+  value: new BigNumber("10000000000000000"),
+  data: "0x7ff36ab5",
+};
+const usdtTransfer: SimulationRequest = {
+  from: sender,
+  to: usdt,
+  value: new BigNumber(0),
+  data: new ethers.utils.Interface([
+    "function transfer(address to, uint256 amount)",
+  ]).encodeFunctionData("transfer", [router, "25000000"]),
+};
+
+// the responses of the local JSON-RPC node, by method
+let responses: Record<string, Record<string, unknown>> = {};
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const { id, method } = JSON.parse(body);
+    res.setHeader("Content-Type", "application/json");
+    res.end(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        ...(responses[method] || {
+          error: { code: -32601, message: "method not found" },
+        }),
+      })
+    );
+  });
+});
+let currency: CryptoCurrency;
+
+describe("EVM Family", () => {
+  describe("simulation.ts", () => {
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      currency = {
+        ...ethereum,
+        ethereumLikeInfo: { chainId: 1, rpc: `http://127.0.0.1:${port}` },
+      };
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      responses = {};
+      setTransactionSimulator(rpcSimulator);
+    });
+
+    it("should predict the revert of a call with its reason", async () => {
+      responses.eth_call = {
+        error: {
+          code: 3,
+          message: "execution reverted: UniswapV2Router: EXPIRED",
+          data:
+            "0x08c379a0" +
+            ethers.utils.defaultAbiCoder
+              .encode(["string"], ["UniswapV2Router: EXPIRED"])
+              .slice(2),
+        },
+      };
+
+      expect(await rpcSimulator(currency, swap)).toEqual({
+        reverted: true,
+        revertReason: "UniswapV2Router: EXPIRED",
+        deltas: [],
+      });
+      const [errors, warnings] = await getSimulationIssues(currency, swap);
+      expect(errors.simulation).toBeInstanceOf(SimulatedTransactionReverted);
+      expect(errors.simulation?.message).toBe("UniswapV2Router: EXPIRED");
+      expect(warnings).toEqual({});
+    });
+
+    it("should predict the balance changes from the trace of a call", async () => {
+      responses.eth_call = { result: "0x" };
+      responses.debug_traceCall = {
+        result: {
+          from: sender.toLowerCase(),
+          to: router.toLowerCase(),
+          value: "0x2386f26fc10000",
+          calls: [
+            {
+              from: router.toLowerCase(),
+              to: usdt.toLowerCase(),
+              value: "0x0",
+              logs: [
+                {
+                  address: usdt.toLowerCase(),
+                  topics: [
+                    ethers.utils.id("Transfer(address,address,uint256)"),
+                    topic(router),
+                    topic(sender),
+                  ],
+                  data: ethers.utils.hexZeroPad("0x017d7840", 32),
+                },
+              ],
+            },
+            // a reverted call changes nothing
+            {
+              from: router.toLowerCase(),
+              to: sender.toLowerCase(),
+              value: "0x1",
+              error: "execution reverted",
+            },
+          ],
+        },
+      };
+
+      const [errors, warnings] = await getSimulationIssues(currency, swap);
+      expect(errors).toEqual({});
+      expect(warnings.simulation).toBeInstanceOf(SimulatedBalanceChanges);
+      expect(warnings.simulation?.message).toBe(
+        "-0.01\u00a0ETH, +25\u00a0USDT"
+      );
+    });
+
+    it("should fallback on the transfers of the call without a trace", async () => {
+      responses.eth_call = { result: "0x" };
+
+      const result = await rpcSimulator(currency, usdtTransfer);
+      expect(result?.reverted).toBe(false);
+      expect(
+        result?.deltas.map((d) => [d.currency.id, d.amount.toFixed()])
+      ).toEqual([["ethereum/erc20/usd_tether__erc20_", "-25000000"]]);
+    });
+
+    it("should not simulate without a node or a simulator", async () => {
+      expect(await rpcSimulator(ethereum, swap)).toBe(null);
+      expect(await getSimulationIssues(ethereum, swap)).toEqual([{}, {}]);
+
+      const simulator = jest.fn().mockResolvedValue({
+        reverted: true,
+        revertReason: "plugged",
+        deltas: [],
+      });
+      setTransactionSimulator(simulator);
+      await simulateTransaction(ethereum, swap);
+      const [errors] = await getSimulationIssues(ethereum, swap);
+      expect(errors.simulation?.message).toBe("plugged");
+      // the simulations are cached
+      expect(simulator).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report the issues of every concurrent request", async () => {
+      const simulator = jest.fn().mockResolvedValue({
+        reverted: true,
+        revertReason: "plugged",
+        deltas: [],
+      });
+      setTransactionSimulator(simulator);
+      const issues = await Promise.all([
+        getSimulationIssues(ethereum, { ...swap, value: new BigNumber(1) }),
+        getSimulationIssues(ethereum, { ...swap, value: new BigNumber(2) }),
+      ]);
+      expect(issues.map(([errors]) => errors.simulation?.message)).toEqual([
+        "plugged",
+        "plugged",
+      ]);
+    });
+  });
+});
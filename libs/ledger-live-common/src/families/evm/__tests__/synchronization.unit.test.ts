@@ -1,7 +1,7 @@
 import BigNumber from "bignumber.js";
-import { Account, Operation } from "@ledgerhq/types-live";
+import { Account, Operation, TokenAccount } from "@ledgerhq/types-live";
 import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
-import { findCryptoCurrencyById } from "@ledgerhq/cryptoassets";
+import { findCryptoCurrencyById, findTokenById } from "@ledgerhq/cryptoassets";
 import { GetAccountShapeArg0 } from "../../../bridge/jsHelpers";
 import * as synchronization from "../synchronization";
 import { decodeAccountId } from "../../../account";
@@ -71,6 +71,9 @@ describe("EVM Family", () => {
           jest
             .spyOn(etherscanAPI?.default, "getLatestTransactions")
             .mockImplementation(() => Promise.resolve([]));
+          jest
+            .spyOn(etherscanAPI?.default, "getLatestTokenTransactions")
+            .mockImplementation(() => Promise.resolve([]));
         });
 
         afterAll(() => {
@@ -136,6 +139,9 @@ describe("EVM Family", () => {
           jest
             .spyOn(etherscanAPI?.default, "getLatestTransactions")
             .mockImplementation(() => Promise.resolve([fakeOperation]));
+          jest
+            .spyOn(etherscanAPI?.default, "getLatestTokenTransactions")
+            .mockImplementation(() => Promise.resolve([]));
         });
 
         afterAll(() => {
@@ -162,6 +168,9 @@ describe("EVM Family", () => {
           jest
             .spyOn(etherscanAPI?.default, "getLatestTransactions")
             .mockImplementation(() => Promise.resolve([]));
+          jest
+            .spyOn(etherscanAPI?.default, "getLatestTokenTransactions")
+            .mockImplementation(() => Promise.resolve([]));
           jest
             .spyOn(synchronization, "getOperationStatus")
             .mockImplementation((currency, op) =>
@@ -196,6 +205,131 @@ describe("EVM Family", () => {
           expect(account.operations).toEqual([fakeOperation]);
         });
       });
+
+      describe("With token transactions fetched", () => {
+        const tokenAccountId =
+          "js:2:ethereum:0xkvn:+ethereum%2Ferc20%2Fusd_tether__erc20_";
+        const fakeTokenOperation: Operation = {
+          ...fakeOperation,
+          id: `${tokenAccountId}-0xH4sH-OUT`,
+          accountId: tokenAccountId,
+          value: new BigNumber(10),
+          contract: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+        };
+
+        beforeAll(() => {
+          jest
+            .spyOn(etherscanAPI?.default, "getLatestTransactions")
+            .mockImplementation(() => Promise.resolve([fakeOperation]));
+          jest
+            .spyOn(etherscanAPI?.default, "getLatestTokenTransactions")
+            .mockImplementation(() => Promise.resolve([fakeTokenOperation]));
+          jest
+            .spyOn(rpcAPI, "getTokenBalance")
+            .mockImplementation(() => Promise.resolve(new BigNumber(42)));
+        });
+
+        afterAll(() => {
+          jest.restoreAllMocks();
+        });
+
+        it("should create the token accounts of the fetched token transactions", async () => {
+          const account = await synchronization.getAccountShape(
+            {
+              ...getAccountShapeParameters,
+              initialAccount: mockAccount,
+            },
+            {} as any
+          );
+          const [tokenAccount] = account.subAccounts as TokenAccount[];
+
+          expect(account.subAccounts).toHaveLength(1);
+          expect(tokenAccount.id).toBe(tokenAccountId);
+          expect(tokenAccount.token.id).toBe(
+            "ethereum/erc20/usd_tether__erc20_"
+          );
+          expect(tokenAccount.balance).toEqual(new BigNumber(42));
+          expect(tokenAccount.operations).toEqual([fakeTokenOperation]);
+        });
+
+        it("should link the token operations to the operations", async () => {
+          const account = await synchronization.getAccountShape(
+            {
+              ...getAccountShapeParameters,
+              initialAccount: mockAccount,
+            },
+            {} as any
+          );
+
+          expect(account.operations?.[0].subOperations).toEqual([
+            fakeTokenOperation,
+          ]);
+        });
+
+        it("should drop the pending token operations confirmed", async () => {
+          const account = await synchronization.getAccountShape(
+            {
+              ...getAccountShapeParameters,
+              initialAccount: {
+                ...mockAccount,
+                subAccounts: [
+                  {
+                    type: "TokenAccount",
+                    id: tokenAccountId,
+                    token: findTokenById("ethereum/erc20/usd_tether__erc20_")!,
+                    operations: [],
+                    pendingOperations: [
+                      { ...fakeTokenOperation, blockHeight: null },
+                    ],
+                  } as unknown as TokenAccount,
+                ],
+              },
+            },
+            {} as any
+          );
+
+          expect(account.subAccounts?.[0].pendingOperations).toEqual([]);
+        });
+
+        it("should mark the pending token operations replaced and drop the expired ones", async () => {
+          const replaced = {
+            ...fakeTokenOperation,
+            id: `${tokenAccountId}-0xR3pl4c3d-OUT`,
+            hash: "0xR3pl4c3d",
+            blockHeight: null,
+            date: new Date(),
+          };
+          const expired = {
+            ...fakeTokenOperation,
+            id: `${tokenAccountId}-0xExp1r3d-OUT`,
+            hash: "0xExp1r3d",
+            blockHeight: null,
+            transactionSequenceNumber: 2,
+          };
+          const account = await synchronization.getAccountShape(
+            {
+              ...getAccountShapeParameters,
+              initialAccount: {
+                ...mockAccount,
+                subAccounts: [
+                  {
+                    type: "TokenAccount",
+                    id: tokenAccountId,
+                    token: findTokenById("ethereum/erc20/usd_tether__erc20_")!,
+                    operations: [],
+                    pendingOperations: [replaced, expired],
+                  } as unknown as TokenAccount,
+                ],
+              },
+            },
+            {} as any
+          );
+
+          expect(account.subAccounts?.[0].pendingOperations).toEqual([
+            { ...replaced, replacedBy: "0xH4sH" },
+          ]);
+        });
+      });
     });
   });
 });
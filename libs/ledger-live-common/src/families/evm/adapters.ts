@@ -2,12 +2,17 @@ import eip55 from "eip55";
 import { ethers } from "ethers";
 import BigNumber from "bignumber.js";
 import { Operation, OperationType } from "@ledgerhq/types-live";
+import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import { findTokenByAddressInCurrency } from "@ledgerhq/cryptoassets";
 import { encodeOperationId } from "../../operation";
+import { encodeTokenAccountId } from "../../account";
+import { decodeContractCall } from "./decoder";
 import {
   Transaction as EvmTransaction,
   EvmTransactionEIP1559,
   EvmTransactionLegacy,
   EtherscanOperation,
+  EtherscanERC20Event,
 } from "./types";
 
 /**
@@ -52,7 +57,8 @@ export const transactionToEthersTransaction = (
 export const etherscanOperationToOperation = (
   accountId: string,
   address: string,
-  tx: EtherscanOperation
+  tx: EtherscanOperation,
+  currency: CryptoCurrency
 ): Operation | null => {
   const from = eip55.encode(tx.from);
   const to = tx.to ? eip55.encode(tx.to) : "";
@@ -76,6 +82,13 @@ export const etherscanOperationToOperation = (
   })();
 
   try {
+    const contractCall = decodeContractCall(
+      currency,
+      to,
+      tx.input,
+      tx.functionName
+    );
+
     return {
       id: encodeOperationId(accountId, tx.hash, type),
       hash: tx.hash,
@@ -89,10 +102,69 @@ export const etherscanOperationToOperation = (
       transactionSequenceNumber: parseInt(tx.nonce, 10),
       accountId: accountId,
       date: new Date(parseInt(tx.timeStamp, 10) * 1000),
-      extra: {},
+      extra: contractCall ? { contractCall } : {},
     };
   } catch (e) {
     // if something went wrong while parsing the etherscan operation, just return null
     return null;
   }
 };
+
+/**
+ * Adapter to convert an Etherscan-like ERC-20 transfer event into a Ledger Live
+ * Operation of the token account of the event token
+ */
+export const etherscanERC20EventToOperation = (
+  accountId: string,
+  address: string,
+  event: EtherscanERC20Event,
+  currency: CryptoCurrency
+): Operation | null => {
+  // only the tokens known by the live have a token account
+  const token = findTokenByAddressInCurrency(
+    event.contractAddress,
+    currency.id
+  );
+  if (!token) {
+    return null;
+  }
+
+  const tokenAccountId = encodeTokenAccountId(accountId, token);
+  const from = eip55.encode(event.from);
+  const to = event.to ? eip55.encode(event.to) : "";
+  const value = new BigNumber(event.value);
+  const fee = new BigNumber(event.gasUsed).times(new BigNumber(event.gasPrice));
+
+  const type = ((): OperationType => {
+    if (from === eip55.encode(address)) {
+      return "OUT";
+    }
+    if (to === eip55.encode(address)) {
+      return "IN";
+    }
+
+    return "NONE";
+  })();
+
+  try {
+    return {
+      id: encodeOperationId(tokenAccountId, event.hash, type),
+      hash: event.hash,
+      type: type,
+      value,
+      fee,
+      senders: [from],
+      recipients: [to],
+      blockHeight: parseInt(event.blockNumber, 10),
+      blockHash: event.blockHash,
+      transactionSequenceNumber: parseInt(event.nonce, 10),
+      accountId: tokenAccountId,
+      date: new Date(parseInt(event.timeStamp, 10) * 1000),
+      contract: token.contractAddress,
+      extra: {},
+    };
+  } catch (e) {
+    // if something went wrong while parsing the etherscan event, just return null
+    return null;
+  }
+};
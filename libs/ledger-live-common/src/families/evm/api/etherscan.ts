@@ -1,8 +1,11 @@
 import { Operation } from "@ledgerhq/types-live";
 import axios, { AxiosRequestConfig } from "axios";
 import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
-import { etherscanOperationToOperation } from "../adapters";
-import { EtherscanOperation } from "../types";
+import {
+  etherscanERC20EventToOperation,
+  etherscanOperationToOperation,
+} from "../adapters";
+import { EtherscanERC20Event, EtherscanOperation } from "../types";
 import { makeLRUCache } from "../../../cache";
 import { EtherscanAPIError } from "../errors";
 import { delay } from "../../../promise";
@@ -69,7 +72,47 @@ export const getLatestTransactions = makeLRUCache<
     });
 
     return ops
-      .map((tx) => etherscanOperationToOperation(accountId, address, tx))
+      .map((tx) =>
+        etherscanOperationToOperation(accountId, address, tx, currency)
+      )
+      .filter(Boolean) as Operation[];
+  },
+  (currency, address, accountId) => accountId,
+  { maxAge: 6 * 1000 }
+);
+
+/**
+ * Get all the latest ERC-20 transfer events, as operations of token accounts
+ */
+export const getLatestTokenTransactions = makeLRUCache<
+  [
+    currency: CryptoCurrency,
+    address: string,
+    accountId: string,
+    fromBlock: number
+  ],
+  Operation[]
+>(
+  async (currency, address, accountId, fromBlock) => {
+    const apiDomain = currency.ethereumLikeInfo?.explorer?.uri;
+    if (!apiDomain) {
+      return [];
+    }
+
+    let url = `${apiDomain}/api?module=account&action=tokentx&address=${address}&tag=latest&page=1&sort=desc`;
+    if (fromBlock) {
+      url += `&startBlock=${fromBlock}`;
+    }
+
+    const events = await fetchWithRetries<EtherscanERC20Event[]>({
+      method: "GET",
+      url,
+    });
+
+    return events
+      .map((event) =>
+        etherscanERC20EventToOperation(accountId, address, event, currency)
+      )
       .filter(Boolean) as Operation[];
   },
   (currency, address, accountId) => accountId,
@@ -78,4 +121,5 @@ export const getLatestTransactions = makeLRUCache<
 
 export default {
   getLatestTransactions,
+  getLatestTokenTransactions,
 };
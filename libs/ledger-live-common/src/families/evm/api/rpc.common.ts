@@ -3,6 +3,7 @@ import { ethers } from "ethers";
 import BigNumber from "bignumber.js";
 import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
 import { transactionToEthersTransaction } from "../adapters";
+import { getBalanceOfData } from "../logic";
 import { FeeHistory, Transaction as EvmTransaction } from "../types";
 import { Account } from "@ledgerhq/types-live";
 
@@ -79,6 +80,22 @@ export const getBalance = (
     return new BigNumber(balance.toString());
   });
 
+/**
+ * Get the balance of an address in an ERC-20 token
+ */
+export const getTokenBalance = (
+  currency: CryptoCurrency,
+  address: string,
+  contractAddress: string
+): Promise<BigNumber> =>
+  withApi(currency, async (api) => {
+    const balance = await api.call({
+      to: contractAddress,
+      data: getBalanceOfData(address),
+    });
+    return new BigNumber(balance);
+  });
+
 /**
  * Get account nonce
  */
@@ -188,15 +205,40 @@ export const getBlock = (
     return api.getBlock(blockHeight);
   });
 
+/**
+ * Get the address an ENS name resolves to
+ */
+export const resolveENSName = (
+  currency: CryptoCurrency,
+  name: string
+): Promise<string | null> =>
+  withApi(currency, async (api) => {
+    return api.resolveName(name);
+  });
+
+/**
+ * Get the primary ENS name of an address, only if it resolves back to it
+ */
+export const lookupENSAddress = (
+  currency: CryptoCurrency,
+  address: string
+): Promise<string | null> =>
+  withApi(currency, async (api) => {
+    return api.lookupAddress(address);
+  });
+
 export default {
   DEFAULT_RETRIES_RPC_METHODS,
   withApi,
   getAccount,
   getTransaction,
   getBalance,
+  getTokenBalance,
   getTransactionCount,
   getGasEstimation,
   getFeesEstimation,
   broadcastTransaction,
   getBlock,
+  resolveENSName,
+  lookupENSAddress,
 };
@@ -11,10 +11,8 @@ export const broadcast: AccountBridge<EvmTransaction>["broadcast"] = async ({
   signedOperation: { signature, operation },
 }) => {
   const txResponse = await broadcastTransaction(account.currency, signature);
-
-  return {
-    ...operation,
-    id: encodeOperationId(operation.accountId, txResponse.hash, "OUT"),
+  // the keys updated by the broadcast, on the operation and its sub operations
+  const broadcastedKeys = {
     hash: txResponse.hash,
     blockNumber: txResponse.blockNumber,
     blockHeight: txResponse.blockNumber,
@@ -22,6 +20,25 @@ export const broadcast: AccountBridge<EvmTransaction>["broadcast"] = async ({
     date: new Date(
       txResponse.timestamp ? txResponse.timestamp * 1000 : Date.now()
     ),
+  };
+
+  return {
+    ...operation,
+    id: encodeOperationId(operation.accountId, txResponse.hash, operation.type),
+    ...broadcastedKeys,
+    ...(operation.subOperations
+      ? {
+          subOperations: operation.subOperations.map((subOperation) => ({
+            ...subOperation,
+            id: encodeOperationId(
+              subOperation.accountId,
+              txResponse.hash,
+              subOperation.type
+            ),
+            ...broadcastedKeys,
+          })),
+        }
+      : {}),
   } as Operation;
 };
 
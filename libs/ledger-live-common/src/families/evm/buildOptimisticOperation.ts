@@ -2,7 +2,11 @@ import eip55 from "eip55";
 import { Account, Operation } from "@ledgerhq/types-live";
 import { encodeOperationId } from "../../operation";
 import { Transaction as EvmTransaction } from "./types";
-import { getEstimatedFees } from "./logic";
+import {
+  getEstimatedFees,
+  getTokenAmount,
+  getTransactionTokenAccount,
+} from "./logic";
 
 /**
  * Create a temporary operation to use until it's confirmed by the blockchain
@@ -11,9 +15,13 @@ export const buildOptimisticOperation = (
   account: Account,
   transaction: EvmTransaction
 ): Operation => {
-  const type = "OUT";
+  const tokenAccount = getTransactionTokenAccount(account, transaction);
+  // a token transaction only costs its fees to the account
+  const type = tokenAccount ? "FEES" : "OUT";
   const estimatedFees = getEstimatedFees(transaction);
-  const value = transaction.amount.plus(estimatedFees);
+  const value = tokenAccount
+    ? estimatedFees
+    : transaction.amount.plus(estimatedFees);
 
   // keys marked with a <-- will be updated by the broadcast method
   const operation: Operation = {
@@ -25,13 +33,42 @@ export const buildOptimisticOperation = (
     blockHash: null, // <--
     blockHeight: null, // <--
     senders: [eip55.encode(account.freshAddress)],
-    recipients: [eip55.encode(transaction.recipient)],
+    recipients: [
+      eip55.encode(
+        tokenAccount
+          ? tokenAccount.token.contractAddress
+          : transaction.recipient
+      ),
+    ],
     accountId: account.id,
     transactionSequenceNumber: transaction.nonce,
     date: new Date(), // <--
     extra: {},
+    ...(transaction.replaces ? { replaces: transaction.replaces } : {}),
   };
 
+  // an approval moves no token, only a transfer has an operation in the token account
+  if (tokenAccount && transaction.mode === "erc20.transfer") {
+    operation.subOperations = [
+      {
+        id: encodeOperationId(tokenAccount.id, "", "OUT"), // <--
+        hash: "", // <--
+        type: "OUT",
+        value: getTokenAmount(tokenAccount, transaction),
+        fee: estimatedFees,
+        blockHash: null, // <--
+        blockHeight: null, // <--
+        senders: [eip55.encode(account.freshAddress)],
+        recipients: [eip55.encode(transaction.recipient)],
+        accountId: tokenAccount.id,
+        transactionSequenceNumber: transaction.nonce,
+        contract: tokenAccount.token.contractAddress,
+        date: new Date(), // <--
+        extra: {},
+      },
+    ];
+  }
+
   return operation;
 };
 
@@ -0,0 +1,174 @@
+import {
+  findCryptoCurrency,
+  registerCryptoCurrency,
+  unregisterCryptoCurrency,
+} from "@ledgerhq/cryptoassets";
+import type { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
+import { setCustomSupportedCurrencies } from "../../currencies/support";
+import { InvalidCustomEvmNetwork } from "../../errors";
+
+/**
+ * An EVM network added by the user, stored in their settings
+ */
+export type CustomEvmNetwork = {
+  name: string;
+  chainId: number;
+  rpc: string;
+  // an etherscan-like API to sync the accounts, without it they have no history
+  explorer?: {
+    uri: string;
+    type: "etherscan" | "blockscout";
+  };
+  // the website of the explorer, to link the operations and addresses
+  explorerWebsite?: string;
+  // the native coin
+  unit: {
+    name: string;
+    code: string;
+    magnitude: number;
+  };
+  color?: string;
+  // the ticker of the currency whose icon is used, when the unit code has none
+  iconTicker?: string;
+  // countervalues are disabled unless the unit code is known by the API
+  countervalues?: boolean;
+};
+
+const idPrefix = "evm_custom_";
+const defaultColor = "#627eea";
+
+let customNetworks: CustomEvmNetwork[] = [];
+
+export const getCustomEvmNetworkCurrencyId = (chainId: number): string =>
+  `${idPrefix}${chainId}`;
+
+export const isCustomEvmNetwork = (currency: CryptoCurrency): boolean =>
+  currency.id.startsWith(idPrefix);
+
+export const getCustomEvmNetwork = (
+  currency: CryptoCurrency
+): CustomEvmNetwork | undefined =>
+  customNetworks.find(
+    (n) => getCustomEvmNetworkCurrencyId(n.chainId) === currency.id
+  );
+
+const isHttpUrl = (url: string | undefined): boolean => {
+  try {
+    return !!url && /^https?:$/.test(new URL(url).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Check a network can be added, throw an InvalidCustomEvmNetwork with the
+ * reason otherwise
+ */
+export function validateCustomEvmNetwork(network: CustomEvmNetwork): void {
+  const { name, chainId, rpc, explorer, explorerWebsite, unit } = network;
+  if (!name.trim()) {
+    throw new InvalidCustomEvmNetwork("name is required");
+  }
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new InvalidCustomEvmNetwork("chain id must be a positive integer");
+  }
+  const existing = findCryptoCurrency(
+    (c) => !isCustomEvmNetwork(c) && c.ethereumLikeInfo?.chainId === chainId
+  );
+  if (existing) {
+    throw new InvalidCustomEvmNetwork(
+      `chain id ${chainId} is the one of ${existing.name}`
+    );
+  }
+  if (!isHttpUrl(rpc)) {
+    throw new InvalidCustomEvmNetwork("rpc must be an http(s) url");
+  }
+  if (
+    explorer &&
+    (!isHttpUrl(explorer.uri) ||
+      !["etherscan", "blockscout"].includes(explorer.type))
+  ) {
+    throw new InvalidCustomEvmNetwork(
+      "explorer must be an etherscan or blockscout http(s) url"
+    );
+  }
+  if (explorerWebsite && !isHttpUrl(explorerWebsite)) {
+    throw new InvalidCustomEvmNetwork(
+      "explorer website must be an http(s) url"
+    );
+  }
+  if (
+    !unit.code.trim() ||
+    !Number.isInteger(unit.magnitude) ||
+    unit.magnitude < 0
+  ) {
+    throw new InvalidCustomEvmNetwork("unit needs a code and a magnitude");
+  }
+}
+
+export function customEvmNetworkToCurrency(
+  network: CustomEvmNetwork
+): CryptoCurrency {
+  const id = getCustomEvmNetworkCurrencyId(network.chainId);
+  const website = network.explorerWebsite?.replace(/\/$/, "");
+
+  return {
+    type: "CryptoCurrency",
+    id,
+    coinType: 60,
+    name: network.name,
+    managerAppName: "Ethereum",
+    ticker: network.unit.code,
+    scheme: id,
+    color: network.color || defaultColor,
+    family: "evm",
+    units: [
+      network.unit,
+      { name: "Gwei", code: "Gwei", magnitude: 9 },
+      { name: "Mwei", code: "Mwei", magnitude: 6 },
+      { name: "Kwei", code: "Kwei", magnitude: 3 },
+      { name: "wei", code: "wei", magnitude: 0 },
+    ].filter((unit, i) => i === 0 || unit.magnitude < network.unit.magnitude),
+    disableCountervalue: !network.countervalues,
+    ethereumLikeInfo: {
+      chainId: network.chainId,
+      rpc: network.rpc,
+      ...(network.explorer ? { explorer: network.explorer } : {}),
+    },
+    explorerViews: website
+      ? [
+          {
+            tx: `${website}/tx/$hash`,
+            address: `${website}/address/$address`,
+            token: `${website}/token/$contractAddress?a=$address`,
+          },
+        ]
+      : [],
+  };
+}
+
+/**
+ * Replace the custom networks of the user, typically when their settings are
+ * loaded or changed: each one becomes a supported currency of the evm family.
+ * The accounts of a network must be loaded after it is set.
+ */
+export function setCustomEvmNetworks(networks: CustomEvmNetwork[]): void {
+  networks.forEach(validateCustomEvmNetwork);
+  const chainIds = networks.map((n) => n.chainId);
+  const duplicate = chainIds.find((id, i) => chainIds.indexOf(id) !== i);
+  if (duplicate) {
+    throw new InvalidCustomEvmNetwork(`chain id ${duplicate} is used twice`);
+  }
+  for (const network of customNetworks) {
+    unregisterCryptoCurrency(getCustomEvmNetworkCurrencyId(network.chainId));
+  }
+
+  customNetworks = networks;
+  const currencies = networks.map(customEvmNetworkToCurrency);
+  for (const currency of currencies) {
+    registerCryptoCurrency(currency.id, currency);
+  }
+  setCustomSupportedCurrencies(currencies);
+}
+
+export const listCustomEvmNetworks = (): CustomEvmNetwork[] => customNetworks;
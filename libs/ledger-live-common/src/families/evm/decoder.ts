@@ -0,0 +1,180 @@
+import { ethers } from "ethers";
+import BigNumber from "bignumber.js";
+import { findTokenByAddressInCurrency } from "@ledgerhq/cryptoassets";
+import type { CryptoCurrency, Unit } from "@ledgerhq/types-cryptoassets";
+import { formatCurrencyUnit } from "../../currencies";
+import registry from "./data/abis.json";
+import signatures from "./data/signatures.json";
+import type { EvmContractCall, EvmContractCallArg } from "./types";
+
+type KnownContract = {
+  name: string;
+  // the keys of their ABIs in the registry
+  abis: string[];
+};
+
+const abis: Record<string, string[]> = registry.abis;
+const contracts: Record<string, Record<string, KnownContract> | undefined> =
+  registry.contracts;
+const fourBytes: Record<string, string | undefined> = signatures;
+
+// the names of the args of the standards that are an amount of the contract token
+const tokenAmountNames = [
+  "amount",
+  "value",
+  "wad",
+  "addedValue",
+  "subtractedValue",
+];
+
+const interfaces: Record<string, ethers.utils.Interface> = {};
+const getInterface = (keys: string[]): ethers.utils.Interface => {
+  const id = keys.join(",");
+  if (!interfaces[id]) {
+    interfaces[id] = new ethers.utils.Interface(
+      keys.flatMap((key) => abis[key] || [])
+    );
+  }
+  return interfaces[id];
+};
+
+// an interface of a single function from its signature, e.g.
+// "transfer(address _to, uint256 _value)" as given by the explorers
+const getSignatureInterface = (
+  signature: string | undefined
+): ethers.utils.Interface | null => {
+  if (!signature) return null;
+  try {
+    return new ethers.utils.Interface([`function ${signature}`]);
+  } catch (e) {
+    return null;
+  }
+};
+
+const toJSON = (value: unknown): unknown => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return value.map(toJSON);
+  return value;
+};
+
+const formatValue = (value: unknown): string | string[] => {
+  const json = toJSON(value);
+  if (Array.isArray(json)) {
+    return json.every((v) => typeof v !== "object")
+      ? json.map(String)
+      : JSON.stringify(json);
+  }
+  return String(json);
+};
+
+/**
+ * The unit of an amount arg: the token of the called contract for the
+ * standards, or the token it refers to in the other args for the routers
+ */
+const getAmountUnit = (
+  currency: CryptoCurrency,
+  contract: string,
+  args: EvmContractCallArg[],
+  name: string
+): Unit | undefined => {
+  const tokenUnit = (address: string | string[] | undefined) =>
+    typeof address === "string"
+      ? findTokenByAddressInCurrency(address, currency.id)?.units[0]
+      : undefined;
+  const arg = (argName: string) => args.find((a) => a.name === argName)?.value;
+
+  if (tokenAmountNames.includes(name.replace(/^_/, ""))) {
+    return tokenUnit(contract);
+  }
+  if (/^amountETH/.test(name)) {
+    return currency.units[0];
+  }
+  const path = arg("path");
+  if (Array.isArray(path) && /^amount(In|Out)/.test(name)) {
+    return tokenUnit(/^amountIn/.test(name) ? path[0] : path[path.length - 1]);
+  }
+  const match = /^amount(A|B|Token)/.exec(name);
+  if (match) {
+    return tokenUnit(arg(match[1] === "Token" ? "token" : `token${match[1]}`));
+  }
+  return undefined;
+};
+
+export const getContractCallSummary = ({
+  method,
+  args,
+  contractName,
+}: Omit<EvmContractCall, "summary">): string => {
+  const formattedArgs = args.map(
+    ({ name, value, formatted }) =>
+      `${name}: ${
+        formatted || (Array.isArray(value) ? `[${value.join(", ")}]` : value)
+      }`
+  );
+  const call = `${method}(${formattedArgs.join(", ")})`;
+  return contractName ? `${contractName}: ${call}` : call;
+};
+
+/**
+ * Decode the input of a transaction calling a contract, with the ABI of the
+ * contract when it is a known one, the standards ABIs, the signature given by
+ * the explorer or the local 4-byte signatures database, in this order
+ */
+export const decodeContractCall = (
+  currency: CryptoCurrency,
+  contract: string,
+  input: string,
+  explorerSignature?: string
+): EvmContractCall | null => {
+  if (!contract || !/^0x[0-9a-f]{8}/i.test(input)) return null;
+  const selector = input.slice(0, 10).toLowerCase();
+  const knownContract = contracts[currency.id]?.[contract.toLowerCase()];
+
+  const candidates = [
+    knownContract ? getInterface(knownContract.abis) : null,
+    getInterface(registry.standards),
+    getSignatureInterface(explorerSignature),
+    getSignatureInterface(fourBytes[selector]),
+  ];
+
+  for (const iface of candidates) {
+    if (!iface) continue;
+    let fragment: ethers.utils.FunctionFragment;
+    let result: ethers.utils.Result;
+    try {
+      fragment = iface.getFunction(selector);
+      result = iface.decodeFunctionData(fragment, input);
+    } catch (e) {
+      // not a function of this ABI, or its input doesn't match
+      continue;
+    }
+
+    const args: EvmContractCallArg[] = fragment.inputs.map((param, i) => ({
+      name: param.name || `arg${i}`,
+      type: param.format(),
+      value: formatValue(result[i]),
+    }));
+    for (const arg of args) {
+      const { type, value, name } = arg;
+      if (!/^uint/.test(type) || typeof value !== "string") continue;
+      const unit = getAmountUnit(currency, contract, args, name);
+      if (unit) {
+        arg.formatted = formatCurrencyUnit(unit, new BigNumber(value), {
+          showCode: true,
+          disableRounding: true,
+        });
+      }
+    }
+
+    const call = {
+      selector,
+      method: fragment.name,
+      signature: fragment.format(),
+      ...(knownContract ? { contractName: knownContract.name } : {}),
+      args,
+    };
+    return { ...call, summary: getContractCallSummary(call) };
+  }
+
+  return null;
+};
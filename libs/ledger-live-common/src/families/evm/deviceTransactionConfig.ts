@@ -15,7 +15,38 @@ function getDeviceTransactionConfig({
   const fields: Array<DeviceTransactionField> = [];
 
   switch (mode) {
+    case "erc20.approve":
+      fields.push(
+        {
+          type: "text",
+          label: "Type",
+          value: "Approve",
+        },
+        transaction.useAllAmount
+          ? {
+              type: "text",
+              label: "Amount",
+              value: "Unlimited",
+            }
+          : {
+              type: "amount",
+              label: "Amount",
+            },
+        {
+          type: "address",
+          label: "Spender",
+          address: transaction.recipient,
+        },
+        {
+          type: "text",
+          label: "Network",
+          value: account.currency.name,
+        }
+      );
+      break;
+
     default:
+    case "erc20.transfer":
     case "send":
       fields.push(
         {
@@ -6,6 +6,11 @@ import { createTransaction } from "./createTransaction";
 
 export const estimateMaxSpendable: AccountBridge<EvmTransaction>["estimateMaxSpendable"] =
   async ({ account, parentAccount, transaction }) => {
+    // all the tokens can be spent, the fees being paid by the parent account
+    if (account.type === "TokenAccount") {
+      return account.spendableBalance;
+    }
+
     const mainAccount = getMainAccount(account, parentAccount);
     const estimatedTx = {
       ...createTransaction(mainAccount),
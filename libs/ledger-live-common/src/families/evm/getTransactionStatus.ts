@@ -13,20 +13,30 @@ import {
 import {
   eip1559TransactionHasFees,
   getEstimatedFees,
+  getTokenAmount,
+  getTokenCall,
+  getTransactionTokenAccount,
+  isTokenTransaction,
   legacyTransactionHasFees,
 } from "./logic";
-import { Account, AccountBridge } from "@ledgerhq/types-live";
+import { Account, AccountBridge, TokenAccount } from "@ledgerhq/types-live";
 import {
   EvmTransactionEIP1559,
   EvmTransactionLegacy,
   Transaction as EvmTransaction,
 } from "./types";
+import { getSimulationIssues } from "./simulation";
+import { getReplacementFeeTooLowField } from "./replaceTransaction";
+import { ReplacementFeeTooLow } from "../../errors";
 
 type ValidatedTransactionFields =
   | "recipient"
   | "gasLimit"
   | "gasPrice"
-  | "amount";
+  | "maxFee"
+  | "maxPriorityFee"
+  | "amount"
+  | "simulation";
 type ValidationIssues = Partial<Record<ValidatedTransactionFields, Error>>;
 
 const DEFAULT_GAS_LIMIT = new BigNumber(21000);
@@ -82,8 +92,11 @@ export const validateAmount = (
   const errors: ValidationIssues = {};
   const warnings: ValidationIssues = {};
 
-  // if no amount or 0
-  if (!transaction.amount || transaction.amount.isZero()) {
+  // if no amount or 0, unless it cancels a pending transaction
+  if (
+    !transaction.replaces &&
+    (!transaction.amount || transaction.amount.isZero())
+  ) {
     errors.amount = new AmountRequired(); // "Amount required"
   } else if (totalSpent.isGreaterThan(account.balance)) {
     // if not enough to make the transaction
@@ -92,6 +105,36 @@ export const validateAmount = (
   return [errors, warnings];
 };
 
+/**
+ * Validate the amount of an ERC-20 transaction for the token account it's made from
+ */
+export const validateTokenAmount = (
+  tokenAccount: TokenAccount | undefined,
+  transaction: EvmTransaction,
+  amount: BigNumber
+): Array<ValidationIssues> => {
+  const errors: ValidationIssues = {};
+  const warnings: ValidationIssues = {};
+
+  // an unlimited approval has no amount to validate
+  const isUnlimitedApproval =
+    transaction.mode === "erc20.approve" && transaction.useAllAmount;
+
+  if (!tokenAccount) {
+    // no tokens to transfer or approve without the token account
+    errors.amount = new NotEnoughBalance(); // "Sorry, insufficient funds"
+  } else if (!isUnlimitedApproval && (!amount || amount.isZero())) {
+    errors.amount = new AmountRequired(); // "Amount required"
+  } else if (
+    transaction.mode === "erc20.transfer" &&
+    amount.isGreaterThan(tokenAccount.spendableBalance)
+  ) {
+    // if not enough tokens to make the transfer
+    errors.amount = new NotEnoughBalance(); // "Sorry, insufficient funds"
+  }
+  return [errors, warnings];
+};
+
 /**
  * Validate gas properties of a transaction, depending on its type and the account emitter
  */
@@ -122,22 +165,61 @@ export const validateGas = (
   return [errors, warnings];
 };
 
+/**
+ * Validate the outcome of a contract call by simulating it: whether it would
+ * revert, and the balance changes it would cause
+ */
+export const validateSimulation = async (
+  account: Account,
+  tx: EvmTransaction,
+  amount: BigNumber
+): Promise<Array<ValidationIssues>> => {
+  const call = isTokenTransaction(tx)
+    ? getTokenCall(account, tx)
+    : { ...tx, amount };
+  // a transfer of the native coin has nothing to simulate
+  if (!call.data || !call.data.length) {
+    return [{}, {}];
+  }
+
+  return getSimulationIssues(account.currency, {
+    from: account.freshAddress,
+    to: call.recipient,
+    value: call.amount,
+    data: `0x${call.data.toString("hex")}`,
+  });
+};
+
 /**
  * Validate a transaction and get all possibles errors and warnings about it
  */
 export const getTransactionStatus: AccountBridge<EvmTransaction>["getTransactionStatus"] =
-  (account, tx) => {
+  async (account, tx) => {
     const gasLimit = tx.gasLimit || DEFAULT_GAS_LIMIT;
     const estimatedFees = getEstimatedFees(tx);
-    const amount = tx.useAllAmount
+    const tokenAccount = getTransactionTokenAccount(account, tx);
+    // the amount of a token transaction is in the token, its fees are in the currency
+    const amount = isTokenTransaction(tx)
+      ? tokenAccount
+        ? getTokenAmount(tokenAccount, tx)
+        : tx.amount
+      : tx.useAllAmount
       ? account.balance.minus(estimatedFees)
       : tx.amount;
-    const totalSpent = amount?.plus(estimatedFees);
+    // an approval only allows a spender to transfer the tokens later
+    const totalSpent =
+      tx.mode === "erc20.approve"
+        ? new BigNumber(0)
+        : isTokenTransaction(tx)
+        ? amount
+        : amount?.plus(estimatedFees);
 
     // Recipient related errors and warnings
     const [recipientErr, recipientWarn] = validateRecipient(account, tx);
     // Amount related errors and warnings
-    const [amountErr, amountWarn] = validateAmount(account, tx, totalSpent);
+    const [amountErr, amountWarn] = isTokenTransaction(tx)
+      ? validateTokenAmount(tokenAccount, tx, amount)
+      : validateAmount(account, tx, totalSpent);
     // Gas related errors and warnings
     const [gasErr, gasWarn] = validateGas(account, tx, gasLimit, estimatedFees);
 
@@ -152,13 +234,31 @@ export const getTransactionStatus: AccountBridge<EvmTransaction>["getTransaction
       ...amountWarn,
     };
 
-    return Promise.resolve({
+    // a replacement must bump the fees of the transaction it replaces
+    const replacementFeeTooLow =
+      tx.replaces && (await getReplacementFeeTooLowField(account, tx));
+    if (replacementFeeTooLow && !errors[replacementFeeTooLow]) {
+      errors[replacementFeeTooLow] = new ReplacementFeeTooLow();
+    }
+
+    // only a valid transaction is worth simulating
+    if (!Object.keys(errors).length) {
+      const [simulationErr, simulationWarn] = await validateSimulation(
+        account,
+        tx,
+        amount
+      );
+      Object.assign(errors, simulationErr);
+      Object.assign(warnings, simulationWarn);
+    }
+
+    return {
       errors,
       warnings,
       estimatedFees,
       amount,
       totalSpent,
-    });
+    };
   };
 
 export default getTransactionStatus;
@@ -1,4 +1,6 @@
 import BigNumber from "bignumber.js";
+import { ethers } from "ethers";
+import { Account, AccountLike, TokenAccount } from "@ledgerhq/types-live";
 import {
   Transaction as EvmTransaction,
   EvmTransactionEIP1559,
@@ -32,3 +34,86 @@ export const getEstimatedFees = (tx: EvmTransaction): BigNumber => {
     new BigNumber(0)
   );
 };
+
+const erc20Interface = new ethers.utils.Interface([
+  "function transfer(address to, uint256 value)",
+  "function approve(address spender, uint256 value)",
+  "function balanceOf(address owner) view returns (uint256)",
+]);
+
+/**
+ * Helper to check if a transaction is calling the contract of a token
+ */
+export const isTokenTransaction = (tx: EvmTransaction): boolean =>
+  tx.mode === "erc20.transfer" || tx.mode === "erc20.approve";
+
+/**
+ * Helper to get the token account an ERC-20 transaction is made from
+ */
+export const getTransactionTokenAccount = (
+  account: AccountLike,
+  tx: EvmTransaction
+): TokenAccount | undefined => {
+  if (!isTokenTransaction(tx)) {
+    return undefined;
+  }
+  if (account.type === "TokenAccount") {
+    return account;
+  }
+  const subAccount = (account as Account).subAccounts?.find(
+    (a) => a.id === tx.subAccountId
+  );
+  return subAccount?.type === "TokenAccount" ? subAccount : undefined;
+};
+
+/**
+ * Helper to get the amount of tokens of an ERC-20 transaction,
+ * an approval of all the amount being unlimited
+ */
+export const getTokenAmount = (
+  tokenAccount: TokenAccount,
+  tx: EvmTransaction
+): BigNumber => {
+  if (!tx.useAllAmount) {
+    return tx.amount;
+  }
+  return tx.mode === "erc20.approve"
+    ? new BigNumber(ethers.constants.MaxUint256.toString())
+    : tokenAccount.spendableBalance;
+};
+
+/**
+ * Helper to get the call of an ERC-20 transaction to the contract of its
+ * token, which is the one sent to the network
+ */
+export const getTokenCall = (
+  account: Account,
+  tx: EvmTransaction
+): EvmTransaction => {
+  if (!isTokenTransaction(tx)) {
+    return tx;
+  }
+  const tokenAccount = getTransactionTokenAccount(account, tx);
+  if (!tokenAccount) {
+    throw new Error("sub account missing");
+  }
+  const method = tx.mode === "erc20.approve" ? "approve" : "transfer";
+  const data = erc20Interface.encodeFunctionData(method, [
+    tx.recipient,
+    getTokenAmount(tokenAccount, tx).toFixed(),
+  ]);
+
+  return {
+    ...tx,
+    recipient: tokenAccount.token.contractAddress,
+    amount: new BigNumber(0),
+    useAllAmount: false,
+    data: Buffer.from(data.slice(2), "hex"),
+  };
+};
+
+/**
+ * Helper to get the data of a call to the balanceOf method of an ERC-20 contract
+ */
+export const getBalanceOfData = (address: string): string =>
+  erc20Interface.encodeFunctionData("balanceOf", [address]);
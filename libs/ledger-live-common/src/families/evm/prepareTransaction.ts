@@ -6,9 +6,20 @@ import {
   Transaction as EvmTransaction,
 } from "./types";
 import { Account } from "@ledgerhq/types-live";
-import { getEstimatedFees } from "./logic";
+import {
+  getEstimatedFees,
+  getTokenAmount,
+  getTokenCall,
+  getTransactionTokenAccount,
+  isTokenTransaction,
+} from "./logic";
+import { getReplacementFeeData } from "./replaceTransaction";
 import { estimateMaxSpendable } from "./estimateMaxSpendable";
-import { validateAmount, validateRecipient } from "./getTransactionStatus";
+import {
+  validateAmount,
+  validateRecipient,
+  validateTokenAmount,
+} from "./getTransactionStatus";
 
 export const prepareTransaction = async (
   account: Account,
@@ -23,21 +34,31 @@ export const prepareTransaction = async (
     : transaction.amount;
   const totalSpent = tempAmount?.plus(estimatedFees);
 
+  const tokenAccount = getTransactionTokenAccount(account, transaction);
+
   const [recipientvalidationErrors] = validateRecipient(account, transaction);
-  const [amountValidationErrors] = validateAmount(
-    account,
-    transaction,
-    totalSpent
-  );
+  const [amountValidationErrors] = isTokenTransaction(transaction)
+    ? validateTokenAmount(
+        tokenAccount,
+        transaction,
+        tokenAccount
+          ? getTokenAmount(tokenAccount, transaction)
+          : transaction.amount
+      )
+    : validateAmount(account, transaction, totalSpent);
   const { recipient: recipientErrors } = recipientvalidationErrors || {};
   const { amount: amountErrors } = amountValidationErrors || {};
   const [gasLimit, feeData] = await Promise.all([
     // Validating recipient and amount first cause estimating a transaction with a wrong recipient or wrong amount will throw an error
     recipientErrors || amountErrors
       ? Promise.resolve(new BigNumber(21000))
-      : getGasEstimation(account, transaction),
+      : // a token transaction is estimated as the call to the contract of its token
+        getGasEstimation(account, getTokenCall(account, transaction)),
     // Fee data is not dependent on the gasEstimation so they can be triggered in parallel
-    getFeesEstimation(currency),
+    // The fees of a replacement are bumped from the ones it replaces by buildReplacementTransaction
+    transaction.replaces
+      ? Promise.resolve(getReplacementFeeData(transaction))
+      : getFeesEstimation(currency),
   ]);
 
   // First the transaction is creating with its correct type, in order for the `estimateMaxSpendable` to be correct
@@ -66,9 +87,15 @@ export const prepareTransaction = async (
       type: 0,
     } as EvmTransactionLegacy;
   })();
-  const amount = transaction.useAllAmount
-    ? await estimateMaxSpendable({ account, transaction: typedTransaction })
-    : transaction.amount;
+  const amount = await (async () => {
+    if (!transaction.useAllAmount || transaction.mode === "erc20.approve") {
+      return transaction.amount;
+    }
+    if (tokenAccount) {
+      return tokenAccount.spendableBalance;
+    }
+    return estimateMaxSpendable({ account, transaction: typedTransaction });
+  })();
 
   return {
     ...typedTransaction,
@@ -0,0 +1,157 @@
+import BigNumber from "bignumber.js";
+import { ethers } from "ethers";
+import { Account, Operation } from "@ledgerhq/types-live";
+import { TransactionNotReplaceable } from "../../errors";
+import { getFeesEstimation, getTransaction } from "./api/rpc";
+import { createTransaction } from "./createTransaction";
+import {
+  EvmTransactionEIP1559,
+  EvmTransactionLegacy,
+  Transaction as EvmTransaction,
+} from "./types";
+
+// speed up re-sends the transaction, cancel sends nothing to the account itself
+export type ReplacementMode = "speedup" | "cancel";
+
+type FeeData = {
+  maxFeePerGas: null | BigNumber;
+  maxPriorityFeePerGas: null | BigNumber;
+  gasPrice: null | BigNumber;
+};
+
+// nodes only accept a transaction with the nonce of a pending one if each of
+// its fees is at least 10% higher
+const MIN_REPLACEMENT_BUMP = 1.1;
+
+const bump = (fee: ethers.BigNumber | undefined | null): BigNumber | null =>
+  fee
+    ? new BigNumber(fee.toString())
+        .times(MIN_REPLACEMENT_BUMP)
+        .integerValue(BigNumber.ROUND_CEIL)
+    : null;
+
+const max = (a: BigNumber | null, b: BigNumber | null) =>
+  a && b ? BigNumber.max(a, b) : a || b;
+
+/**
+ * The lowest fees of a transaction replacing a pending one
+ */
+export const getMinimumReplacementFees = (
+  pending: ethers.providers.TransactionResponse
+): FeeData => ({
+  maxFeePerGas: bump(pending.maxFeePerGas),
+  maxPriorityFeePerGas: bump(pending.maxPriorityFeePerGas),
+  gasPrice: bump(pending.gasPrice),
+});
+
+/**
+ * The fees of a replacement, which prepareTransaction keeps
+ */
+export const getReplacementFeeData = (
+  transaction: EvmTransaction
+): FeeData => ({
+  maxFeePerGas: transaction.maxFeePerGas || null,
+  maxPriorityFeePerGas: transaction.maxPriorityFeePerGas || null,
+  gasPrice: transaction.gasPrice || null,
+});
+
+/**
+ * The fee of a replacement that is below the minimum bump of the pending
+ * transaction it replaces, which nodes would refuse
+ */
+export const getReplacementFeeTooLowField = async (
+  account: Account,
+  transaction: EvmTransaction
+): Promise<"gasPrice" | "maxFee" | "maxPriorityFee" | undefined> => {
+  if (!transaction.replaces) {
+    return undefined;
+  }
+  const pending = await getTransaction(account.currency, transaction.replaces);
+  // unknown to the node, or already confirmed, there is nothing to bump
+  if (!pending || pending.blockNumber) {
+    return undefined;
+  }
+  const minimum = getMinimumReplacementFees(pending);
+  const fees = getReplacementFeeData(transaction);
+  const isBelow = (fee: BigNumber | null, min: BigNumber | null) =>
+    !!min && (!fee || fee.lt(min));
+  if (pending.type === 2) {
+    if (isBelow(fees.maxPriorityFeePerGas, minimum.maxPriorityFeePerGas)) {
+      return "maxPriorityFee";
+    }
+    return isBelow(fees.maxFeePerGas, minimum.maxFeePerGas)
+      ? "maxFee"
+      : undefined;
+  }
+  return isBelow(fees.gasPrice, minimum.gasPrice) ? "gasPrice" : undefined;
+};
+
+/**
+ * Build a transaction with the nonce of a pending operation, which either
+ * re-sends it or cancels it, with fees above both the current network ones and
+ * the minimum bump of the pending transaction ones
+ */
+export const buildReplacementTransaction = async (
+  account: Account,
+  operation: Operation,
+  mode: ReplacementMode
+): Promise<EvmTransaction> => {
+  const { currency } = account;
+  const [pending, feeData] = await Promise.all([
+    getTransaction(currency, operation.hash),
+    getFeesEstimation(currency),
+  ]);
+  // unknown to the node, or already confirmed
+  if (!pending || pending.blockNumber) {
+    throw new TransactionNotReplaceable();
+  }
+  const minimum = getMinimumReplacementFees(pending);
+
+  const content =
+    mode === "cancel"
+      ? {
+          recipient: account.freshAddress,
+          amount: new BigNumber(0),
+          data: null,
+          gasLimit: new BigNumber(21000),
+        }
+      : {
+          recipient: pending.to || "",
+          amount: new BigNumber(pending.value.toString()),
+          data:
+            pending.data && pending.data !== "0x"
+              ? Buffer.from(pending.data.slice(2), "hex")
+              : null,
+          gasLimit: new BigNumber(pending.gasLimit.toString()),
+        };
+
+  const base = {
+    ...createTransaction(account),
+    ...content,
+    nonce: pending.nonce,
+    feesStrategy: "custom" as const,
+    replaces: operation.hash,
+  };
+
+  if (pending.type === 2) {
+    const maxPriorityFeePerGas = max(
+      minimum.maxPriorityFeePerGas,
+      feeData.maxPriorityFeePerGas
+    );
+    return {
+      ...base,
+      maxPriorityFeePerGas,
+      maxFeePerGas: max(minimum.maxFeePerGas, feeData.maxFeePerGas),
+      type: 2,
+    } as EvmTransactionEIP1559;
+  }
+
+  const legacyTransaction = {
+    ...base,
+    gasPrice: max(minimum.gasPrice, feeData.gasPrice),
+    type: 0,
+  };
+  delete legacyTransaction.maxFeePerGas;
+  delete legacyTransaction.maxPriorityFeePerGas;
+  return legacyTransaction as EvmTransactionLegacy;
+};
@@ -0,0 +1,277 @@
+import { ethers } from "ethers";
+import BigNumber from "bignumber.js";
+import { log } from "@ledgerhq/logs";
+import { findTokenByAddressInCurrency } from "@ledgerhq/cryptoassets";
+import type {
+  CryptoCurrency,
+  TokenCurrency,
+} from "@ledgerhq/types-cryptoassets";
+import network from "../../network";
+import { makeLRUCache } from "../../cache";
+import { formatCurrencyUnit } from "../../currencies";
+import {
+  SimulatedBalanceChanges,
+  SimulatedTransactionReverted,
+} from "../../errors";
+import { decodeContractCall } from "./decoder";
+
+export type SimulationRequest = {
+  from: string;
+  to: string;
+  value: BigNumber;
+  // hex encoded input of the call
+  data: string;
+};
+
+export type AssetDelta = {
+  currency: CryptoCurrency | TokenCurrency;
+  // negative when the sender of the transaction spends it
+  amount: BigNumber;
+};
+
+export type SimulationResult = {
+  reverted: boolean;
+  revertReason: string | null;
+  deltas: AssetDelta[];
+};
+
+/**
+ * Predict the outcome of a transaction, null when it can't be simulated
+ */
+export type TransactionSimulator = (
+  currency: CryptoCurrency,
+  request: SimulationRequest
+) => Promise<SimulationResult | null>;
+
+type RpcError = { code: number; message: string; data?: unknown };
+
+// a call of the trace of the callTracer, with its sub calls
+type CallFrame = {
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  calls?: CallFrame[];
+  logs?: { address: string; topics: string[]; data: string }[];
+};
+
+const transferTopic = ethers.utils.id("Transfer(address,address,uint256)");
+// Error(string) and Panic(uint256) selectors
+const errorSelector = "0x08c379a0";
+const panicSelector = "0x4e487b71";
+
+const sameAddress = (a: string | undefined, b: string) =>
+  !!a && a.toLowerCase() === b.toLowerCase();
+
+const rpcCall = async <T>(
+  url: string,
+  method: string,
+  params: unknown[]
+): Promise<{ result?: T; error?: RpcError }> => {
+  const { data } = await network({
+    method: "POST",
+    url,
+    data: { jsonrpc: "2.0", id: 1, method, params },
+  });
+  return data;
+};
+
+const isRevert = (error: RpcError) =>
+  error.code === 3 || /revert/i.test(error.message);
+
+/**
+ * The reason of a reverted call, decoded from its revert data when it has one
+ */
+export const getRevertReason = (error: RpcError): string => {
+  const data = typeof error.data === "string" ? error.data : "";
+  try {
+    if (data.startsWith(errorSelector)) {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(
+        ["string"],
+        "0x" + data.slice(10)
+      );
+      return reason;
+    }
+    if (data.startsWith(panicSelector)) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(
+        ["uint256"],
+        "0x" + data.slice(10)
+      );
+      return `panic ${code.toHexString()}`;
+    }
+  } catch (e) {
+    // custom errors are left to the message of the node
+  }
+  return error.message.replace(/^execution reverted:?\s*/, "") || "reverted";
+};
+
+const addDelta = (
+  deltas: AssetDelta[],
+  currency: CryptoCurrency | TokenCurrency,
+  amount: BigNumber
+) => {
+  const delta = deltas.find((d) => d.currency.id === currency.id);
+  if (delta) {
+    delta.amount = delta.amount.plus(amount);
+  } else {
+    deltas.push({ currency, amount });
+  }
+};
+
+// the value and the ERC-20 transfers of the calls of a trace, from or to the sender
+const getTraceDeltas = (
+  currency: CryptoCurrency,
+  address: string,
+  frame: CallFrame,
+  deltas: AssetDelta[] = []
+): AssetDelta[] => {
+  // the changes of a reverted call are dropped
+  if (frame.error) return deltas;
+
+  const value = new BigNumber(frame.value || 0);
+  if (!value.isZero() && sameAddress(frame.from, address)) {
+    addDelta(deltas, currency, value.negated());
+  }
+  if (!value.isZero() && sameAddress(frame.to, address)) {
+    addDelta(deltas, currency, value);
+  }
+
+  for (const { address: contract, topics, data } of frame.logs || []) {
+    // ERC-721 transfers have their token id as a 4th topic
+    if (topics.length !== 3 || topics[0] !== transferTopic) continue;
+    const token = findTokenByAddressInCurrency(contract, currency.id);
+    if (!token) continue;
+    const amount = new BigNumber(data);
+    if (sameAddress("0x" + topics[1].slice(26), address)) {
+      addDelta(deltas, token, amount.negated());
+    }
+    if (sameAddress("0x" + topics[2].slice(26), address)) {
+      addDelta(deltas, token, amount);
+    }
+  }
+
+  for (const call of frame.calls || []) {
+    getTraceDeltas(currency, address, call, deltas);
+  }
+  return deltas;
+};
+
+// without a trace, the changes are the value and the tokens the call transfers
+const getCallDeltas = (
+  currency: CryptoCurrency,
+  { from, to, value, data }: SimulationRequest
+): AssetDelta[] => {
+  const deltas: AssetDelta[] = [];
+  if (!value.isZero()) {
+    addDelta(deltas, currency, value.negated());
+  }
+  const token = findTokenByAddressInCurrency(to, currency.id);
+  const call = token && decodeContractCall(currency, to, data);
+  if (token && call?.signature === "transfer(address,uint256)") {
+    const [recipient, amount] = call.args;
+    if (!sameAddress(recipient.value as string, from)) {
+      addDelta(deltas, token, new BigNumber(amount.value as string).negated());
+    }
+  }
+  return deltas;
+};
+
+/**
+ * Simulate a transaction on the node of its currency: an eth_call predicts if
+ * it reverts, and a debug_traceCall its balance changes when the node
+ * supports it
+ */
+export const rpcSimulator: TransactionSimulator = async (currency, request) => {
+  const url = currency.ethereumLikeInfo?.rpc;
+  if (!url) return null;
+
+  const call = {
+    from: request.from,
+    to: request.to,
+    value: "0x" + request.value.toString(16),
+    data: request.data,
+  };
+  const { error } = await rpcCall<string>(url, "eth_call", [call, "latest"]);
+  if (error) {
+    if (!isRevert(error)) {
+      throw new Error(error.message);
+    }
+    return { reverted: true, revertReason: getRevertReason(error), deltas: [] };
+  }
+
+  const trace = await rpcCall<CallFrame>(url, "debug_traceCall", [
+    call,
+    "latest",
+    { tracer: "callTracer", tracerConfig: { withLog: true } },
+  ]);
+  return {
+    reverted: false,
+    revertReason: null,
+    deltas: (trace.result
+      ? getTraceDeltas(currency, request.from, trace.result)
+      : getCallDeltas(currency, request)
+    ).filter((d) => !d.amount.isZero()),
+  };
+};
+
+let simulator: TransactionSimulator = rpcSimulator;
+
+/**
+ * Replace the simulator of the transactions, e.g. by a simulation service
+ */
+export const setTransactionSimulator = (
+  transactionSimulator: TransactionSimulator
+): void => {
+  simulator = transactionSimulator;
+  simulateTransaction.reset();
+};
+
+// useBridgeTransaction debounces the statuses while a transaction is edited,
+// the same transaction is only simulated again once its result expired
+export const simulateTransaction = makeLRUCache(
+  (currency: CryptoCurrency, request: SimulationRequest) =>
+    simulator(currency, request),
+  (currency, { from, to, value, data }) =>
+    [currency.id, from, to, value.toFixed(), data].join("_").toLowerCase(),
+  { max: 100, maxAge: 15 * 1000 }
+);
+
+const formatDelta = ({ currency, amount }: AssetDelta) =>
+  (amount.isPositive() ? "+" : "") +
+  formatCurrencyUnit(currency.units[0], amount, {
+    showCode: true,
+    disableRounding: true,
+  });
+
+/**
+ * The issues of the simulation of a transaction: an error when it would
+ * revert, a warning with the balance changes it would cause otherwise.
+ * A simulation that can't run has no issues.
+ */
+export const getSimulationIssues = async (
+  currency: CryptoCurrency,
+  request: SimulationRequest
+): Promise<[{ simulation?: Error }, { simulation?: Error }]> => {
+  let result: SimulationResult | null = null;
+  try {
+    result = await simulateTransaction(currency, request);
+  } catch (e) {
+    log("evm/simulation", "simulation failed " + String(e));
+  }
+
+  if (result?.reverted) {
+    const reason = result.revertReason || "";
+    return [
+      { simulation: new SimulatedTransactionReverted(reason, { reason }) },
+      {},
+    ];
+  }
+  if (result?.deltas.length) {
+    const changes = result.deltas.map(formatDelta).join(", ");
+    return [
+      {},
+      { simulation: new SimulatedBalanceChanges(changes, { changes }) },
+    ];
+  }
+  return [{}, {}];
+};
@@ -1,12 +1,32 @@
-import { Account, Operation } from "@ledgerhq/types-live";
+import union from "lodash/union";
+import groupBy from "lodash/groupBy";
+import {
+  Account,
+  Operation,
+  SubAccount,
+  TokenAccount,
+} from "@ledgerhq/types-live";
 import { CryptoCurrency } from "@ledgerhq/types-cryptoassets";
-import { getAccount, getBlock, getTransaction } from "./api/rpc";
-import { encodeAccountId } from "../../account";
+import {
+  getAccount,
+  getBlock,
+  getTokenBalance,
+  getTransaction,
+} from "./api/rpc";
+import {
+  decodeTokenAccountId,
+  emptyHistoryCache,
+  encodeAccountId,
+  inferSubOperations,
+  markReplacedPendingOperations,
+  shouldRetainPendingOperation,
+} from "../../account";
 import etherscanLikeApi from "./api/etherscan";
 import {
   makeSync,
   makeScanAccounts,
   mergeOps,
+  GetAccountShapeArg0,
   GetAccountShape,
 } from "../../bridge/jsHelpers";
 
@@ -38,12 +58,7 @@ export const getAccountShape: GetAccountShape = async (info) => {
   });
 
   // Get the latest stored operation to know where to start the new sync
-  const latestOperation = initialAccount?.operations?.reduce((acc, curr) => {
-    if (!acc) {
-      return curr;
-    }
-    return (acc?.blockHeight || 0) > (curr?.blockHeight || 0) ? acc : curr;
-  }, null as Operation | null);
+  const latestOperation = getLatestOperation(initialAccount?.operations || []);
   // This method could not be working if the integration doesn't have an API to retreive the operations
   const lastOperations = await (async () => {
     try {
@@ -69,8 +84,33 @@ export const getAccountShape: GetAccountShape = async (info) => {
     (ops) => ops.filter((op): op is Operation => !!op)
   );
 
-  const newOperations = [...confirmedOperations, ...lastOperations];
+  const subAccounts = await getSubAccounts(
+    info,
+    accountId,
+    initialAccount?.subAccounts || []
+  );
+  // the operations calling the contract of a token are linked to the
+  // operations of its token account
+  const newOperations = [...confirmedOperations, ...lastOperations].map(
+    (op) => {
+      const subOperations = inferSubOperations(op.hash, subAccounts);
+      return subOperations.length ? { ...op, subOperations } : op;
+    }
+  );
   const operations = mergeOps(initialAccount?.operations || [], newOperations);
+  // as the ones of the account, the pending operations of the token accounts
+  // are replaced by a speed up or a cancellation, and expire
+  const syncedSubAccounts = initialAccount
+    ? subAccounts.map((tokenAccount) => ({
+        ...tokenAccount,
+        pendingOperations: markReplacedPendingOperations(
+          tokenAccount.pendingOperations,
+          operations
+        ).filter((op) =>
+          shouldRetainPendingOperation({ ...initialAccount, operations }, op)
+        ),
+      }))
+    : subAccounts;
 
   return {
     id: accountId,
@@ -79,9 +119,105 @@ export const getAccountShape: GetAccountShape = async (info) => {
     operationsCount: nonce,
     blockHeight,
     operations,
+    subAccounts: syncedSubAccounts,
   } as Partial<Account>;
 };
 
+/**
+ * Get the operation with the highest block height
+ */
+const getLatestOperation = (operations: Operation[]): Operation | null =>
+  operations.reduce((acc, curr) => {
+    if (!acc) {
+      return curr;
+    }
+    return (acc?.blockHeight || 0) > (curr?.blockHeight || 0) ? acc : curr;
+  }, null as Operation | null);
+
+/**
+ * Synchronize the ERC-20 token accounts of an account, from the transfer
+ * events of the explorer and the balances of the token contracts
+ */
+export const getSubAccounts = async (
+  info: GetAccountShapeArg0,
+  accountId: string,
+  initialSubAccounts: SubAccount[]
+): Promise<TokenAccount[]> => {
+  const { address, currency } = info;
+  const initialTokenAccounts = initialSubAccounts.filter(
+    (a): a is TokenAccount => a.type === "TokenAccount"
+  );
+  const latestOperation = getLatestOperation(
+    initialTokenAccounts.flatMap((a) => a.operations)
+  );
+  const lastTokenOperations = await (async () => {
+    try {
+      const { getLatestTokenTransactions } = await getExplorerApi(currency);
+      return await getLatestTokenTransactions(
+        currency,
+        address,
+        accountId,
+        latestOperation?.blockHeight ? latestOperation.blockHeight : 0
+      );
+    } catch (e) {
+      return [];
+    }
+  })();
+
+  const tokenOperationsByAccountId = groupBy(
+    lastTokenOperations,
+    (op) => op.accountId
+  );
+  const tokenAccountIds = union(
+    initialTokenAccounts.map((a) => a.id),
+    Object.keys(tokenOperationsByAccountId)
+  );
+
+  const tokenAccounts = tokenAccountIds.map(async (id) => {
+    const initialTokenAccount = initialTokenAccounts.find((a) => a.id === id);
+    const { token } = decodeTokenAccountId(id);
+    if (!token) {
+      return null;
+    }
+
+    const operations = mergeOps(
+      initialTokenAccount?.operations || [],
+      tokenOperationsByAccountId[id] || []
+    );
+    const balance = await getTokenBalance(
+      currency,
+      address,
+      token.contractAddress
+    );
+    const lastOperation = operations[operations.length - 1];
+
+    return {
+      type: "TokenAccount",
+      id,
+      parentId: accountId,
+      token,
+      balance,
+      spendableBalance: balance,
+      creationDate:
+        initialTokenAccount?.creationDate ||
+        (lastOperation ? lastOperation.date : new Date()),
+      operationsCount: operations.length,
+      operations,
+      // the pending operations confirmed by the explorer are dropped
+      pendingOperations: (initialTokenAccount?.pendingOperations || []).filter(
+        (pending) => !operations.some((op) => op.hash === pending.hash)
+      ),
+      starred: initialTokenAccount?.starred || false,
+      swapHistory: initialTokenAccount?.swapHistory || [],
+      balanceHistoryCache: emptyHistoryCache, // calculated in the jsHelpers
+    } as TokenAccount;
+  });
+
+  return Promise.all(tokenAccounts).then((accounts) =>
+    accounts.filter((a): a is TokenAccount => !!a)
+  );
+};
+
 /**
  * Get a finalized operation depending on it status (confirmed or not)
  */
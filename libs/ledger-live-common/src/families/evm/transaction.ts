@@ -14,6 +14,7 @@ import {
 import { getAccountUnit } from "../../account";
 import { formatCurrencyUnit } from "../../currencies";
 import { getTransactionCount } from "./api/rpc";
+import { getTokenCall } from "./logic";
 
 /**
  * Format the transaction for the CLI
@@ -57,6 +58,10 @@ export const fromTransactionRaw = (
     tx.data = Buffer.from(rawTx.data, "hex");
   }
 
+  if (rawTx.replaces) {
+    tx.replaces = rawTx.replaces;
+  }
+
   if (rawTx.gasPrice) {
     tx.gasPrice = new BigNumber(rawTx.gasPrice);
   }
@@ -92,6 +97,10 @@ export const toTransactionRaw = (tx: EvmTransaction): EvmTransactionRaw => {
     txRaw.data = Buffer.from(tx.data).toString("hex");
   }
 
+  if (tx.replaces) {
+    txRaw.replaces = tx.replaces;
+  }
+
   if (tx.gasPrice) {
     txRaw.gasPrice = tx.gasPrice?.toFixed();
   }
@@ -110,16 +119,20 @@ export const toTransactionRaw = (tx: EvmTransaction): EvmTransactionRaw => {
 /**
  * Create an unsigned transaction from a Ledger Live transaction.
  * Usually called "buildTransaction"
+ * An ERC-20 transaction becomes the call to the contract of its token
  */
 export const transactionToUnsignedTransaction = async (
   account: Account,
   tx: EvmTransaction
 ): Promise<EvmTransaction> => {
   const { currency, freshAddress } = account;
-  const nonce = await getTransactionCount(currency, freshAddress);
+  // a replacement keeps the nonce of the transaction it replaces
+  const nonce = tx.replaces
+    ? tx.nonce
+    : await getTransactionCount(currency, freshAddress);
 
   return {
-    ...tx,
+    ...getTokenCall(account, tx),
     nonce,
   };
 };
@@ -6,16 +6,20 @@ import {
   TransactionStatusCommonRaw,
 } from "@ledgerhq/types-live";
 
-export type EvmTransactionMode = "send";
+// the ERC-20 modes call the contract of the token of the sub account of the
+// transaction, for its recipient and with its amount
+export type EvmTransactionMode = "send" | "erc20.transfer" | "erc20.approve";
 
 export type EvmTransactionBase = TransactionCommon & {
   family: "evm";
-  mode: "send";
+  mode: EvmTransactionMode;
   nonce: number;
   gasLimit: BigNumber;
   chainId: number;
   data?: Buffer | null;
   type?: number;
+  // hash of the pending operation this transaction replaces, with its nonce
+  replaces?: string;
 };
 
 export type EvmTransactionLegacy = EvmTransactionBase & {
@@ -34,12 +38,13 @@ export type Transaction = EvmTransactionLegacy | EvmTransactionEIP1559;
 
 export type EvmTransactionBaseRaw = TransactionCommonRaw & {
   family: "evm";
-  mode: "send";
+  mode: EvmTransactionMode;
   nonce: number;
   gasLimit: string;
   chainId: number;
   data?: string | null;
   type?: number;
+  replaces?: string;
 };
 
 export type EvmTransactionLegacyRaw = EvmTransactionBaseRaw & {
@@ -56,6 +61,35 @@ export type EvmTransactionEIP1559Raw = EvmTransactionBaseRaw & {
 
 export type TransactionRaw = EvmTransactionLegacyRaw | EvmTransactionEIP1559Raw;
 
+export type EvmContractCallArg = {
+  name: string;
+  // solidity type, e.g. "address[]"
+  type: string;
+  value: string | string[];
+  // the amount with the unit of its token, when it is a token amount
+  formatted?: string;
+};
+
+/**
+ * A call to a contract decoded from the input of a transaction
+ */
+export type EvmContractCall = {
+  // 4-byte selector, e.g. "0xa9059cbb"
+  selector: string;
+  method: string;
+  // e.g. "transfer(address,uint256)"
+  signature: string;
+  // name of the contract, when it is a known one
+  contractName?: string;
+  args: EvmContractCallArg[];
+  // e.g. "transfer(to: 0x…, amount: 1 USDT)"
+  summary: string;
+};
+
+export type EvmOperationExtra = {
+  contractCall?: EvmContractCall;
+};
+
 export type EtherscanOperation = {
   blockNumber: string;
   timeStamp: string;
@@ -79,6 +113,28 @@ export type EtherscanOperation = {
   functionName: string;
 };
 
+export type EtherscanERC20Event = {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  nonce: string;
+  blockHash: string;
+  from: string;
+  contractAddress: string;
+  to: string;
+  value: string;
+  tokenName: string;
+  tokenSymbol: string;
+  tokenDecimal: string;
+  transactionIndex: string;
+  gas: string;
+  gasPrice: string;
+  gasUsed: string;
+  cumulativeGasUsed: string;
+  input: string;
+  confirmations: string;
+};
+
 export type TransactionStatus = TransactionStatusCommon;
 
 export type TransactionStatusRaw = TransactionStatusCommonRaw;
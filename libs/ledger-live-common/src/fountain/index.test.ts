@@ -0,0 +1,118 @@
+import { encode, decode } from "../cross";
+import { genAccount } from "../mock/account";
+import { FountainChecksumMismatch, InvalidFountainFrame } from "../errors";
+import {
+  createFountainEncoder,
+  dataToFountainFrames,
+  parseFountainFramesReducer,
+  progressOfFountainFrames,
+  areFountainFramesComplete,
+  fountainFramesToData,
+  isFountainFrame,
+} from ".";
+import type { FountainFramesState } from ".";
+
+const data = Buffer.from(Array.from({ length: 2000 }, (_, i) => (i * 7) % 256));
+
+describe("fountain", () => {
+  it("should reassemble the data from the frames of one loop", () => {
+    const frames = dataToFountainFrames(data, 100);
+    const state = frames.slice(0, 20).reduce(parseFountainFramesReducer, null);
+
+    expect(frames).toHaveLength(40);
+    expect(areFountainFramesComplete(state)).toBe(true);
+    expect(fountainFramesToData(state)).toEqual(data);
+  });
+
+  it("should recover the missed frames from the next ones", () => {
+    const { nextFrame } = createFountainEncoder(data, 100);
+    let state = parseFountainFramesReducer(null, nextFrame());
+
+    // every other frame of the first loop is missed
+    for (let i = 1; i < 20; i++) {
+      const frame = nextFrame();
+      if (i % 2 === 0) state = parseFountainFramesReducer(state, frame);
+    }
+
+    expect(progressOfFountainFrames(state)).toBe(0.5);
+    let frames = 0;
+
+    while (!areFountainFramesComplete(state)) {
+      state = parseFountainFramesReducer(state, nextFrame());
+      frames++;
+    }
+
+    // way less than waiting for the missed frames to loop back
+    expect(frames).toBeLessThan(40);
+    expect(fountainFramesToData(state)).toEqual(data);
+  });
+
+  it("should not change the previous states", () => {
+    const { nextFrame } = createFountainEncoder(data, 100);
+    const snapshot = (s: FountainFramesState) =>
+      JSON.stringify({
+        fragments: Object.entries(s.fragments).map(([i, f]) => [
+          i,
+          f.toString("hex"),
+        ]),
+        mixed: s.mixed.map((m) => [m.indexes, m.fragment.toString("hex")]),
+      });
+    const states: FountainFramesState[] = [];
+    const snapshots: string[] = [];
+    let state = parseFountainFramesReducer(null, nextFrame());
+
+    // only the mixed frames after the first one, so they have to be peeled
+    for (let i = 0; i < 20; i++) nextFrame();
+
+    while (!areFountainFramesComplete(state)) {
+      states.push(state);
+      snapshots.push(snapshot(state));
+      state = parseFountainFramesReducer(state, nextFrame());
+    }
+
+    expect(states.map(snapshot)).toEqual(snapshots);
+  });
+
+  it("should check the frames and the reassembled data", () => {
+    const frames = dataToFountainFrames(data, 100);
+    const corrupted = Buffer.from(frames[0], "base64");
+    corrupted[30] ^= 1;
+
+    expect(isFountainFrame(frames[0])).toBe(true);
+    expect(isFountainFrame("not a frame")).toBe(false);
+    expect(() => parseFountainFramesReducer(null, "not a frame")).toThrow(
+      InvalidFountainFrame
+    );
+    expect(() =>
+      fountainFramesToData(
+        [corrupted.toString("base64"), ...frames.slice(1, 20)].reduce(
+          parseFountainFramesReducer,
+          null
+        )
+      )
+    ).toThrow(FountainChecksumMismatch);
+  });
+
+  it("should export hundreds of accounts", () => {
+    const accounts = Array.from({ length: 300 }, (_, i) =>
+      genAccount("fountain_" + i, { operationsSize: 0 })
+    );
+    const frames = dataToFountainFrames(
+      encode({
+        accounts,
+        settings: { currenciesSettings: {}, pairExchanges: {} },
+        exporterName: "test",
+        exporterVersion: "0.0.0",
+      })
+    );
+    // the frames arrive in any order
+    const state = frames
+      .slice()
+      .reverse()
+      .reduce(parseFountainFramesReducer, null);
+
+    expect(
+      decode(fountainFramesToData(state).toString()).accounts
+    ).toHaveLength(300);
+  });
+});
@@ -0,0 +1,338 @@
+// fountain codes the data of an animated QR code, so any frames, whatever
+// their order, can reassemble it: frames past the first loop mix several
+// fragments of the data, which lets a scanner recover the frames it missed
+// without waiting for them to come back.
+import { sha256 } from "../crypto";
+import { FountainChecksumMismatch, InvalidFountainFrame } from "../errors";
+
+const frameVersion = 1;
+// version (1 byte), seqNum, fragmentsCount, dataLength, checksum (4 bytes each)
+const headerSize = 17;
+// bounds the work of a scanner on frames that are not ours
+const maxFragmentsCount = 65536;
+
+export type FountainFrame = {
+  seqNum: number;
+  fragmentsCount: number;
+  dataLength: number;
+  checksum: number;
+  // the XOR of the fragments of these indexes
+  indexes: number[];
+  fragment: Buffer;
+};
+
+export type FountainFramesState = {
+  fragmentsCount: number;
+  dataLength: number;
+  checksum: number;
+  // the fragments recovered so far, by index
+  fragments: Record<number, Buffer>;
+  // the mixed fragments that are still missing more than one fragment
+  mixed: Array<{ indexes: number[]; fragment: Buffer }>;
+  framesCount: number;
+};
+
+const checksumOf = (data: Buffer): number => sha256(data).readUInt32BE(0);
+
+// mulberry32, seeded so the encoder and the decoder pick the same fragments
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// the parameters of the robust soliton distribution
+const solitonC = 0.1;
+const solitonDelta = 0.5;
+
+/**
+ * The probabilities of the degrees 1 to fragmentsCount of the robust soliton
+ * distribution: the ideal soliton 1/(d(d-1)) keeps a fragment to peel at every
+ * step, and the extra weight of the low degrees with a spike at K/R keeps the
+ * peeling from stalling.
+ */
+function solitonWeights(fragmentsCount: number): number[] {
+  const K = fragmentsCount;
+  const R = solitonC * Math.log(K / solitonDelta) * Math.sqrt(K);
+  const spike = Math.min(K, Math.max(1, Math.round(K / R)));
+  const weights: number[] = [];
+
+  for (let d = 1; d <= K; d++) {
+    const rho = d === 1 ? 1 / K : 1 / (d * (d - 1));
+    const tau =
+      d < spike
+        ? R / (d * K)
+        : d === spike
+        ? Math.max(0, (R * Math.log(R / solitonDelta)) / K)
+        : 0;
+    weights.push(rho + tau);
+  }
+
+  return weights;
+}
+
+/**
+ * The indexes of the fragments mixed in a frame: the first frames are the
+ * fragments in order, the next ones mix a number of them picked with the
+ * robust soliton distribution.
+ */
+function chooseFragments(
+  seqNum: number,
+  fragmentsCount: number,
+  checksum: number
+): number[] {
+  if (seqNum <= fragmentsCount) {
+    return [seqNum - 1];
+  }
+
+  const random = createRandom(Math.imul(seqNum, 0x9e3779b1) ^ checksum);
+  const weights = solitonWeights(fragmentsCount);
+  let pick = random() * weights.reduce((sum, w) => sum + w, 0);
+  let degree = 1;
+
+  while (degree < fragmentsCount && pick > weights[degree - 1]) {
+    pick -= weights[degree - 1];
+    degree++;
+  }
+
+  const indexes = Array.from({ length: fragmentsCount }, (_, i) => i);
+
+  for (let i = 0; i < degree; i++) {
+    const j = i + Math.floor(random() * (fragmentsCount - i));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+
+  return indexes.slice(0, degree).sort((a, b) => a - b);
+}
+
+const xorInto = (target: Buffer, source: Buffer) => {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+};
+
+/**
+ * An endless stream of the frames of the data, in base64. Every frame holds
+ * fragmentSize bytes of the data.
+ */
+export function createFountainEncoder(
+  data: Buffer | string,
+  fragmentSize = 100
+): { fragmentsCount: number; nextFrame: () => string } {
+  const buffer = typeof data === "string" ? Buffer.from(data) : data;
+  const fragmentsCount = Math.max(1, Math.ceil(buffer.length / fragmentSize));
+  const checksum = checksumOf(buffer);
+  const fragments = Array.from({ length: fragmentsCount }, (_, i) => {
+    const fragment = Buffer.alloc(fragmentSize);
+    buffer.copy(fragment, 0, i * fragmentSize, (i + 1) * fragmentSize);
+    return fragment;
+  });
+  let seqNum = 0;
+  return {
+    fragmentsCount,
+    nextFrame: () => {
+      seqNum++;
+      const header = Buffer.alloc(headerSize);
+      header.writeUInt8(frameVersion, 0);
+      header.writeUInt32BE(seqNum, 1);
+      header.writeUInt32BE(fragmentsCount, 5);
+      header.writeUInt32BE(buffer.length, 9);
+      header.writeUInt32BE(checksum, 13);
+      const fragment = Buffer.alloc(fragmentSize);
+
+      for (const index of chooseFragments(seqNum, fragmentsCount, checksum)) {
+        xorInto(fragment, fragments[index]);
+      }
+
+      return Buffer.concat([header, fragment]).toString("base64");
+    },
+  };
+}
+
+/**
+ * The frames to loop through to send the data: the fragments once, then as
+ * many mixed frames as there are fragments times redundancy.
+ */
+export function dataToFountainFrames(
+  data: Buffer | string,
+  fragmentSize?: number,
+  redundancy = 1
+): string[] {
+  const { fragmentsCount, nextFrame } = createFountainEncoder(
+    data,
+    fragmentSize
+  );
+  return Array.from(
+    { length: fragmentsCount + Math.ceil(fragmentsCount * redundancy) },
+    nextFrame
+  );
+}
+
+/**
+ * Parse a frame, throws InvalidFountainFrame if it's not one
+ */
+export function parseFountainFrame(frame: string): FountainFrame {
+  const buffer = Buffer.from(frame, "base64");
+
+  if (buffer.length <= headerSize || buffer.readUInt8(0) !== frameVersion) {
+    throw new InvalidFountainFrame();
+  }
+
+  const seqNum = buffer.readUInt32BE(1);
+  const fragmentsCount = buffer.readUInt32BE(5);
+  const dataLength = buffer.readUInt32BE(9);
+  const checksum = buffer.readUInt32BE(13);
+  const fragment = buffer.slice(headerSize);
+
+  // the data fills the last fragment, except when there's no data
+  const validLength =
+    dataLength === 0
+      ? fragmentsCount === 1
+      : dataLength > (fragmentsCount - 1) * fragment.length &&
+        dataLength <= fragmentsCount * fragment.length;
+
+  if (seqNum === 0 || fragmentsCount > maxFragmentsCount || !validLength) {
+    throw new InvalidFountainFrame();
+  }
+
+  return {
+    seqNum,
+    fragmentsCount,
+    dataLength,
+    checksum,
+    indexes: chooseFragments(seqNum, fragmentsCount, checksum),
+    fragment,
+  };
+}
+
+export const isFountainFrame = (frame: string): boolean => {
+  try {
+    parseFountainFrame(frame);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// peel the known fragments off the mixed ones until no new fragment is found.
+// The fragments and the mixed parts of the previous state are left untouched:
+// they are only copied when they change.
+const reduceFragments = (
+  state: FountainFramesState,
+  indexes: number[],
+  fragment: Buffer
+) => {
+  let { fragments, mixed } = state;
+  let copied = false;
+  const copy = () => {
+    if (copied) return;
+    fragments = { ...fragments };
+    mixed = mixed.slice();
+    copied = true;
+  };
+  // owned tells if the fragment of a part can be mutated
+  const queue = [{ indexes, fragment, owned: true }];
+
+  while (queue.length > 0) {
+    const part = queue.pop();
+    if (!part) break;
+    const rest = part.indexes.filter((i) => !fragments[i]);
+    if (rest.length === 0) continue;
+    let result = part.fragment;
+
+    if (rest.length < part.indexes.length) {
+      if (!part.owned) result = Buffer.from(result);
+
+      for (const i of part.indexes) {
+        if (fragments[i]) xorInto(result, fragments[i]);
+      }
+    }
+
+    if (rest.length === 1) {
+      copy();
+      fragments[rest[0]] = result;
+      const previous = mixed;
+      mixed = [];
+
+      for (const m of previous) {
+        if (m.indexes.includes(rest[0])) queue.push({ ...m, owned: false });
+        else mixed.push(m);
+      }
+    } else if (!mixed.some((m) => m.indexes.join() === rest.join())) {
+      copy();
+      mixed.push({ indexes: rest, fragment: result });
+    }
+  }
+
+  state.fragments = fragments;
+  state.mixed = mixed;
+};
+
+/**
+ * Add a frame to the state of the frames scanned so far. A frame of other
+ * data starts over from it.
+ */
+export function parseFountainFramesReducer(
+  state: FountainFramesState | null | undefined,
+  frame: string
+): FountainFramesState {
+  const { fragmentsCount, dataLength, checksum, indexes, fragment } =
+    parseFountainFrame(frame);
+  const sameData =
+    state &&
+    state.fragmentsCount === fragmentsCount &&
+    state.dataLength === dataLength &&
+    state.checksum === checksum;
+  const next: FountainFramesState = sameData
+    ? {
+        ...state,
+        framesCount: state.framesCount + 1,
+      }
+    : {
+        fragmentsCount,
+        dataLength,
+        checksum,
+        fragments: {},
+        mixed: [],
+        framesCount: 1,
+      };
+  reduceFragments(next, indexes, fragment);
+  return next;
+}
+
+export const progressOfFountainFrames = (
+  state: FountainFramesState | null | undefined
+): number =>
+  state ? Object.keys(state.fragments).length / state.fragmentsCount : 0;
+
+export const areFountainFramesComplete = (
+  state: FountainFramesState | null | undefined
+): state is FountainFramesState =>
+  !!state && progressOfFountainFrames(state) === 1;
+
+/**
+ * The data of complete frames, throws FountainChecksumMismatch if it's not
+ * the data that was sent
+ */
+export function fountainFramesToData(
+  state: FountainFramesState | null | undefined
+): Buffer {
+  if (!areFountainFramesComplete(state)) {
+    throw new Error("the frames are not complete");
+  }
+
+  const data = Buffer.concat(
+    Array.from({ length: state.fragmentsCount }, (_, i) => state.fragments[i])
+  ).slice(0, state.dataLength);
+
+  if (checksumOf(data) !== state.checksum) {
+    throw new FountainChecksumMismatch();
+  }
+
+  return data;
+}
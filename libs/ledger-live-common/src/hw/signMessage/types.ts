@@ -18,6 +18,11 @@ export type MessageData = {
   message: string;
   rawMessage: string;
 };
+// a decoded preview of a message, one value per field
+export type MessageProperties = {
+  label: string;
+  value: string | string[];
+}[];
 export type SignMessage = (
   transport: Transport,
   message: MessageData | TypedMessageData
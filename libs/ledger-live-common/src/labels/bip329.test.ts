@@ -0,0 +1,110 @@
+import type { Account } from "@ledgerhq/types-live";
+import { genAccount } from "../mock/account";
+import { InvalidLabelRecord } from "../errors";
+import { decode, encode } from "../cross";
+import {
+  applyLabelsStore,
+  exportBIP329,
+  getLabel,
+  importBIP329,
+  outputRef,
+  parseBIP329,
+  setLabel,
+} from ".";
+
+describe("BIP-329 labels", () => {
+  const makeAccounts = (): Account[] => [
+    genAccount("labels_1"),
+    genAccount("labels_2"),
+  ];
+
+  const labelled = (): Account[] => {
+    const [a, b] = makeAccounts();
+    let first = setLabel(a, {
+      type: "tx",
+      ref: a.operations[0].hash,
+      label: "rent",
+    });
+    first = setLabel(first, {
+      type: "output",
+      ref: outputRef(a.operations[1].hash, 1),
+      label: "cold storage",
+      spendable: false,
+    });
+    first = setLabel(first, {
+      type: "addr",
+      ref: a.freshAddress,
+      label: "donations",
+    });
+    const second = setLabel(b, {
+      type: "tx",
+      ref: b.operations[0].hash,
+      label: "salary",
+    });
+    return [first, second];
+  };
+
+  test("round-trips the labels of the accounts", () => {
+    const jsonl = exportBIP329(labelled());
+    expect(jsonl.split("\n")).toHaveLength(4);
+    const accounts = makeAccounts();
+    const { store, unmatched } = importBIP329(accounts, jsonl);
+    expect(unmatched).toEqual([]);
+    const [first, second] = applyLabelsStore(accounts, store);
+    expect(first.labels).toEqual(labelled()[0].labels);
+    expect(second.labels).toEqual(labelled()[1].labels);
+  });
+
+  test("imported labels replace the existing ones", () => {
+    const accounts = labelled();
+    const ref = accounts[0].operations[0].hash;
+    const { store } = importBIP329(
+      accounts,
+      JSON.stringify({ type: "tx", ref, label: "groceries" })
+    );
+    const [first] = applyLabelsStore(accounts, store);
+    expect(getLabel(first, "tx", ref)).toBe("groceries");
+    expect(first.labels).toHaveLength(3);
+  });
+
+  test("returns the records that belong to no account", () => {
+    const record = { type: "tx", ref: "f00", label: "unknown" };
+    const { unmatched } = importBIP329(makeAccounts(), JSON.stringify(record));
+    expect(unmatched).toEqual([record]);
+  });
+
+  test("ignores records of an unknown type", () => {
+    expect(
+      parseBIP329('{"type":"psbt","ref":"cHNidP8B","label":"draft"}\n')
+    ).toEqual([]);
+  });
+
+  test("rejects invalid records", () => {
+    expect(() => parseBIP329("{not json")).toThrow(InvalidLabelRecord);
+    expect(() => parseBIP329('{"type":"tx","label":"no ref"}')).toThrow(
+      InvalidLabelRecord
+    );
+  });
+
+  test("drops the invalid labels of the imported accounts", () => {
+    const [first, second] = labelled();
+    const { accounts } = decode(
+      encode({
+        accounts: [
+          {
+            ...first,
+            labels: [...(first.labels || []), { type: "tx" } as any],
+          },
+          second,
+        ],
+        settings: { currenciesSettings: {}, pairExchanges: {} },
+        exporterName: "test",
+        exporterVersion: "0.0.0",
+      })
+    );
+    expect(accounts.map((a) => a.labels)).toEqual([
+      first.labels,
+      second.labels,
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+// BIP-329 wallet labels export format
+// https://github.com/bitcoin/bips/blob/master/bip-0329.mediawiki
+import type { Account, Label } from "@ledgerhq/types-live";
+import type { BitcoinAccount } from "../families/bitcoin/types";
+import { InvalidLabelRecord } from "../errors";
+import {
+  getAccountLabels,
+  getLabelsStore,
+  isLabelType,
+  LabelsStore,
+} from "./helpers";
+
+/**
+ * Validate one record. Records of an unknown type are ignored
+ * as required by the specification.
+ */
+export const asLabel = (unsafe: unknown): Label | null => {
+  if (typeof unsafe !== "object" || !unsafe) {
+    throw new InvalidLabelRecord("invalid label record");
+  }
+
+  const { type, ref, label, origin, spendable } = unsafe as Record<
+    string,
+    unknown
+  >;
+
+  if (!isLabelType(type)) {
+    return null;
+  }
+
+  if (typeof ref !== "string" || !ref) {
+    throw new InvalidLabelRecord("invalid label.ref");
+  }
+
+  if (typeof label !== "undefined" && typeof label !== "string") {
+    throw new InvalidLabelRecord("invalid label.label");
+  }
+
+  const res: Label = {
+    type,
+    ref,
+    label: label || "",
+  };
+
+  if (typeof origin === "string" && origin) {
+    res.origin = origin;
+  }
+
+  if (type === "output" && typeof spendable === "boolean") {
+    res.spendable = spendable;
+  }
+
+  return res;
+};
+
+export const parseBIP329 = (jsonl: string): Label[] =>
+  jsonl
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .reduce((labels, line, i) => {
+      let unsafe: unknown;
+      try {
+        unsafe = JSON.parse(line);
+      } catch (e) {
+        throw new InvalidLabelRecord(`invalid JSON at line ${i + 1}`);
+      }
+      const label = asLabel(unsafe);
+      if (label) labels.push(label);
+      return labels;
+    }, [] as Label[]);
+
+export const formatBIP329 = (labels: Label[]): string =>
+  labels
+    .map(({ type, ref, label, origin, spendable }) =>
+      JSON.stringify({ type, ref, label, origin, spendable })
+    )
+    .join("\n");
+
+/**
+ * Export the labels of all the accounts. A record shared by several accounts,
+ * e.g. a transfer between two of them, is only exported once.
+ */
+export const exportBIP329 = (accounts: Account[]): string => {
+  const seen = new Set<string>();
+  const labels: Label[] = [];
+
+  for (const account of accounts) {
+    for (const label of getAccountLabels(account)) {
+      const key = `${label.type} ${label.ref}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      labels.push(label);
+    }
+  }
+
+  return formatBIP329(labels);
+};
+
+const accountAddresses = (account: Account): Set<string> => {
+  const addresses = new Set<string>([account.freshAddress]);
+  account.freshAddresses.forEach((a) => addresses.add(a.address));
+  for (const op of account.operations) {
+    if (op.type === "IN") op.recipients.forEach((r) => addresses.add(r));
+    if (op.type === "OUT") op.senders.forEach((s) => addresses.add(s));
+  }
+  const { bitcoinResources } = account as BitcoinAccount;
+  if (bitcoinResources) {
+    bitcoinResources.utxos.forEach(
+      (u) => u.address && addresses.add(u.address)
+    );
+    bitcoinResources.walletAccount?.xpub.storage
+      .getUniquesAddresses({})
+      .forEach((a) => addresses.add(a.address));
+  }
+  return addresses;
+};
+
+const accountMatcher = (account: Account): ((label: Label) => boolean) => {
+  const hashes = new Set(
+    account.operations.concat(account.pendingOperations).map((op) => op.hash)
+  );
+  let addresses: Set<string> | undefined;
+
+  return ({ type, ref }) => {
+    switch (type) {
+      case "xpub":
+        return !!account.xpub && account.xpub === ref;
+      case "tx":
+        return hashes.has(ref);
+      case "input":
+      case "output":
+        return hashes.has(ref.slice(0, ref.lastIndexOf(":")));
+      case "addr":
+        addresses = addresses || accountAddresses(account);
+        return addresses.has(ref);
+      default:
+        return false;
+    }
+  };
+};
+
+/**
+ * Attribute the records of a BIP-329 export to the accounts they belong to.
+ * Imported labels replace the existing ones on the same record.
+ * Records that do not belong to any account are returned as unmatched.
+ */
+export const importBIP329 = (
+  accounts: Account[],
+  jsonl: string
+): {
+  store: LabelsStore;
+  unmatched: Label[];
+} => {
+  const labels = parseBIP329(jsonl);
+  const store = getLabelsStore(accounts);
+  const matchers = accounts.map((a) => ({
+    id: a.id,
+    matches: accountMatcher(a),
+  }));
+  const unmatched: Label[] = [];
+
+  for (const label of labels) {
+    const owners = matchers.filter((m) => m.matches(label));
+    if (!owners.length) {
+      unmatched.push(label);
+      continue;
+    }
+    for (const { id } of owners) {
+      store[id] = (store[id] || [])
+        .filter((l) => l.type !== label.type || l.ref !== label.ref)
+        .concat(label.label || label.spendable === false ? [label] : []);
+    }
+  }
+
+  return { store, unmatched };
+};
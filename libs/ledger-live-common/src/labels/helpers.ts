@@ -0,0 +1,88 @@
+import type { Account, Label, LabelType } from "@ledgerhq/types-live";
+
+/**
+ * Labels of a set of accounts, keyed by account id
+ */
+export type LabelsStore = Record<string, Label[]>;
+
+export const labelTypes: LabelType[] = [
+  "tx",
+  "addr",
+  "pubkey",
+  "input",
+  "output",
+  "xpub",
+];
+
+export const isLabelType = (type: unknown): type is LabelType =>
+  typeof type === "string" && labelTypes.includes(type as LabelType);
+
+// "txid:vout" reference of an input or an output
+export const outputRef = (hash: string, outputIndex: number): string =>
+  `${hash}:${outputIndex}`;
+
+export const getAccountLabels = (account: Account): Label[] =>
+  account.labels || [];
+
+export const findLabel = (
+  account: Account,
+  type: LabelType,
+  ref: string
+): Label | undefined =>
+  getAccountLabels(account).find((l) => l.type === type && l.ref === ref);
+
+export const getLabel = (
+  account: Account,
+  type: LabelType,
+  ref: string
+): string | undefined => findLabel(account, type, ref)?.label;
+
+/**
+ * All the labels of a given type of an account, as a ref -> label map
+ */
+export const getLabelsByRef = (
+  account: Account,
+  type: LabelType
+): Record<string, string> =>
+  getAccountLabels(account).reduce((acc, l) => {
+    if (l.type === type) acc[l.ref] = l.label;
+    return acc;
+  }, {} as Record<string, string>);
+
+/**
+ * Add or replace the label of a record. An empty label removes the record.
+ */
+export const setLabel = (account: Account, label: Label): Account => {
+  const labels = getAccountLabels(account).filter(
+    (l) => l.type !== label.type || l.ref !== label.ref
+  );
+  if (label.label || label.spendable === false) {
+    labels.push(label);
+  }
+  return { ...account, labels };
+};
+
+export const removeLabel = (
+  account: Account,
+  type: LabelType,
+  ref: string
+): Account => setLabel(account, { type, ref, label: "" });
+
+export const getLabelsStore = (accounts: Account[]): LabelsStore =>
+  accounts.reduce((store, account) => {
+    const labels = getAccountLabels(account);
+    if (labels.length > 0) store[account.id] = labels;
+    return store;
+  }, {} as LabelsStore);
+
+/**
+ * Replace the labels of the accounts present in the store,
+ * the other accounts are left untouched
+ */
+export const applyLabelsStore = (
+  accounts: Account[],
+  store: LabelsStore
+): Account[] =>
+  accounts.map((account) =>
+    store[account.id] ? { ...account, labels: store[account.id] } : account
+  );
@@ -0,0 +1,313 @@
+import { BigNumber } from "bignumber.js";
+import type { Account, AccountLike, Operation } from "@ledgerhq/types-live";
+import type { Currency } from "@ledgerhq/types-cryptoassets";
+import { formatCurrencyUnit } from "./currencies";
+import { getAccountCurrency, getAccountName, getMainAccount } from "./account";
+import { getOperationAmountNumber } from "./operation";
+import { getLabel } from "./labels";
+import {
+  accountsOpToCSV,
+  accountsOpToJSONL,
+  formatCountervalue,
+  getExportedOperations,
+} from "./csvExport";
+import type { OperationsExportOptions } from "./csvExport";
+import type { CounterValuesState } from "./countervalues/types";
+
+export type OperationsExportFormat = "csv" | "jsonl" | "ofx" | "qif" | "koinly";
+
+export const operationsExportFormats: OperationsExportFormat[] = [
+  "csv",
+  "jsonl",
+  "ofx",
+  "qif",
+  "koinly",
+];
+
+const formatAmount = (currency: Currency, value: BigNumber): string =>
+  formatCurrencyUnit(currency.units[0], value, {
+    disableRounding: true,
+    useGrouping: false,
+  });
+
+const getCounterparty = (op: Operation): string =>
+  (["IN", "NFT_IN"].includes(op.type) ? op.senders : op.recipients).join(" ");
+
+// what an operation moved, without its fee which is in the main account
+// currency. the value of an operation of a main account includes its fee.
+const getMovedAmount = (account: AccountLike, op: Operation): BigNumber => {
+  const amount = getOperationAmountNumber(op);
+  return account.type === "Account" && amount.lt(0)
+    ? BigNumber.min(amount.plus(op.fee), 0)
+    : amount;
+};
+
+// the NFT operations repeat the fee of the operation they are part of
+const getFee = (account: AccountLike, op: Operation): BigNumber =>
+  account.type === "Account" && op.type !== "IN" && !op.type.startsWith("NFT")
+    ? op.fee
+    : new BigNumber(0);
+
+// the operations that moved funds, grouped by account
+const groupByAccount = (
+  accounts: Account[],
+  options?: OperationsExportOptions
+) => {
+  const groups: Array<{
+    account: AccountLike;
+    parentAccount: Account | null | undefined;
+    operations: Operation[];
+  }> = [];
+  for (const { account, parentAccount, operation } of getExportedOperations(
+    accounts,
+    options
+  )) {
+    if (getOperationAmountNumber(operation).isZero()) continue;
+    let group = groups.find((g) => g.account === account);
+    if (!group) {
+      group = { account, parentAccount, operations: [] };
+      groups.push(group);
+    }
+    group.operations.push(operation);
+  }
+  return groups;
+};
+
+const escapeSGML = (str: string): string =>
+  str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// e.g. 20220131120000
+const formatOFXDate = (date: Date): string =>
+  date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+/**
+ * The operations as an OFX bank statement per account, in the units of the
+ * currency of each account, with their countervalue in the memo
+ */
+export function accountsOpToOFX(
+  accounts: Account[],
+  counterValueCurrency?: Currency,
+  countervalueState?: CounterValuesState,
+  options?: OperationsExportOptions
+): string {
+  const now = formatOFXDate(new Date());
+  const statements = groupByAccount(accounts, options).map(
+    ({ account, parentAccount, operations }) => {
+      const currency = getAccountCurrency(account);
+      const dates = operations.map((op) => op.date.getTime());
+      const transactions = operations.map((op) => {
+        const amount = getOperationAmountNumber(op);
+        const countervalue = formatCountervalue(
+          countervalueState,
+          currency,
+          counterValueCurrency,
+          amount.abs(),
+          op.date
+        );
+        const label = getLabel(
+          getMainAccount(account, parentAccount),
+          "tx",
+          op.hash
+        );
+        const memo = [
+          label,
+          countervalue &&
+            counterValueCurrency &&
+            `${countervalue} ${counterValueCurrency.ticker}`,
+        ]
+          .filter(Boolean)
+          .join(" - ");
+        return [
+          "<STMTTRN>",
+          `<TRNTYPE>${amount.gt(0) ? "CREDIT" : "DEBIT"}`,
+          `<DTPOSTED>${formatOFXDate(op.date)}`,
+          `<TRNAMT>${formatAmount(currency, amount)}`,
+          `<FITID>${escapeSGML(op.id)}`,
+          `<NAME>${escapeSGML(getCounterparty(op).slice(0, 32))}`,
+          memo && `<MEMO>${escapeSGML(memo)}`,
+          "</STMTTRN>",
+        ]
+          .filter(Boolean)
+          .join("\n");
+      });
+      return [
+        "<STMTTRNRS>",
+        `<TRNUID>${escapeSGML(account.id)}`,
+        "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+        "<STMTRS>",
+        `<CURDEF>${currency.ticker}`,
+        "<BANKACCTFROM>",
+        "<BANKID>LEDGER",
+        `<ACCTID>${escapeSGML(getAccountName(account))}`,
+        "<ACCTTYPE>CHECKING",
+        "</BANKACCTFROM>",
+        "<BANKTRANLIST>",
+        `<DTSTART>${formatOFXDate(new Date(Math.min(...dates)))}`,
+        `<DTEND>${formatOFXDate(new Date(Math.max(...dates)))}`,
+        ...transactions,
+        "</BANKTRANLIST>",
+        "<LEDGERBAL>",
+        `<BALAMT>${formatAmount(currency, account.balance)}`,
+        `<DTASOF>${now}`,
+        "</LEDGERBAL>",
+        "</STMTRS>",
+        "</STMTTRNRS>",
+      ].join("\n");
+    }
+  );
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${now}`,
+    "<LANGUAGE>ENG",
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    ...statements,
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+  ].join("\n");
+}
+
+// e.g. 01/31/2022
+const formatQIFDate = (date: Date): string => {
+  const [year, month, day] = date.toISOString().slice(0, 10).split("-");
+  return `${month}/${day}/${year}`;
+};
+
+const asQIFLine = (str: string): string => str.replace(/[\n\r]/g, " ");
+
+/**
+ * The operations as a QIF bank account per account, in the units of the
+ * currency of each account
+ */
+export function accountsOpToQIF(
+  accounts: Account[],
+  _counterValueCurrency?: Currency,
+  _countervalueState?: CounterValuesState,
+  options?: OperationsExportOptions
+): string {
+  return groupByAccount(accounts, options)
+    .map(({ account, parentAccount, operations }) => {
+      const currency = getAccountCurrency(account);
+      return [
+        "!Account",
+        `N${asQIFLine(getAccountName(account))}`,
+        "TBank",
+        "^",
+        "!Type:Bank",
+        ...operations.map((op) =>
+          [
+            `D${formatQIFDate(op.date)}`,
+            `T${formatAmount(currency, getOperationAmountNumber(op))}`,
+            `P${asQIFLine(getCounterparty(op))}`,
+            `M${asQIFLine(
+              getLabel(getMainAccount(account, parentAccount), "tx", op.hash) ||
+                op.type
+            )}`,
+            "^",
+          ].join("\n")
+        ),
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+const koinlyColumns = [
+  "Date",
+  "Sent Amount",
+  "Sent Currency",
+  "Received Amount",
+  "Received Currency",
+  "Fee Amount",
+  "Fee Currency",
+  "Net Worth Amount",
+  "Net Worth Currency",
+  "Label",
+  "Description",
+  "TxHash",
+];
+
+/**
+ * The operations in the universal import layout of tax tools like Koinly:
+ * what was sent or received, and the fee apart
+ */
+export function accountsOpToKoinlyCSV(
+  accounts: Account[],
+  counterValueCurrency?: Currency,
+  countervalueState?: CounterValuesState,
+  options?: OperationsExportOptions
+): string {
+  const rows = getExportedOperations(accounts, options).flatMap(
+    ({ account, parentAccount, operation: op }) => {
+      const currency = getAccountCurrency(account);
+      const mainCurrency = getMainAccount(account, parentAccount).currency;
+      const amount = getMovedAmount(account, op);
+      const fee = getFee(account, op);
+      if (amount.isZero() && fee.isZero()) return [];
+      const row = [
+        `${op.date.toISOString().replace("T", " ").slice(0, 19)} UTC`,
+        amount.lt(0) ? formatAmount(currency, amount.negated()) : "",
+        amount.lt(0) ? currency.ticker : "",
+        amount.gt(0) ? formatAmount(currency, amount) : "",
+        amount.gt(0) ? currency.ticker : "",
+        fee.gt(0) ? formatAmount(mainCurrency, fee) : "",
+        fee.gt(0) ? mainCurrency.ticker : "",
+        formatCountervalue(
+          countervalueState,
+          currency,
+          counterValueCurrency,
+          amount.abs(),
+          op.date
+        ),
+        counterValueCurrency?.ticker ?? "",
+        ["REWARD", "REWARD_PAYOUT"].includes(op.type) ? "reward" : "",
+        getLabel(getMainAccount(account, parentAccount), "tx", op.hash) || "",
+        op.hash,
+      ];
+      return [row.map((value) => value.replace(/[,\n\r]/g, "")).join(",")];
+    }
+  );
+  return [koinlyColumns.join(","), ...rows].join("\r\n");
+}
+
+const exporters: Record<
+  OperationsExportFormat,
+  (
+    accounts: Account[],
+    counterValueCurrency?: Currency,
+    countervalueState?: CounterValuesState,
+    options?: OperationsExportOptions
+  ) => string
+> = {
+  csv: accountsOpToCSV,
+  jsonl: accountsOpToJSONL,
+  ofx: accountsOpToOFX,
+  qif: accountsOpToQIF,
+  koinly: accountsOpToKoinlyCSV,
+};
+
+/**
+ * Export the operations of the accounts in a format. The columns of the
+ * options only apply to the csv and jsonl formats.
+ */
+export const exportAccountsOperations = (
+  format: OperationsExportFormat,
+  accounts: Account[],
+  counterValueCurrency?: Currency,
+  countervalueState?: CounterValuesState,
+  options?: OperationsExportOptions
+): string =>
+  exporters[format](accounts, counterValueCurrency, countervalueState, options);
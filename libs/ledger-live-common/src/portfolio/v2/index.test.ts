@@ -0,0 +1,112 @@
+import "../../__tests__/test-helpers/staticTime";
+import { BigNumber } from "bignumber.js";
+import type { Account, Operation } from "@ledgerhq/types-live";
+import { emptyHistoryCache } from "../../account";
+import { importCountervalues } from "../../countervalues/logic";
+import {
+  getCryptoCurrencyById,
+  getFiatCurrencyByTicker,
+} from "../../currencies";
+import { getAccountPerformance, getPortfolioPerformance } from ".";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const usd = getFiatCurrencyByTicker("USD");
+
+// a bitcoin is worth 10000 dollars, then 20000 from March 6
+const state = importCountervalues(
+  {
+    status: {},
+    "BTC-USD": {
+      "2018-02-01": 10000,
+      "2018-03-06": 20000,
+      "2018-03-14": 20000,
+      latest: 20000,
+    },
+  },
+  { trackingPairs: [], autofillGaps: true }
+);
+
+const makeOperation = (
+  accountId: string,
+  type: Operation["type"],
+  date: string,
+  btc: number
+): Operation => ({
+  id: `${accountId}-${date}-${type}`,
+  hash: date,
+  type,
+  value: new BigNumber(btc).times(1e8),
+  fee: new BigNumber(0),
+  senders: [],
+  recipients: [],
+  blockHash: null,
+  blockHeight: 1,
+  accountId,
+  date: new Date(`${date}T12:00:00Z`),
+  extra: {},
+});
+
+const makeAccount = (id: string, operations: Operation[]): Account =>
+  ({
+    type: "Account",
+    id,
+    currency: bitcoin,
+    unit: bitcoin.units[0],
+    balance: operations.reduce(
+      (sum, op) =>
+        op.type === "IN" ? sum.plus(op.value) : sum.minus(op.value),
+      new BigNumber(0)
+    ),
+    creationDate: new Date("2018-01-01"),
+    operations,
+    pendingOperations: [],
+    subAccounts: [],
+    balanceHistoryCache: emptyHistoryCache,
+  } as unknown as Account);
+
+describe("getAccountPerformance", () => {
+  it("should not count the deposits as performance", () => {
+    const account = makeAccount("savings", [
+      makeOperation("savings", "IN", "2018-03-10", 1),
+      makeOperation("savings", "IN", "2018-03-01", 1),
+    ]);
+    const performance = getAccountPerformance(account, "month", 30, state, usd);
+
+    // 2 bitcoins deposited for 30000 dollars are worth 40000
+    expect(performance.netFlows).toBe(3000000);
+    expect(performance.marketChange).toBe(1000000);
+    // the first bitcoin doubled
+    expect(performance.timeWeightedReturn).toBeCloseTo(1);
+    // the gain on the money held on average over the month, which is less
+    // than what was deposited at the end
+    expect(performance.moneyWeightedReturn).toBeGreaterThan(1 / 3);
+  });
+
+  it("should cancel out the transfers between the accounts", () => {
+    const savings = makeAccount("savings", [
+      makeOperation("savings", "OUT", "2018-03-10", 0.5),
+      makeOperation("savings", "IN", "2018-03-01", 1),
+    ]);
+    const spending = makeAccount("spending", [
+      makeOperation("spending", "IN", "2018-03-10", 0.5),
+    ]);
+    const savingsPerformance = getAccountPerformance(
+      savings,
+      "month",
+      30,
+      state,
+      usd
+    );
+    const performance = getPortfolioPerformance(
+      [savings, spending],
+      "month",
+      state,
+      usd
+    );
+
+    expect(savingsPerformance.netFlows).toBe(1000000 - 1000000);
+    expect(performance.netFlows).toBe(1000000);
+    expect(performance.marketChange).toBe(1000000);
+    expect(performance.timeWeightedReturn).toBeCloseTo(1);
+  });
+});
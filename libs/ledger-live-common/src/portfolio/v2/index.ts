@@ -26,6 +26,7 @@ import type {
   Portfolio,
   CurrencyPortfolio,
   AssetsDistribution,
+  PortfolioPerformance,
   ValueChange,
 } from "@ledgerhq/types-live";
 import type {
@@ -323,6 +324,172 @@ export function getCurrencyPortfolio(
   };
 }
 
+type Flow = {
+  date: Date;
+  value: number;
+};
+
+// the countervalues of what came in (positive) and went out (negative) of an
+// account: its IN and OUT operations, without the fees which are a cost
+function getAccountFlows(
+  account: AccountLike,
+  cvState: CounterValuesState,
+  cvCurrency: Currency
+): Flow[] {
+  const currency = getAccountCurrency(account);
+  const flows: Flow[] = [];
+
+  for (const op of account.operations) {
+    for (const o of [op, ...(op.internalOperations || [])]) {
+      if (o.type !== "IN" && o.type !== "OUT") continue;
+      // the value of an operation of a main account includes its fee
+      const amount =
+        o.type === "OUT" && o === op && account.type === "Account"
+          ? o.value.minus(o.fee)
+          : o.value;
+      const value = calculate(cvState, {
+        value: amount.toNumber(),
+        from: currency,
+        to: cvCurrency,
+        date: op.date,
+      });
+
+      if (value) {
+        flows.push({
+          date: op.date,
+          value: o.type === "IN" ? value : -value,
+        });
+      }
+    }
+  }
+
+  return flows;
+}
+
+function calcPerformance(
+  history: BalanceHistory,
+  allFlows: Flow[]
+): PortfolioPerformance {
+  const from = history[0];
+  const to = history[history.length - 1];
+  const flows = allFlows.filter((f) => f.date > from.date && f.date <= to.date);
+  const netFlows = flows.reduce((sum, f) => sum + f.value, 0);
+  const marketChange = to.value - from.value - netFlows;
+  // the flows of a period are counted at its start
+  let growth = 1;
+  let hasPeriod = false;
+
+  for (let i = 1; i < history.length; i++) {
+    const start = history[i - 1];
+    const end = history[i];
+    const base = flows
+      .filter((f) => f.date > start.date && f.date <= end.date)
+      .reduce((sum, f) => sum + f.value, start.value);
+
+    if (base > 0) {
+      growth *= end.value / base;
+      hasPeriod = true;
+    }
+  }
+
+  const duration = to.date.getTime() - from.date.getTime();
+  const weightedCapital = flows.reduce(
+    (sum, f) =>
+      sum + (f.value * (to.date.getTime() - f.date.getTime())) / duration,
+    from.value
+  );
+  return {
+    timeWeightedReturn: hasPeriod ? growth - 1 : null,
+    moneyWeightedReturn:
+      duration > 0 && weightedCapital > 0
+        ? marketChange / weightedCapital
+        : null,
+    netFlows,
+    marketChange,
+  };
+}
+
+const getCountervalueHistory = (
+  histories: BalanceHistoryWithCountervalue[],
+  dates: Date[]
+): BalanceHistory =>
+  dates.map((date, i) => ({
+    date,
+    value: histories.reduce((sum, h) => sum + (h[i]?.countervalue ?? 0), 0),
+  }));
+
+/**
+ * calculate the time-weighted and money-weighted returns of an account,
+ * which unlike its countervalueChange do not count the IN and OUT operations
+ * as gains or losses
+ */
+export function getAccountPerformance(
+  account: AccountLike,
+  range: PortfolioRange,
+  count: number,
+  cvState: CounterValuesState,
+  cvCurrency: Currency
+): PortfolioPerformance {
+  const { history } = getBalanceHistoryWithCountervalue(
+    account,
+    range,
+    count,
+    cvState,
+    cvCurrency
+  );
+  return calcPerformance(
+    getCountervalueHistory(
+      [history],
+      history.map((h) => h.date)
+    ),
+    getAccountFlows(account, cvState, cvCurrency)
+  );
+}
+
+/**
+ * calculate the performance of the accounts of a currency, see getAccountPerformance
+ */
+export function getCurrencyPerformance(
+  accounts: AccountLike[],
+  range: PortfolioRange,
+  cvState: CounterValuesState,
+  cvCurrency: Currency
+): PortfolioPerformance {
+  const count = getPortfolioCount(accounts, range);
+  const histories = accounts.map(
+    (a) =>
+      getBalanceHistoryWithCountervalue(a, range, count, cvState, cvCurrency)
+        .history
+  );
+  return calcPerformance(
+    getCountervalueHistory(histories, getDates(range, count)),
+    accounts.flatMap((a) => getAccountFlows(a, cvState, cvCurrency))
+  );
+}
+
+/**
+ * calculate the performance of all accounts, see getAccountPerformance.
+ * the transfers between the accounts cancel out.
+ */
+export function getPortfolioPerformance(
+  topAccounts: AccountLike[],
+  range: PortfolioRange,
+  cvState: CounterValuesState,
+  cvCurrency: Currency,
+  options?: GetPortfolioOptionsType
+): PortfolioPerformance {
+  const { flattenSourceAccounts } = {
+    ...defaultGetPortfolioOptions,
+    ...options,
+  };
+  return getCurrencyPerformance(
+    flattenSourceAccounts ? flattenAccounts(topAccounts) : topAccounts,
+    range,
+    cvState,
+    cvCurrency
+  );
+}
+
 export function getAssetsDistribution(
   topAccounts: Account[],
   cvState: CounterValuesState,
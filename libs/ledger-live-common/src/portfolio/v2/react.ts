@@ -10,6 +10,7 @@ import type {
   AssetsDistribution,
   CurrencyPortfolio,
   Portfolio,
+  PortfolioPerformance,
   PortfolioRange,
 } from "@ledgerhq/types-live";
 import { getAccountCurrency, flattenAccounts } from "../../account";
@@ -20,6 +21,7 @@ import {
   getCurrencyPortfolio,
   getAssetsDistribution,
   getPortfolioCount,
+  getPortfolioPerformance,
   GetPortfolioOptionsType,
 } from "./";
 export function useBalanceHistoryWithCountervalue({
@@ -49,6 +51,20 @@ export function usePortfolio({
   const state = useCountervaluesState();
   return getPortfolio(accounts, range, state, to, options);
 }
+export function usePortfolioPerformance({
+  accounts,
+  range,
+  to,
+  options,
+}: {
+  accounts: AccountLike[];
+  range: PortfolioRange;
+  to: Currency;
+  options?: GetPortfolioOptionsType;
+}): PortfolioPerformance {
+  const state = useCountervaluesState();
+  return getPortfolioPerformance(accounts, range, state, to, options);
+}
 export function useCurrencyPortfolio({
   accounts: rawAccounts,
   range,
@@ -0,0 +1,133 @@
+import { BigNumber } from "bignumber.js";
+import type { Account, Operation, TokenAccount } from "@ledgerhq/types-live";
+import { importCountervalues } from "../../countervalues/logic";
+import {
+  getCryptoCurrencyById,
+  getFiatCurrencyByTicker,
+  getTokenById,
+} from "../../currencies";
+import {
+  getPortfolioSnapshot,
+  portfolioSnapshotToCSV,
+  toPortfolioSnapshotRaw,
+} from "./snapshot";
+
+const ethereum = getCryptoCurrencyById("ethereum");
+const usdt = getTokenById("ethereum/erc20/usd_tether__erc20_");
+const usd = getFiatCurrencyByTicker("USD");
+
+const state = importCountervalues(
+  {
+    status: {},
+    "ETH-USD": {
+      "2021-12-31": 3000,
+      "2022-06-30": 1000,
+      "2022-07-05": 2500,
+      latest: 2000,
+    },
+  },
+  { trackingPairs: [], autofillGaps: true }
+);
+
+const makeOperation = (
+  accountId: string,
+  type: Operation["type"],
+  date: string,
+  value: BigNumber
+): Operation => ({
+  id: `${accountId}-${date}-${type}`,
+  hash: date,
+  type,
+  value,
+  fee: new BigNumber(0),
+  senders: [],
+  recipients: [],
+  blockHash: null,
+  blockHeight: 1,
+  accountId,
+  date: new Date(date),
+  extra: {},
+});
+
+const tokenAccount = {
+  type: "TokenAccount",
+  id: "eth+usdt",
+  parentId: "eth",
+  token: usdt,
+  balance: new BigNumber(50e6),
+  spendableBalance: new BigNumber(50e6),
+  operations: [
+    makeOperation(
+      "eth+usdt",
+      "IN",
+      "2022-03-01T00:00:00Z",
+      new BigNumber(50e6)
+    ),
+  ],
+} as unknown as TokenAccount;
+
+const account = {
+  type: "Account",
+  id: "eth",
+  name: "Treasury",
+  freshAddress: "0xabc",
+  xpub: "",
+  currency: ethereum,
+  balance: new BigNumber(1.5e18),
+  spendableBalance: new BigNumber(1e18),
+  lastSyncDate: new Date("2022-07-01T00:00:00Z"),
+  operations: [
+    makeOperation("eth", "OUT", "2022-01-01T00:00:00Z", new BigNumber(0.5e18)),
+    makeOperation("eth", "IN", "2021-12-31T23:59:00Z", new BigNumber(2e18)),
+  ],
+  subAccounts: [tokenAccount],
+} as unknown as Account;
+
+describe("getPortfolioSnapshot", () => {
+  it("should replay the operations to the date of the snapshot", () => {
+    const snapshot = getPortfolioSnapshot(
+      [account],
+      new Date("2021-12-31T23:59:00Z"),
+      state,
+      usd
+    );
+
+    // the token account was empty
+    expect(snapshot.positions).toHaveLength(1);
+    expect(snapshot.positions[0]).toMatchObject({
+      account,
+      currency: ethereum,
+      amount: new BigNumber(2e18),
+      lockedAmount: null,
+      countervalue: 600000,
+    });
+    expect(snapshot.countervalue).toBe(600000);
+  });
+
+  it("should value the positions at the rates of the date", () => {
+    const snapshot = getPortfolioSnapshot(
+      [account],
+      new Date("2022-07-01T00:00:00Z"),
+      state,
+      usd
+    );
+
+    expect(snapshot.positions.map((p) => p.amount.toNumber())).toEqual([
+      1.5e18, 50e6,
+    ]);
+    expect(snapshot.unavailableCurrencies).toEqual([usdt]);
+    expect(portfolioSnapshotToCSV(snapshot, usd).split("\r\n")).toEqual([
+      "Account Name,Account xpub,Currency Ticker,Amount,Locked Amount,Countervalue Ticker,Countervalue",
+      "Treasury,0xabc,ETH,1.5,0.5,USD,1500.00",
+      "Treasury,0xabc,USDT,50,0,USD,",
+    ]);
+    expect(toPortfolioSnapshotRaw(snapshot, usd)).toMatchObject({
+      date: "2022-07-01T00:00:00.000Z",
+      countervalue: "1500.00",
+      positions: [
+        { accountId: "eth", amount: "1.5", lockedAmount: "0.5" },
+        { accountId: "eth+usdt", amount: "50", countervalue: null },
+      ],
+    });
+  });
+});
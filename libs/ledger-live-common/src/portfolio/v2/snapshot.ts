@@ -0,0 +1,202 @@
+import { BigNumber } from "bignumber.js";
+import type {
+  Account,
+  AccountLike,
+  PortfolioSnapshot,
+  PortfolioSnapshotPosition,
+} from "@ledgerhq/types-live";
+import type { Currency } from "@ledgerhq/types-cryptoassets";
+import type { CounterValuesState } from "../../countervalues/types";
+import { calculate } from "../../countervalues/logic";
+import { getAccountCurrency, getMainAccount } from "../../account";
+import { getOperationAmountNumberWithInternals } from "../../operation";
+import { formatCurrencyUnit } from "../../currencies";
+
+/**
+ * the balance of an account at a date, replaying back its operations from
+ * its current balance
+ */
+export function getBalanceAtDate(account: AccountLike, date: Date): BigNumber {
+  const balance = account.operations
+    .filter((op) => op.date > date)
+    .reduce(
+      (balance, op) => balance.minus(getOperationAmountNumberWithInternals(op)),
+      account.balance
+    );
+  return BigNumber.max(balance, 0);
+}
+
+/**
+ * what every account and token account held at a date, and what it was
+ * worth at the rates of that date
+ */
+export function getPortfolioSnapshot(
+  topAccounts: Account[],
+  date: Date,
+  cvState: CounterValuesState,
+  cvCurrency: Currency
+): PortfolioSnapshot {
+  const positions: PortfolioSnapshotPosition[] = [];
+  const unavailableCurrencies = new Set<
+    PortfolioSnapshotPosition["currency"]
+  >();
+
+  const addPosition = (
+    account: AccountLike,
+    parentAccount: Account | null | undefined
+  ) => {
+    const amount = getBalanceAtDate(account, date);
+    if (amount.isZero()) return;
+    const currency = getAccountCurrency(account);
+    const countervalue = calculate(cvState, {
+      value: amount.toNumber(),
+      from: currency,
+      to: cvCurrency,
+      disableRounding: true,
+      date,
+    });
+    if (typeof countervalue !== "number") unavailableCurrencies.add(currency);
+    positions.push({
+      account,
+      parentAccount,
+      currency,
+      amount,
+      lockedAmount:
+        account.type !== "ChildAccount" &&
+        date >= getMainAccount(account, parentAccount).lastSyncDate
+          ? account.balance.minus(account.spendableBalance)
+          : null,
+      countervalue,
+    });
+  };
+
+  for (const account of topAccounts) {
+    addPosition(account, null);
+    for (const subAccount of account.subAccounts || []) {
+      addPosition(subAccount, account);
+    }
+  }
+
+  return {
+    date,
+    positions,
+    countervalue: positions.reduce(
+      (sum, { countervalue }) => sum + (countervalue ?? 0),
+      0
+    ),
+    unavailableCurrencies: [...unavailableCurrencies],
+  };
+}
+
+type Field = {
+  title: string;
+  cell: (position: PortfolioSnapshotPosition, cvCurrency: Currency) => string;
+};
+
+const newLine = "\r\n";
+
+const formatAmount = (
+  currency: Currency,
+  value: BigNumber | number | null | undefined
+): string =>
+  typeof value === "number" || value
+    ? formatCurrencyUnit(currency.units[0], new BigNumber(value), {
+        disableRounding: true,
+        useGrouping: false,
+      })
+    : "";
+
+const fields: Field[] = [
+  {
+    title: "Account Name",
+    cell: ({ account, parentAccount }) =>
+      getMainAccount(account, parentAccount).name,
+  },
+  {
+    title: "Account xpub",
+    cell: ({ account, parentAccount }) => {
+      const main = getMainAccount(account, parentAccount);
+      return main.xpub || main.freshAddress;
+    },
+  },
+  {
+    title: "Currency Ticker",
+    cell: ({ currency }) => currency.ticker,
+  },
+  {
+    title: "Amount",
+    cell: ({ currency, amount }) => formatAmount(currency, amount),
+  },
+  {
+    title: "Locked Amount",
+    cell: ({ currency, lockedAmount }) => formatAmount(currency, lockedAmount),
+  },
+  {
+    title: "Countervalue Ticker",
+    cell: (_position, cvCurrency) => cvCurrency.ticker,
+  },
+  {
+    title: "Countervalue",
+    cell: ({ countervalue }, cvCurrency) =>
+      formatAmount(cvCurrency, countervalue),
+  },
+];
+
+/**
+ * a CSV of the positions of a snapshot, one row per account
+ */
+export const portfolioSnapshotToCSV = (
+  { positions }: PortfolioSnapshot,
+  cvCurrency: Currency
+): string =>
+  fields.map((field) => field.title).join(",") +
+  newLine +
+  positions
+    .map((position) =>
+      fields
+        .map((field) =>
+          field.cell(position, cvCurrency).replace(/[,\n\r]/g, "")
+        )
+        .join(",")
+    )
+    .join(newLine);
+
+export type PortfolioSnapshotRaw = {
+  date: string;
+  countervalueTicker: string;
+  countervalue: string;
+  positions: Array<{
+    accountId: string;
+    accountName: string;
+    currencyId: string;
+    amount: string;
+    lockedAmount: string | null;
+    countervalue: string | null;
+  }>;
+};
+
+/**
+ * a serializable version of a snapshot, with the amounts in the units of
+ * their currency
+ */
+export const toPortfolioSnapshotRaw = (
+  { date, positions, countervalue }: PortfolioSnapshot,
+  cvCurrency: Currency
+): PortfolioSnapshotRaw => ({
+  date: date.toISOString(),
+  countervalueTicker: cvCurrency.ticker,
+  countervalue: formatAmount(cvCurrency, countervalue),
+  positions: positions.map((position) => ({
+    accountId: position.account.id,
+    accountName: getMainAccount(position.account, position.parentAccount).name,
+    currencyId: position.currency.id,
+    amount: formatAmount(position.currency, position.amount),
+    lockedAmount: position.lockedAmount
+      ? formatAmount(position.currency, position.lockedAmount)
+      : null,
+    countervalue:
+      typeof position.countervalue === "number"
+        ? formatAmount(cvCurrency, position.countervalue)
+        : null,
+  })),
+});
@@ -4,13 +4,14 @@ import type {
   CryptoCurrency,
   TokenCurrency,
 } from "@ledgerhq/types-cryptoassets";
+import { getCustomEvmNetwork } from "./families/evm/customNetworks";
 
 type Icon = React.ComponentType<{
   size: number;
   color: string;
 }>;
 
-function getIconId({ ticker }: CryptoCurrency | TokenCurrency) {
+function getIconId({ ticker }: { ticker: string }) {
   let id = ticker.toLowerCase();
   if (!isNaN(parseInt(id.charAt(0), 10))) id = `_${id}`; // fix variable name leading with a numerical value
 
@@ -20,7 +21,12 @@ function getIconId({ ticker }: CryptoCurrency | TokenCurrency) {
 export function getCryptoCurrencyIcon(
   currency: CryptoCurrency
 ): Icon | null | undefined {
-  return icons[getIconId(currency)];
+  const icon = icons[getIconId(currency)];
+  const customNetwork = !icon && getCustomEvmNetwork(currency);
+  // a custom EVM network falls back on the icon of a known currency
+  return customNetwork
+    ? icons[getIconId({ ticker: customNetwork.iconTicker || "ETH" })]
+    : icon;
 }
 export function getTokenCurrencyIcon(
   token: TokenCurrency
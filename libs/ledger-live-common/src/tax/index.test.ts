@@ -0,0 +1,204 @@
+import { BigNumber } from "bignumber.js";
+import type { Account, Operation } from "@ledgerhq/types-live";
+import { getCryptoCurrencyById, getFiatCurrencyByTicker } from "../currencies";
+import { importCountervalues } from "../countervalues/logic";
+import type { SwapOperation } from "../exchange/swap/types";
+import { computeTaxLots, getYearlyTaxReport, yearlyTaxReportToCSV } from ".";
+
+const bitcoin = getCryptoCurrencyById("bitcoin");
+const ethereum = getCryptoCurrencyById("ethereum");
+const usd = getFiatCurrencyByTicker("USD");
+
+// the rates of a whole coin in dollars
+const state = importCountervalues(
+  {
+    status: {},
+    "BTC-USD": {
+      "2021-01-10": 10000,
+      "2021-02-10": 30000,
+      "2021-03-10": 20000,
+      "2022-01-10": 40000,
+      "2022-06-10": 45000,
+      latest: 50000,
+    },
+    "ETH-USD": {
+      "2021-03-10": 2000,
+      latest: 3000,
+    },
+  },
+  { trackingPairs: [], autofillGaps: true }
+);
+
+const btc = (value: number) => new BigNumber(value).times(1e8);
+const eth = (value: number) => new BigNumber(value).times(1e18);
+
+const makeOperation = (
+  accountId: string,
+  hash: string,
+  type: Operation["type"],
+  date: string,
+  value: BigNumber,
+  fee = new BigNumber(0)
+): Operation => ({
+  id: `${accountId}-${hash}-${type}`,
+  hash,
+  type,
+  value,
+  fee,
+  senders: [],
+  recipients: [],
+  blockHash: null,
+  blockHeight: 1,
+  accountId,
+  date: new Date(`${date}T12:00:00Z`),
+  extra: {},
+});
+
+const makeAccount = (
+  id: string,
+  currency: Account["currency"],
+  operations: Operation[],
+  swapHistory: SwapOperation[] = []
+): Account =>
+  ({
+    type: "Account",
+    id,
+    currency,
+    operations,
+    pendingOperations: [],
+    swapHistory,
+    subAccounts: [],
+  } as unknown as Account);
+
+const fee = btc(0.001);
+const savings = makeAccount("btc-savings", bitcoin, [
+  makeOperation("btc-savings", "buy1", "IN", "2021-01-10", btc(1)),
+  makeOperation("btc-savings", "buy2", "IN", "2021-02-10", btc(1)),
+  // 0.5 sent to someone else
+  makeOperation(
+    "btc-savings",
+    "pay",
+    "OUT",
+    "2021-03-10",
+    btc(0.5).plus(fee),
+    fee
+  ),
+  // 0.2 moved to the spending account
+  makeOperation(
+    "btc-savings",
+    "move",
+    "OUT",
+    "2021-03-10",
+    btc(0.2).plus(fee),
+    fee
+  ),
+  makeOperation("btc-savings", "stake", "REWARD", "2022-01-10", btc(0.1)),
+]);
+const spending = makeAccount("btc-spending", bitcoin, [
+  makeOperation("btc-spending", "move", "IN", "2021-03-10", btc(0.2)),
+]);
+
+describe("computeTaxLots", () => {
+  it("should dispose of the first lots with FIFO", () => {
+    const { disposals, holdings, missingRates } = computeTaxLots(
+      [savings, spending],
+      { method: "FIFO", countervalue: usd, state }
+    );
+
+    expect(missingRates).toBe(0);
+    // the move between the accounts only costs its fee
+    expect(
+      disposals.map((d) => [
+        d.kind,
+        d.amount.toNumber(),
+        d.proceeds?.toNumber(),
+        d.costBasis.toNumber(),
+        d.gain.toNumber(),
+      ])
+    ).toEqual([
+      ["send", btc(0.5).toNumber(), 1000000, 500000, 500000],
+      ["fee", fee.toNumber(), 2000, 1000, 1000],
+      ["fee", fee.toNumber(), 2000, 1000, 1000],
+    ]);
+    expect(holdings).toEqual([
+      {
+        currency: bitcoin,
+        amount: btc(1.598),
+        costBasis: new BigNumber(3898000),
+        value: new BigNumber(7990000),
+        unrealizedGain: new BigNumber(4092000),
+      },
+    ]);
+  });
+
+  it("should dispose of the most expensive lots with HIFO", () => {
+    const { disposals } = computeTaxLots([savings, spending], {
+      method: "HIFO",
+      countervalue: usd,
+      state,
+    });
+
+    expect(disposals[0].costBasis.toNumber()).toBe(1500000);
+    expect(disposals[0].gain.toNumber()).toBe(-500000);
+    expect(disposals[0].matches[0].lot.operationId).toBe("btc-savings-buy2-IN");
+  });
+
+  it("should carry the proceeds of a swap to what it received", () => {
+    const swap = {
+      provider: "changelly",
+      swapId: "swap1",
+      status: "finished",
+      receiverAccountId: "eth",
+      operationId: "btc-swap-OUT",
+      fromAmount: btc(0.5),
+      toAmount: eth(4.9),
+    };
+    const { disposals, lots } = computeTaxLots(
+      [
+        makeAccount(
+          "btc",
+          bitcoin,
+          [
+            makeOperation("btc", "buy", "IN", "2021-01-10", btc(1)),
+            makeOperation("btc", "swap", "OUT", "2021-03-10", btc(0.5)),
+          ],
+          [swap]
+        ),
+        makeAccount("eth", ethereum, [
+          makeOperation("eth", "swapped", "IN", "2021-03-10", eth(4.9)),
+        ]),
+      ],
+      { method: "FIFO", countervalue: usd, state }
+    );
+
+    expect(disposals[0].kind).toBe("swap");
+    expect(lots[1]).toMatchObject({ kind: "swap", currency: ethereum });
+    expect(lots[1].costBasis).toEqual(disposals[0].proceeds);
+  });
+
+  it("should report the disposals and the income of a year", () => {
+    const report = getYearlyTaxReport(
+      computeTaxLots([savings, spending], {
+        method: "FIFO",
+        countervalue: usd,
+        state,
+      }),
+      2021
+    );
+
+    expect(report.disposals).toHaveLength(3);
+    expect(report.realizedGain.toNumber()).toBe(502000);
+    expect(report.fees.toNumber()).toBe(4000);
+    expect(report.income.toNumber()).toBe(0);
+    expect(yearlyTaxReportToCSV(report).split("\r\n").slice(0, 2)).toEqual([
+      "Date Disposed,Date Acquired,Currency Ticker,Disposal Type,Amount,Unmatched Amount,Countervalue Ticker,Proceeds,Cost Basis,Gain,Operation Id",
+      "2021-03-10T12:00:00.000Z,2021-01-10T12:00:00.000Z,BTC,send,0.5,0,USD,10000.00,5000.00,5000.00,btc-savings-pay-OUT",
+    ]);
+    expect(
+      getYearlyTaxReport(
+        computeTaxLots([savings], { method: "FIFO", countervalue: usd, state }),
+        2022
+      ).income.toNumber()
+    ).toBe(400000);
+  });
+});
@@ -0,0 +1,458 @@
+import { BigNumber } from "bignumber.js";
+import type { Account, AccountLike, Operation } from "@ledgerhq/types-live";
+import type {
+  CryptoCurrency,
+  Currency,
+  TokenCurrency,
+} from "@ledgerhq/types-cryptoassets";
+import { formatCurrencyUnit } from "../currencies";
+import { flattenAccounts, getAccountCurrency } from "../account";
+import { calculate } from "../countervalues/logic";
+import { operationStatusList } from "../exchange/swap";
+import type { SwapOperation } from "../exchange/swap/types";
+import type { CounterValuesState } from "../countervalues/types";
+import type {
+  AcquisitionKind,
+  Disposal,
+  DisposalKind,
+  Holding,
+  TaxLot,
+  TaxLotMatch,
+  TaxLotMethod,
+  TaxLotsResult,
+  YearlyTaxReport,
+} from "./types";
+
+export * from "./types";
+
+type Event =
+  | {
+      type: "acquisition";
+      currency: CryptoCurrency | TokenCurrency;
+      accountId: string;
+      operationId: string;
+      kind: AcquisitionKind;
+      date: Date;
+      amount: BigNumber;
+      swap?: SwapOperation;
+    }
+  | {
+      type: "disposal";
+      currency: CryptoCurrency | TokenCurrency;
+      accountId: string;
+      operationId: string;
+      kind: DisposalKind;
+      date: Date;
+      amount: BigNumber;
+      swap?: SwapOperation;
+    };
+
+// the operations whose fee is paid by someone else, which are no fee disposal
+const incomingTypes = ["IN", "REWARD", "REWARD_PAYOUT", "NONE"];
+
+const transferKey = (
+  currency: CryptoCurrency | TokenCurrency,
+  op: Operation
+): string => `${currency.id}|${op.hash}`;
+
+// the hashes of the transactions sent from and received on the accounts, to
+// tell the transfers between them, which are not disposals
+function getAccountsByTransfer(
+  accounts: AccountLike[],
+  type: "IN" | "OUT"
+): Map<string, Set<string>> {
+  const map = new Map<string, Set<string>>();
+  for (const account of accounts) {
+    const currency = getAccountCurrency(account);
+    for (const op of account.operations) {
+      if (op.type !== type) continue;
+      const key = transferKey(currency, op);
+      const ids = map.get(key) || new Set();
+      ids.add(account.id);
+      map.set(key, ids);
+    }
+  }
+  return map;
+}
+
+const isTransferBetween = (
+  others: Map<string, Set<string>>,
+  account: AccountLike,
+  currency: CryptoCurrency | TokenCurrency,
+  op: Operation
+): boolean =>
+  [...(others.get(transferKey(currency, op)) || [])].some(
+    (id) => id !== account.id
+  );
+
+function getEvents(accounts: Account[]): Event[] {
+  const all = flattenAccounts(accounts);
+  const ins = getAccountsByTransfer(all, "IN");
+  const outs = getAccountsByTransfer(all, "OUT");
+  const operationDates = new Map<string, number>();
+  for (const account of all) {
+    for (const op of account.operations) {
+      operationDates.set(op.id, op.date.getTime());
+    }
+  }
+  const swapDate = (swap: SwapOperation): number =>
+    operationDates.get(swap.operationId) || 0;
+  const swapsByOperation = new Map<string, SwapOperation>();
+  // the swaps not yet matched with the operation that received them
+  const swapsByReceiver = new Map<string, SwapOperation[]>();
+  for (const account of all) {
+    for (const swap of account.swapHistory) {
+      if (!operationStatusList.finishedOK.includes(swap.status)) continue;
+      swapsByOperation.set(swap.operationId, swap);
+      swapsByReceiver.set(swap.receiverAccountId, [
+        ...(swapsByReceiver.get(swap.receiverAccountId) || []),
+        swap,
+      ]);
+    }
+  }
+  for (const swaps of swapsByReceiver.values()) {
+    swaps.sort((a, b) => swapDate(a) - swapDate(b));
+  }
+  // the first swap sent before an operation received on its receiver
+  const takeSwap = (accountId: string, op: Operation) => {
+    const swaps = swapsByReceiver.get(accountId) || [];
+    const index = swaps.findIndex((s) => swapDate(s) <= op.date.getTime());
+    return index === -1 ? undefined : swaps.splice(index, 1)[0];
+  };
+
+  const events: Event[] = [];
+  for (const account of all) {
+    const currency = getAccountCurrency(account);
+    const isMainAccount = account.type === "Account";
+    const operations = [...account.operations].sort(
+      (a, b) => a.date.getTime() - b.date.getTime()
+    );
+    for (const op of operations) {
+      const common = {
+        currency,
+        accountId: account.id,
+        operationId: op.id,
+        date: op.date,
+      };
+      for (const o of [op, ...(op.internalOperations || [])]) {
+        const { type, value } = o;
+        if (type === "IN") {
+          if (isTransferBetween(outs, account, currency, op)) continue;
+          const swap = takeSwap(account.id, op);
+          events.push({
+            ...common,
+            type: "acquisition",
+            kind: swap ? "swap" : "receive",
+            amount: value,
+            swap,
+          });
+        } else if (type === "REWARD" || type === "REWARD_PAYOUT") {
+          events.push({
+            ...common,
+            type: "acquisition",
+            kind: "reward",
+            amount: value,
+          });
+        } else if (type === "OUT") {
+          if (isTransferBetween(ins, account, currency, op)) continue;
+          // the value of an operation of a main account includes its fee
+          const amount =
+            isMainAccount && o === op ? value.minus(op.fee) : value;
+          const swap = swapsByOperation.get(op.id);
+          if (amount.gt(0)) {
+            events.push({
+              ...common,
+              type: "disposal",
+              kind: swap ? "swap" : "send",
+              amount,
+              swap,
+            });
+          }
+        }
+      }
+      // the fees are paid by the main account, even for the token operations
+      if (isMainAccount && op.fee.gt(0) && !incomingTypes.includes(op.type)) {
+        events.push({
+          ...common,
+          type: "disposal",
+          kind: "fee",
+          amount: op.fee,
+        });
+      }
+    }
+  }
+
+  // on the same date, what is acquired can be disposed of, except what a
+  // swap received, which comes after what it sent
+  const rank = (event: Event): number =>
+    event.type === "disposal" ? 1 : event.swap ? 2 : 0;
+  return events.sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || rank(a) - rank(b)
+  );
+}
+
+const costPerUnit = (lot: TaxLot): BigNumber =>
+  lot.costBasis ? lot.costBasis.div(lot.amount) : new BigNumber(0);
+
+const lotsOrder: Record<TaxLotMethod, (a: TaxLot, b: TaxLot) => number> = {
+  FIFO: (a, b) => a.date.getTime() - b.date.getTime(),
+  LIFO: (a, b) => b.date.getTime() - a.date.getTime(),
+  HIFO: (a, b) => costPerUnit(b).comparedTo(costPerUnit(a)),
+};
+
+/**
+ * Compute the tax lots of the accounts: every receive, swap and reward is a
+ * lot acquired at its countervalue, every send, swap and fee disposes of lots
+ * in the order of the method. The transfers between the accounts are not
+ * disposals, only their fees are.
+ */
+export function computeTaxLots(
+  accounts: Account[],
+  {
+    method,
+    countervalue,
+    state,
+  }: {
+    method: TaxLotMethod;
+    countervalue: Currency;
+    state: CounterValuesState;
+  }
+): TaxLotsResult {
+  const lots: TaxLot[] = [];
+  const disposals: Disposal[] = [];
+  // the proceeds of the swaps, which are the cost of what they received
+  const swapProceeds = new Map<SwapOperation, BigNumber>();
+  let missingRates = 0;
+
+  const valueOf = (
+    currency: Currency,
+    amount: BigNumber,
+    date?: Date
+  ): BigNumber | null => {
+    const value = calculate(state, {
+      value: amount.toNumber(),
+      from: currency,
+      to: countervalue,
+      disableRounding: true,
+      date,
+    });
+    return typeof value === "number" ? new BigNumber(value) : null;
+  };
+
+  for (const event of getEvents(accounts)) {
+    const { type, swap, ...rest } = event;
+
+    if (type === "acquisition") {
+      const costBasis =
+        (swap && swapProceeds.get(swap)) ||
+        valueOf(event.currency, event.amount, event.date);
+      if (!costBasis) missingRates++;
+      lots.push({
+        ...rest,
+        kind: event.kind,
+        costBasis,
+        remaining: event.amount,
+      });
+      continue;
+    }
+
+    const proceeds = valueOf(event.currency, event.amount, event.date);
+    if (!proceeds) missingRates++;
+    if (swap && proceeds) swapProceeds.set(swap, proceeds);
+
+    const matches: TaxLotMatch[] = [];
+    let left = event.amount;
+    const available = lots
+      .filter(
+        (lot) => lot.currency.id === event.currency.id && lot.remaining.gt(0)
+      )
+      .sort(lotsOrder[method]);
+    for (const lot of available) {
+      if (left.isZero()) break;
+      const amount = BigNumber.min(lot.remaining, left);
+      lot.remaining = lot.remaining.minus(amount);
+      left = left.minus(amount);
+      matches.push({
+        lot,
+        amount,
+        costBasis: costPerUnit(lot).times(amount),
+      });
+    }
+    const costBasis = matches.reduce(
+      (sum, match) => sum.plus(match.costBasis),
+      new BigNumber(0)
+    );
+    disposals.push({
+      ...rest,
+      kind: event.kind,
+      proceeds,
+      costBasis,
+      gain: (proceeds || new BigNumber(0)).minus(costBasis),
+      matches,
+      unmatchedAmount: left,
+    });
+  }
+
+  return {
+    method,
+    countervalue,
+    lots,
+    disposals,
+    holdings: getHoldings(lots, valueOf),
+    missingRates,
+  };
+}
+
+function getHoldings(
+  lots: TaxLot[],
+  valueOf: (currency: Currency, amount: BigNumber) => BigNumber | null
+): Holding[] {
+  const holdings = new Map<string, Holding>();
+  for (const lot of lots) {
+    if (!lot.remaining.gt(0)) continue;
+    const holding = holdings.get(lot.currency.id) || {
+      currency: lot.currency,
+      amount: new BigNumber(0),
+      costBasis: new BigNumber(0),
+      value: null,
+      unrealizedGain: null,
+    };
+    holdings.set(lot.currency.id, {
+      ...holding,
+      amount: holding.amount.plus(lot.remaining),
+      costBasis: holding.costBasis.plus(costPerUnit(lot).times(lot.remaining)),
+    });
+  }
+  return [...holdings.values()].map((holding) => {
+    // at the latest rate
+    const value = valueOf(holding.currency, holding.amount);
+    return {
+      ...holding,
+      value,
+      unrealizedGain: value ? value.minus(holding.costBasis) : null,
+    };
+  });
+}
+
+const sum = (values: Array<BigNumber | null>): BigNumber =>
+  values.reduce<BigNumber>(
+    (total, value) => (value ? total.plus(value) : total),
+    new BigNumber(0)
+  );
+
+/**
+ * The disposals of a year with their totals, and the rewards received
+ */
+export function getYearlyTaxReport(
+  { method, countervalue, lots, disposals }: TaxLotsResult,
+  year: number
+): YearlyTaxReport {
+  const inYear = ({ date }: { date: Date }) => date.getFullYear() === year;
+  const yearDisposals = disposals.filter(inYear);
+  return {
+    year,
+    method,
+    countervalue,
+    disposals: yearDisposals,
+    proceeds: sum(yearDisposals.map((d) => d.proceeds)),
+    costBasis: sum(yearDisposals.map((d) => d.costBasis)),
+    realizedGain: sum(yearDisposals.map((d) => d.gain)),
+    income: sum(
+      lots
+        .filter((l) => l.kind === "reward" && inYear(l))
+        .map((l) => l.costBasis)
+    ),
+    fees: sum(
+      yearDisposals.filter((d) => d.kind === "fee").map((d) => d.proceeds)
+    ),
+  };
+}
+
+type Field = {
+  title: string;
+  cell: (disposal: Disposal, countervalue: Currency) => string;
+};
+
+const newLine = "\r\n";
+
+const formatAmount = (currency: Currency, value: BigNumber | null): string =>
+  value
+    ? formatCurrencyUnit(currency.units[0], value, {
+        disableRounding: true,
+        useGrouping: false,
+      })
+    : "";
+
+const fields: Field[] = [
+  {
+    title: "Date Disposed",
+    cell: (disposal) => disposal.date.toISOString(),
+  },
+  {
+    title: "Date Acquired",
+    cell: ({ matches }) => {
+      const dates = [
+        ...new Set(matches.map(({ lot }) => lot.date.toISOString())),
+      ];
+      return dates.length > 1 ? "Various" : dates[0] || "";
+    },
+  },
+  {
+    title: "Currency Ticker",
+    cell: (disposal) => disposal.currency.ticker,
+  },
+  {
+    title: "Disposal Type",
+    cell: (disposal) => disposal.kind,
+  },
+  {
+    title: "Amount",
+    cell: (disposal) => formatAmount(disposal.currency, disposal.amount),
+  },
+  {
+    title: "Unmatched Amount",
+    cell: (disposal) =>
+      formatAmount(disposal.currency, disposal.unmatchedAmount),
+  },
+  {
+    title: "Countervalue Ticker",
+    cell: (_disposal, countervalue) => countervalue.ticker,
+  },
+  {
+    title: "Proceeds",
+    cell: (disposal, countervalue) =>
+      formatAmount(countervalue, disposal.proceeds),
+  },
+  {
+    title: "Cost Basis",
+    cell: (disposal, countervalue) =>
+      formatAmount(countervalue, disposal.costBasis),
+  },
+  {
+    title: "Gain",
+    cell: (disposal, countervalue) => formatAmount(countervalue, disposal.gain),
+  },
+  {
+    title: "Operation Id",
+    cell: (disposal) => disposal.operationId,
+  },
+];
+
+/**
+ * The disposals of a yearly report as a CSV, one row per disposal
+ */
+export const yearlyTaxReportToCSV = ({
+  disposals,
+  countervalue,
+}: YearlyTaxReport): string =>
+  fields.map((field) => field.title).join(",") +
+  newLine +
+  disposals
+    .map((disposal) =>
+      fields
+        .map((field) =>
+          field.cell(disposal, countervalue).replace(/[,\n\r]/g, "")
+        )
+        .join(",")
+    )
+    .join(newLine);
@@ -0,0 +1,87 @@
+import type { BigNumber } from "bignumber.js";
+import type {
+  CryptoCurrency,
+  Currency,
+  TokenCurrency,
+} from "@ledgerhq/types-cryptoassets";
+
+/**
+ * The lots a disposal is matched with: the first acquired (FIFO), the last
+ * acquired (LIFO) or the ones of highest cost (HIFO)
+ */
+export type TaxLotMethod = "FIFO" | "LIFO" | "HIFO";
+
+export type AcquisitionKind = "receive" | "reward" | "swap";
+
+export type DisposalKind = "send" | "fee" | "swap";
+
+// amounts are in the smallest unit of their currency, values in the smallest
+// unit of the countervalue
+export type TaxLot = {
+  currency: CryptoCurrency | TokenCurrency;
+  accountId: string;
+  operationId: string;
+  kind: AcquisitionKind;
+  date: Date;
+  amount: BigNumber;
+  // the value at acquisition, null when there was no rate
+  costBasis: BigNumber | null;
+  // what is left of amount after the disposals
+  remaining: BigNumber;
+};
+
+export type Disposal = {
+  currency: CryptoCurrency | TokenCurrency;
+  accountId: string;
+  operationId: string;
+  kind: DisposalKind;
+  date: Date;
+  amount: BigNumber;
+  // the value at disposal, null when there was no rate
+  proceeds: BigNumber | null;
+  costBasis: BigNumber;
+  gain: BigNumber;
+  // the lots the amount was taken from
+  matches: TaxLotMatch[];
+  // the part of amount matched with no lot, e.g. with an incomplete history
+  unmatchedAmount: BigNumber;
+};
+
+export type TaxLotMatch = {
+  lot: TaxLot;
+  amount: BigNumber;
+  costBasis: BigNumber;
+};
+
+export type Holding = {
+  currency: CryptoCurrency | TokenCurrency;
+  amount: BigNumber;
+  costBasis: BigNumber;
+  // the current value, null when there is no rate
+  value: BigNumber | null;
+  unrealizedGain: BigNumber | null;
+};
+
+export type TaxLotsResult = {
+  method: TaxLotMethod;
+  countervalue: Currency;
+  lots: TaxLot[];
+  disposals: Disposal[];
+  holdings: Holding[];
+  // the number of acquisitions and disposals without a countervalue rate
+  missingRates: number;
+};
+
+export type YearlyTaxReport = {
+  year: number;
+  method: TaxLotMethod;
+  countervalue: Currency;
+  disposals: Disposal[];
+  proceeds: BigNumber;
+  costBasis: BigNumber;
+  realizedGain: BigNumber;
+  // the value of the rewards received during the year
+  income: BigNumber;
+  // the value of the fees paid during the year
+  fees: BigNumber;
+};
@@ -28,6 +28,10 @@ export const fromTransactionCommonRaw = (
     common.subAccountId = raw.subAccountId;
   }
 
+  if (raw.recipientDomain) {
+    common.recipientDomain = { ...raw.recipientDomain };
+  }
+
   return common;
 };
 
@@ -47,6 +51,10 @@ export const toTransactionCommonRaw = (
     common.subAccountId = raw.subAccountId;
   }
 
+  if (raw.recipientDomain) {
+    common.recipientDomain = { ...raw.recipientDomain };
+  }
+
   return common;
 };
 
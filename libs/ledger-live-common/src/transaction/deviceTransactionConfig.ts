@@ -37,5 +37,20 @@ export function getDeviceTransactionConfig(arg: {
   const mainAccount = getMainAccount(arg.account, arg.parentAccount);
   const f = perFamily[mainAccount.currency.family];
   if (!f) return [];
-  return f(arg);
+  const fields: Array<DeviceTransactionField> = f(arg);
+  const { recipient, recipientDomain } = arg.transaction;
+  if (recipientDomain && recipientDomain.address === recipient) {
+    // the name is shown above the address it resolved to
+    const index = fields.findIndex(
+      (field) => field.type === "address" && field.address === recipient
+    );
+    if (index !== -1) {
+      fields.splice(index, 0, {
+        type: "text",
+        label: "Domain",
+        value: recipientDomain.domain,
+      });
+    }
+  }
+  return fields;
 }
@@ -19,6 +19,7 @@ import {
   findCryptoCurrencyByTicker,
   findCryptoCurrencyByKeyword,
   registerCryptoCurrency,
+  unregisterCryptoCurrency,
   cryptocurrenciesById,
 } from "./currencies";
 
@@ -282,7 +283,7 @@ test("Ethereum family convention: all ethereum testnet coins must derivate on th
   ).toEqual([]);
 });
 
-test("can register a new coin externally", () => {
+test("can register and unregister a new coin externally", () => {
   const coinId = "mycoin";
   expect(() => getCryptoCurrencyById("mycoin")).toThrow(
     `currency with id "${coinId}" not found`
@@ -320,4 +321,11 @@ test("can register a new coin externally", () => {
   };
   registerCryptoCurrency(coinId, mycoin as CryptoCurrency);
   expect(getCryptoCurrencyById(coinId)).toEqual(mycoin);
+
+  unregisterCryptoCurrency(coinId);
+  expect(hasCryptoCurrencyId(coinId)).toBe(false);
+  expect(findCryptoCurrencyByScheme(mycoin.scheme)).toBe(undefined);
+  expect(listCryptoCurrencies(true, true).map((c) => c.id)).not.toContain(
+    coinId
+  );
 });
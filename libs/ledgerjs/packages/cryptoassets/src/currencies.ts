@@ -3502,6 +3502,33 @@ export function registerCryptoCurrency(
   }
 }
 
+/**
+ * Remove a currency registered with registerCryptoCurrency
+ * @param {string} id
+ */
+export function unregisterCryptoCurrency(id: string): void {
+  const currency = cryptocurrenciesById[id];
+  if (!currency) return;
+
+  delete cryptocurrenciesById[id];
+  if (cryptocurrenciesByScheme[currency.scheme] === currency) {
+    delete cryptocurrenciesByScheme[currency.scheme];
+  }
+  if (cryptocurrenciesByTicker[currency.ticker] === currency) {
+    delete cryptocurrenciesByTicker[currency.ticker];
+  }
+
+  for (const list of [
+    cryptocurrenciesArray,
+    prodCryptoArray,
+    cryptocurrenciesArrayWithoutTerminated,
+    prodCryptoArrayWithoutTerminated,
+  ]) {
+    const index = list.indexOf(currency);
+    if (index !== -1) list.splice(index, 1);
+  }
+}
+
 /**
  *
  * @param {*} withDevCrypto
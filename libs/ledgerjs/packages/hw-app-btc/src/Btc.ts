@@ -6,11 +6,14 @@ import { getTrustedInput } from "./getTrustedInput";
 import { getTrustedInputBIP143 } from "./getTrustedInputBIP143";
 import type { AddressFormat } from "./getWalletPublicKey";
 import { AppClient } from "./newops/appClient";
+import type { BIP322Format } from "./newops/bip322";
+import { WalletPolicy } from "./newops/policy";
 import { serializeTransactionOutputs } from "./serializeTransaction";
 import type { SignP2SHTransactionArg } from "./signP2SHTransaction";
 import { splitTransaction } from "./splitTransaction";
 import type { Transaction } from "./types";
-export type { AddressFormat };
+export type { AddressFormat, BIP322Format };
+export { WalletPolicy };
 import { signP2SHTransaction } from "./signP2SHTransaction";
 import { signMessage } from "./signMessage";
 import { checkIsBtcLegacy, getAppAndVersion } from "./getAppAndVersion";
@@ -44,6 +47,10 @@ export default class Btc {
         "getWalletPublicKey",
         "signP2SHTransaction",
         "signMessage",
+        "signMessageBIP322",
+        "registerWalletPolicy",
+        "signPsbtWithPolicy",
+        "signPsbtBuffer",
         "createPaymentTransaction",
         "getTrustedInput",
         "getTrustedInputBIP143",
@@ -145,6 +152,100 @@ export default class Btc {
     });
   }
 
+  /**
+   * You can sign a message according to BIP322 with the address at the given BIP 32 path. This is required to prove the ownership of segwit and taproot addresses, which the legacy signMessage format doesn't support.
+   * Only available with the bitcoin app version 2+.
+   * @param path is the BIP 32 path of the address, e.g. `84'/0'/0'/0/0`
+   * @param messageHex is the hexadecimal message to sign
+   * @param format is the address format of the path: "legacy", "p2sh", "bech32" or "bech32m"
+   * @param bip322Format is "simple" (default), the witness of the signature, or "full", the whole signed transaction. Legacy addresses require "full".
+   * @return the base64 encoded BIP322 signature
+   * @example
+  btc.signMessageBIP322({
+    path: "84'/0'/0'/0/0",
+    messageHex: Buffer.from("Hello World").toString("hex"),
+    format: "bech32",
+  }).then(signature => ...);
+   */
+  signMessageBIP322(arg: {
+    path: string;
+    messageHex: string;
+    format: AddressFormat;
+    bip322Format?: BIP322Format;
+  }): Promise<string> {
+    return this.changeImplIfNecessary().then((impl) => {
+      if (!(impl instanceof BtcNew)) {
+        throw new Error(
+          "BIP322 message signing requires the bitcoin app version 2+"
+        );
+      }
+      return impl.signMessageBIP322(arg);
+    });
+  }
+
+  /**
+   * You can register a wallet policy, such as a multisig one, which the user approves on the device.
+   * Only available with the bitcoin app version 2+.
+   * @param walletPolicy is the policy to register, e.g. a `wsh(sortedmulti(2,@0,@1,@2))` template with the keys of the cosigners
+   * @return the HMAC of the registered policy, to provide when signing with it
+   */
+  registerWalletPolicy(walletPolicy: WalletPolicy): Promise<Buffer> {
+    return this.changeImplIfNecessary().then((impl) => {
+      if (!(impl instanceof BtcNew)) {
+        throw new Error("Wallet policies require the bitcoin app version 2+");
+      }
+      return impl.registerWalletPolicy(walletPolicy);
+    });
+  }
+
+  /**
+   * You can sign the inputs of a PSBT spending the outputs of a registered wallet policy, e.g. a multisig.
+   * Signatures are added as partial signatures and the PSBT isn't finalized, so that other cosigners can sign it too.
+   * Only available with the bitcoin app version 2+.
+   * @param psbt is the serialized PSBT (version 2), with the BIP 32 derivations of all the keys
+   * @param walletPolicy is the registered policy
+   * @param walletHMAC is the HMAC returned by registerWalletPolicy
+   * @return the serialized PSBT with the signatures of the device
+   */
+  signPsbtWithPolicy(arg: {
+    psbt: Buffer;
+    walletPolicy: WalletPolicy;
+    walletHMAC: Buffer;
+    onDeviceSignatureGranted?: () => void;
+  }): Promise<Buffer> {
+    return this.changeImplIfNecessary().then((impl) => {
+      if (!(impl instanceof BtcNew)) {
+        throw new Error("Wallet policies require the bitcoin app version 2+");
+      }
+      return impl.signPsbtWithPolicy(arg);
+    });
+  }
+
+  /**
+   * You can sign a PSBT built by another tool, spending outputs of a single key account of the device.
+   * Signatures are added as partial signatures and the PSBT isn't finalized.
+   * Only available with the bitcoin app version 2+.
+   * @param psbt is the serialized PSBT, version 0 or 2, with the BIP 32 derivations of the keys of the device
+   * @param accountPath is the path of the account, e.g. "84'/0'/0'"
+   * @param addressFormat is the address format of the account
+   * @return the serialized PSBT (version 2) with the signatures of the device
+   * @example
+  btc.signPsbtBuffer({ psbt, accountPath: "84'/0'/0'", addressFormat: "bech32" }).then(psbt => ...)
+   */
+  signPsbtBuffer(arg: {
+    psbt: Buffer;
+    accountPath: string;
+    addressFormat: AddressFormat;
+    onDeviceSignatureGranted?: () => void;
+  }): Promise<Buffer> {
+    return this.changeImplIfNecessary().then((impl) => {
+      if (!(impl instanceof BtcNew)) {
+        throw new Error("PSBT signing requires the bitcoin app version 2+");
+      }
+      return impl.signPsbtBuffer(arg);
+    });
+  }
+
   /**
    * To sign a transaction involving standard (P2PKH) inputs, call createTransaction with the following parameters
    * @param inputs is an array of [ transaction, output_index, optional redeem script, optional sequence ] where
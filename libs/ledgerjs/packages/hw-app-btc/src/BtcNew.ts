@@ -19,6 +19,7 @@ import {
   SpendingCondition,
 } from "./newops/accounttype";
 import { AppClient as Client } from "./newops/appClient";
+import { BIP322Format, bip322ToSignPsbt, bip322ToSpend } from "./newops/bip322";
 import {
   createKey,
   DefaultDescriptorTemplate,
@@ -297,6 +298,173 @@ export default class BtcNew {
     return serializedTx.toString("hex");
   }
 
+  /**
+   * Sign a message according to BIP322, which unlike the legacy
+   * signMessage also works for segwit and taproot addresses. See
+   * Btc.signMessageBIP322 for details on how to use this method.
+   *
+   * The device signs the virtual to_sign transaction spending the output
+   * of the address at path, and the base64 encoded signature in the requested
+   * BIP322 format is returned.
+   */
+  async signMessageBIP322({
+    path,
+    messageHex,
+    format,
+    bip322Format = "simple",
+  }: {
+    path: string;
+    messageHex: string;
+    format: AddressFormat;
+    bip322Format?: BIP322Format;
+  }): Promise<string> {
+    if (!isPathNormal(path)) {
+      throw Error(`non-standard path: ${path}`);
+    }
+    const pathElements: number[] = pathStringToArray(path);
+    const accountPath = hardenedPathOf(pathElements);
+    if (accountPath.length + 2 != pathElements.length) {
+      throw Error(`Expected the path of an address, got ${path}`);
+    }
+    if (bip322Format == "simple" && format == "legacy") {
+      throw Error("Legacy addresses can only produce full BIP322 signatures");
+    }
+    const psbt = new PsbtV2();
+    const masterFp = await this.client.getMasterFingerprint();
+    const accountType = accountTypeFromFormat(format, psbt, masterFp);
+    const accountXpub = await this.client.getExtendedPubkey(false, accountPath);
+    const pubkey = pubkeyFromXpub(
+      await this.client.getExtendedPubkey(false, pathElements)
+    );
+    const cond = accountType.spendingCondition([pubkey]);
+    const toSpend = bip322ToSpend(
+      Buffer.from(messageHex, "hex"),
+      cond.scriptPubKey
+    );
+    bip322ToSignPsbt(psbt, toSpend);
+    accountType.setInput(
+      0,
+      toSpend,
+      { cond, amount: Buffer.alloc(8, 0) },
+      [pubkey],
+      [pathElements]
+    );
+
+    const key = createKey(masterFp, accountPath, accountXpub);
+    const p = new WalletPolicy(accountType.getDescriptorTemplate(), key);
+    await this.signPsbt(psbt, p, () => undefined);
+    finalize(psbt);
+    if (bip322Format == "full") {
+      return extract(psbt).toString("base64");
+    }
+    return psbt.getInputFinalScriptwitness(0).toString("base64");
+  }
+
+  /**
+   * Register a wallet policy, such as a multisig one, on the device. The
+   * user has to approve the policy and its keys on the device.
+   *
+   * @returns the HMAC of the registered policy, needed to sign with it
+   */
+  async registerWalletPolicy(walletPolicy: WalletPolicy): Promise<Buffer> {
+    const [, walletHMAC] = await this.client.registerWallet(walletPolicy);
+    return walletHMAC;
+  }
+
+  /**
+   * Sign the inputs of a psbt spending the outputs of a registered wallet
+   * policy, typically a multisig. The psbt must carry the BIP32 derivation
+   * of every key: the signatures are added as partial signatures of the key
+   * of this device, found with its master fingerprint. The psbt isn't
+   * finalized, other cosigners may still have to sign it.
+   *
+   * @returns the serialized psbt with the signatures of the device
+   */
+  async signPsbtWithPolicy({
+    psbt: psbtBuffer,
+    walletPolicy,
+    walletHMAC,
+    onDeviceSignatureGranted,
+  }: {
+    psbt: Buffer;
+    walletPolicy: WalletPolicy;
+    walletHMAC: Buffer;
+    onDeviceSignatureGranted?: () => void;
+  }): Promise<Buffer> {
+    const psbt = new PsbtV2();
+    psbt.deserialize(psbtBuffer);
+    const masterFp = await this.client.getMasterFingerprint();
+    let firstSigned = false;
+    const sigs: Map<number, Buffer> = await this.client.signPsbt(
+      psbt,
+      walletPolicy,
+      walletHMAC,
+      () => {
+        if (!firstSigned) {
+          firstSigned = true;
+          onDeviceSignatureGranted && onDeviceSignatureGranted();
+        }
+      }
+    );
+    sigs.forEach((v, k) => {
+      const pubkeys = psbt
+        .getInputKeyDatas(k, psbtIn.BIP32_DERIVATION)
+        .filter((pubkey) =>
+          psbt
+            .getInputBip32Derivation(k, pubkey)
+            ?.masterFingerprint.equals(masterFp)
+        );
+      if (pubkeys.length != 1) {
+        throw Error(`Missing pubkey derivation of the device for input ${k}`);
+      }
+      psbt.setInputPartialSig(k, pubkeys[0], v);
+    });
+    return psbt.serialize();
+  }
+
+  /**
+   * Sign the inputs of an externally built psbt that spend outputs of the
+   * single key account at accountPath, such as 84'/0'/0'. The psbt must carry
+   * the BIP32 derivations of the keys of the device. Signatures are added as
+   * partial signatures, or taproot key signatures, and the psbt isn't
+   * finalized.
+   *
+   * @returns the serialized psbt (version 2) with the signatures of the device
+   */
+  async signPsbtBuffer({
+    psbt: psbtBuffer,
+    accountPath,
+    addressFormat,
+    onDeviceSignatureGranted,
+  }: {
+    psbt: Buffer;
+    accountPath: string;
+    addressFormat: AddressFormat;
+    onDeviceSignatureGranted?: () => void;
+  }): Promise<Buffer> {
+    const pathElements = pathStringToArray(accountPath);
+    if (hardenedPathOf(pathElements).length != pathElements.length) {
+      throw Error(`Expected the path of an account, got ${accountPath}`);
+    }
+    const psbt = new PsbtV2();
+    psbt.deserialize(psbtBuffer);
+    const masterFp = await this.client.getMasterFingerprint();
+    const accountXpub = await this.client.getExtendedPubkey(
+      false,
+      pathElements
+    );
+    const key = createKey(masterFp, pathElements, accountXpub);
+    const p = new WalletPolicy(descrTemplFrom(addressFormat), key);
+    let firstSigned = false;
+    await this.signPsbt(psbt, p, () => {
+      if (!firstSigned) {
+        firstSigned = true;
+        onDeviceSignatureGranted && onDeviceSignatureGranted();
+      }
+    });
+    return psbt.serialize();
+  }
+
   /**
    * Calculates an output script along with public key and possible redeemScript
    * from a path and accountType. The accountPath must be a prefix of path.
@@ -444,6 +612,18 @@ function accountTypeFromArg(
   return new p2pkh(psbt, masterFp);
 }
 
+function accountTypeFromFormat(
+  addressFormat: AddressFormat,
+  psbt: PsbtV2,
+  masterFp: Buffer
+): AccountType {
+  if (addressFormat == "legacy") return new p2pkh(psbt, masterFp);
+  if (addressFormat == "p2sh") return new p2wpkhWrapped(psbt, masterFp);
+  if (addressFormat == "bech32") return new p2wpkh(psbt, masterFp);
+  if (addressFormat == "bech32m") return new p2tr(psbt, masterFp);
+  throw new Error("Unsupported address format " + addressFormat);
+}
+
 /*
   The new protocol only allows standard path.
   Standard paths are (currently):
@@ -11,3 +11,4 @@ export const OP_EQUAL = 0x87;
 export const OP_EQUALVERIFY = 0x88;
 export const OP_CHECKSIG = 0xac;
 export const OP_RETURN = 0x6a;
+export const OP_CHECKMULTISIG = 0xae;
@@ -84,6 +84,34 @@ export class AppClient {
     return response.toString("ascii");
   }
 
+  /**
+   * Registers a wallet policy, after the user approved it on the device.
+   * The returned HMAC proves the registration when later using the policy.
+   *
+   * @returns the wallet id and its HMAC
+   */
+  async registerWallet(walletPolicy: WalletPolicy): Promise<[Buffer, Buffer]> {
+    const clientInterpreter = new ClientCommandInterpreter(() => {});
+    clientInterpreter.addKnownList(
+      walletPolicy.keys.map((k) => Buffer.from(k, "ascii"))
+    );
+    const serializedWalletPolicy = walletPolicy.serialize();
+    clientInterpreter.addKnownPreimage(serializedWalletPolicy);
+
+    const response = await this.makeRequest(
+      BitcoinIns.REGISTER_WALLET,
+      Buffer.concat([
+        createVarint(serializedWalletPolicy.length),
+        serializedWalletPolicy,
+      ]),
+      clientInterpreter
+    );
+    if (response.length != 64) {
+      throw new Error("Invalid response length: " + response.length);
+    }
+    return [response.slice(0, 32), response.slice(32, 64)];
+  }
+
   async getWalletAddress(
     walletPolicy: WalletPolicy,
     walletHMAC: Buffer | null,
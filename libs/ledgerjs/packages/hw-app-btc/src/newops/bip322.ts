@@ -0,0 +1,63 @@
+import { crypto } from "bitcoinjs-lib";
+import { BufferWriter } from "../buffertools";
+import { OP_RETURN } from "../constants";
+import { PsbtV2 } from "./psbtv2";
+
+/**
+ * The two BIP322 signature formats. A "simple" signature is the witness
+ * stack of the virtual to_sign transaction, which is enough for segwit
+ * addresses. A "full" signature is the whole to_sign transaction, which is
+ * needed for legacy addresses.
+ * https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki
+ */
+export type BIP322Format = "simple" | "full";
+
+/**
+ * hash_tag(message) = SHA256(SHA256(tag) || SHA256(tag) || message) with the
+ * "BIP0322-signed-message" tag
+ */
+export function bip322MessageHash(message: Buffer): Buffer {
+  const tag = crypto.sha256(Buffer.from("BIP0322-signed-message", "utf-8"));
+  return crypto.sha256(Buffer.concat([tag, tag, message]));
+}
+
+/**
+ * Serializes the virtual to_spend transaction, which commits to the message
+ * and pays to the address that signs it (the message challenge).
+ */
+export function bip322ToSpend(message: Buffer, scriptPubKey: Buffer): Buffer {
+  const scriptSig = Buffer.concat([
+    Buffer.from([0x00, 0x20]), // OP_0 PUSH32
+    bip322MessageHash(message),
+  ]);
+  const tx = new BufferWriter();
+  tx.writeUInt32(0); // version
+  tx.writeVarInt(1);
+  tx.writeSlice(Buffer.alloc(32, 0));
+  tx.writeUInt32(0xffffffff);
+  tx.writeVarSlice(scriptSig);
+  tx.writeUInt32(0); // sequence
+  tx.writeVarInt(1);
+  tx.writeUInt64(0);
+  tx.writeVarSlice(scriptPubKey);
+  tx.writeUInt32(0); // locktime
+  return tx.buffer();
+}
+
+/**
+ * Populates the global fields, the input and the output of the virtual
+ * to_sign transaction which spends the to_spend transaction. The input
+ * specific fields (utxo and derivation) are left to the account type.
+ */
+export function bip322ToSignPsbt(psbt: PsbtV2, toSpend: Buffer): void {
+  psbt.setGlobalPsbtVersion(2);
+  psbt.setGlobalTxVersion(0);
+  psbt.setGlobalFallbackLocktime(0);
+  psbt.setGlobalInputCount(1);
+  psbt.setGlobalOutputCount(1);
+  psbt.setInputPreviousTxId(0, crypto.hash256(toSpend));
+  psbt.setInputOutputIndex(0, 0);
+  psbt.setInputSequence(0, 0);
+  psbt.setOutputAmount(0, 0);
+  psbt.setOutputScript(0, Buffer.from([OP_RETURN]));
+}
@@ -16,16 +16,21 @@ export type DefaultDescriptorTemplate =
  * a serialized BIP32 extended public key with some added derivation path
  * information. This is documented at
  * https://github.com/LedgerHQ/app-bitcoin-new/blob/master/doc/wallet.md
+ *
+ * Default descriptor templates have a single key and no name. Other
+ * policies, such as multisig ones, have a name and must be registered on
+ * the device before use, see AppClient.registerWallet.
  */
 export class WalletPolicy {
   descriptorTemplate: string;
   keys: string[];
-  /**
-   * For now, we only support default descriptor templates.
-   */
-  constructor(descriptorTemplate: DefaultDescriptorTemplate, key: string) {
+  name: string;
+  constructor(descriptorTemplate: DefaultDescriptorTemplate, key: string);
+  constructor(descriptorTemplate: string, keys: string[], name: string);
+  constructor(descriptorTemplate: string, keys: string | string[], name = "") {
     this.descriptorTemplate = descriptorTemplate;
-    this.keys = [key];
+    this.keys = typeof keys === "string" ? [keys] : keys;
+    this.name = name;
   }
 
   getWalletId(): Buffer {
@@ -41,13 +46,26 @@ export class WalletPolicy {
 
     const buf = new BufferWriter();
     buf.writeUInt8(0x01); // wallet type (policy map)
-    buf.writeUInt8(0); // length of wallet name (empty string for default wallets)
+    // wallet name (empty string for default wallets)
+    buf.writeVarSlice(Buffer.from(this.name, "ascii"));
     buf.writeVarSlice(Buffer.from(this.descriptorTemplate, "ascii"));
     buf.writeVarInt(this.keys.length), buf.writeSlice(m.getRoot());
     return buf.buffer();
   }
 }
 
+/**
+ * Descriptor template of a p2wsh multisig where the public keys are sorted,
+ * e.g. wsh(sortedmulti(2,@0,@1,@2))
+ */
+export function sortedMultisigTemplate(
+  threshold: number,
+  keyCount: number
+): string {
+  const keys = Array.from({ length: keyCount }, (_, i) => `@${i}`);
+  return `wsh(sortedmulti(${threshold},${keys.join(",")}))`;
+}
+
 export function createKey(
   masterFingerprint: Buffer,
   path: number[],
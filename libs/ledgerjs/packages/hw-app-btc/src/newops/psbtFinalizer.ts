@@ -1,4 +1,6 @@
+import { script as bscript } from "bitcoinjs-lib";
 import { BufferWriter } from "../buffertools";
+import { OP_CHECKMULTISIG } from "../constants";
 import { psbtIn, PsbtV2 } from "./psbtv2";
 
 /**
@@ -12,6 +14,9 @@ import { psbtIn, PsbtV2 } from "./psbtv2";
  * fields that aren't useful anymore, partial signatures, redeem script and
  * derivation paths.
  *
+ * Inputs spending a p2wsh multisig, the ones with a witness script, need as
+ * many partial signatures as the threshold of the script.
+ *
  * @param psbt The psbt with all signatures added as partial sigs, either
  * through PSBT_IN_PARTIAL_SIG or PSBT_IN_TAP_KEY_SIG
  */
@@ -19,6 +24,12 @@ export function finalize(psbt: PsbtV2): void {
   // First check that each input has a signature
   const inputCount = psbt.getGlobalInputCount();
   for (let i = 0; i < inputCount; i++) {
+    const witnessScript = psbt.getInputWitnessScript(i);
+    if (witnessScript) {
+      finalizeMultisigInput(psbt, i, witnessScript);
+      clearFinalizedInput(psbt, i);
+      continue;
+    }
     const legacyPubkeys = psbt.getInputKeyDatas(i, psbtIn.PARTIAL_SIG);
     const taprootSig = psbt.getInputTapKeySig(i);
     if (legacyPubkeys.length == 0 && !taprootSig) {
@@ -85,6 +96,67 @@ export function finalize(psbt: PsbtV2): void {
   }
 }
 
+/**
+ * Sets the witness of a p2wsh input spending a multisig script:
+ * the empty element expected by OP_CHECKMULTISIG, the signatures in the order
+ * of their public keys in the script, and the script itself.
+ */
+function finalizeMultisigInput(
+  psbt: PsbtV2,
+  inputIndex: number,
+  witnessScript: Buffer
+) {
+  const { threshold, pubkeys } = decodeMultisigScript(witnessScript);
+  const signatures: Buffer[] = [];
+  for (const pubkey of pubkeys) {
+    const signature = psbt.getInputPartialSig(inputIndex, pubkey);
+    if (signature && signatures.length < threshold) {
+      signatures.push(signature);
+    }
+  }
+  if (signatures.length < threshold) {
+    throw Error(
+      `Expected ${threshold} signatures for input ${inputIndex}, got ${signatures.length}`
+    );
+  }
+  const witnessBuf = new BufferWriter();
+  witnessBuf.writeVarInt(signatures.length + 2);
+  witnessBuf.writeVarInt(0);
+  signatures.forEach((signature) => witnessBuf.writeVarSlice(signature));
+  witnessBuf.writeVarSlice(witnessScript);
+  psbt.setInputFinalScriptwitness(inputIndex, witnessBuf.buffer());
+}
+
+/**
+ * Decodes a "OP_m <pubkey>... OP_n OP_CHECKMULTISIG" script
+ */
+export function decodeMultisigScript(script: Buffer): {
+  threshold: number;
+  pubkeys: Buffer[];
+} {
+  const chunks = bscript.decompile(script);
+  const smallInt = (chunk: number | Buffer) =>
+    typeof chunk === "number" && chunk >= 0x51 && chunk <= 0x60
+      ? chunk - 0x50
+      : 0;
+  if (!chunks || chunks.length < 4) {
+    throw Error("Unsupported witness script " + script.toString("hex"));
+  }
+  const threshold = smallInt(chunks[0]);
+  const count = smallInt(chunks[chunks.length - 2]);
+  const pubkeys = chunks.slice(1, -2);
+  if (
+    chunks[chunks.length - 1] !== OP_CHECKMULTISIG ||
+    !threshold ||
+    threshold > count ||
+    pubkeys.length !== count ||
+    !pubkeys.every((k) => Buffer.isBuffer(k) && k.length === 33)
+  ) {
+    throw Error("Unsupported witness script " + script.toString("hex"));
+  }
+  return { threshold, pubkeys: pubkeys as Buffer[] };
+}
+
 /**
  * Deletes fields that are no longer neccesary from the psbt.
  *
@@ -96,6 +168,7 @@ function clearFinalizedInput(psbt: PsbtV2, inputIndex: number) {
   const keyTypes = [
     psbtIn.BIP32_DERIVATION,
     psbtIn.PARTIAL_SIG,
+    psbtIn.WITNESS_SCRIPT,
     psbtIn.TAP_BIP32_DERIVATION,
     psbtIn.TAP_KEY_SIG,
   ];
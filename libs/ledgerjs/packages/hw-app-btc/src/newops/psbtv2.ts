@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 /* eslint-disable @typescript-eslint/explicit-module-boundary-types */
+import { Transaction } from "bitcoinjs-lib";
 import {
   BufferReader,
   BufferWriter,
@@ -8,6 +9,7 @@ import {
 } from "../buffertools";
 
 export enum psbtGlobal {
+  UNSIGNED_TX = 0x00,
   TX_VERSION = 0x02,
   FALLBACK_LOCKTIME = 0x03,
   INPUT_COUNT = 0x04,
@@ -21,6 +23,7 @@ export enum psbtIn {
   PARTIAL_SIG = 0x02,
   SIGHASH_TYPE = 0x03,
   REDEEM_SCRIPT = 0x04,
+  WITNESS_SCRIPT = 0x05,
   BIP32_DERIVATION = 0x06,
   FINAL_SCRIPTSIG = 0x07,
   FINAL_SCRIPTWITNESS = 0x08,
@@ -32,6 +35,7 @@ export enum psbtIn {
 }
 export enum psbtOut {
   REDEEM_SCRIPT = 0x00,
+  WITNESS_SCRIPT = 0x01,
   BIP_32_DERIVATION = 0x02,
   AMOUNT = 0x03,
   SCRIPT = 0x04,
@@ -53,9 +57,12 @@ export class NoSuchEntry extends Error {}
  * broadcast.
  *
  * This implementation is limited to what's needed in ledgerjs to carry out its
- * duties, which means that support for features like multisig or taproot script
- * path spending are not implemented. Specifically, it supports p2pkh,
- * p2wpkhWrappedInP2sh, p2wpkh and p2tr key path spending.
+ * duties, which means that support for features like taproot script path
+ * spending are not implemented. Specifically, it supports p2pkh,
+ * p2wpkhWrappedInP2sh, p2wpkh, p2tr key path spending and p2wsh multisig.
+ *
+ * Version 0 psbts, BIP174, are converted when deserialized and can be
+ * serialized back with serializeV0, for tools that don't support version 2.
  *
  * This class is made purposefully dumb, so it's easy to add support for
  * complemantary fields as needed in the future.
@@ -148,6 +155,12 @@ export class PsbtV2 {
   getInputRedeemScript(inputIndex: number): Buffer | undefined {
     return this.getInputOptional(inputIndex, psbtIn.REDEEM_SCRIPT, b());
   }
+  setInputWitnessScript(inputIndex: number, witnessScript: Buffer) {
+    this.setInput(inputIndex, psbtIn.WITNESS_SCRIPT, b(), witnessScript);
+  }
+  getInputWitnessScript(inputIndex: number): Buffer | undefined {
+    return this.getInputOptional(inputIndex, psbtIn.WITNESS_SCRIPT, b());
+  }
   setInputBip32Derivation(
     inputIndex: number,
     pubkey: Buffer,
@@ -244,6 +257,12 @@ export class PsbtV2 {
   getOutputRedeemScript(outputIndex: number): Buffer {
     return this.getOutput(outputIndex, psbtOut.REDEEM_SCRIPT, b());
   }
+  setOutputWitnessScript(outputIndex: number, witnessScript: Buffer) {
+    this.setOutput(outputIndex, psbtOut.WITNESS_SCRIPT, b(), witnessScript);
+  }
+  getOutputWitnessScript(outputIndex: number): Buffer {
+    return this.getOutput(outputIndex, psbtOut.WITNESS_SCRIPT, b());
+  }
   setOutputBip32Derivation(
     outputIndex: number,
     pubkey: Buffer,
@@ -323,6 +342,40 @@ export class PsbtV2 {
   copyMap(from: Map<string, Buffer>, to: Map<string, Buffer>) {
     from.forEach((v, k) => to.set(k, Buffer.from(v)));
   }
+  /**
+   * This implements the "Combiner" role of BIP174: the entries of other, for
+   * instance the partial signatures of another cosigner, are merged into this
+   * psbt. Both psbts must describe the same transaction.
+   */
+  combine(other: PsbtV2) {
+    const inputCount = this.getGlobalInputCount();
+    const outputCount = this.getGlobalOutputCount();
+    if (
+      inputCount != other.getGlobalInputCount() ||
+      outputCount != other.getGlobalOutputCount()
+    ) {
+      throw new Error("Can't combine psbts of different transactions");
+    }
+    for (let i = 0; i < inputCount; i++) {
+      if (
+        !this.getInputPreviousTxid(i).equals(other.getInputPreviousTxid(i)) ||
+        this.getInputOutputIndex(i) != other.getInputOutputIndex(i)
+      ) {
+        throw new Error(`Can't combine psbts spending different input ${i}`);
+      }
+    }
+    for (let i = 0; i < outputCount; i++) {
+      if (
+        !this.getOutputScript(i).equals(other.getOutputScript(i)) ||
+        this.getOutputAmount(i) != other.getOutputAmount(i)
+      ) {
+        throw new Error(`Can't combine psbts with different output ${i}`);
+      }
+    }
+    this.copyMap(other.globalMap, this.globalMap);
+    other.inputMaps.forEach((m, i) => this.copyMap(m, this.inputMaps[i]));
+    other.outputMaps.forEach((m, i) => this.copyMap(m, this.outputMaps[i]));
+  }
   serialize(): Buffer {
     const buf = new BufferWriter();
     buf.writeSlice(Buffer.from([0x70, 0x73, 0x62, 0x74, 0xff]));
@@ -341,14 +394,99 @@ export class PsbtV2 {
       throw new Error("Invalid magic bytes");
     }
     while (this.readKeyPair(this.globalMap, buf));
+    const unsignedTx = this.getGlobalOptional(psbtGlobal.UNSIGNED_TX);
+    if (unsignedTx) {
+      this.globalMap.delete(new Key(psbtGlobal.UNSIGNED_TX, b()).toString());
+    }
+    const tx = unsignedTx && Transaction.fromBuffer(unsignedTx);
+    if (tx) {
+      this.setGlobalPsbtVersion(2);
+      this.setGlobalTxVersion(tx.version);
+      this.setGlobalFallbackLocktime(tx.locktime);
+      this.setGlobalInputCount(tx.ins.length);
+      this.setGlobalOutputCount(tx.outs.length);
+    }
     for (let i = 0; i < this.getGlobalInputCount(); i++) {
       this.inputMaps[i] = new Map();
       while (this.readKeyPair(this.inputMaps[i], buf));
+      if (tx) {
+        this.setInputPreviousTxId(i, tx.ins[i].hash);
+        this.setInputOutputIndex(i, tx.ins[i].index);
+        this.setInputSequence(i, tx.ins[i].sequence);
+      }
     }
     for (let i = 0; i < this.getGlobalOutputCount(); i++) {
       this.outputMaps[i] = new Map();
       while (this.readKeyPair(this.outputMaps[i], buf));
+      if (tx) {
+        this.setOutputAmount(i, tx.outs[i].value);
+        this.setOutputScript(i, tx.outs[i].script);
+      }
+    }
+  }
+  /**
+   * Serialize as a version 0 psbt, BIP174: the fields of the transaction are
+   * moved into its global unsigned transaction.
+   */
+  serializeV0(): Buffer {
+    const tx = new Transaction();
+    tx.version = this.getGlobalTxVersion();
+    tx.locktime = this.getGlobalFallbackLocktime() ?? 0;
+    for (let i = 0; i < this.getGlobalInputCount(); i++) {
+      tx.addInput(
+        this.getInputPreviousTxid(i),
+        this.getInputOutputIndex(i),
+        this.getInputSequence(i)
+      );
+    }
+    for (let i = 0; i < this.getGlobalOutputCount(); i++) {
+      tx.addOutput(this.getOutputScript(i), this.getOutputAmount(i));
+    }
+    const withoutKeyTypes = (map: Map<string, Buffer>, keyTypes: KeyType[]) => {
+      const result = new Map<string, Buffer>();
+      map.forEach((v, k) => {
+        if (!this.isKeyType(k, keyTypes)) result.set(k, v);
+      });
+      return result;
+    };
+    const globalMap = withoutKeyTypes(this.globalMap, [
+      psbtGlobal.TX_VERSION,
+      psbtGlobal.FALLBACK_LOCKTIME,
+      psbtGlobal.INPUT_COUNT,
+      psbtGlobal.OUTPUT_COUNT,
+      psbtGlobal.TX_MODIFIABLE,
+      psbtGlobal.VERSION,
+    ]);
+    set(globalMap, psbtGlobal.UNSIGNED_TX, b(), tx.toBuffer());
+    const buf = new BufferWriter();
+    buf.writeSlice(PSBT_MAGIC_BYTES);
+    serializeMap(buf, globalMap);
+    this.inputMaps.forEach((map) => {
+      serializeMap(
+        buf,
+        withoutKeyTypes(map, [
+          psbtIn.PREVIOUS_TXID,
+          psbtIn.OUTPUT_INDEX,
+          psbtIn.SEQUENCE,
+        ])
+      );
+    });
+    this.outputMaps.forEach((map) => {
+      serializeMap(buf, withoutKeyTypes(map, [psbtOut.AMOUNT, psbtOut.SCRIPT]));
+    });
+    return buf.buffer();
+  }
+  /**
+   * The version of a serialized psbt, 0 for BIP174 ones which carry no version
+   */
+  static versionOf(psbt: Buffer): number {
+    const buf = new BufferReader(psbt);
+    if (!buf.readSlice(5).equals(PSBT_MAGIC_BYTES)) {
+      throw new Error("Invalid magic bytes");
     }
+    const result = new PsbtV2();
+    while (result.readKeyPair(result.globalMap, buf));
+    return result.getGlobalOptional(psbtGlobal.VERSION)?.readUInt32LE(0) ?? 0;
   }
   private readKeyPair(map: Map<string, Buffer>, buf: BufferReader): boolean {
     const keyLen = buf.readVarInt();
@@ -540,11 +678,10 @@ function createKey(buf: Buffer): Key {
   return new Key(buf.readUInt8(0), buf.slice(1));
 }
 function serializeMap(buf: BufferWriter, map: Map<string, Buffer>) {
-  for (const k in map.keys) {
-    const value = map.get(k)!;
+  map.forEach((value, k) => {
     const keyPair = new KeyPair(createKey(Buffer.from(k, "hex")), value);
     keyPair.serialize(buf);
-  }
+  });
   buf.writeUInt8(0);
 }
 
@@ -0,0 +1,112 @@
+import { openTransportReplayer, RecordStore } from "@ledgerhq/hw-transport-mocker";
+import { TransportReplayer } from "@ledgerhq/hw-transport-mocker/lib/openTransportReplayer";
+import { crypto } from "bitcoinjs-lib";
+import BtcNew from "../../src/BtcNew";
+import { bip322MessageHash, bip322ToSpend } from "../../src/newops/bip322";
+import { PsbtV2 } from "../../src/newops/psbtv2";
+import { WalletPolicy } from "../../src/newops/policy";
+import { pathArrayToString } from "../../src/bip32";
+import { creatDummyXpub, masterFingerprint, TestingClient } from "./integrationtools";
+
+// Test vectors of BIP322, for the address bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l
+const scriptPubKey = Buffer.from("00142b05d564e6a7a33c087f16e0f730d1440123799d", "hex");
+const pubkey = Buffer.from("02c7f12003196442943d8588e01aee840423cc54fc1521526a3b85c2b0cbd58872", "hex");
+const helloWorldSignature =
+  "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=";
+
+const txid = (tx: Buffer) => Buffer.from(crypto.hash256(tx)).reverse().toString("hex");
+
+test("message hash", () => {
+  expect(bip322MessageHash(Buffer.from("")).toString("hex")).toEqual(
+    "c90c269c4f8fcbe6880f72a721ddfbf1914268a794cbb21cfafee13770ae19f1"
+  );
+  expect(bip322MessageHash(Buffer.from("Hello World")).toString("hex")).toEqual(
+    "f0eb03b1a75ac6d9847f55c624a99169b5dccba2a31f5b23bea77ba270de0a7a"
+  );
+});
+
+test("to_spend transaction", () => {
+  expect(txid(bip322ToSpend(Buffer.from(""), scriptPubKey))).toEqual(
+    "c5680aa69bb8d860bf82d4e9cd3504b55dde018de765a91bb566283c545a99a7"
+  );
+  expect(txid(bip322ToSpend(Buffer.from("Hello World"), scriptPubKey))).toEqual(
+    "b79d196740ad5217771c1098fc4a4b51e0535c32236c71f1ea4d61a2d603352b"
+  );
+});
+
+test("signMessageBIP322 simple", async () => {
+  const [client, transport] = await createClient();
+  const btc = new BtcNew(client);
+  const signature = await btc.signMessageBIP322({
+    path: "m/84'/0'/0'/0/0",
+    messageHex: Buffer.from("Hello World").toString("hex"),
+    format: "bech32",
+  });
+  expect(signature).toEqual(helloWorldSignature);
+  expect(client.signedPsbt?.getGlobalTxVersion()).toEqual(0);
+  expect(client.signedPsbt?.getOutputScript(0).toString("hex")).toEqual("6a");
+  await transport.close();
+});
+
+test("signMessageBIP322 full", async () => {
+  const [client, transport] = await createClient();
+  const btc = new BtcNew(client);
+  const signature = await btc.signMessageBIP322({
+    path: "m/84'/0'/0'/0/0",
+    messageHex: Buffer.from("Hello World").toString("hex"),
+    format: "bech32",
+    bip322Format: "full",
+  });
+  const toSign = Buffer.from(signature, "base64");
+  const witnessLength = Buffer.from(helloWorldSignature, "base64").length;
+  const witness = toSign.slice(-4 - witnessLength, -4);
+  expect(witness.toString("base64")).toEqual(helloWorldSignature);
+  // The txid doesn't commit to the segwit marker and the witness
+  const strippedTx = Buffer.concat([
+    toSign.slice(0, 4),
+    toSign.slice(6, -4 - witnessLength),
+    toSign.slice(-4),
+  ]);
+  expect(txid(strippedTx)).toEqual(
+    "88737ae86f2077145f93cc4b153ae9a1cb8d56afa511988c149c5c8c9d93bddf"
+  );
+  await transport.close();
+});
+
+test("signMessageBIP322 rejects simple signatures for legacy addresses", async () => {
+  const [client, transport] = await createClient();
+  const btc = new BtcNew(client);
+  await expect(
+    btc.signMessageBIP322({
+      path: "m/44'/0'/0'/0/0",
+      messageHex: "",
+      format: "legacy",
+    })
+  ).rejects.toThrow();
+  await transport.close();
+});
+
+async function createClient(): Promise<[BIP322Client, TransportReplayer]> {
+  const transport = await openTransportReplayer(RecordStore.fromString(""));
+  return [new BIP322Client(transport), transport];
+}
+
+class BIP322Client extends TestingClient {
+  signedPsbt: PsbtV2 | undefined;
+  async getExtendedPubkey(_display: boolean, pathElements: number[]): Promise<string> {
+    const path = pathArrayToString(pathElements);
+    if (path == "m/84'/0'/0'/0/0" || path == "m/44'/0'/0'/0/0") {
+      return creatDummyXpub(pubkey);
+    }
+    return "tpubDCwYjpDhUdPGP5rS3wgNg13mTrrjBuG8V9VpWbyptX6TRPbNoZVXsoVUSkCjmQ8jJycjuDKBb9eataSymXakTTaGifxR6kmVsfFehH1ZgJT";
+  }
+  async getMasterFingerprint(): Promise<Buffer> {
+    return masterFingerprint;
+  }
+  async signPsbt(psbt: PsbtV2, _walletPolicy: WalletPolicy, _walletHMAC: Buffer | null): Promise<Map<number, Buffer>> {
+    this.signedPsbt = psbt;
+    // The witness of the test vector is [signature, pubkey]
+    const witness = Buffer.from(helloWorldSignature, "base64");
+    return new Map([[0, witness.slice(2, 2 + witness[1])]]);
+  }
+}
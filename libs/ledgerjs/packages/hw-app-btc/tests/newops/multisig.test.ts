@@ -0,0 +1,105 @@
+import { ECPair, payments, script, Transaction } from "bitcoinjs-lib";
+import { decodeMultisigScript, finalize } from "../../src/newops/psbtFinalizer";
+import { extract } from "../../src/newops/psbtExtractor";
+import { PsbtV2 } from "../../src/newops/psbtv2";
+import { sortedMultisigTemplate, WalletPolicy } from "../../src/newops/policy";
+
+// 2-of-3 p2wsh sortedmulti
+const keys = [1, 2, 3].map((i) => ECPair.fromPrivateKey(Buffer.alloc(32, i)));
+const pubkeys = keys.map((k) => k.publicKey).sort(Buffer.compare);
+const witnessScript = payments.p2ms({ m: 2, pubkeys }).output as Buffer;
+const scriptPubKey = payments.p2wsh({ redeem: { output: witnessScript } }).output as Buffer;
+const prevTxid = Buffer.alloc(32, 0x11);
+const amount = 100000;
+
+function amountBuffer(value: number): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeUInt32LE(value, 0);
+  return buf;
+}
+
+function unsignedPsbt(): PsbtV2 {
+  const psbt = new PsbtV2();
+  psbt.setGlobalPsbtVersion(2);
+  psbt.setGlobalTxVersion(2);
+  psbt.setGlobalFallbackLocktime(0);
+  psbt.setGlobalInputCount(1);
+  psbt.setGlobalOutputCount(1);
+  psbt.setInputPreviousTxId(0, prevTxid);
+  psbt.setInputOutputIndex(0, 0);
+  psbt.setInputSequence(0, 0xfffffffd);
+  psbt.setInputWitnessUtxo(0, amountBuffer(amount), scriptPubKey);
+  psbt.setInputWitnessScript(0, witnessScript);
+  keys.forEach((k, i) =>
+    psbt.setInputBip32Derivation(0, k.publicKey, Buffer.alloc(4, i), [0x80000030, 0x80000000, 0x80000000, 0x80000002, 0, 0])
+  );
+  psbt.setOutputAmount(0, amount - 1000);
+  psbt.setOutputScript(0, scriptPubKey);
+  return psbt;
+}
+
+function sighash(): Buffer {
+  const tx = new Transaction();
+  tx.version = 2;
+  tx.addInput(prevTxid, 0, 0xfffffffd);
+  tx.addOutput(scriptPubKey, amount - 1000);
+  return tx.hashForWitnessV0(0, witnessScript, amount, Transaction.SIGHASH_ALL);
+}
+
+function signedBy(key: ECPair.ECPairInterface): PsbtV2 {
+  const psbt = unsignedPsbt();
+  psbt.setInputPartialSig(0, key.publicKey, script.signature.encode(key.sign(sighash()), Transaction.SIGHASH_ALL));
+  return psbt;
+}
+
+test("decodeMultisigScript", () => {
+  expect(decodeMultisigScript(witnessScript)).toEqual({ threshold: 2, pubkeys });
+  expect(() => decodeMultisigScript(scriptPubKey)).toThrow();
+});
+
+test("combine the signatures of two cosigners and finalize", () => {
+  const psbt = signedBy(keys[2]);
+  psbt.combine(signedBy(keys[0]));
+  finalize(psbt);
+  const tx = Transaction.fromBuffer(extract(psbt));
+  const [dummy, sig1, sig2, lastItem] = tx.ins[0].witness;
+  expect(tx.ins[0].witness.length).toEqual(4);
+  expect(dummy.length).toEqual(0);
+  expect(lastItem).toEqual(witnessScript);
+  // signatures are in the order of the public keys in the script
+  const signers = [sig1, sig2].map((sig) => {
+    const { signature } = script.signature.decode(sig);
+    return pubkeys.findIndex((pubkey) => ECPair.fromPublicKey(pubkey).verify(sighash(), signature));
+  });
+  expect(signers[0]).toBeGreaterThanOrEqual(0);
+  expect(signers[1]).toBeGreaterThan(signers[0]);
+  expect(psbt.getInputKeyDatas(0, 0x02)).toEqual([]);
+});
+
+test("serialize and deserialize a signed psbt", () => {
+  const psbt = signedBy(keys[0]);
+  const copy = new PsbtV2();
+  copy.deserialize(psbt.serialize());
+  expect(copy.serialize()).toEqual(psbt.serialize());
+  expect(copy.getInputWitnessScript(0)).toEqual(witnessScript);
+  expect(copy.getInputPartialSig(0, keys[0].publicKey)).toEqual(psbt.getInputPartialSig(0, keys[0].publicKey));
+});
+
+test("finalize requires enough signatures", () => {
+  expect(() => finalize(signedBy(keys[1]))).toThrow("Expected 2 signatures for input 0, got 1");
+});
+
+test("combine rejects another transaction", () => {
+  const other = unsignedPsbt();
+  other.setOutputAmount(0, amount - 2000);
+  expect(() => signedBy(keys[0]).combine(other)).toThrow();
+});
+
+test("multisig wallet policy", () => {
+  const template = sortedMultisigTemplate(2, 3);
+  expect(template).toEqual("wsh(sortedmulti(2,@0,@1,@2))");
+  const policy = new WalletPolicy(template, ["a", "b", "c"], "Cold storage");
+  const serialized = policy.serialize();
+  expect(serialized[1]).toEqual("Cold storage".length);
+  expect(serialized.slice(2, 2 + 12).toString("ascii")).toEqual("Cold storage");
+});
@@ -0,0 +1,63 @@
+import { ECPair, payments, Psbt, Transaction } from "bitcoinjs-lib";
+import { PsbtV2 } from "../../src/newops/psbtv2";
+
+const key = ECPair.fromPrivateKey(Buffer.alloc(32, 1));
+const { output: scriptPubKey } = payments.p2wpkh({ pubkey: key.publicKey });
+
+function psbtV0(): Psbt {
+  const psbt = new Psbt();
+  psbt.setVersion(2);
+  psbt.setLocktime(700000);
+  psbt.addInput({
+    hash: Buffer.alloc(32, 0x11),
+    index: 1,
+    sequence: 0xfffffffd,
+    witnessUtxo: { script: scriptPubKey as Buffer, value: 100000 },
+    bip32Derivation: [
+      {
+        masterFingerprint: Buffer.from("f5acc2fd", "hex"),
+        path: "m/84'/0'/0'/0/0",
+        pubkey: key.publicKey,
+      },
+    ],
+  });
+  psbt.addOutput({ script: scriptPubKey as Buffer, value: 99000 });
+  return psbt;
+}
+
+test("versionOf", () => {
+  const v2 = new PsbtV2();
+  v2.setGlobalPsbtVersion(2);
+  v2.setGlobalInputCount(0);
+  v2.setGlobalOutputCount(0);
+  expect(PsbtV2.versionOf(psbtV0().toBuffer())).toEqual(0);
+  expect(PsbtV2.versionOf(v2.serialize())).toEqual(2);
+});
+
+test("deserialize a version 0 psbt", () => {
+  const psbt = new PsbtV2();
+  psbt.deserialize(psbtV0().toBuffer());
+  expect(psbt.getGlobalPsbtVersion()).toEqual(2);
+  expect(psbt.getGlobalTxVersion()).toEqual(2);
+  expect(psbt.getGlobalFallbackLocktime()).toEqual(700000);
+  expect(psbt.getGlobalInputCount()).toEqual(1);
+  expect(psbt.getInputPreviousTxid(0)).toEqual(Buffer.alloc(32, 0x11));
+  expect(psbt.getInputOutputIndex(0)).toEqual(1);
+  expect(psbt.getInputSequence(0)).toEqual(0xfffffffd);
+  expect(psbt.getInputWitnessUtxo(0)?.scriptPubKey).toEqual(scriptPubKey);
+  expect(psbt.getInputBip32Derivation(0, key.publicKey)?.path).toEqual([
+    0x80000054, 0x80000000, 0x80000000, 0, 0,
+  ]);
+  expect(psbt.getOutputAmount(0)).toEqual(99000);
+  expect(psbt.getOutputScript(0)).toEqual(scriptPubKey);
+});
+
+test("serializeV0 is the inverse of deserialize", () => {
+  const original = psbtV0();
+  const psbt = new PsbtV2();
+  psbt.deserialize(original.toBuffer());
+  const v0 = Psbt.fromBuffer(psbt.serializeV0());
+  expect(v0.toBase64()).toEqual(original.toBase64());
+  const tx = Transaction.fromBuffer(v0.data.getTransaction());
+  expect(tx.locktime).toEqual(700000);
+});
@@ -2,6 +2,7 @@ export * from "./account";
 export * from "./bridge";
 export * from "./derivation";
 export * from "./feature";
+export * from "./label";
 export * from "./manager";
 export * from "./languages";
 export * from "./nft";
@@ -0,0 +1,20 @@
+/**
+ * Kind of record a label is attached to, as defined by BIP-329
+ */
+export type LabelType = "tx" | "addr" | "pubkey" | "input" | "output" | "xpub";
+
+/**
+ * A user label attached to a transaction, an address, an output or an xpub
+ * of an account. The fields follow the BIP-329 export format, so a label is
+ * its own raw version.
+ */
+export type Label = {
+  type: LabelType;
+  // txid for "tx", address for "addr", "txid:vout" for "input" and "output"...
+  ref: string;
+  label: string;
+  // key origin of the descriptor of the wallet the record belongs to
+  origin?: string;
+  // only relevant for "output", false to prevent the output from being spent
+  spendable?: boolean;
+};
@@ -97,6 +97,10 @@ export type Operation = {
   extra: Record<string, any>;
   // Has the transaction actually failed? (some blockchain like ethereum will have failed tx appearing)
   hasFailed?: boolean;
+  // hash of the pending operation, with the same sequence number, this one replaces (speed up or cancel)
+  replaces?: string;
+  // hash of the operation that confirmed instead of this pending one
+  replacedBy?: string;
   // in context of accounts that can have tokens, an operation can contains itself operations
   // these are not in raw at all because they are meant to be rebuilt from the references
   subOperations?: Operation[];
@@ -123,6 +127,8 @@ export type OperationRaw = {
   transactionSequenceNumber?: number;
   accountId: string;
   hasFailed?: boolean;
+  replaces?: string;
+  replacedBy?: string;
   // --------------------------------------------- properties related to NFTs
   standard?: NFTStandard | string;
   operator?: string;
@@ -1,4 +1,10 @@
-import type { AccountLike, AccountLikeArray, GranularityId } from "./account";
+import type { BigNumber } from "bignumber.js";
+import type {
+  Account,
+  AccountLike,
+  AccountLikeArray,
+  GranularityId,
+} from "./account";
 import type {
   CryptoCurrency,
   TokenCurrency,
@@ -79,6 +85,50 @@ export type Portfolio = {
   countervalueChange: ValueChange; // calculates the ROI. value in the countervalue unit.
 };
 
+/**
+ * The performance over a range, telling the market movement from the
+ * external flows (the IN and OUT operations). Values are in the
+ * countervalue unit. Returns are ratios, e.g. 0.1 for +10%: they are negative
+ * for a loss and can exceed 1. They are null when not meaningful.
+ */
+export type PortfolioPerformance = {
+  // compounds the returns between each flow, independently of their amounts
+  timeWeightedReturn: number | null;
+  // weights the returns with the money held, by Modified Dietz
+  moneyWeightedReturn: number | null;
+  // what came in minus what went out
+  netFlows: number;
+  // the change of value that was not a flow
+  marketChange: number;
+};
+
+/**
+ * What an account held at the date of a snapshot
+ */
+export type PortfolioSnapshotPosition = {
+  account: AccountLike;
+  parentAccount: Account | null | undefined;
+  currency: CryptoCurrency | TokenCurrency;
+  // in the account currency
+  amount: BigNumber;
+  // the part of the amount that was not spendable (e.g. staked), only known
+  // when the snapshot is not older than the last sync
+  lockedAmount: BigNumber | null | undefined;
+  // in the countervalue unit. not defined if there was no rate
+  countervalue: number | null | undefined;
+};
+
+/**
+ * The holdings of the accounts at a date, valued at the rates of that date
+ */
+export type PortfolioSnapshot = {
+  date: Date;
+  positions: PortfolioSnapshotPosition[];
+  // the sum of the countervalues of the positions
+  countervalue: number;
+  unavailableCurrencies: (CryptoCurrency | TokenCurrency)[];
+};
+
 /**
  *
  */
@@ -71,6 +71,15 @@ export type SignOperationEventRaw =
       type: "signed";
       signedOperation: SignedOperationRaw;
     };
+/**
+ * A name of a name service (e.g. an ENS name) and the address it resolves to
+ */
+export type RecipientDomain = {
+  // the name service, e.g. "ens"
+  registry: string;
+  domain: string;
+  address: string;
+};
 /**
  * Transaction is a generic object that holds all state for all transactions
  * there are generic fields and coin specific fields. That's why almost all fields are optionals
@@ -78,6 +87,8 @@ export type SignOperationEventRaw =
 export type TransactionCommon = {
   amount: BigNumber;
   recipient: string;
+  // the name the recipient address was resolved from, if any
+  recipientDomain?: RecipientDomain | null;
   useAllAmount?: boolean;
   subAccountId?: string | null | undefined;
   feesStrategy?: "slow" | "medium" | "fast" | "custom" | null;
@@ -89,6 +100,7 @@ export type TransactionCommon = {
 export type TransactionCommonRaw = {
   amount: string;
   recipient: string;
+  recipientDomain?: RecipientDomain | null;
   useAllAmount?: boolean;
   subAccountId?: string | null | undefined;
   feesStrategy?: "slow" | "medium" | "fast" | "custom" | null;